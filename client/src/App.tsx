@@ -14,6 +14,8 @@ import Campaigns from "@/pages/campaigns";
 import Templates from "@/pages/templates";
 import Inbox from "@/pages/inbox";
 import Automations from "@/pages/automations";
+import AutomationRuns from "@/pages/automation-runs";
+import AutomationRun from "@/pages/automation-run";
 import Analytics from "@/pages/analytics";
 import CampaignAnalytics from "@/pages/campaign-analytics";
 import Settings from "@/pages/settings";
@@ -33,6 +35,7 @@ const ROUTE_PERMISSIONS: Record<string, string> = {
   "/inbox": "inbox.view",
   "/team": "team.view",
   "/automation": "automations.view",
+  "/automation/runs": "automations.view",
   "/analytics": "analytics.view",
   "/analytics/campaign/:campaignId": "analytics.view",
   "/logs": "logs.view",
@@ -162,6 +165,18 @@ function ProtectedRoutes() {
           <Route path="/team">
             <PermissionRoute component={Team} requiredPermission="team:view" />
           </Route>
+          <Route path="/automation/runs/:executionId">
+            <PermissionRoute
+              component={AutomationRun}
+              requiredPermission="automations:view"
+            />
+          </Route>
+          <Route path="/automation/runs">
+            <PermissionRoute
+              component={AutomationRuns}
+              requiredPermission="automations:view"
+            />
+          </Route>
           <Route path="/automation">
             <PermissionRoute
               component={Automations}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/dialog";
+import { Card } from "../components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  automationId: string;
+}
+
+// Mirrors AutomationFunnel in server/services/automation-analytics.ts
+export interface OutcomeCounts {
+  completed: number;
+  failed: number;
+  timedOut: number;
+  waiting: number;
+  running: number;
+}
+
+export interface NodeFunnel {
+  nodeId: string;
+  type: string | null;
+  label: string;
+  reached: number;
+  continued: number;
+  dropOff: number;
+  dropOffRate: number;
+  stopped: OutcomeCounts;
+  answers: number;
+  averageAnswerSeconds: number | null;
+  choices: { choice: string; label: string; count: number; share: number }[];
+}
+
+export interface AutomationFunnel {
+  total: number;
+  outcomes: OutcomeCounts;
+  rates: { completion: number; failure: number; timeout: number };
+  nodes: NodeFunnel[];
+  transitions: { sourceNodeId: string; targetNodeId: string; count: number; rate: number }[];
+}
+
+export const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function formatSeconds(seconds: number | null) {
+  if (seconds === null) return "-";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 360) / 10}h`;
+}
+
+export function useAutomationFunnel(automationId: string | undefined, range: string, enabled = true) {
+  return useQuery<AutomationFunnel>({
+    queryKey: ["/api/automations", automationId, "analytics", range],
+    queryFn: () =>
+      apiRequest("GET", `/api/automations/${automationId}/analytics?${range}`).then((res) => res.json()),
+    enabled: enabled && !!automationId,
+  });
+}
+
+const RANGES = [
+  { value: "days=7", label: "Last 7 days" },
+  { value: "days=30", label: "Last 30 days" },
+  { value: "days=90", label: "Last 90 days" },
+];
+
+export function AutomationAnalyticsModal({ open, onClose, automationId }: Props) {
+  const [range, setRange] = useState("days=30");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const query = range === "custom"
+    ? new URLSearchParams({ ...(from && { startDate: from }), ...(to && { endDate: `${to}T23:59:59` }) }).toString()
+    : range;
+  const { data: funnel, isLoading } = useAutomationFunnel(automationId, query, open);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Funnel</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          <select className="border rounded-md h-8 px-2" value={range} onChange={(e) => setRange(e.target.value)}>
+            {RANGES.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+            <option value="custom">Custom range</option>
+          </select>
+          {range === "custom" && (
+            <>
+              <input type="date" className="border rounded-md h-8 px-2" value={from} onChange={(e) => setFrom(e.target.value)} />
+              <span>to</span>
+              <input type="date" className="border rounded-md h-8 px-2" value={to} onChange={(e) => setTo(e.target.value)} />
+            </>
+          )}
+        </div>
+
+        {isLoading && <div className="text-sm text-gray-500">Loading analytics...</div>}
+
+        {funnel && (
+          <div className="space-y-4 max-h-[65vh] overflow-y-auto">
+            <div className="grid grid-cols-4 gap-3">
+              <Card className="p-3">
+                <div className="text-xs text-gray-500">Runs</div>
+                <div className="text-2xl font-semibold">{funnel.total}</div>
+              </Card>
+              <Card className="p-3">
+                <div className="text-xs text-gray-500">Completed</div>
+                <div className="text-2xl font-semibold text-green-700">{percent(funnel.rates.completion)}</div>
+                <div className="text-xs text-gray-500">{funnel.outcomes.completed} runs</div>
+              </Card>
+              <Card className="p-3">
+                <div className="text-xs text-gray-500">Timed out</div>
+                <div className="text-2xl font-semibold text-amber-700">{percent(funnel.rates.timeout)}</div>
+                <div className="text-xs text-gray-500">{funnel.outcomes.timedOut} runs</div>
+              </Card>
+              <Card className="p-3">
+                <div className="text-xs text-gray-500">Failed</div>
+                <div className="text-2xl font-semibold text-red-700">{percent(funnel.rates.failure)}</div>
+                <div className="text-xs text-gray-500">{funnel.outcomes.failed} runs</div>
+              </Card>
+            </div>
+
+            {funnel.nodes.length === 0 && (
+              <div className="text-sm text-gray-500">No runs in this period.</div>
+            )}
+
+            {funnel.nodes.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-1">Step</th>
+                    <th>Reached</th>
+                    <th>Dropped off</th>
+                    <th>Waiting</th>
+                    <th>Avg. answer time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {funnel.nodes.map((node) => (
+                    <tr key={node.nodeId} className="border-b align-top">
+                      <td className="py-2">
+                        <div>{node.label}</div>
+                        <div className="text-[11px] text-gray-400 font-mono">{node.nodeId}</div>
+                        {node.choices.length > 0 && (
+                          <div className="mt-1 space-y-0.5">
+                            {node.choices.map((choice) => (
+                              <div key={choice.choice} className="flex items-center gap-2 text-xs">
+                                <div className="w-24 bg-gray-100 rounded h-2">
+                                  <div className="bg-blue-500 h-2 rounded" style={{ width: percent(choice.share) }} />
+                                </div>
+                                {choice.label} · {choice.count} ({percent(choice.share)})
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        {node.reached}
+                        <span className="text-xs text-gray-400"> {percent(funnel.total ? node.reached / funnel.total : 0)}</span>
+                      </td>
+                      <td className={node.dropOffRate > 0.25 ? "text-red-600" : ""}>
+                        {node.dropOff} <span className="text-xs">({percent(node.dropOffRate)})</span>
+                      </td>
+                      <td>{node.stopped.waiting}</td>
+                      <td>{node.answers > 0 ? formatSeconds(node.averageAnswerSeconds) : "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../components/ui/dialog";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Textarea } from "../components/ui/textarea";
+import { Badge } from "../components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, CalendarCheck, HelpCircle, Package, ShieldOff, Target } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  channelId?: string;
+  // Receives the unsaved automation, ready for the flow builder
+  onCreate: (automation: any) => void;
+}
+
+// Mirrors server/services/automation-starters.ts
+interface StarterParameter {
+  key: string;
+  label: string;
+  type: "text" | "textarea" | "url" | "template" | "user" | "list";
+  required?: boolean;
+  default?: string;
+  description?: string;
+}
+
+interface StarterFlow {
+  id: string;
+  name: string;
+  description: string;
+  category: "support" | "sales" | "scheduling" | "commerce" | "compliance";
+  parameters: StarterParameter[];
+}
+
+const categoryIcons: Record<StarterFlow["category"], React.ComponentType<{ className?: string }>> = {
+  support: HelpCircle,
+  sales: Target,
+  scheduling: CalendarCheck,
+  commerce: Package,
+  compliance: ShieldOff,
+};
+
+function ParameterField({
+  parameter,
+  value,
+  onChange,
+  templates,
+  members,
+}: {
+  parameter: StarterParameter;
+  value: string;
+  onChange: (value: string) => void;
+  templates: { id: string; name: string; language?: string }[];
+  members: { id: string; name?: string; firstName?: string; lastName?: string }[];
+}) {
+  switch (parameter.type) {
+    case "textarea":
+      return <Textarea value={value} onChange={(e) => onChange(e.target.value)} rows={2} />;
+    case "template":
+      return (
+        <select className="w-full border rounded-md h-9 px-2" value={value} onChange={(e) => onChange(e.target.value)}>
+          <option value="">{parameter.required ? "Select template" : "None"}</option>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+              {t.language ? ` (${t.language})` : ""}
+            </option>
+          ))}
+        </select>
+      );
+    case "user":
+      return (
+        <select className="w-full border rounded-md h-9 px-2" value={value} onChange={(e) => onChange(e.target.value)}>
+          <option value="">{parameter.required ? "Select member" : "None"}</option>
+          {members.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.name || `${m.firstName || ""} ${m.lastName || ""}`}
+            </option>
+          ))}
+        </select>
+      );
+    default:
+      return (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={parameter.type === "url" ? "https://" : undefined}
+        />
+      );
+  }
+}
+
+export function AutomationStartersModal({ open, onClose, channelId, onCreate }: Props) {
+  const [selected, setSelected] = useState<StarterFlow | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: starters = [], isLoading } = useQuery<StarterFlow[]>({
+    queryKey: ["/api/automations/starters"],
+    queryFn: () => apiRequest("GET", "/api/automations/starters").then((res) => res.json()),
+    enabled: open,
+  });
+
+  const { data: templateData } = useQuery({
+    queryKey: ["/api/templates"],
+    queryFn: () => apiRequest("GET", "/api/templates").then((res) => res.json()),
+    enabled: open && !!selected?.parameters.some((p) => p.type === "template"),
+  });
+  const templates = templateData?.filter((t: { status: string }) => t.status === "APPROVED") || [];
+
+  const { data: members = [] } = useQuery({
+    queryKey: ["/api/team/members"],
+    queryFn: () => apiRequest("GET", "/api/team/members").then((res) => res.json()),
+    enabled: open && !!selected?.parameters.some((p) => p.type === "user"),
+  });
+
+  const instantiate = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/automations/starters/${selected!.id}/instantiate`, {
+        channelId,
+        params: values,
+      });
+      return res.json();
+    },
+    onSuccess: (automation) => {
+      onCreate(automation);
+      setSelected(null);
+    },
+    // apiRequest errors read "400: {json}"
+    onError: (err: Error) => {
+      const body = err.message.replace(/^\d+:\s*/, "");
+      try {
+        setError(JSON.parse(body).message);
+      } catch {
+        setError(body);
+      }
+    },
+  });
+
+  const choose = (starter: StarterFlow) => {
+    setSelected(starter);
+    setError(null);
+    setValues(Object.fromEntries(starter.parameters.map((p) => [p.key, p.default ?? ""])));
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={() => {
+        setSelected(null);
+        onClose();
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{selected ? selected.name : "Start from a template"}</DialogTitle>
+          <DialogDescription>
+            {selected
+              ? "Fill in the details. The flow opens in the builder so you can review it before saving."
+              : "Pick a starter flow for a common bot."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!selected && (
+          <div className="grid grid-cols-2 gap-3">
+            {isLoading && <div className="text-sm text-gray-500">Loading starters...</div>}
+            {starters.map((starter) => {
+              const Icon = categoryIcons[starter.category] ?? HelpCircle;
+              return (
+                <button
+                  key={starter.id}
+                  onClick={() => choose(starter)}
+                  className="text-left border rounded-lg p-4 hover:border-primary hover:bg-gray-50"
+                  data-testid={`starter-${starter.id}`}
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    <Icon className="w-4 h-4 text-primary" /> {starter.name}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{starter.description}</p>
+                  <Badge variant="outline" className="mt-2 text-[10px]">
+                    {starter.category}
+                  </Badge>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {selected && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setError(null);
+              instantiate.mutate();
+            }}
+          >
+            {selected.parameters.map((parameter) => (
+              <div key={parameter.key} className="space-y-1">
+                <Label>
+                  {parameter.label}
+                  {parameter.required && <span className="text-red-500"> *</span>}
+                </Label>
+                <ParameterField
+                  parameter={parameter}
+                  value={values[parameter.key] ?? ""}
+                  onChange={(value) => setValues((prev) => ({ ...prev, [parameter.key]: value }))}
+                  templates={templates}
+                  members={members}
+                />
+                {parameter.description && (
+                  <p className="text-xs text-muted-foreground">{parameter.description}</p>
+                )}
+              </div>
+            ))}
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            <div className="flex justify-between pt-2">
+              <Button type="button" variant="ghost" onClick={() => setSelected(null)}>
+                <ArrowLeft className="w-4 h-4 mr-1" /> All starters
+              </Button>
+              <Button type="submit" disabled={instantiate.isPending}>
+                {instantiate.isPending ? "Building..." : "Open in builder"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
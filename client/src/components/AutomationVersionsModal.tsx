@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/dialog";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Badge } from "../components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { GitCompare, RotateCcw, Upload } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  automationId: string;
+}
+
+interface AutomationVersionSummary {
+  id: string;
+  version: number;
+  trigger: string;
+  note: string | null;
+  createdAt: string;
+  nodeCount: number;
+  edgeCount: number;
+  isPublished: boolean;
+}
+
+// Mirrors FlowDiff in server/services/automation-versions.ts
+interface NodeSummary {
+  nodeId: string;
+  type: string;
+  label: string;
+}
+
+interface FlowDiff {
+  trigger: { from: string; to: string } | null;
+  triggerConfigChanged: boolean;
+  nodes: {
+    added: NodeSummary[];
+    removed: NodeSummary[];
+    changed: Array<NodeSummary & { fields: string[] }>;
+  };
+  edges: {
+    added: { sourceNodeId: string; targetNodeId: string; sourceHandle?: string | null }[];
+    removed: { sourceNodeId: string; targetNodeId: string; sourceHandle?: string | null }[];
+  };
+  hasChanges: boolean;
+}
+
+function DiffView({ diff }: { diff: FlowDiff }) {
+  if (!diff.hasChanges) {
+    return <div className="text-sm text-gray-500">No differences.</div>;
+  }
+
+  const edgeText = (edge: FlowDiff["edges"]["added"][number]) =>
+    `${edge.sourceNodeId}${edge.sourceHandle ? ` (${edge.sourceHandle})` : ""} → ${edge.targetNodeId}`;
+
+  return (
+    <div className="space-y-2 text-xs">
+      {diff.trigger && (
+        <div>
+          Trigger: <span className="line-through text-red-600">{diff.trigger.from}</span>{" "}
+          <span className="text-green-700">{diff.trigger.to}</span>
+        </div>
+      )}
+      {diff.triggerConfigChanged && <div>Trigger settings changed</div>}
+      {diff.nodes.added.map((node) => (
+        <div key={`add-${node.nodeId}`} className="text-green-700">
+          + {node.type}: {node.label}
+        </div>
+      ))}
+      {diff.nodes.removed.map((node) => (
+        <div key={`remove-${node.nodeId}`} className="text-red-600">
+          − {node.type}: {node.label}
+        </div>
+      ))}
+      {diff.nodes.changed.map((node) => (
+        <div key={`change-${node.nodeId}`} className="text-amber-700">
+          ~ {node.type}: {node.label} ({node.fields.join(", ")})
+        </div>
+      ))}
+      {diff.edges.added.map((edge, index) => (
+        <div key={`edge-add-${index}`} className="text-green-700">
+          + connection {edgeText(edge)}
+        </div>
+      ))}
+      {diff.edges.removed.map((edge, index) => (
+        <div key={`edge-remove-${index}`} className="text-red-600">
+          − connection {edgeText(edge)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AutomationVersionsModal({ open, onClose, automationId }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const { data: automation } = useQuery({
+    queryKey: ["/api/automations", automationId],
+    queryFn: () => apiRequest("GET", `/api/automations/${automationId}`).then((res) => res.json()),
+    enabled: open,
+  });
+
+  const { data: versions = [], isLoading } = useQuery<AutomationVersionSummary[]>({
+    queryKey: ["/api/automations", automationId, "versions"],
+    queryFn: () => apiRequest("GET", `/api/automations/${automationId}/versions`).then((res) => res.json()),
+    enabled: open,
+  });
+
+  const { data: diff, isFetching: diffLoading } = useQuery<FlowDiff>({
+    queryKey: ["/api/automations", automationId, "versions", compareId, "diff"],
+    queryFn: () =>
+      apiRequest("GET", `/api/automations/${automationId}/versions/${compareId}/diff?against=draft`).then((res) =>
+        res.json()
+      ),
+    enabled: open && !!compareId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/automations"] });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/automations/${automationId}/publish`, { note: note || undefined }),
+    onSuccess: () => {
+      setNote("");
+      refresh();
+      toast({ title: "Draft published", description: "New conversations now run this version." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to publish", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (versionId: string) =>
+      apiRequest("POST", `/api/automations/${automationId}/versions/${versionId}/rollback`),
+    onSuccess: () => {
+      setCompareId(null);
+      refresh();
+      toast({ title: "Rolled back", description: "The version is live again and the draft was reset to it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to roll back", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Versions</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-3 border rounded-lg p-3">
+          <div className="text-sm">
+            {automation?.publishedVersion ? (
+              <>
+                Live: <Badge variant="outline">v{automation.publishedVersion}</Badge>
+              </>
+            ) : (
+              <span className="text-gray-500">Not published yet</span>
+            )}
+            {automation?.hasDraftChanges && (
+              <Badge className="ml-2 bg-amber-100 text-amber-800 hover:bg-amber-100">Unpublished changes</Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="h-8 w-48"
+            />
+            <Button
+              size="sm"
+              onClick={() => publishMutation.mutate()}
+              disabled={publishMutation.isPending || automation?.hasDraftChanges === false}
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              {publishMutation.isPending ? "Publishing..." : "Publish draft"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 h-[50vh]">
+          <div className="overflow-y-auto border rounded-lg divide-y">
+            {isLoading && <div className="text-sm text-gray-500 p-3">Loading versions...</div>}
+            {!isLoading && versions.length === 0 && (
+              <div className="text-sm text-gray-500 p-3">
+                No versions yet. Publishing the draft, or activating the automation, creates v1.
+              </div>
+            )}
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className={`px-3 py-2 text-sm ${compareId === version.id ? "bg-blue-50" : ""}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">v{version.version}</span>
+                    {version.isPublished && <Badge>Live</Badge>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setCompareId(version.id)}
+                      title="Compare with draft"
+                    >
+                      <GitCompare className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={version.isPublished || rollbackMutation.isPending}
+                      onClick={() => {
+                        if (confirm(`Roll back to v${version.version}? Unpublished draft changes are discarded.`)) {
+                          rollbackMutation.mutate(version.id);
+                        }
+                      }}
+                      title="Roll back to this version"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {format(new Date(version.createdAt), "MMM d, yyyy HH:mm")} · {version.nodeCount} steps
+                </div>
+                {version.note && <div className="text-xs text-gray-600">{version.note}</div>}
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-y-auto border rounded-lg p-3">
+            {!compareId && (
+              <div className="text-sm text-gray-500">Pick a version to see what the draft changes.</div>
+            )}
+            {compareId && diffLoading && <div className="text-sm text-gray-500">Comparing...</div>}
+            {compareId && !diffLoading && diff && (
+              <>
+                <div className="text-xs text-gray-500 mb-2">
+                  Changes from v{versions.find((v) => v.id === compareId)?.version} to the draft
+                </div>
+                <DiffView diff={diff} />
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
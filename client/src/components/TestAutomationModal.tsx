@@ -1,7 +1,14 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/dialog";
 import { Input } from "../components/ui/input";
 import { Button } from "../components/ui/button";
+import { Label } from "../components/ui/label";
+import { Switch } from "../components/ui/switch";
+import { Badge } from "../components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs";
+import { apiRequest } from "@/lib/queryClient";
+import { Bot, CheckCircle2, Play, RotateCcw, Send } from "lucide-react";
 
 interface Props {
   open: boolean;
@@ -10,37 +17,330 @@ interface Props {
   automationId: string;
 }
 
-export function TestAutomationModal({ open, onClose, onSubmit, automationId }: Props) {
-    // console.log("Modal rendered: open =", open, "id =", automationId); // Debug log cf31b81c-f8a2-4770-a4d4-9f8f2fbece0c
-  const [conversationId, setConversationId] = useState("");
+// Mirrors server/services/automation-simulator.ts
+interface SimulationMessage {
+  direction: "inbound" | "outbound" | "system";
+  kind: "text" | "buttons" | "list" | "media" | "template" | "note";
+  text: string;
+  buttons?: { id: string; text: string }[];
+  buttonText?: string;
+  sections?: { title?: string; rows: { id: string; title: string; description?: string }[] }[];
+  at: string;
+}
+
+interface SimulationStep {
+  nodeId: string;
+  nodeType: string;
+  status: string;
+  branch: string | null;
+  output: any;
+  error: string | null;
+  variables: Record<string, any>;
+}
+
+interface SimulationState {
+  status: "running" | "waiting" | "completed" | "failed";
+  waitingFor: string | null;
+  [key: string]: unknown;
+}
+
+interface SimulationResult {
+  state: SimulationState;
+  transcript: SimulationMessage[];
+  steps: SimulationStep[];
+}
+
+function MessageBubble({
+  message,
+  onChoose,
+}: {
+  message: SimulationMessage;
+  onChoose?: (interactive: any, title: string) => void;
+}) {
+  if (message.direction === "system") {
+    return (
+      <div className="text-center text-[11px] text-gray-500 italic px-4 whitespace-pre-wrap">{message.text}</div>
+    );
+  }
+
+  const inbound = message.direction === "inbound";
+  return (
+    <div className={`flex ${inbound ? "justify-end" : "justify-start"}`}>
+      <div
+        className={`max-w-[75%] rounded-lg px-3 py-2 text-sm shadow-sm ${
+          inbound ? "bg-green-100" : "bg-white"
+        }`}
+      >
+        <div className="whitespace-pre-wrap">{message.text}</div>
+
+        {message.buttons && message.buttons.length > 0 && (
+          <div className="mt-2 flex flex-col gap-1">
+            {message.buttons.map((button) => (
+              <button
+                key={button.id}
+                disabled={!onChoose}
+                onClick={() =>
+                  onChoose?.({ type: "button_reply", button_reply: { id: button.id, title: button.text } }, button.text)
+                }
+                className="border rounded px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 disabled:opacity-60"
+              >
+                {button.text}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {message.sections && (
+          <div className="mt-2 border rounded divide-y">
+            <div className="text-xs text-center text-blue-600 py-1">{message.buttonText}</div>
+            {message.sections.map((section, index) => (
+              <div key={index} className="p-1">
+                {section.title && (
+                  <div className="text-[10px] uppercase text-gray-500 px-1">{section.title}</div>
+                )}
+                {section.rows.map((row) => (
+                  <button
+                    key={row.id}
+                    disabled={!onChoose}
+                    onClick={() =>
+                      onChoose?.({ type: "list_reply", list_reply: { id: row.id, title: row.title } }, row.title)
+                    }
+                    className="block w-full text-left px-1 py-1 text-xs hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    <div>{row.title}</div>
+                    {row.description && <div className="text-gray-500">{row.description}</div>}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Simulator({ automationId }: { automationId: string }) {
+  const [state, setState] = useState<SimulationState | null>(null);
+  const [transcript, setTranscript] = useState<SimulationMessage[]>([]);
+  const [steps, setSteps] = useState<SimulationStep[]>([]);
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+  const [text, setText] = useState("");
   const [contactId, setContactId] = useState("");
+  const [liveHttp, setLiveHttp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [transcript]);
+
+  const simulate = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res = await apiRequest("POST", `/api/automations/${automationId}/simulate`, body);
+      return (await res.json()) as SimulationResult;
+    },
+    onSuccess: (result) => {
+      setError(null);
+      setState(result.state);
+      setTranscript((prev) => [...prev, ...result.transcript]);
+      setSteps((prev) => [...prev, ...result.steps]);
+      setSelectedStep(null);
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const waitingForReply = state?.status === "waiting" && state.waitingFor === "user_reply";
+  const handedOff = state?.status === "waiting" && state.waitingFor === "handoff";
+
+  const start = () => {
+    setTranscript([]);
+    setSteps([]);
+    setSelectedStep(null);
+    simulate.mutate({ message: text || undefined, contactId: contactId || undefined, liveHttp });
+    setText("");
+  };
+
+  const reply = (message: string, interactive?: any) => {
+    if (!state) return;
+    simulate.mutate({ state, message, interactive, contactId: contactId || undefined, liveHttp });
+    setText("");
+  };
+
+  // Plays the agent closing a handed off conversation
+  const closeConversation = () => {
+    if (!state) return;
+    simulate.mutate({ state, closeConversation: true, contactId: contactId || undefined, liveHttp });
+  };
+
+  // Only the question currently waiting for an answer can be clicked
+  const lastPromptIndex = waitingForReply
+    ? transcript.map((m) => !!(m.buttons?.length || m.sections)).lastIndexOf(true)
+    : -1;
+
+  // Without a selection the latest step is shown
+  const step = steps[selectedStep ?? steps.length - 1];
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>Test Automation</DialogTitle>
-        </DialogHeader>
-        <div className="space-y-4">
+    <div className="grid grid-cols-5 gap-4 h-[60vh]">
+      <div className="col-span-3 flex flex-col border rounded-lg overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-2 border-b bg-gray-50">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Bot className="w-4 h-4" /> Simulator
+            {state && <Badge variant="outline">{state.status}</Badge>}
+          </div>
+          <div className="flex items-center gap-1">
+            {handedOff && (
+              <Button size="sm" variant="outline" onClick={closeConversation} disabled={simulate.isPending}>
+                <CheckCircle2 className="w-4 h-4 mr-1" /> Close as agent
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={start} disabled={simulate.isPending}>
+              {state ? <RotateCcw className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+              {state ? "Restart" : "Start"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2 bg-[#efeae2]">
+          {transcript.length === 0 && (
+            <div className="text-sm text-gray-500 text-center mt-8">
+              Type the message that triggers the bot, or press Start.
+              <br />
+              Nothing is sent to WhatsApp and nothing is saved.
+            </div>
+          )}
+          {transcript.map((message, index) => (
+            <MessageBubble
+              key={index}
+              message={message}
+              onChoose={index === lastPromptIndex ? (interactive, title) => reply(title, interactive) : undefined}
+            />
+          ))}
+          <div ref={bottomRef} />
+        </div>
+
+        {error && <div className="px-3 py-1 text-xs text-red-600 border-t">{error}</div>}
+
+        <form
+          className="flex gap-2 p-2 border-t"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (waitingForReply || handedOff) {
+              reply(text);
+            } else {
+              start();
+            }
+          }}
+        >
           <Input
-            placeholder="Conversation ID"
-            value={conversationId}
-            onChange={(e) => setConversationId(e.target.value)}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={waitingForReply || handedOff ? "Type a reply..." : "Trigger message (optional)"}
           />
+          <Button type="submit" size="icon" disabled={simulate.isPending}>
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </div>
+
+      <div className="col-span-2 flex flex-col gap-3 min-h-0">
+        <div className="space-y-2">
           <Input
-            placeholder="Contact ID"
+            placeholder="Contact ID (optional, defaults to a test contact)"
             value={contactId}
             onChange={(e) => setContactId(e.target.value)}
           />
-          <Button
-            onClick={() => {
-              onSubmit({ id: automationId, conversationId, contactId });
-              onClose();
-            }}
-          >
-            Test Automation
-          </Button>
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Call real APIs from HTTP nodes</Label>
+            <Switch checked={liveHttp} onCheckedChange={setLiveHttp} />
+          </div>
         </div>
+
+        <div className="flex-1 overflow-y-auto border rounded-lg divide-y min-h-0">
+          {steps.length === 0 && (
+            <div className="text-xs text-gray-500 p-3">Steps appear here as the flow runs.</div>
+          )}
+          {steps.map((s, index) => (
+            <button
+              key={index}
+              onClick={() => setSelectedStep(index)}
+              className={`w-full text-left px-3 py-2 text-xs ${
+                index === (selectedStep ?? steps.length - 1) ? "bg-blue-50" : "hover:bg-gray-50"
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{s.nodeType}</span>
+                <span className={s.status === "failed" ? "text-red-600" : "text-gray-500"}>
+                  {s.status}
+                </span>
+              </div>
+              {s.branch && <div className="text-purple-600">→ {s.branch}</div>}
+              {s.error && <div className="text-red-600">{s.error}</div>}
+            </button>
+          ))}
+        </div>
+
+        {step && (
+          <div className="border rounded-lg p-2 max-h-40 overflow-auto">
+            <div className="text-[11px] text-gray-500 mb-1">Variables after {step.nodeType}</div>
+            <pre className="text-[11px] whitespace-pre-wrap break-all">
+              {JSON.stringify(step.variables, null, 2)}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function TestAutomationModal({ open, onClose, onSubmit, automationId }: Props) {
+    // console.log("Modal rendered: open =", open, "id =", automationId); // Debug log cf31b81c-f8a2-4770-a4d4-9f8f2fbece0c
+  const [conversationId, setConversationId] = useState("");
+  const [contactId, setContactId] = useState("");
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Test Automation</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="simulate">
+          <TabsList>
+            <TabsTrigger value="simulate">Simulate</TabsTrigger>
+            <TabsTrigger value="live">Live test</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="simulate">
+            <Simulator key={automationId} automationId={automationId} />
+          </TabsContent>
+
+          <TabsContent value="live">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Runs the flow for a real conversation and sends real WhatsApp messages.
+              </p>
+              <Input
+                placeholder="Conversation ID"
+                value={conversationId}
+                onChange={(e) => setConversationId(e.target.value)}
+              />
+              <Input
+                placeholder="Contact ID"
+                value={contactId}
+                onChange={(e) => setContactId(e.target.value)}
+              />
+              <Button
+                onClick={() => {
+                  onSubmit({ id: automationId, conversationId, contactId });
+                  onClose();
+                }}
+              >
+                Test Automation
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -53,9 +53,18 @@ import {
   X,
   Check,
   GitBranch,
+  Variable,
+  Globe,
+  AlertTriangle,
+  BarChart3,
+  Headset,
+  UserCog,
 } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/auth-context";
+import type { AutomationTriggerConfig } from "@shared/schema";
+import AutomationTriggerSettings from "@/components/automation-trigger-settings";
+import { percent, useAutomationFunnel, type NodeFunnel } from "@/components/AutomationAnalyticsModal";
 
 // -----------------------
 // Types
@@ -67,11 +76,16 @@ export type NodeKind =
   | "user_reply"
   | "time_gap"
   | "send_template"
-  | "assign_user";
+  | "assign_user"
+  | "handoff"
+  | "update_contact"
+  | "set_variable"
+  | "http_request";
 
 export interface BuilderNodeData {
   kind: NodeKind;
   label?: string;
+  funnel?: NodeFunnel; // run counts, only while the funnel overlay is on
   // Configs by type
   message?: string;
   imageFile?: File | null;
@@ -84,22 +98,97 @@ export interface BuilderNodeData {
   documentPreview?: string;
   question?: string;
   saveAs?: string;
-  delay?: number; // seconds
+  delay?: number; // seconds (legacy flows)
+  delayMode?: 'duration' | 'until';
+  delayValue?: number;
+  delayUnit?: 'seconds' | 'minutes' | 'hours' | 'days';
+  untilDays?: number[]; // 0 = Sunday
+  untilTime?: string; // HH:MM in the contact's timezone
+  timezone?: string; // used when the contact has no timezone
   templateId?: string;
   assigneeId?: string; // user id
+  // Handoff specific fields
+  routing?: 'least_busy' | 'user';
+  teamMemberIds?: string[]; // least_busy: limit to these members, empty = everyone
+  note?: string; // internal note for the agent, above the collected variables
+  resumeOnClose?: boolean; // continue from "back to bot" when the agent closes the conversation
+  // update_contact specific fields, values may contain {{variable}} placeholders
+  name?: string;
+  email?: string;
+  status?: '' | 'active' | 'blocked' | 'unsubscribed';
+  addTags?: string[];
+  removeTags?: string[];
+  addGroups?: string[];
+  removeGroups?: string[];
+  customFields?: Array<{ key: string; value: string }>;
   // Condition specific fields
-  conditionType?: 'keyword' | 'contains' | 'equals' | 'starts_with';
+  conditionType?: 'keyword' | 'contains' | 'equals' | 'starts_with' | 'regex' | 'variable' | 'switch';
   keywords?: string[];
   matchType?: 'any' | 'all';
+  expression?: string; // "variable" conditions and set_variable values
+  variableName?: string; // set_variable target
+  // HTTP request specific fields, values may contain {{variable}} placeholders
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url?: string;
+  headers?: Array<{ key: string; value: string }>;
+  body?: string;
+  timeout?: number; // seconds
+  responseMappings?: Array<{ variable: string; path: string }>;
+  saveResponseAs?: string;
+  // Switch specific fields: one output per case plus "default"
+  switchOn?: string; // variable name, empty = last user message
+  cases?: SwitchCase[];
   buttons?: Array<{
     id: string;
     text: string;
     action: 'next' | 'custom';
     value?: string;
   }>;
+  // user_reply can ask with reply buttons or with a list message
+  replyType?: 'buttons' | 'list';
+  listButtonText?: string;
+  listSections?: ListSection[];
+  maxAttempts?: number; // re-prompts before taking the "no match" branch
+  retryMessage?: string;
+  validation?: AnswerValidation; // free text questions only
     [key: string]: unknown;
 }
 
+interface AnswerValidation {
+  type?: 'email' | 'phone' | 'number' | 'date' | 'regex' | 'choice';
+  min?: number;
+  max?: number;
+  pattern?: string;
+  choices?: string[];
+  defaultCountryCode?: string;
+  dateOrder?: 'DMY' | 'MDY';
+  retryMessage?: string;
+  maxAttempts?: number;
+}
+
+interface ListSection {
+  id: string;
+  title: string;
+  rows: Array<{ id: string; title: string; description?: string }>;
+}
+
+// WhatsApp shows at most 10 rows across all sections of a list
+const MAX_LIST_ROWS = 10;
+
+interface SwitchCase {
+  id: string;
+  label: string;
+  operator: 'equals' | 'contains' | 'starts_with' | 'regex';
+  value: string;
+}
+
+// Mirrors FlowIssue in server/services/automation-flow-validator.ts
+interface FlowIssue {
+  nodeId: string | null;
+  message: string;
+  level: "error" | "warning";
+}
+
 interface AutomationFlowBuilderProps {
   automation?: any;
   channelId?: string;
@@ -121,6 +210,7 @@ interface Member {
 
 interface CustomEdgeProps {
   id: string;
+  label?: React.ReactNode;
   sourceX: number;
   sourceY: number;
   targetX: number;
@@ -136,6 +226,60 @@ interface CustomEdgeProps {
 const uid = () =>
   `node_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
+// Named outputs of branching nodes, used as React Flow handle ids
+function getNodeOutputs(data: BuilderNodeData): { id: string; label: string }[] {
+  if (data.kind === "http_request") {
+    return [
+      { id: "success", label: "Success" },
+      { id: "error", label: "Error" },
+    ];
+  }
+  if (data.kind === "handoff") {
+    return data.resumeOnClose ? [{ id: "back_to_bot", label: "Back to bot" }] : [];
+  }
+  if (data.kind === "user_reply") {
+    const options =
+      data.replyType === "list"
+        ? (data.listSections || []).flatMap((section) =>
+            section.rows.map((row) => ({ id: row.id, label: row.title || "Row" }))
+          )
+        : (data.buttons || []).map((button) => ({ id: button.id, label: button.text || "Button" }));
+    if (options.length > 0) {
+      return [...options, { id: "no_match", label: "No match" }];
+    }
+    // Free text questions keep a single unnamed output unless validated
+    return data.validation?.type
+      ? [
+          { id: "valid", label: "Valid" },
+          { id: "invalid", label: "Invalid" },
+        ]
+      : [];
+  }
+  if (data.kind !== "conditions") {
+    return [];
+  }
+  if (data.conditionType === "switch") {
+    return [
+      ...(data.cases || []).map((c) => ({ id: c.id, label: c.label || "Case" })),
+      { id: "default", label: "Default" },
+    ];
+  }
+  return [
+    { id: "true", label: "True" },
+    { id: "false", label: "False" },
+  ];
+}
+
+function getEdgeLabel(
+  sourceNode: Node<BuilderNodeData> | undefined,
+  sourceHandle?: string | null
+) {
+  if (!sourceNode || !sourceHandle) {
+    return undefined;
+  }
+  return getNodeOutputs(sourceNode.data).find((o) => o.id === sourceHandle)?.label;
+}
+
 // Default data for each node type
 const defaultsByKind: Record<NodeKind, Partial<BuilderNodeData>> = {
   start: { kind: "start", label: "Start" },
@@ -162,9 +306,46 @@ const defaultsByKind: Record<NodeKind, Partial<BuilderNodeData>> = {
       { id: "default", text: "Default", action: 'next' }
     ],
   },
-  time_gap: { kind: "time_gap", label: "Delay", delay: 60 },
+  time_gap: {
+    kind: "time_gap",
+    label: "Delay",
+    delayMode: "duration",
+    delayValue: 1,
+    delayUnit: "hours",
+  },
   send_template: { kind: "send_template", label: "Template", templateId: "" },
   assign_user: { kind: "assign_user", label: "Assign User", assigneeId: "" },
+  handoff: {
+    kind: "handoff",
+    label: "Hand off to agent",
+    routing: "least_busy",
+    teamMemberIds: [],
+    note: "",
+    resumeOnClose: false,
+  },
+  update_contact: {
+    kind: "update_contact",
+    label: "Update Contact",
+    name: "",
+    email: "",
+    status: "",
+    addTags: [],
+    removeTags: [],
+    addGroups: [],
+    removeGroups: [],
+    customFields: [],
+  },
+  set_variable: { kind: "set_variable", label: "Set Variable", variableName: "", expression: "" },
+  http_request: {
+    kind: "http_request",
+    label: "HTTP Request",
+    method: "GET",
+    url: "",
+    headers: [],
+    body: "",
+    timeout: 10,
+    responseMappings: [],
+  },
 };
 
 // -----------------------
@@ -235,7 +416,7 @@ function transformAutomationToFlow(automation: any): { nodes: Node<BuilderNodeDa
       }
 
       // Create unique key for deduplication
-      const edgeKey = `${source}-${target}`;
+      const edgeKey = `${source}-${edge.sourceHandle ?? ""}-${target}`;
       
       if (!edgeSet.has(edgeKey)) {
         edgeSet.add(edgeKey);
@@ -244,6 +425,8 @@ function transformAutomationToFlow(automation: any): { nodes: Node<BuilderNodeDa
           id: edge.id || `edge-${source}-${target}`,
           source: source,
           target: target,
+          sourceHandle: edge.sourceHandle ?? undefined,
+          label: edge.label ?? undefined,
           type: "custom",
           animated: true,
         });
@@ -300,13 +483,20 @@ function StartNode() {
 }
 
 function ConditionsNode({ data }: { data: BuilderNodeData }) {
+  const outputs = getNodeOutputs(data);
   return (
     <Shell tint="bg-purple-500 border-purple-600">
       <div className="font-semibold flex items-center gap-2">
         <GitBranch className="w-4 h-4" /> Conditions
       </div>
       <div className="text-white/90 text-sm mt-1">
-        {data.conditionType === 'keyword' && data.keywords && data.keywords.length > 0 ? (
+        {data.conditionType === 'switch' ? (
+          <div>
+            Switch on {data.switchOn ? `{{${data.switchOn}}}` : 'reply'}: {(data.cases || []).length} case(s)
+          </div>
+        ) : data.conditionType === 'variable' && data.expression ? (
+          <div className="font-mono break-all">{data.expression}</div>
+        ) : data.keywords && data.keywords.length > 0 ? (
           <div>
             Keywords: {data.keywords.slice(0, 3).join(', ')}
             {data.keywords.length > 3 && '...'}
@@ -315,13 +505,25 @@ function ConditionsNode({ data }: { data: BuilderNodeData }) {
           <div>No conditions set</div>
         )}
       </div>
-      {data.matchType && (
+      {data.matchType && data.conditionType !== 'switch' && (
         <div className="text-[11px] mt-1 bg-white/15 rounded px-2 py-1 inline-block">
           Match: {data.matchType}
         </div>
       )}
       <Handle type="target" position={Position.Top} />
-      <Handle type="source" position={Position.Bottom} />
+      <div className="flex justify-around gap-2 mt-3 -mb-1">
+        {outputs.map((output, index) => (
+          <div key={output.id} className="text-[10px] bg-white/20 rounded px-1.5 py-0.5">
+            {output.label}
+            <Handle
+              type="source"
+              position={Position.Bottom}
+              id={output.id}
+              style={{ left: `${((index + 0.5) / outputs.length) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
     </Shell>
   );
 }
@@ -388,6 +590,7 @@ function CustomReplyNode({ data }: { data: BuilderNodeData }) {
 }
 
 function UserReplyNode({ data }: { data: BuilderNodeData }) {
+  const outputs = getNodeOutputs(data);
   return (
     <Shell tint="bg-pink-500 border-pink-600">
       <div className="font-semibold flex items-center gap-2">
@@ -417,7 +620,7 @@ function UserReplyNode({ data }: { data: BuilderNodeData }) {
       )}
       
       {/* Answer buttons preview */}
-      {data.buttons && data.buttons.length > 0 && (
+      {data.replyType !== "list" && data.buttons && data.buttons.length > 0 && (
         <div className="mt-2 space-y-1">
           {data.buttons.slice(0, 2).map((button) => (
             <div key={button.id} className="bg-green-500 text-xs px-2 py-1 rounded flex items-center gap-1">
@@ -429,11 +632,42 @@ function UserReplyNode({ data }: { data: BuilderNodeData }) {
       )}
       
       <Handle type="target" position={Position.Top} />
-      <Handle type="source" position={Position.Bottom} />
+      {outputs.length > 0 ? (
+        <div className="flex flex-wrap justify-around gap-1 mt-3 -mb-1">
+          {outputs.map((output, index) => (
+            <div key={output.id} className="text-[10px] bg-white/20 rounded px-1.5 py-0.5">
+              {output.label}
+              <Handle
+                type="source"
+                position={Position.Bottom}
+                id={output.id}
+                style={{ left: `${((index + 0.5) / outputs.length) * 100}%` }}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <Handle type="source" position={Position.Bottom} />
+      )}
     </Shell>
   );
 }
 
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function describeDelay(data: BuilderNodeData) {
+  if (data.delayMode === "until") {
+    const days = data.untilDays?.length
+      ? data.untilDays.map((d) => WEEKDAYS[d]).join(", ")
+      : "any day";
+    return `Until ${data.untilTime || "--:--"} (${days})`;
+  }
+  if (data.delayValue !== undefined && data.delayUnit) {
+    return `${data.delayValue} ${data.delayUnit}`;
+  }
+  return `${data.delay ?? 0} seconds`;
+}
+
 function TimeGapNode({ data }: { data: BuilderNodeData }) {
   return (
     <Shell tint="bg-gray-600 border-gray-700">
@@ -441,7 +675,7 @@ function TimeGapNode({ data }: { data: BuilderNodeData }) {
         <Clock className="w-4 h-4" /> Delay
       </div>
       <div className="text-white/90 text-sm mt-1">
-        {data.delay ?? 0} seconds
+        {describeDelay(data)}
       </div>
       <Handle type="target" position={Position.Top} />
       <Handle type="source" position={Position.Bottom} />
@@ -479,14 +713,137 @@ function AssignUserNode({ data }: { data: BuilderNodeData }) {
   );
 }
 
+function HandoffNode({ data }: { data: BuilderNodeData }) {
+  const team = data.teamMemberIds?.length ?? 0;
+  return (
+    <Shell tint="bg-rose-600 border-rose-700">
+      <div className="font-semibold flex items-center gap-2">
+        <Headset className="w-4 h-4" /> Hand off to agent
+      </div>
+      <div className="text-white/90 text-sm mt-1">
+        {data.routing === "user"
+          ? data.assigneeId || "Select member"
+          : `Least busy online agent${team > 0 ? ` of ${team}` : ""}`}
+      </div>
+      <Handle type="target" position={Position.Top} />
+      {data.resumeOnClose ? (
+        <div className="flex justify-center mt-3 -mb-1">
+          <div className="text-[10px] bg-white/20 rounded px-1.5 py-0.5">
+            Back to bot
+            <Handle type="source" position={Position.Bottom} id="back_to_bot" />
+          </div>
+        </div>
+      ) : (
+        <div className="text-[11px] mt-2 text-white/80">Ends when the agent closes the chat</div>
+      )}
+    </Shell>
+  );
+}
+
+function UpdateContactNode({ data }: { data: BuilderNodeData }) {
+  const fields = [
+    data.name?.trim() && "name",
+    data.email?.trim() && "email",
+    data.status && "status",
+    (data.addTags || []).some((t) => t.trim()) || (data.removeTags || []).some((t) => t.trim()) ? "tags" : "",
+    (data.addGroups || []).some((g) => g.trim()) || (data.removeGroups || []).some((g) => g.trim()) ? "groups" : "",
+    ...(data.customFields || []).map((field) => field.key).filter(Boolean),
+  ].filter(Boolean);
+  return (
+    <Shell tint="bg-lime-700 border-lime-800">
+      <div className="font-semibold flex items-center gap-2">
+        <UserCog className="w-4 h-4" /> Update Contact
+      </div>
+      <div className="text-white/90 text-sm mt-1 break-all">
+        {fields.length > 0 ? `Sets ${fields.join(", ")}` : "Not configured"}
+      </div>
+      <Handle type="target" position={Position.Top} />
+      <Handle type="source" position={Position.Bottom} />
+    </Shell>
+  );
+}
+
+function SetVariableNode({ data }: { data: BuilderNodeData }) {
+  return (
+    <Shell tint="bg-teal-600 border-teal-700">
+      <div className="font-semibold flex items-center gap-2">
+        <Variable className="w-4 h-4" /> Set Variable
+      </div>
+      <div className="text-white/90 text-sm mt-1 font-mono break-all">
+        {data.variableName
+          ? `${data.variableName} = ${data.expression || "…"}`
+          : "Not configured"}
+      </div>
+      <Handle type="target" position={Position.Top} />
+      <Handle type="source" position={Position.Bottom} />
+    </Shell>
+  );
+}
+
+function HttpRequestNode({ data }: { data: BuilderNodeData }) {
+  const outputs = getNodeOutputs(data);
+  return (
+    <Shell tint="bg-cyan-700 border-cyan-800">
+      <div className="font-semibold flex items-center gap-2">
+        <Globe className="w-4 h-4" /> HTTP Request
+      </div>
+      <div className="text-white/90 text-sm mt-1 font-mono break-all">
+        {data.url ? `${data.method || "GET"} ${data.url}` : "Not configured"}
+      </div>
+      {data.responseMappings && data.responseMappings.length > 0 && (
+        <div className="text-[11px] mt-1 bg-white/15 rounded px-2 py-1 inline-block">
+          Saves: {data.responseMappings.map((m) => m.variable).join(", ")}
+        </div>
+      )}
+      <Handle type="target" position={Position.Top} />
+      <div className="flex justify-around gap-2 mt-3 -mb-1">
+        {outputs.map((output, index) => (
+          <div key={output.id} className="text-[10px] bg-white/20 rounded px-1.5 py-0.5">
+            {output.label}
+            <Handle
+              type="source"
+              position={Position.Bottom}
+              id={output.id}
+              style={{ left: `${((index + 0.5) / outputs.length) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+    </Shell>
+  );
+}
+
+// Run counts drawn over a node while the funnel overlay is on
+function withFunnel(NodeComponent: React.ComponentType<{ data: BuilderNodeData }>) {
+  return function NodeWithFunnel({ data }: { data: BuilderNodeData }) {
+    return (
+      <div className="relative">
+        <NodeComponent data={data} />
+        {data.funnel && (
+          <div className="absolute -top-3 right-2 rounded-full bg-white border shadow-sm px-2 py-0.5 text-[10px] text-gray-700">
+            {data.funnel.reached} reached
+            {data.funnel.dropOff > 0 && (
+              <span className="text-red-600"> · {percent(data.funnel.dropOffRate)} drop</span>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+}
+
 const nodeTypes = {
   start: StartNode,
-  conditions: ConditionsNode,
-  custom_reply: CustomReplyNode,
-  user_reply: UserReplyNode,
-  time_gap: TimeGapNode,
-  send_template: SendTemplateNode,
-  assign_user: AssignUserNode,
+  conditions: withFunnel(ConditionsNode),
+  custom_reply: withFunnel(CustomReplyNode),
+  user_reply: withFunnel(UserReplyNode),
+  time_gap: withFunnel(TimeGapNode),
+  send_template: withFunnel(SendTemplateNode),
+  assign_user: withFunnel(AssignUserNode),
+  handoff: withFunnel(HandoffNode),
+  update_contact: withFunnel(UpdateContactNode),
+  set_variable: withFunnel(SetVariableNode),
+  http_request: withFunnel(HttpRequestNode),
 };
 
 // File upload helper
@@ -606,6 +963,33 @@ function ConfigPanel({
     });
   };
 
+  // List sections and rows
+  const listSections = d.listSections || [];
+  const listRowCount = listSections.reduce((sum, section) => sum + section.rows.length, 0);
+
+  const updateSection = (sectionId: string, updates: Partial<ListSection>) => {
+    onChange({
+      listSections: listSections.map((section) =>
+        section.id === sectionId ? { ...section, ...updates } : section
+      ),
+    });
+  };
+
+  const addSection = () => {
+    onChange({
+      listSections: [
+        ...listSections,
+        { id: uid(), title: "", rows: [{ id: uid(), title: "Option 1" }] },
+      ],
+    });
+  };
+
+  const addRow = (section: ListSection) => {
+    updateSection(section.id, {
+      rows: [...section.rows, { id: uid(), title: `Option ${listRowCount + 1}` }],
+    });
+  };
+
   // Keyword management
   const addKeyword = () => {
     const keywords = d.keywords || [];
@@ -630,6 +1014,29 @@ function ConfigPanel({
     });
   };
 
+  // Switch case management
+  const addCase = () => {
+    const cases = d.cases || [];
+    onChange({
+      cases: [
+        ...cases,
+        { id: `case_${uid()}`, label: `Case ${cases.length + 1}`, operator: 'equals', value: '' },
+      ],
+    });
+  };
+
+  const updateCase = (caseId: string, updates: Partial<SwitchCase>) => {
+    onChange({
+      cases: (d.cases || []).map((c) => (c.id === caseId ? { ...c, ...updates } : c)),
+    });
+  };
+
+  const removeCase = (caseId: string) => {
+    onChange({
+      cases: (d.cases || []).filter((c) => c.id !== caseId),
+    });
+  };
+
   return (
     <div className="flex flex-col h-screen">
       <ScrollArea className="flex-1 min-h-0">
@@ -664,9 +1071,92 @@ function ConfigPanel({
                   <option value="equals">Equals</option>
                   <option value="starts_with">Starts With</option>
                   <option value="contains">Contains Text</option>
+                  <option value="regex">Regular Expression</option>
+                  <option value="variable">Expression</option>
+                  <option value="switch">Switch (multiple branches)</option>
                 </select>
               </div>
 
+              {d.conditionType === "variable" && (
+                <div>
+                  <Label>Expression</Label>
+                  <Textarea
+                    rows={3}
+                    className="font-mono text-sm"
+                    value={d.expression ?? d.keywords?.[0] ?? ""}
+                    onChange={(e) => onChange({ expression: e.target.value })}
+                    placeholder="score >= 10 && contact.tags in ['vip', 'lead']"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Supports ==, !=, &lt;, &gt;, and, or, not, in, contains and
+                    functions like lower(), len(), matches(), daysBetween().
+                  </p>
+                </div>
+              )}
+
+              {d.conditionType === "switch" ? (
+                <div className="space-y-3">
+                  <div>
+                    <Label>Switch On</Label>
+                    <Input
+                      value={d.switchOn || ""}
+                      onChange={(e) => onChange({ switchOn: e.target.value })}
+                      placeholder="Variable name, empty = last reply"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label>Cases</Label>
+                    <Button size="sm" variant="outline" onClick={addCase}>
+                      <Plus className="w-3 h-3 mr-1" />
+                      Add Case
+                    </Button>
+                  </div>
+                  {(d.cases || []).map((c) => (
+                    <div key={c.id} className="border rounded-md p-2 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={c.label}
+                          onChange={(e) => updateCase(c.id, { label: e.target.value })}
+                          placeholder="Branch label"
+                          className="flex-1"
+                        />
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeCase(c.id)}
+                          className="text-red-500"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <div className="flex gap-2">
+                        <select
+                          className="border rounded-md h-9 px-2"
+                          value={c.operator}
+                          onChange={(e) =>
+                            updateCase(c.id, { operator: e.target.value as SwitchCase["operator"] })
+                          }
+                        >
+                          <option value="equals">Equals</option>
+                          <option value="contains">Contains</option>
+                          <option value="starts_with">Starts with</option>
+                          <option value="regex">Regex</option>
+                        </select>
+                        <Input
+                          value={c.value}
+                          onChange={(e) => updateCase(c.id, { value: e.target.value })}
+                          placeholder="Value"
+                          className="flex-1"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                  <div className="text-sm text-gray-500 italic">
+                    Cases are checked in order; the Default output runs when none match.
+                  </div>
+                </div>
+              ) : d.conditionType !== "variable" && (
+              <>
               <div>
                 <Label>Match Type</Label>
                 <select
@@ -713,6 +1203,8 @@ function ConfigPanel({
                   </div>
                 )}
               </div>
+              </>
+              )}
             </Card>
           )}
 
@@ -861,16 +1353,108 @@ function ConfigPanel({
           {d.kind === "time_gap" && (
             <Card className="p-3 space-y-3">
               <div>
-                <Label>Delay (seconds)</Label>
-                <Input
-                  type="number"
-                  min={10}
-                  value={d.delay ?? 60}
+                <Label>Wait</Label>
+                <select
+                  className="w-full border rounded-md h-9 px-2"
+                  value={d.delayMode || "duration"}
                   onChange={(e) =>
-                    onChange({ delay: parseInt(e.target.value, 10) })
+                    onChange(
+                      e.target.value === "until"
+                        ? { delayMode: "until", untilTime: d.untilTime || "10:00" }
+                        : { delayMode: "duration" }
+                    )
                   }
-                />
+                >
+                  <option value="duration">For a period of time</option>
+                  <option value="until">Until a day and time</option>
+                </select>
               </div>
+
+              {(d.delayMode || "duration") === "duration" ? (
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    className="flex-1"
+                    value={d.delayValue ?? d.delay ?? 60}
+                    onChange={(e) =>
+                      onChange({
+                        delayValue: parseInt(e.target.value, 10),
+                        delayUnit: d.delayUnit || "seconds",
+                      })
+                    }
+                  />
+                  <select
+                    className="border rounded-md h-9 px-2"
+                    value={d.delayUnit || "seconds"}
+                    onChange={(e) =>
+                      onChange({
+                        delayUnit: e.target.value as BuilderNodeData["delayUnit"],
+                        delayValue: d.delayValue ?? d.delay ?? 60,
+                      })
+                    }
+                  >
+                    <option value="seconds">Seconds</option>
+                    <option value="minutes">Minutes</option>
+                    <option value="hours">Hours</option>
+                    <option value="days">Days</option>
+                  </select>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <Label>On</Label>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {WEEKDAYS.map((day, index) => {
+                        const selected = d.untilDays?.includes(index) ?? false;
+                        return (
+                          <Button
+                            key={day}
+                            type="button"
+                            size="sm"
+                            variant={selected ? "default" : "outline"}
+                            className="h-7 px-2 text-xs"
+                            onClick={() =>
+                              onChange({
+                                untilDays: selected
+                                  ? (d.untilDays || []).filter((x) => x !== index)
+                                  : [...(d.untilDays || []), index].sort((a, b) => a - b),
+                              })
+                            }
+                          >
+                            {day}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Leave empty to resume on any day.
+                    </p>
+                  </div>
+                  <div>
+                    <Label>At</Label>
+                    <Input
+                      type="time"
+                      value={d.untilTime || "10:00"}
+                      onChange={(e) => onChange({ untilTime: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      In the contact's timezone.
+                    </p>
+                  </div>
+                  <div>
+                    <Label>Fallback timezone</Label>
+                    <Input
+                      placeholder="UTC"
+                      value={d.timezone || ""}
+                      onChange={(e) => onChange({ timezone: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Used when the contact has no timezone, e.g. Asia/Kolkata.
+                    </p>
+                  </div>
+                </>
+              )}
             </Card>
           )}
 
@@ -894,6 +1478,208 @@ function ConfigPanel({
             </Card>
           )}
 
+          {d.kind === "set_variable" && (
+            <Card className="p-3 space-y-3">
+              <div>
+                <Label>Variable Name</Label>
+                <Input
+                  value={d.variableName || ""}
+                  onChange={(e) => onChange({ variableName: e.target.value })}
+                  placeholder="e.g. customerTier"
+                />
+              </div>
+              <div>
+                <Label>Value</Label>
+                <Textarea
+                  rows={3}
+                  className="font-mono text-sm"
+                  value={d.expression || ""}
+                  onChange={(e) => onChange({ expression: e.target.value })}
+                  placeholder="orderTotal > 100 ? 'gold' : 'standard'"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Expression using variables, contact.name, contact.tags and
+                  functions like lower(), number(), daysBetween(), now().
+                </p>
+              </div>
+            </Card>
+          )}
+
+          {d.kind === "http_request" && (
+            <Card className="p-3 space-y-3">
+              <div className="flex gap-2">
+                <div className="w-28">
+                  <Label>Method</Label>
+                  <select
+                    className="w-full border rounded-md h-9 px-2"
+                    value={d.method || "GET"}
+                    onChange={(e) =>
+                      onChange({ method: e.target.value as BuilderNodeData["method"] })
+                    }
+                  >
+                    {["GET", "POST", "PUT", "PATCH", "DELETE"].map((m) => (
+                      <option key={m} value={m}>
+                        {m}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex-1">
+                  <Label>Timeout (s)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={d.timeout ?? 10}
+                    onChange={(e) =>
+                      onChange({ timeout: parseInt(e.target.value, 10) || 10 })
+                    }
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>URL</Label>
+                <Input
+                  className="font-mono text-sm"
+                  value={d.url || ""}
+                  onChange={(e) => onChange({ url: e.target.value })}
+                  placeholder="https://api.example.com/orders/{{orderId}}"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Headers</Label>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      onChange({ headers: [...(d.headers || []), { key: "", value: "" }] })
+                    }
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {(d.headers || []).map((header, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={header.key}
+                      placeholder="Authorization"
+                      onChange={(e) =>
+                        onChange({
+                          headers: (d.headers || []).map((h, i) =>
+                            i === index ? { ...h, key: e.target.value } : h
+                          ),
+                        })
+                      }
+                    />
+                    <Input
+                      value={header.value}
+                      placeholder="Bearer ..."
+                      onChange={(e) =>
+                        onChange({
+                          headers: (d.headers || []).map((h, i) =>
+                            i === index ? { ...h, value: e.target.value } : h
+                          ),
+                        })
+                      }
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-500"
+                      onClick={() =>
+                        onChange({ headers: (d.headers || []).filter((_, i) => i !== index) })
+                      }
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {d.method && d.method !== "GET" && (
+                <div>
+                  <Label>Body</Label>
+                  <Textarea
+                    rows={4}
+                    className="font-mono text-sm"
+                    value={d.body || ""}
+                    onChange={(e) => onChange({ body: e.target.value })}
+                    placeholder={'{"phone": "{{contact.phone}}", "name": "{{contact.name}}"}'}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Save from response</Label>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      onChange({
+                        responseMappings: [
+                          ...(d.responseMappings || []),
+                          { variable: "", path: "$." },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {(d.responseMappings || []).map((mapping, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={mapping.variable}
+                      placeholder="orderStatus"
+                      onChange={(e) =>
+                        onChange({
+                          responseMappings: (d.responseMappings || []).map((m, i) =>
+                            i === index ? { ...m, variable: e.target.value } : m
+                          ),
+                        })
+                      }
+                    />
+                    <Input
+                      className="font-mono text-sm"
+                      value={mapping.path}
+                      placeholder="$.data.status"
+                      onChange={(e) =>
+                        onChange({
+                          responseMappings: (d.responseMappings || []).map((m, i) =>
+                            i === index ? { ...m, path: e.target.value } : m
+                          ),
+                        })
+                      }
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-500"
+                      onClick={() =>
+                        onChange({
+                          responseMappings: (d.responseMappings || []).filter(
+                            (_, i) => i !== index
+                          ),
+                        })
+                      }
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  The status code is saved as http_status. Failed requests,
+                  timeouts and non-2xx responses take the Error branch.
+                </p>
+              </div>
+            </Card>
+          )}
+
           {d.kind === "assign_user" && (
             <Card className="p-3 space-y-3">
               <div>
@@ -916,6 +1702,207 @@ function ConfigPanel({
             </Card>
           )}
 
+          {d.kind === "handoff" && (
+            <Card className="p-3 space-y-3">
+              <div>
+                <Label>Route to</Label>
+                <select
+                  className="w-full border rounded-md h-9 px-2"
+                  value={d.routing || "least_busy"}
+                  onChange={(e) => onChange({ routing: e.target.value as BuilderNodeData["routing"] })}
+                >
+                  <option value="least_busy">Least busy online agent</option>
+                  <option value="user">A specific member</option>
+                </select>
+              </div>
+
+              {d.routing === "user" ? (
+                <div>
+                  <Label>Member</Label>
+                  <select
+                    className="w-full border rounded-md h-9 px-2"
+                    value={d.assigneeId || ""}
+                    onChange={(e) => onChange({ assigneeId: e.target.value })}
+                  >
+                    <option value="">Select member</option>
+                    {members.map((m: Member) => (
+                      <option key={m.id} value={m.id}>
+                        {m.name || `${m.firstName || ""} ${m.lastName || ""}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <Label>Team</Label>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {members.map((m: Member) => {
+                      const selected = d.teamMemberIds?.includes(m.id) ?? false;
+                      return (
+                        <Button
+                          key={m.id}
+                          type="button"
+                          size="sm"
+                          variant={selected ? "default" : "outline"}
+                          className="h-7 px-2 text-xs"
+                          onClick={() =>
+                            onChange({
+                              teamMemberIds: selected
+                                ? (d.teamMemberIds || []).filter((id) => id !== m.id)
+                                : [...(d.teamMemberIds || []), m.id],
+                            })
+                          }
+                        >
+                          {m.name || `${m.firstName || ""} ${m.lastName || ""}`}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Leave empty to pick from everyone. With nobody online the
+                    conversation waits as pending.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <Label>Note for the agent</Label>
+                <Textarea
+                  rows={3}
+                  value={d.note || ""}
+                  onChange={(e) => onChange({ note: e.target.value })}
+                  placeholder="e.g. Wants a refund for order {{order_id}}"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Posted as an internal note with every variable the flow collected.
+                </p>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!d.resumeOnClose}
+                  onChange={(e) => onChange({ resumeOnClose: e.target.checked })}
+                />
+                Back to the bot when the agent closes the conversation
+              </label>
+              <p className="text-xs text-muted-foreground">
+                The flow stays paused while the agent handles the chat and no
+                other automation starts in it.
+              </p>
+            </Card>
+          )}
+
+          {d.kind === "update_contact" && (
+            <Card className="p-3 space-y-3">
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={d.name || ""}
+                  onChange={(e) => onChange({ name: e.target.value })}
+                  placeholder="{{full_name}}"
+                />
+              </div>
+              <div>
+                <Label>Email</Label>
+                <Input
+                  value={d.email || ""}
+                  onChange={(e) => onChange({ email: e.target.value })}
+                  placeholder="{{email}}"
+                />
+              </div>
+              <div>
+                <Label>Status</Label>
+                <select
+                  className="w-full border rounded-md h-9 px-2"
+                  value={d.status || ""}
+                  onChange={(e) => onChange({ status: e.target.value as BuilderNodeData["status"] })}
+                >
+                  <option value="">Leave unchanged</option>
+                  <option value="active">Active</option>
+                  <option value="blocked">Blocked</option>
+                  <option value="unsubscribed">Unsubscribed</option>
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  ["addTags", "Add tags"],
+                  ["removeTags", "Remove tags"],
+                  ["addGroups", "Add to groups"],
+                  ["removeGroups", "Remove from groups"],
+                ] as const).map(([field, label]) => (
+                  <div key={field}>
+                    <Label>{label}</Label>
+                    <Textarea
+                      rows={2}
+                      value={(d[field] || []).join("\n")}
+                      onChange={(e) => onChange({ [field]: e.target.value.split("\n") })}
+                      placeholder="One per line"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Custom fields</Label>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      onChange({ customFields: [...(d.customFields || []), { key: "", value: "" }] })
+                    }
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {(d.customFields || []).map((field, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={field.key}
+                      placeholder="company"
+                      onChange={(e) =>
+                        onChange({
+                          customFields: (d.customFields || []).map((f, i) =>
+                            i === index ? { ...f, key: e.target.value } : f
+                          ),
+                        })
+                      }
+                    />
+                    <Input
+                      value={field.value}
+                      placeholder="{{company}}"
+                      onChange={(e) =>
+                        onChange({
+                          customFields: (d.customFields || []).map((f, i) =>
+                            i === index ? { ...f, value: e.target.value } : f
+                          ),
+                        })
+                      }
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-500"
+                      onClick={() =>
+                        onChange({ customFields: (d.customFields || []).filter((_, i) => i !== index) })
+                      }
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Use {"{{variable}}"} to save what the contact answered. A field
+                  whose variable is not set is left as it is, and every change
+                  shows up in the contact's history.
+                </p>
+              </div>
+            </Card>
+          )}
+
           {d.kind === "user_reply" && (
             <Card className="p-3 space-y-4">
               <div>
@@ -986,69 +1973,394 @@ function ConfigPanel({
                 )}
               </div>
 
-              {/* Answer Options/Buttons Section */}
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <Label>Answer Options</Label>
-                  <Button size="sm" variant="outline" onClick={addButton}>
-                    <Plus className="w-3 h-3 mr-1" />
-                    Add Option
-                  </Button>
-                </div>
-                
-                {d.buttons?.map((button) => (
-                  <div key={button.id} className="border rounded-lg p-3 space-y-2">
-                    <div className="flex items-center gap-2">
-                      <Input
-                        value={button.text}
-                        onChange={(e) => updateButton(button.id, { text: e.target.value })}
-                        placeholder="Answer option text"
-                        className="flex-1"
-                      />
+              <div>
+                <Label>Answer Type</Label>
+                <select
+                  className="w-full border rounded-md h-9 px-2"
+                  value={d.replyType || "buttons"}
+                  onChange={(e) => {
+                    const replyType = e.target.value as "buttons" | "list";
+                    onChange(
+                      replyType === "list" && listSections.length === 0
+                        ? {
+                            replyType,
+                            listButtonText: "View options",
+                            listSections: [
+                              { id: uid(), title: "", rows: [{ id: uid(), title: "Option 1" }] },
+                            ],
+                          }
+                        : { replyType }
+                    );
+                  }}
+                >
+                  <option value="buttons">Reply buttons (up to 3)</option>
+                  <option value="list">List message (up to 10 rows)</option>
+                </select>
+              </div>
+
+              {d.replyType === "list" && (
+                <div className="space-y-3">
+                  <div>
+                    <Label>Menu Button Text</Label>
+                    <Input
+                      maxLength={20}
+                      value={d.listButtonText || ""}
+                      onChange={(e) => onChange({ listButtonText: e.target.value })}
+                      placeholder="View options"
+                    />
+                  </div>
+
+                  {listSections.map((section) => (
+                    <div key={section.id} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          maxLength={24}
+                          value={section.title}
+                          onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                          placeholder={
+                            listSections.length > 1 ? "Section title" : "Section title (optional)"
+                          }
+                          className="flex-1"
+                        />
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-500"
+                          onClick={() =>
+                            onChange({
+                              listSections: listSections.filter((s) => s.id !== section.id),
+                            })
+                          }
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+
+                      {section.rows.map((row) => (
+                        <div key={row.id} className="pl-3 border-l-2 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <Input
+                              maxLength={24}
+                              value={row.title}
+                              onChange={(e) =>
+                                updateSection(section.id, {
+                                  rows: section.rows.map((r) =>
+                                    r.id === row.id ? { ...r, title: e.target.value } : r
+                                  ),
+                                })
+                              }
+                              placeholder="Row title"
+                              className="flex-1 h-8"
+                            />
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-500"
+                              onClick={() =>
+                                updateSection(section.id, {
+                                  rows: section.rows.filter((r) => r.id !== row.id),
+                                })
+                              }
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                          <Input
+                            maxLength={72}
+                            value={row.description || ""}
+                            onChange={(e) =>
+                              updateSection(section.id, {
+                                rows: section.rows.map((r) =>
+                                  r.id === row.id ? { ...r, description: e.target.value } : r
+                                ),
+                              })
+                            }
+                            placeholder="Description (optional)"
+                            className="h-8 text-xs"
+                          />
+                        </div>
+                      ))}
+
                       <Button
                         size="sm"
-                        variant="ghost"
-                        onClick={() => removeButton(button.id)}
-                        className="text-red-500"
+                        variant="outline"
+                        disabled={listRowCount >= MAX_LIST_ROWS}
+                        onClick={() => addRow(section)}
                       >
-                        <X className="w-4 h-4" />
+                        <Plus className="w-3 h-3 mr-1" />
+                        Add Row
                       </Button>
                     </div>
-                    
-                    <div className="flex items-center gap-2 text-xs">
-                      <select
-                        value={button.action || 'next'}
-                        onChange={(e) => updateButton(button.id, { action: e.target.value as 'next' | 'custom' })}
-                        className="border rounded px-2 py-1 text-xs"
-                      >
-                        <option value="next">Continue to next step</option>
-                        <option value="custom">Custom action</option>
-                      </select>
-                      
-                      {button.action === 'custom' && (
-                        <Input
-                          value={button.value || ""}
-                          onChange={(e) => updateButton(button.id, { value: e.target.value })}
-                          placeholder="Custom value"
-                          className="flex-1 text-xs h-7"
-                        />
-                      )}
-                    </div>
+                  ))}
+
+                  <div className="flex items-center justify-between">
+                    <Button size="sm" variant="outline" onClick={addSection}>
+                      <Plus className="w-3 h-3 mr-1" />
+                      Add Section
+                    </Button>
+                    <span className="text-xs text-gray-500">
+                      {listRowCount}/{MAX_LIST_ROWS} rows
+                    </span>
                   </div>
-                ))}
-                
-                {(!d.buttons || d.buttons.length === 0) && (
-                  <div className="text-sm text-gray-500 italic border rounded-lg p-4 text-center">
-                    No answer options added. Users will be able to type free text responses.
-                    <br />
-                    <br />
-                    <Button size="sm" variant="outline" onClick={addButton} className="mt-2">
+                  <p className="text-xs text-muted-foreground">
+                    Each row gets its own output on the node.
+                  </p>
+                </div>
+              )}
+
+              {/* Answer Options/Buttons Section */}
+              {d.replyType !== "list" && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Answer Options</Label>
+                    <Button size="sm" variant="outline" onClick={addButton}>
                       <Plus className="w-3 h-3 mr-1" />
-                      Add First Option
+                      Add Option
                     </Button>
                   </div>
-                )}
-              </div>
+                  
+                  {d.buttons?.map((button) => (
+                    <div key={button.id} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={button.text}
+                          onChange={(e) => updateButton(button.id, { text: e.target.value })}
+                          placeholder="Answer option text"
+                          className="flex-1"
+                        />
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeButton(button.id)}
+                          className="text-red-500"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      
+                      <div className="flex items-center gap-2 text-xs">
+                        <select
+                          value={button.action || 'next'}
+                          onChange={(e) => updateButton(button.id, { action: e.target.value as 'next' | 'custom' })}
+                          className="border rounded px-2 py-1 text-xs"
+                        >
+                          <option value="next">Continue to next step</option>
+                          <option value="custom">Custom action</option>
+                        </select>
+                        
+                        {button.action === 'custom' && (
+                          <Input
+                            value={button.value || ""}
+                            onChange={(e) => updateButton(button.id, { value: e.target.value })}
+                            placeholder="Custom value"
+                            className="flex-1 text-xs h-7"
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  
+                  {(!d.buttons || d.buttons.length === 0) && (
+                    <div className="text-sm text-gray-500 italic border rounded-lg p-4 text-center">
+                      No answer options added. Users will be able to type free text responses.
+                      <br />
+                      <br />
+                      <Button size="sm" variant="outline" onClick={addButton} className="mt-2">
+                        <Plus className="w-3 h-3 mr-1" />
+                        Add First Option
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {((d.replyType === "list" && listRowCount > 0) ||
+                (d.replyType !== "list" && (d.buttons?.length ?? 0) > 0)) && (
+                <div className="space-y-2 border-t pt-3">
+                  <Label>When the answer matches no option</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={5}
+                      className="w-20"
+                      value={d.maxAttempts ?? 0}
+                      onChange={(e) =>
+                        onChange({
+                          maxAttempts: Math.min(5, Math.max(0, parseInt(e.target.value, 10) || 0)),
+                        })
+                      }
+                    />
+                    <span className="text-sm text-gray-600">re-prompt attempts</span>
+                  </div>
+                  {(d.maxAttempts ?? 0) > 0 && (
+                    <Textarea
+                      rows={2}
+                      value={d.retryMessage || ""}
+                      onChange={(e) => onChange({ retryMessage: e.target.value })}
+                      placeholder="Sorry, I didn't get that. Please choose one of the options."
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    After the last attempt the flow continues from the "No
+                    match" output.
+                  </p>
+                </div>
+              )}
+
+              {d.replyType !== "list" && (d.buttons?.length ?? 0) === 0 && (
+                <div className="space-y-2 border-t pt-3">
+                  <Label>Validate Answer</Label>
+                  <select
+                    className="w-full border rounded-md h-9 px-2"
+                    value={d.validation?.type || ""}
+                    onChange={(e) =>
+                      onChange({
+                        validation: e.target.value
+                          ? {
+                              maxAttempts: 2,
+                              ...d.validation,
+                              type: e.target.value as AnswerValidation["type"],
+                            }
+                          : undefined,
+                      })
+                    }
+                  >
+                    <option value="">No validation</option>
+                    <option value="email">Email</option>
+                    <option value="phone">Phone number</option>
+                    <option value="number">Number</option>
+                    <option value="date">Date</option>
+                    <option value="regex">Regular expression</option>
+                    <option value="choice">One of a list</option>
+                  </select>
+
+                  {d.validation?.type === "number" && (
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        placeholder="Min"
+                        value={d.validation.min ?? ""}
+                        onChange={(e) =>
+                          onChange({
+                            validation: {
+                              ...d.validation,
+                              min: e.target.value === "" ? undefined : Number(e.target.value),
+                            },
+                          })
+                        }
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Max"
+                        value={d.validation.max ?? ""}
+                        onChange={(e) =>
+                          onChange({
+                            validation: {
+                              ...d.validation,
+                              max: e.target.value === "" ? undefined : Number(e.target.value),
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                  )}
+
+                  {d.validation?.type === "phone" && (
+                    <Input
+                      placeholder="Default country code, e.g. 91"
+                      value={d.validation.defaultCountryCode || ""}
+                      onChange={(e) =>
+                        onChange({
+                          validation: { ...d.validation, defaultCountryCode: e.target.value },
+                        })
+                      }
+                    />
+                  )}
+
+                  {d.validation?.type === "date" && (
+                    <select
+                      className="w-full border rounded-md h-9 px-2"
+                      value={d.validation.dateOrder || "DMY"}
+                      onChange={(e) =>
+                        onChange({
+                          validation: {
+                            ...d.validation,
+                            dateOrder: e.target.value as "DMY" | "MDY",
+                          },
+                        })
+                      }
+                    >
+                      <option value="DMY">Day first (31/12/2025)</option>
+                      <option value="MDY">Month first (12/31/2025)</option>
+                    </select>
+                  )}
+
+                  {d.validation?.type === "regex" && (
+                    <Input
+                      className="font-mono text-sm"
+                      placeholder="^[A-Z]{2}\d{6}$"
+                      value={d.validation.pattern || ""}
+                      onChange={(e) =>
+                        onChange({ validation: { ...d.validation, pattern: e.target.value } })
+                      }
+                    />
+                  )}
+
+                  {d.validation?.type === "choice" && (
+                    <Textarea
+                      rows={3}
+                      placeholder={"One option per line\nSmall\nMedium\nLarge"}
+                      value={(d.validation.choices || []).join("\n")}
+                      onChange={(e) =>
+                        onChange({
+                          validation: { ...d.validation, choices: e.target.value.split("\n") },
+                        })
+                      }
+                    />
+                  )}
+
+                  {d.validation?.type && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={5}
+                          className="w-20"
+                          value={d.validation.maxAttempts ?? 2}
+                          onChange={(e) =>
+                            onChange({
+                              validation: {
+                                ...d.validation,
+                                maxAttempts: Math.min(
+                                  5,
+                                  Math.max(0, parseInt(e.target.value, 10) || 0)
+                                ),
+                              },
+                            })
+                          }
+                        />
+                        <span className="text-sm text-gray-600">retries before "Invalid"</span>
+                      </div>
+                      <Textarea
+                        rows={2}
+                        value={d.validation.retryMessage || ""}
+                        onChange={(e) =>
+                          onChange({
+                            validation: { ...d.validation, retryMessage: e.target.value },
+                          })
+                        }
+                        placeholder="That doesn't look right, please try again."
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        The cleaned up value is saved as{" "}
+                        <span className="font-mono">{d.saveAs || "answer"}_normalized</span>.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
 
               {/* Preview Section */}
               {(d.question || (d.buttons && d.buttons.length > 0)) && (
@@ -1058,7 +2370,25 @@ function ConfigPanel({
                     {d.question && (
                       <div className="font-medium text-sm mb-3">{d.question}</div>
                     )}
-                    {d.buttons && d.buttons.length > 0 && (
+                    {d.replyType === "list" ? (
+                      <div className="bg-white border rounded text-xs divide-y">
+                        {listSections.map((section) => (
+                          <div key={section.id} className="p-2 space-y-1">
+                            {section.title && (
+                              <div className="text-gray-500 uppercase">{section.title}</div>
+                            )}
+                            {section.rows.map((row) => (
+                              <div key={row.id}>
+                                <div>{row.title}</div>
+                                {row.description && (
+                                  <div className="text-gray-500">{row.description}</div>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    ) : d.buttons && d.buttons.length > 0 && (
                       <div className="space-y-1">
                         {d.buttons.map((button) => (
                           <div 
@@ -1070,7 +2400,7 @@ function ConfigPanel({
                         ))}
                       </div>
                     )}
-                    {(!d.buttons || d.buttons.length === 0) && (
+                    {d.replyType !== "list" && (!d.buttons || d.buttons.length === 0) && (
                       <div className="text-xs text-gray-500 italic">
                         [User can type free text response]
                       </div>
@@ -1101,6 +2431,9 @@ export default function AutomationFlowBuilderXYFlow({
   const [name, setName] = useState<string>(automation?.name || "Send a message");
   const [description, setDescription] = useState<string>(automation?.description || "");
   const [trigger, setTrigger] = useState<string>(automation?.trigger || "new_conversation");
+  const [triggerConfig, setTriggerConfig] = useState<AutomationTriggerConfig>(
+    automation?.triggerConfig || {}
+  );
 
   // Transform automation data once and store in ref to prevent re-computation
   const initialFlowRef = useRef<{ nodes: Node<BuilderNodeData>[]; edges: Edge[] } | null>(null);
@@ -1123,15 +2456,54 @@ export default function AutomationFlowBuilderXYFlow({
     [nodes, selectedId]
   );
 
+  // Problems the server reported on the last save, outlined on the canvas
+  const [issues, setIssues] = useState<FlowIssue[]>([]);
+  // Funnel overlay for saved automations, last 30 days
+  const [showFunnel, setShowFunnel] = useState(false);
+  const { data: funnel } = useAutomationFunnel(automation?.id, "days=30", showFunnel);
+
+  const displayNodes = useMemo(() => {
+    if (issues.length === 0 && !(showFunnel && funnel)) return nodes;
+    return nodes.map((node) => {
+      const stats = showFunnel ? funnel?.nodes.find((n) => n.nodeId === node.id) : undefined;
+      const shown = stats ? { ...node, data: { ...node.data, funnel: stats } } : node;
+      const nodeIssues = issues.filter((issue) => issue.nodeId === node.id);
+      if (nodeIssues.length === 0) return shown;
+      const ring = nodeIssues.some((issue) => issue.level === "error")
+        ? "ring-4 ring-red-500"
+        : "ring-4 ring-amber-400";
+      return { ...shown, className: `${ring} rounded-2xl` };
+    });
+  }, [nodes, issues, showFunnel, funnel]);
+  const displayEdges = useMemo(() => {
+    if (!showFunnel || !funnel) return edges;
+    return edges.map((edge) => {
+      const transition = funnel.transitions.find(
+        (t) => t.sourceNodeId === edge.source && t.targetNodeId === edge.target
+      );
+      if (!transition) return edge;
+      return { ...edge, label: `${edge.label ? `${edge.label} · ` : ""}${transition.count} (${percent(transition.rate)})` };
+    });
+  }, [edges, showFunnel, funnel]);
+  const selectedIssues = issues.filter((issue) => issue.nodeId && issue.nodeId === selectedId);
+
   const onConnect: OnConnect = useCallback(
     (params: Edge | Connection) =>
       setEdges((eds) =>
         addEdge(
-          { ...params, animated: true, type: "custom" },
+          {
+            ...params,
+            label: getEdgeLabel(
+              nodes.find((n) => n.id === params.source),
+              params.sourceHandle
+            ),
+            animated: true,
+            type: "custom",
+          } as Edge,
           eds
         )
       ),
-    [setEdges]
+    [setEdges, nodes]
   );
 
   // const onNodeClick: NodeMouseHandler = useCallback(
@@ -1247,33 +2619,61 @@ export default function AutomationFlowBuilderXYFlow({
         console.log(pair[0], pair[1]);
       }
   
-      if (payload.automationId) {
+      const response = payload.automationId
         // Update existing automation
-        return await fetch(`/api/automations/${payload.automationId}`, {
-          method: "PUT",
-          body: formData
-        });
-      } else {
+        ? await fetch(`/api/automations/${payload.automationId}`, {
+            method: "PUT",
+            body: formData
+          })
         // Create new automation
-        return await fetch("/api/automations", {
-          method: "POST",
-          body: formData
-        });
+        : await fetch("/api/automations", {
+            method: "POST",
+            body: formData
+          });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const error: any = new Error(body.message || body.error || "An error occurred while saving.");
+        error.errors = body.errors || [];
+        error.warnings = body.warnings || [];
+        throw error;
       }
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      const warnings: { message: string }[] = result?.warnings || [];
+      if (warnings.length > 0) {
+        toast({
+          title: `Saved with ${warnings.length} warning${warnings.length === 1 ? "" : "s"}`,
+          description: warnings.slice(0, 3).map((issue) => issue.message).join("\n"),
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/automations"] });
+        onClose();
+        return;
+      }
       toast({
         title: automation?.id ? "Automation updated" : "Automation created",
-        description: "Your automation flow has been saved successfully.",
+        // Published automations keep running their live version until the draft is published
+        description: automation?.publishedVersionId
+          ? "Draft saved. Publish it from the version history to put it live."
+          : "Your automation flow has been saved successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/automations"] });
       onClose();
     },
     onError: (error: any) => {
       console.error('Save mutation error:', error);
+      setIssues([
+        ...(error?.errors || []).map((issue: FlowIssue) => ({ ...issue, level: "error" as const })),
+        ...(error?.warnings || []).map((issue: FlowIssue) => ({ ...issue, level: "warning" as const })),
+      ]);
+      const details = (error?.errors || [])
+        .slice(0, 3)
+        .map((issue: { message: string }) => issue.message)
+        .join("\n");
       toast({ 
         title: "Failed to save automation", 
-        description: error?.message || "An error occurred while saving.",
+        description: details || error?.message || "An error occurred while saving.",
         variant: "destructive" 
       });
     },
@@ -1309,6 +2709,9 @@ export default function AutomationFlowBuilderXYFlow({
       id: edge.id,
       source: edge.source,
       target: edge.target,
+      sourceHandle: edge.sourceHandle ?? null,
+      // Refresh the label in case a case was renamed after connecting
+      label: getEdgeLabel(nodes.find(n => n.id === edge.source), edge.sourceHandle) ?? null,
       type: edge.type || "custom",
       animated: edge.animated || true,
     }));
@@ -1318,7 +2721,7 @@ export default function AutomationFlowBuilderXYFlow({
     const seenConnections = new Set<string>();
     
     normalizedEdges.forEach(edge => {
-      const connectionKey = `${edge.source}-${edge.target}`;
+      const connectionKey = `${edge.source}-${edge.sourceHandle ?? ""}-${edge.target}`;
       if (!seenConnections.has(connectionKey)) {
         seenConnections.add(connectionKey);
         uniqueEdges.push(edge);
@@ -1334,7 +2737,7 @@ export default function AutomationFlowBuilderXYFlow({
       name,
       description,
       trigger,
-      triggerConfig: {},
+      triggerConfig,
       nodes: backendNodes,
       edges: mainEdges,
       automationId: automation?.id || null,
@@ -1461,6 +2864,34 @@ export default function AutomationFlowBuilderXYFlow({
                   <div className="w-2 h-2 bg-indigo-600 rounded-full" /> Assign
                   to Member
                 </button>
+                <button
+                  onClick={() => addNode("handoff")}
+                  className="w-full text-left text-sm px-3 py-2 hover:bg-rose-50 rounded flex items-center gap-2"
+                >
+                  <div className="w-2 h-2 bg-rose-600 rounded-full" /> Hand off
+                  to Agent
+                </button>
+                <button
+                  onClick={() => addNode("update_contact")}
+                  className="w-full text-left text-sm px-3 py-2 hover:bg-lime-50 rounded flex items-center gap-2"
+                >
+                  <div className="w-2 h-2 bg-lime-700 rounded-full" /> Update
+                  Contact
+                </button>
+                <button
+                  onClick={() => addNode("set_variable")}
+                  className="w-full text-left text-sm px-3 py-2 hover:bg-teal-50 rounded flex items-center gap-2"
+                >
+                  <div className="w-2 h-2 bg-teal-600 rounded-full" /> Set
+                  Variable
+                </button>
+                <button
+                  onClick={() => addNode("http_request")}
+                  className="w-full text-left text-sm px-3 py-2 hover:bg-cyan-50 rounded flex items-center gap-2"
+                >
+                  <div className="w-2 h-2 bg-cyan-700 rounded-full" /> HTTP
+                  Request
+                </button>
               </div>
             </div>
           </div>
@@ -1510,6 +2941,12 @@ export default function AutomationFlowBuilderXYFlow({
                 <option value="">Select trigger</option>
                 <option value="new_conversation">New conversation</option>
                 <option value="message_received">Message received</option>
+                <option value="schedule">Schedule</option>
+                <option value="api_webhook">Inbound API call</option>
+                <option value="contact_created">Contact created</option>
+                <option value="tag_added">Tag added</option>
+                <option value="conversation_closed">Conversation closed</option>
+                <option value="campaign_message_read">Campaign message read</option>
               </select>
             </div>
           </div>
@@ -1523,6 +2960,16 @@ export default function AutomationFlowBuilderXYFlow({
               <Save className="w-4 h-4 mr-1" /> 
               {saveMutation.isPending ? "Saving..." : "Save"}
             </Button>
+            {automation?.id && (
+              <Button
+                size="sm"
+                variant={showFunnel ? "secondary" : "ghost"}
+                onClick={() => setShowFunnel(!showFunnel)}
+                title="Show runs from the last 30 days on the canvas"
+              >
+                <BarChart3 className="w-4 h-4" />
+              </Button>
+            )}
             <Button size="sm" variant="ghost">
               <Share2 className="w-4 h-4" />
             </Button>
@@ -1532,10 +2979,28 @@ export default function AutomationFlowBuilderXYFlow({
           </div>
         </div>
 
+        {issues.length > 0 && (
+          <div className="border-b bg-red-50 px-4 py-2 text-xs space-y-1 max-h-32 overflow-y-auto">
+            {issues.map((issue, index) => (
+              <button
+                key={index}
+                type="button"
+                className={`flex items-center gap-1 text-left ${
+                  issue.level === "error" ? "text-red-700" : "text-amber-700"
+                } ${issue.nodeId ? "hover:underline" : "cursor-default"}`}
+                onClick={() => issue.nodeId && setSelectedId(issue.nodeId)}
+              >
+                <AlertTriangle className="w-3 h-3 shrink-0" />
+                {issue.message}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="flex-1">
           <ReactFlow
-            nodes={nodes}
-            edges={edges}
+            nodes={displayNodes}
+            edges={displayEdges}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
             onConnect={onConnect}
@@ -1589,6 +3054,34 @@ export default function AutomationFlowBuilderXYFlow({
           >
             Assign
           </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => addNode("handoff")}
+          >
+            Handoff
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => addNode("update_contact")}
+          >
+            Contact
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => addNode("set_variable")}
+          >
+            Variable
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => addNode("http_request")}
+          >
+            HTTP
+          </Button>
           <Button
             size="sm"
             variant="secondary"
@@ -1601,19 +3094,41 @@ export default function AutomationFlowBuilderXYFlow({
 
       {/* Right Config Panel */}
       <div className="col-span-2 border-l bg-white">
-        <ConfigPanel
-          selected={selectedNode}
-          onChange={patchSelected}
-          onDelete={deleteNode}
-          templates={templates as Template[]}
-          members={members as Member[]}
-        />
+        {!selectedNode || selectedNode.data.kind === "start" ? (
+          <AutomationTriggerSettings
+            trigger={trigger}
+            config={triggerConfig}
+            onChange={setTriggerConfig}
+            automationId={automation?.id}
+            webhookSecret={automation?.webhookSecret}
+            channelId={channelId}
+          />
+        ) : (
+          <>
+            {selectedIssues.length > 0 && (
+              <div className="m-4 mb-0 rounded-md border border-red-200 bg-red-50 p-2 text-xs space-y-1">
+                {selectedIssues.map((issue, index) => (
+                  <div key={index} className={issue.level === "error" ? "text-red-700" : "text-amber-700"}>
+                    {issue.message}
+                  </div>
+                ))}
+              </div>
+            )}
+            <ConfigPanel
+              selected={selectedNode}
+              onChange={patchSelected}
+              onDelete={deleteNode}
+              templates={templates as Template[]}
+              members={members as Member[]}
+            />
+          </>
+        )}
       </div>
     </div>
   );
 }
 
-function CustomEdge({ id, sourceX, sourceY, targetX, targetY, style, markerEnd, setEdges }: CustomEdgeProps) {
+function CustomEdge({ id, label, sourceX, sourceY, targetX, targetY, style, markerEnd, setEdges }: CustomEdgeProps) {
   // get edge path + center position
   const [edgePath, labelX, labelY] = getStraightPath({
     sourceX,
@@ -1630,6 +3145,17 @@ function CustomEdge({ id, sourceX, sourceY, targetX, targetY, style, markerEnd,
     <>
       <BaseEdge path={edgePath} markerEnd={markerEnd} style={style} />
       <EdgeLabelRenderer>
+        {label && (
+          <div
+            style={{
+              position: "absolute",
+              transform: `translate(-50%, -150%) translate(${labelX}px,${labelY}px)`,
+            }}
+            className="text-[10px] bg-purple-100 text-purple-700 rounded px-1.5 py-0.5"
+          >
+            {label}
+          </div>
+        )}
         <div
           style={{
             position: "absolute",
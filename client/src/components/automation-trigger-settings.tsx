@@ -0,0 +1,559 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { AutomationTriggerConfig } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Copy, Plus, RefreshCw, X, Zap } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const CRON_PRESETS = [
+  { label: "Every day 9:00", cron: "0 9 * * *" },
+  { label: "Mondays 9:00", cron: "0 9 * * 1" },
+  { label: "Weekdays 18:00", cron: "0 18 * * 1-5" },
+  { label: "1st of the month", cron: "0 9 1 * *" },
+];
+
+// Comma separated list, committed on blur so typing a comma is not swallowed
+function ListInput({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: string[] | undefined;
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}) {
+  const [text, setText] = useState((value || []).join(", "));
+
+  useEffect(() => {
+    setText((value || []).join(", "));
+  }, [value]);
+
+  return (
+    <Input
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() =>
+        onChange(
+          text
+            .split(",")
+            .map((t) => t.trim())
+            .filter(Boolean)
+        )
+      }
+    />
+  );
+}
+
+// Blank means the server default, see server/utils/automation-limits.ts
+function LimitInput({
+  label,
+  value,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  placeholder: string;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <div>
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        min={1}
+        value={value ?? ""}
+        placeholder={placeholder}
+        onChange={(e) => {
+          const number = parseInt(e.target.value, 10);
+          onChange(number > 0 ? number : undefined);
+        }}
+      />
+    </div>
+  );
+}
+
+function ExecutionLimits({
+  config,
+  patch,
+}: {
+  config: AutomationTriggerConfig;
+  patch: (update: Partial<AutomationTriggerConfig>) => void;
+}) {
+  const limits = config.limits || {};
+
+  return (
+    <Card className="p-3 space-y-3">
+      <LimitInput
+        label="Cooldown per contact (minutes)"
+        value={config.cooldownMinutes}
+        placeholder="No cooldown"
+        onChange={(cooldownMinutes) => patch({ cooldownMinutes })}
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <LimitInput
+          label="Max steps"
+          value={limits.maxNodeVisits}
+          placeholder="100"
+          onChange={(maxNodeVisits) => patch({ limits: { ...limits, maxNodeVisits } })}
+        />
+        <LimitInput
+          label="Max messages"
+          value={limits.maxMessages}
+          placeholder="20"
+          onChange={(maxMessages) => patch({ limits: { ...limits, maxMessages } })}
+        />
+        <LimitInput
+          label="Max hours"
+          value={limits.maxDurationHours}
+          placeholder="720"
+          onChange={(maxDurationHours) => patch({ limits: { ...limits, maxDurationHours } })}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        A run that goes past any of these limits is stopped and marked as failed.
+      </p>
+    </Card>
+  );
+}
+
+function ContactTagFilters({
+  config,
+  patch,
+}: {
+  config: AutomationTriggerConfig;
+  patch: (update: Partial<AutomationTriggerConfig>) => void;
+}) {
+  return (
+    <>
+      <div>
+        <Label>Contact has any tag</Label>
+        <ListInput
+          value={config.contactTags}
+          onChange={(contactTags) => patch({ contactTags })}
+          placeholder="vip, lead"
+        />
+      </div>
+      <div>
+        <Label>Contact has none of the tags</Label>
+        <ListInput
+          value={config.excludeTags}
+          onChange={(excludeTags) => patch({ excludeTags })}
+          placeholder="unsubscribed"
+        />
+      </div>
+    </>
+  );
+}
+
+function ScheduleSettings({
+  config,
+  patch,
+}: {
+  config: AutomationTriggerConfig;
+  patch: (update: Partial<AutomationTriggerConfig>) => void;
+}) {
+  const schedule = config.schedule || {};
+
+  return (
+    <Card className="p-3 space-y-3">
+      <div>
+        <Label>Cron expression</Label>
+        <Input
+          className="font-mono"
+          value={schedule.cron || ""}
+          placeholder="0 9 * * 1"
+          onChange={(e) => patch({ schedule: { ...schedule, cron: e.target.value } })}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          minute hour day-of-month month day-of-week
+        </p>
+        <div className="flex flex-wrap gap-1 mt-2">
+          {CRON_PRESETS.map((preset) => (
+            <Button
+              key={preset.cron}
+              type="button"
+              size="sm"
+              variant={schedule.cron === preset.cron ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => patch({ schedule: { ...schedule, cron: preset.cron } })}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <Input
+        placeholder="Timezone, e.g. Asia/Kolkata (default UTC)"
+        value={schedule.timezone || ""}
+        onChange={(e) => patch({ schedule: { ...schedule, timezone: e.target.value } })}
+      />
+      <div>
+        <Label>Contacts in any group</Label>
+        <ListInput
+          value={schedule.groups}
+          onChange={(groups) => patch({ schedule: { ...schedule, groups } })}
+          placeholder="VIP"
+        />
+      </div>
+      <ContactTagFilters config={config} patch={patch} />
+      <p className="text-xs text-muted-foreground">
+        Each run starts the flow for every active contact in the segment.
+        Contacts already waiting on a reply or talking to an agent are skipped.
+      </p>
+    </Card>
+  );
+}
+
+function WebhookSettings({
+  automationId,
+  webhookSecret,
+}: {
+  automationId?: string;
+  webhookSecret?: string | null;
+}) {
+  const [secret, setSecret] = useState(webhookSecret);
+  const [regenerating, setRegenerating] = useState(false);
+
+  useEffect(() => {
+    setSecret(webhookSecret);
+  }, [webhookSecret]);
+
+  if (!automationId || !secret) {
+    return (
+      <Card className="p-3 text-sm text-gray-500">
+        Save the automation to get its webhook URL.
+      </Card>
+    );
+  }
+
+  const url = `${window.location.origin}/api/automations/hooks/${secret}`;
+  const regenerate = async () => {
+    setRegenerating(true);
+    try {
+      const res = await apiRequest("POST", `/api/automations/${automationId}/webhook-secret`);
+      setSecret((await res.json()).webhookSecret);
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  return (
+    <Card className="p-3 space-y-3">
+      <div>
+        <Label>Webhook URL</Label>
+        <div className="flex items-center gap-1">
+          <Input readOnly className="font-mono text-xs" value={url} />
+          <Button size="sm" variant="ghost" onClick={() => navigator.clipboard.writeText(url)}>
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="ghost" disabled={regenerating} onClick={regenerate}>
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <pre className="text-xs bg-gray-50 border rounded p-2 whitespace-pre-wrap">
+        {`POST ${url}\n{\n  "phone": "919876543210",\n  "name": "Asha",\n  "variables": { "order_id": "1042" }\n}`}
+      </pre>
+      <p className="text-xs text-muted-foreground">
+        Contacts are matched by phone, digits with the country code, and
+        created when new. Variables can be used as {"{{order_id}}"} in the
+        flow. Anyone with the URL can start the automation; a new URL
+        disables the old one.
+      </p>
+    </Card>
+  );
+}
+
+function CampaignPicker({
+  channelId,
+  value,
+  onChange,
+}: {
+  channelId?: string;
+  value: string[] | undefined;
+  onChange: (value: string[]) => void;
+}) {
+  const selected = value || [];
+  const { data: campaigns = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/campaigns", channelId],
+    queryFn: async () => {
+      const res = await fetch("/api/campaigns", {
+        credentials: "include",
+        headers: { "x-channel-id": channelId || "" },
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+
+  return (
+    <div>
+      <Label>Campaigns</Label>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {campaigns.map((campaign) => {
+          const isSelected = selected.includes(campaign.id);
+          return (
+            <Button
+              key={campaign.id}
+              type="button"
+              size="sm"
+              variant={isSelected ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() =>
+                onChange(
+                  isSelected
+                    ? selected.filter((id) => id !== campaign.id)
+                    : [...selected, campaign.id]
+                )
+              }
+            >
+              {campaign.name}
+            </Button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        Leave empty to react to messages from any campaign.
+      </p>
+    </div>
+  );
+}
+
+export default function AutomationTriggerSettings({
+  trigger,
+  config,
+  onChange,
+  automationId,
+  webhookSecret,
+  channelId,
+}: {
+  trigger: string;
+  config: AutomationTriggerConfig;
+  onChange: (config: AutomationTriggerConfig) => void;
+  automationId?: string;
+  webhookSecret?: string | null;
+  channelId?: string;
+}) {
+  const patch = (update: Partial<AutomationTriggerConfig>) =>
+    onChange({ ...config, ...update });
+
+  if (trigger !== "message_received") {
+    const contactEvent = ["contact_created", "tag_added", "conversation_closed", "campaign_message_read", "api_webhook"]
+      .includes(trigger);
+
+    return (
+      <div className="h-full overflow-y-auto p-4 space-y-4">
+        <div className="flex items-center gap-2 font-semibold">
+          <Zap className="w-4 h-4" /> Trigger settings
+        </div>
+        {trigger === "schedule" && <ScheduleSettings config={config} patch={patch} />}
+        {trigger === "api_webhook" && (
+          <WebhookSettings automationId={automationId} webhookSecret={webhookSecret} />
+        )}
+        {contactEvent && (
+          <Card className="p-3 space-y-3">
+            {trigger === "tag_added" && (
+              <div>
+                <Label>When any of these tags is added</Label>
+                <ListInput
+                  value={config.eventTags}
+                  onChange={(eventTags) => patch({ eventTags })}
+                  placeholder="Any tag"
+                />
+              </div>
+            )}
+            {trigger === "campaign_message_read" && (
+              <CampaignPicker
+                channelId={channelId}
+                value={config.campaignIds}
+                onChange={(campaignIds) => patch({ campaignIds })}
+              />
+            )}
+            <ContactTagFilters config={config} patch={patch} />
+          </Card>
+        )}
+        <ExecutionLimits config={config} patch={patch} />
+        <div className="text-sm text-gray-500">Select a node to configure it.</div>
+      </div>
+    );
+  }
+
+  const keywords = config.keywords || [];
+  const hours = config.businessHours || {};
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="flex items-center gap-2 font-semibold">
+        <Zap className="w-4 h-4" /> Trigger settings
+      </div>
+
+      <Card className="p-3 space-y-3">
+        <div>
+          <Label>Match Type</Label>
+          <select
+            className="w-full border rounded-md h-9 px-2"
+            value={config.matchType || "any"}
+            onChange={(e) =>
+              patch({ matchType: e.target.value as AutomationTriggerConfig["matchType"] })
+            }
+          >
+            <option value="any">Contains any keyword</option>
+            <option value="all">Contains all keywords</option>
+            <option value="exact">Exact message</option>
+            <option value="regex">Regular expression</option>
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Keywords</Label>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => patch({ keywords: [...keywords, ""] })}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add Keyword
+            </Button>
+          </div>
+          {keywords.map((keyword, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={keyword}
+                onChange={(e) =>
+                  patch({
+                    keywords: keywords.map((k, i) => (i === index ? e.target.value : k)),
+                  })
+                }
+                placeholder={config.matchType === "regex" ? "^order\\s*#?\\d+" : `Keyword ${index + 1}`}
+                className="flex-1"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => patch({ keywords: keywords.filter((_, i) => i !== index) })}
+                className="text-red-500"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {keywords.length === 0 && (
+            <div className="text-sm text-gray-500 italic">
+              No keywords: every message matches.
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label>Case sensitive</Label>
+          <Switch
+            checked={!!config.caseSensitive}
+            onCheckedChange={(checked) => patch({ caseSensitive: checked })}
+          />
+        </div>
+      </Card>
+
+      <Card className="p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>First message only</Label>
+          <Switch
+            checked={!!config.firstMessageOnly}
+            onCheckedChange={(checked) => patch({ firstMessageOnly: checked })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label>Business hours only</Label>
+          <Switch
+            checked={!!hours.enabled}
+            onCheckedChange={(checked) =>
+              patch({ businessHours: { ...hours, enabled: checked } })
+            }
+          />
+        </div>
+
+        {hours.enabled && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((day, index) => {
+                const days = hours.days || [1, 2, 3, 4, 5];
+                const selected = days.includes(index);
+                return (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={selected ? "default" : "outline"}
+                    className="h-7 px-2 text-xs"
+                    onClick={() =>
+                      patch({
+                        businessHours: {
+                          ...hours,
+                          days: selected
+                            ? days.filter((x) => x !== index)
+                            : [...days, index].sort((a, b) => a - b),
+                        },
+                      })
+                    }
+                  >
+                    {day}
+                  </Button>
+                );
+              })}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="time"
+                value={hours.start || "09:00"}
+                onChange={(e) =>
+                  patch({ businessHours: { ...hours, start: e.target.value } })
+                }
+              />
+              <Input
+                type="time"
+                value={hours.end || "18:00"}
+                onChange={(e) =>
+                  patch({ businessHours: { ...hours, end: e.target.value } })
+                }
+              />
+            </div>
+            <Input
+              placeholder="Timezone, e.g. Asia/Kolkata (default UTC)"
+              value={hours.timezone || ""}
+              onChange={(e) =>
+                patch({ businessHours: { ...hours, timezone: e.target.value } })
+              }
+            />
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-3 space-y-3">
+        <ContactTagFilters config={config} patch={patch} />
+        <div>
+          <Label>Priority</Label>
+          <Input
+            type="number"
+            value={config.priority ?? 0}
+            onChange={(e) => patch({ priority: parseInt(e.target.value, 10) || 0 })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            When several automations match a message, only the one with the
+            highest priority runs.
+          </p>
+        </div>
+      </Card>
+
+      <ExecutionLimits config={config} patch={patch} />
+    </div>
+  );
+}
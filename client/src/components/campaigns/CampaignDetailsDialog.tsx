@@ -1,3 +1,6 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,7 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {  PieChart, Pie, Cell, Tooltip, ResponsiveContainer} from "recharts";
 import { format } from "date-fns";
 import { Link } from "wouter";
-import { MessageSquare, Users, CheckCircle, AlertCircle,  BarChart3 } from "lucide-react";
+import { MessageSquare, Users, CheckCircle, AlertCircle,  BarChart3, Loader2 } from "lucide-react";
 
 interface Campaign {
   id: string;
@@ -23,6 +26,132 @@ interface Campaign {
   createdAt: string;
   completedAt?: string;
   scheduledAt?: string;
+  timezone?: string;
+  sendAtLocalTime?: boolean;
+}
+
+interface CampaignProgress {
+  recipientCount: number;
+  held: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  cancelled: number;
+  queued: number;
+  messagesPerSecond: number;
+  percentComplete: number;
+  estimatedSecondsRemaining: number;
+}
+
+function formatRemaining(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Live sending progress while the campaign drains through the message queue
+function SendingProgress({ campaignId, paused }: { campaignId: string; paused: boolean }) {
+  const { data: progress } = useQuery<CampaignProgress>({
+    queryKey: ["/api/campaigns", campaignId, "progress"],
+    refetchInterval: (query) => (paused || query.state.data?.queued === 0 ? false : 3000),
+  });
+
+  const finished = progress?.queued === 0;
+  useEffect(() => {
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    }
+  }, [finished]);
+
+  if (!progress) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {!finished && !paused && <Loader2 className="h-4 w-4 animate-spin" />}
+          Sending Progress
+        </CardTitle>
+        <CardDescription>
+          {finished && progress.held > 0
+            ? `A/B test sample sent, ${progress.held} recipients wait for the winning variant`
+            : finished
+            ? "All messages have been handed to WhatsApp"
+            : paused
+            ? `Paused with ${progress.queued} of ${progress.recipientCount} still to send`
+            : `${progress.queued} of ${progress.recipientCount} waiting · ${progress.messagesPerSecond} messages/second · about ${formatRemaining(progress.estimatedSecondsRemaining)} left`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Progress value={progress.percentComplete} className="h-2" />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{progress.sent + progress.delivered + progress.read} sent</span>
+          <span>{progress.failed} failed</span>
+          <span>{progress.percentComplete}%</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CampaignEvent {
+  id: string;
+  event: string;
+  fromStatus: string | null;
+  toStatus: string | null;
+  details: Record<string, any> | null;
+  username: string | null;
+  createdAt: string;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  created: "Created",
+  scheduled: "Scheduled",
+  started: "Started sending",
+  paused: "Paused",
+  resumed: "Resumed",
+  cancelled: "Cancelled",
+  completed: "Completed",
+  retried: "Retried failed recipients",
+  winner_selected: "A/B test winner sent",
+  status_changed: "Status changed",
+};
+
+// Audit trail of status changes, newest first
+function CampaignActivity({ campaignId }: { campaignId: string }) {
+  const { data: events = [] } = useQuery<CampaignEvent[]>({
+    queryKey: ["/api/campaigns", campaignId, "events"],
+  });
+
+  if (events.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {events.map((event) => (
+          <div key={event.id} className="flex justify-between gap-4 text-sm">
+            <div>
+              <p className="font-medium">
+                {EVENT_LABELS[event.event] || event.event}
+                {event.fromStatus && event.toStatus && ` · ${event.fromStatus} → ${event.toStatus}`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {event.username ? `by ${event.username}` : "by the system"}
+                {event.details?.error && ` · ${event.details.error}`}
+              </p>
+            </div>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {format(new Date(event.createdAt), 'MMM d, h:mm a')}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
 }
 
 interface CampaignDetailsDialogProps {
@@ -73,6 +202,10 @@ export function CampaignDetailsDialog({ campaign, onClose }: CampaignDetailsDial
           </TabsList>
 
           <TabsContent value="overview" className="space-y-4">
+            {(campaign.status === 'active' || campaign.status === 'paused') && (
+              <SendingProgress campaignId={campaign.id} paused={campaign.status === 'paused'} />
+            )}
+
             {/* Summary Cards */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <Card>
@@ -172,6 +305,21 @@ export function CampaignDetailsDialog({ campaign, onClose }: CampaignDetailsDial
                     {format(new Date(campaign.createdAt), 'MMM d, yyyy h:mm a')}
                   </span>
                 </div>
+                {campaign.scheduledAt && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Scheduled</span>
+                    <span className="text-sm font-medium text-right">
+                      {campaign.timezone
+                        ? `${new Date(campaign.scheduledAt).toLocaleString(undefined, {
+                            timeZone: campaign.timezone,
+                            dateStyle: "medium",
+                            timeStyle: "short",
+                          })} (${campaign.timezone})`
+                        : format(new Date(campaign.scheduledAt), 'MMM d, yyyy h:mm a')}
+                      {campaign.sendAtLocalTime && " · recipient's local time"}
+                    </span>
+                  </div>
+                )}
                 {campaign.completedAt && (
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Completed</span>
@@ -182,6 +330,8 @@ export function CampaignDetailsDialog({ campaign, onClose }: CampaignDetailsDial
                 )}
               </CardContent>
             </Card>
+
+            <CampaignActivity campaignId={campaign.id} />
           </TabsContent>
 
           <TabsContent value="metrics" className="space-y-4">
@@ -0,0 +1,257 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+
+const VARIANT_LABELS = ["A", "B", "C", "D"];
+const SAME_TEMPLATE = "same";
+
+export type AbTestMetric = "delivered" | "read" | "replied";
+
+export interface VariantDraft {
+  templateId: string; // empty for variant A's template with other parameters
+  variableMapping: Record<string, string>;
+  percentage: number;
+}
+
+export interface AbTestDraft {
+  enabled: boolean;
+  variants: VariantDraft[]; // variant A uses the campaign's template and variables
+  sampleTest: boolean;
+  samplePercent: number;
+  windowHours: number;
+  metric: AbTestMetric;
+}
+
+export function defaultAbTest(): AbTestDraft {
+  return {
+    enabled: false,
+    variants: [
+      { templateId: "", variableMapping: {}, percentage: 50 },
+      { templateId: "", variableMapping: {}, percentage: 50 },
+    ],
+    sampleTest: false,
+    samplePercent: 20,
+    windowHours: 4,
+    metric: "read",
+  };
+}
+
+// Even split, with the remainder going to variant A
+function rebalance(variants: VariantDraft[]): VariantDraft[] {
+  const share = Math.floor(100 / variants.length);
+  return variants.map((variant, index) => ({
+    ...variant,
+    percentage: index === 0 ? 100 - share * (variants.length - 1) : share,
+  }));
+}
+
+interface CampaignVariantsEditorProps {
+  templates: any[];
+  selectedTemplate: any;
+  extractTemplateVariables: (template: any) => string[];
+  abTest: AbTestDraft;
+  setAbTest: (abTest: AbTestDraft) => void;
+}
+
+export function CampaignVariantsEditor({
+  templates,
+  selectedTemplate,
+  extractTemplateVariables,
+  abTest,
+  setAbTest,
+}: CampaignVariantsEditorProps) {
+  const totalPercentage = abTest.variants.reduce((sum, variant) => sum + (variant.percentage || 0), 0);
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    setAbTest({
+      ...abTest,
+      variants: abTest.variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)),
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="abTestEnabled"
+          checked={abTest.enabled}
+          onCheckedChange={(checked) => setAbTest({ ...abTest, enabled: !!checked })}
+        />
+        <Label htmlFor="abTestEnabled" className="font-normal">
+          A/B test this campaign
+        </Label>
+      </div>
+
+      {abTest.enabled && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Recipients are split at random across the variants by percentage.
+          </p>
+
+          {abTest.variants.map((variant, index) => {
+            const variantTemplate = variant.templateId
+              ? templates.find((t: any) => t.id === variant.templateId)
+              : selectedTemplate;
+            const variables = index > 0 && variantTemplate ? extractTemplateVariables(variantTemplate) : [];
+
+            return (
+              <div key={index} className="space-y-2 rounded-md bg-gray-50 p-3">
+                <div className="flex items-center justify-between">
+                  <Label>Variant {VARIANT_LABELS[index]}</Label>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={99}
+                      className="w-20"
+                      value={variant.percentage}
+                      onChange={(e) => updateVariant(index, { percentage: Number(e.target.value) || 0 })}
+                    />
+                    <span className="text-sm text-muted-foreground">%</span>
+                    {index >= 2 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setAbTest({
+                          ...abTest,
+                          variants: rebalance(abTest.variants.filter((_, i) => i !== index)),
+                        })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {index === 0 ? (
+                  <p className="text-xs text-muted-foreground">Uses the template and variables above.</p>
+                ) : (
+                  <>
+                    <Select
+                      value={variant.templateId || SAME_TEMPLATE}
+                      onValueChange={(value) => updateVariant(index, {
+                        templateId: value === SAME_TEMPLATE ? "" : value,
+                        variableMapping: {},
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SAME_TEMPLATE}>Same template as variant A</SelectItem>
+                        {templates.map((template: any) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name} ({template.language})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {variables.map((variable: string) => (
+                      <Input
+                        key={variable}
+                        placeholder={`Value for {{${variable}}}`}
+                        value={variant.variableMapping[variable] || ""}
+                        onChange={(e) => updateVariant(index, {
+                          variableMapping: { ...variant.variableMapping, [variable]: e.target.value },
+                        })}
+                      />
+                    ))}
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          {abTest.variants.length < VARIANT_LABELS.length && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setAbTest({
+                ...abTest,
+                variants: rebalance([...abTest.variants, { templateId: "", variableMapping: {}, percentage: 0 }]),
+              })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add variant
+            </Button>
+          )}
+          {totalPercentage !== 100 && (
+            <p className="text-xs text-destructive">
+              The percentages add up to {totalPercentage}%, they need to make 100%.
+            </p>
+          )}
+
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="abTestSample"
+              checked={abTest.sampleTest}
+              onCheckedChange={(checked) => setAbTest({ ...abTest, sampleTest: !!checked })}
+            />
+            <div>
+              <Label htmlFor="abTestSample" className="font-normal">
+                Test on a sample first, then send the winner to everyone else
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                The rest of the audience waits until the test window ends.
+              </p>
+            </div>
+          </div>
+
+          {abTest.sampleTest && (
+            <div className="grid grid-cols-3 gap-3 pl-6">
+              <div>
+                <Label htmlFor="abTestSamplePercent" className="text-sm font-normal">Sample size (%)</Label>
+                <Input
+                  id="abTestSamplePercent"
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={abTest.samplePercent}
+                  onChange={(e) => setAbTest({
+                    ...abTest,
+                    samplePercent: Math.min(99, Math.max(1, Number(e.target.value) || 1)),
+                  })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="abTestWindowHours" className="text-sm font-normal">Test window (hours)</Label>
+                <Input
+                  id="abTestWindowHours"
+                  type="number"
+                  min={1}
+                  max={168}
+                  value={abTest.windowHours}
+                  onChange={(e) => setAbTest({
+                    ...abTest,
+                    windowHours: Math.min(168, Math.max(1, Number(e.target.value) || 1)),
+                  })}
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-normal">Winner by</Label>
+                <Select
+                  value={abTest.metric}
+                  onValueChange={(value) => setAbTest({ ...abTest, metric: value as AbTestMetric })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="delivered">Delivery rate</SelectItem>
+                    <SelectItem value="read">Read rate</SelectItem>
+                    <SelectItem value="replied">Reply rate</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { MoreHorizontal, Eye, Play, Pause, Trash2, TrendingUp, TrendingDown } from "lucide-react";
+import { MoreHorizontal, Eye, Play, Pause, RotateCcw, Trash2, TrendingUp, TrendingDown, XCircle } from "lucide-react";
 import { format } from "date-fns";
 import { useTranslation } from "@/lib/i18n";
 import { useAuth } from "@/contexts/auth-context";
@@ -28,10 +28,11 @@ interface CampaignsTableProps {
   campaigns: Campaign[];
   onViewCampaign: (campaign: Campaign) => void;
   onUpdateStatus: (id: string, status: string) => void;
+  onRetryFailed: (id: string) => void;
   onDeleteCampaign: (id: string) => void;
 }
 
-export function CampaignsTable({ campaigns, onViewCampaign, onUpdateStatus, onDeleteCampaign }: CampaignsTableProps) {
+export function CampaignsTable({ campaigns, onViewCampaign, onUpdateStatus, onRetryFailed, onDeleteCampaign }: CampaignsTableProps) {
   const { t } = useTranslation();
   const { user } = useAuth();
 
@@ -41,6 +42,7 @@ export function CampaignsTable({ campaigns, onViewCampaign, onUpdateStatus, onDe
       scheduled: { variant: "secondary", label: "Scheduled" },
       active: { variant: "secondary", label: "Active" },
       paused: { variant: "outline", label: "Paused" },
+      cancelled: { variant: "outline", label: "Cancelled" },
       failed: { variant: "destructive", label: "Failed" },
     };
 
@@ -102,7 +104,21 @@ export function CampaignsTable({ campaigns, onViewCampaign, onUpdateStatus, onDe
           return (
             <TableRow key={campaign.id}>
               <TableCell className="font-medium">{campaign.name}</TableCell>
-              <TableCell>{getStatusBadge(campaign.status)}</TableCell>
+              <TableCell>
+                {getStatusBadge(campaign.status)}
+                {(campaign.status === "active" || campaign.status === "paused") && campaign.recipientCount ? (
+                  // Sending progress, kept live by the campaigns query polling
+                  <div className="mt-1 w-24">
+                    <Progress
+                      value={Math.min(100, Math.round(((campaign.sentCount || 0) + (campaign.failedCount || 0)) / campaign.recipientCount * 100))}
+                      className="h-1"
+                    />
+                    <span className="text-xs text-muted-foreground">
+                      {(campaign.sentCount || 0) + (campaign.failedCount || 0)} / {campaign.recipientCount}
+                    </span>
+                  </div>
+                ) : null}
+              </TableCell>
               <TableCell>{campaign.templateName || "-"}</TableCell>
               <TableCell>{campaign.recipientCount || 0}</TableCell>
               <TableCell>
@@ -162,6 +178,18 @@ export function CampaignsTable({ campaigns, onViewCampaign, onUpdateStatus, onDe
                         {t('campaigns.resume')}
                       </DropdownMenuItem>
                     )}
+                    {["scheduled", "active", "paused"].includes(campaign.status) && (
+                      <DropdownMenuItem onClick={() => onUpdateStatus(campaign.id, "cancelled")}>
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Cancel campaign
+                      </DropdownMenuItem>
+                    )}
+                    {campaign.status === "completed" && (campaign.failedCount || 0) > 0 && (
+                      <DropdownMenuItem onClick={() => onRetryFailed(campaign.id)}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Retry failed recipients
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem 
                       onClick={() => onDeleteCampaign(campaign.id)}
                       className="text-destructive"
@@ -30,9 +30,15 @@ import {
 } from "@/components/ui/table";
 import { Users, FileSpreadsheet, Code } from "lucide-react";
 import { CreateCampaignForm } from "./CreateCampaignForm";
+import { defaultAbTest } from "./CampaignVariantsEditor";
 import { useTranslation } from "@/lib/i18n";
 import { useAuth } from "@/contexts/auth-context";
 
+// Schedules default to the timezone of the person creating the campaign
+function browserTimezone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
 interface CreateCampaignDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -61,7 +67,11 @@ export function CreateCampaignDialog({
   const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
   const [csvData, setCsvData] = useState<any[]>([]);
   const [scheduledTime, setScheduledTime] = useState("");
-  const [autoRetry, setAutoRetry] = useState(false);
+  const [timezone, setTimezone] = useState(browserTimezone);
+  const [sendAtLocalTime, setSendAtLocalTime] = useState(false);
+  const [autoRetry, setAutoRetry] = useState(true);
+  const [maxRetries, setMaxRetries] = useState(3);
+  const [abTest, setAbTest] = useState(defaultAbTest);
 const { t } = useTranslation();
   const resetForm = () => {
     setSelectedTemplate(null);
@@ -69,7 +79,11 @@ const { t } = useTranslation();
     setSelectedContacts([]);
     setCsvData([]);
     setScheduledTime("");
-    setAutoRetry(false);
+    setTimezone(browserTimezone());
+    setSendAtLocalTime(false);
+    setAutoRetry(true);
+    setMaxRetries(3);
+    setAbTest(defaultAbTest());
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -142,7 +156,11 @@ const { t } = useTranslation();
       selectedContacts,
       csvData,
       scheduledTime,
+      timezone,
+      sendAtLocalTime: !!scheduledTime && sendAtLocalTime,
       autoRetry,
+      maxRetries,
+      abTest,
     });
   };
 
@@ -195,8 +213,16 @@ const { t } = useTranslation();
             extractTemplateVariables={extractTemplateVariables}
             scheduledTime={scheduledTime}
             setScheduledTime={setScheduledTime}
+            timezone={timezone}
+            setTimezone={setTimezone}
+            sendAtLocalTime={sendAtLocalTime}
+            setSendAtLocalTime={setSendAtLocalTime}
             autoRetry={autoRetry}
             setAutoRetry={setAutoRetry}
+            maxRetries={maxRetries}
+            setMaxRetries={setMaxRetries}
+            abTest={abTest}
+            setAbTest={setAbTest}
             isCreating={isCreating}
             onCancel={() => onOpenChange(false)}
           >
@@ -6,6 +6,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/contexts/auth-context";
+import { CampaignVariantsEditor, type AbTestDraft } from "./CampaignVariantsEditor";
 
 interface CreateCampaignFormProps {
   onSubmit: (formData: any) => void;
@@ -17,8 +18,16 @@ interface CreateCampaignFormProps {
   extractTemplateVariables: (template: any) => string[];
   scheduledTime: string;
   setScheduledTime: (time: string) => void;
+  timezone: string;
+  setTimezone: (timezone: string) => void;
+  sendAtLocalTime: boolean;
+  setSendAtLocalTime: (enabled: boolean) => void;
   autoRetry: boolean;
   setAutoRetry: (retry: boolean) => void;
+  maxRetries: number;
+  setMaxRetries: (retries: number) => void;
+  abTest: AbTestDraft;
+  setAbTest: (abTest: AbTestDraft) => void;
   isCreating: boolean;
   onCancel?: () => void;
   children: ReactNode;
@@ -34,8 +43,16 @@ export function CreateCampaignForm({
   extractTemplateVariables,
   scheduledTime,
   setScheduledTime,
+  timezone,
+  setTimezone,
+  sendAtLocalTime,
+  setSendAtLocalTime,
   autoRetry,
   setAutoRetry,
+  maxRetries,
+  setMaxRetries,
+  abTest,
+  setAbTest,
   isCreating,
   onCancel,
   children
@@ -123,6 +140,16 @@ export function CreateCampaignForm({
         </div>
       )}
 
+      {selectedTemplate && (
+        <CampaignVariantsEditor
+          templates={activeTemplates}
+          selectedTemplate={selectedTemplate}
+          extractTemplateVariables={extractTemplateVariables}
+          abTest={abTest}
+          setAbTest={setAbTest}
+        />
+      )}
+
       <div>
         <Label htmlFor="scheduledTime">Schedule Campaign (Optional)</Label>
         <Input
@@ -133,15 +160,66 @@ export function CreateCampaignForm({
         />
       </div>
 
-      <div className="flex items-center space-x-2">
-        <Checkbox
-          id="autoRetry"
-          checked={autoRetry}
-          onCheckedChange={(checked) => setAutoRetry(!!checked)}
-        />
-        <Label htmlFor="autoRetry" className="font-normal">
-          Enable auto-retry for failed messages
-        </Label>
+      {scheduledTime && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div>
+            <Label htmlFor="timezone">Timezone</Label>
+            <Input
+              id="timezone"
+              placeholder="e.g. Asia/Kolkata"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              The scheduled time is read in this timezone.
+            </p>
+          </div>
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="sendAtLocalTime"
+              checked={sendAtLocalTime}
+              onCheckedChange={(checked) => setSendAtLocalTime(!!checked)}
+            />
+            <div>
+              <Label htmlFor="sendAtLocalTime" className="font-normal">
+                Send at this time in each recipient's timezone
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Contacts without a timezone get it at the time above.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="autoRetry"
+            checked={autoRetry}
+            onCheckedChange={(checked) => setAutoRetry(!!checked)}
+          />
+          <Label htmlFor="autoRetry" className="font-normal">
+            Enable auto-retry for failed messages
+          </Label>
+        </div>
+        {autoRetry && (
+          <div className="pl-6">
+            <Label htmlFor="maxRetries">Maximum retries per recipient</Label>
+            <Input
+              id="maxRetries"
+              type="number"
+              min={1}
+              max={10}
+              className="w-24"
+              value={maxRetries}
+              onChange={(e) => setMaxRetries(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Network errors and rate limits are retried with increasing delays. Invalid numbers fail right away.
+            </p>
+          </div>
+        )}
       </div>
 
       {children}
@@ -23,9 +23,16 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Channel } from "@shared/schema";
+import { CHANNEL_THROUGHPUT_TIERS, type Channel } from "@shared/schema";
 import { MessageSquare } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
 
@@ -39,6 +46,7 @@ const channelFormSchema = z.object({
   mmLiteEnabled: z.boolean().default(false),
   mmLiteApiUrl: z.string().optional(),
   mmLiteApiKey: z.string().optional(),
+  throughputTier: z.enum(["standard", "high"]).default("standard"),
 });
 
 interface ChannelDialogProps {
@@ -63,6 +71,7 @@ const {user} = useAuth()
       mmLiteEnabled: false,
       mmLiteApiUrl: "",
       mmLiteApiKey: "",
+      throughputTier: "standard",
     },
   });
 
@@ -78,6 +87,7 @@ const {user} = useAuth()
         mmLiteEnabled: editingChannel.mmLiteEnabled || false,
         mmLiteApiUrl: editingChannel.mmLiteApiUrl || "",
         mmLiteApiKey: editingChannel.mmLiteApiKey || "",
+        throughputTier: editingChannel.throughputTier === "high" ? "high" : "standard",
       });
     } else {
       channelForm.reset();
@@ -97,6 +107,7 @@ const {user} = useAuth()
         mmLiteEnabled: data.mmLiteEnabled,
         mmLiteApiUrl: data.mmLiteApiUrl,
         mmLiteApiKey: data.mmLiteApiKey,
+        throughputTier: data.throughputTier,
       };
       
       if (editingChannel) {
@@ -257,6 +268,35 @@ const {user} = useAuth()
               )}
             />
 
+            <FormField
+              control={channelForm.control}
+              name="throughputTier"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Throughput Tier</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="standard">
+                        Standard ({CHANNEL_THROUGHPUT_TIERS.standard} messages/second)
+                      </SelectItem>
+                      <SelectItem value="high">
+                        High ({CHANNEL_THROUGHPUT_TIERS.high} messages/second)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Campaigns are sent no faster than this. Only pick High once Meta has upgraded the number.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button
                 type="button"
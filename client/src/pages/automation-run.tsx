@@ -0,0 +1,332 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceStrict } from "date-fns";
+import { ReactFlow, Background, Controls, MarkerType, type Edge, type Node } from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { statusColors } from "@/pages/automation-runs";
+import { AlertTriangle, ArrowLeft, ChevronLeft, ChevronRight, Clock, Pause, Play } from "lucide-react";
+
+// Mirrors ExecutionTimeline in server/services/automation-timeline.ts
+interface TimelineStep {
+  index: number;
+  nodeId: string;
+  nodeType: string;
+  status: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  waitedMs: number;
+  input: any;
+  output: any;
+  error: string | null;
+  variables: Record<string, any> | null;
+}
+
+interface ExecutionTimeline {
+  execution: {
+    id: string;
+    status: string;
+    result: string | null;
+    startedAt: string | null;
+    completedAt: string | null;
+    versionId: string | null;
+    contactId: string | null;
+  };
+  automation: { id: string; name: string };
+  flow: {
+    nodes: { nodeId: string; type: string; position?: { x: number; y: number }; data?: any }[];
+    edges: { id: string; sourceNodeId: string; targetNodeId: string; label?: string | null }[];
+  } | null;
+  flowSource: "version" | "draft";
+  steps: TimelineStep[];
+  failure: { nodeId: string; nodeType: string; error: string | null } | null;
+  messages: { id: string; direction: string | null; content: string; createdAt: string | null }[];
+}
+
+const REPLAY_INTERVAL_MS = 900;
+
+function formatWait(ms: number) {
+  return ms > 0 ? formatDistanceStrict(0, ms) : null;
+}
+
+function nodeLabel(node: { type: string; data?: any }) {
+  return node.data?.label || node.type.replace(/_/g, " ");
+}
+
+// Nodes visited up to the current step are numbered, the current one is outlined
+function buildCanvas(timeline: ExecutionTimeline, current: number): { nodes: Node[]; edges: Edge[] } {
+  const flow = timeline.flow ?? { nodes: [], edges: [] };
+  const visits = new Map<string, number[]>();
+  timeline.steps.slice(0, current + 1).forEach((step) => {
+    visits.set(step.nodeId, [...(visits.get(step.nodeId) ?? []), step.index + 1]);
+  });
+  const currentStep = timeline.steps[current];
+  const walked = new Set(
+    timeline.steps.slice(1, current + 1).map((step, i) => `${timeline.steps[i].nodeId}->${step.nodeId}`)
+  );
+
+  const nodes: Node[] = flow.nodes.map((node, index) => {
+    const order = visits.get(node.nodeId);
+    const isCurrent = currentStep?.nodeId === node.nodeId;
+    const failed = isCurrent && currentStep.status === "failed";
+    return {
+      id: node.nodeId,
+      position: node.position ?? { x: 200, y: 40 + index * 120 },
+      data: {
+        label: `${order ? `${order.join(", ")}. ` : ""}${nodeLabel(node)}`,
+      },
+      draggable: false,
+      style: {
+        background: failed ? "#fee2e2" : order ? "#dcfce7" : "#f9fafb",
+        border: `2px solid ${failed ? "#dc2626" : isCurrent ? "#2563eb" : order ? "#16a34a" : "#d1d5db"}`,
+        color: order ? "#111827" : "#9ca3af",
+        fontSize: 12,
+      },
+    };
+  });
+
+  const edges: Edge[] = flow.edges.map((edge) => {
+    const taken = walked.has(`${edge.sourceNodeId}->${edge.targetNodeId}`);
+    return {
+      id: edge.id,
+      source: edge.sourceNodeId,
+      target: edge.targetNodeId,
+      label: edge.label ?? undefined,
+      animated: taken,
+      markerEnd: { type: MarkerType.ArrowClosed },
+      style: { stroke: taken ? "#16a34a" : "#d1d5db", strokeWidth: taken ? 2 : 1 },
+    };
+  });
+
+  return { nodes, edges };
+}
+
+function JsonBlock({ value }: { value: unknown }) {
+  return (
+    <pre className="text-[11px] bg-gray-50 border rounded p-2 overflow-x-auto max-h-48">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+export default function AutomationRun() {
+  const { executionId } = useParams<{ executionId: string }>();
+  const [current, setCurrent] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const { data: timeline, isLoading, error } = useQuery<ExecutionTimeline>({
+    queryKey: ["/api/automations/executions", executionId, "timeline"],
+    queryFn: () =>
+      apiRequest("GET", `/api/automations/executions/${executionId}/timeline`).then((res) => res.json()),
+  });
+  const steps = timeline?.steps ?? [];
+
+  // Open on the failure, or the last step reached
+  useEffect(() => {
+    if (!timeline) return;
+    const failed = timeline.steps.findIndex((step) => step.status === "failed");
+    setCurrent(failed >= 0 ? failed : Math.max(0, timeline.steps.length - 1));
+  }, [timeline]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (current >= steps.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setCurrent((index) => index + 1), REPLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, current, steps.length]);
+
+  const canvas = useMemo(() => (timeline ? buildCanvas(timeline, current) : { nodes: [], edges: [] }), [timeline, current]);
+
+  if (isLoading) {
+    return <div className="p-6">Loading run...</div>;
+  }
+  if (error || !timeline) {
+    return <div className="p-6 text-red-600">Run not found.</div>;
+  }
+
+  const { execution, failure } = timeline;
+  const step = steps[current];
+  const totalWait = steps.reduce((sum, s) => sum + s.waitedMs, 0);
+  const stepWindow = step
+    ? timeline.messages.filter((message) => {
+        if (!message.createdAt || !step.startedAt) return false;
+        const at = new Date(message.createdAt).getTime();
+        const next = steps[current + 1]?.startedAt;
+        return at >= new Date(step.startedAt).getTime() && (!next || at < new Date(next).getTime());
+      })
+    : [];
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Link href={`/automation/runs?automationId=${timeline.automation.id}`}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-semibold">{timeline.automation.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              Run {execution.id.slice(0, 8)}
+              {execution.startedAt && ` · started ${format(new Date(execution.startedAt), "MMM d, yyyy HH:mm:ss")}`}
+              {execution.startedAt &&
+                execution.completedAt &&
+                ` · took ${formatDistanceStrict(new Date(execution.startedAt), new Date(execution.completedAt))}`}
+            </p>
+          </div>
+          <Badge className={statusColors[execution.status] ?? ""}>{execution.status}</Badge>
+        </div>
+        <div className="text-sm text-gray-600 flex items-center gap-4">
+          <span>{steps.length} steps</span>
+          {totalWait > 0 && (
+            <span className="flex items-center gap-1">
+              <Clock className="w-4 h-4" /> waited {formatWait(totalWait)}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {failure && (
+        <Card className="p-3 border-red-200 bg-red-50 text-sm text-red-700 flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <div>
+            Failed at <span className="font-mono">{failure.nodeId}</span> ({failure.nodeType}):{" "}
+            {failure.error || execution.result}
+          </div>
+        </Card>
+      )}
+      {timeline.flowSource === "draft" && (
+        <div className="text-xs text-amber-700">
+          This run used the unpublished draft, the flow below may have changed since.
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        <Card className="col-span-2 h-[60vh]">
+          <ReactFlow
+            nodes={canvas.nodes}
+            edges={canvas.edges}
+            nodesConnectable={false}
+            elementsSelectable={false}
+            onNodeClick={(_, node) => {
+              // Jump to the latest visit of the clicked node
+              const visit = [...steps].reverse().find((s) => s.nodeId === node.id);
+              if (visit) setCurrent(visit.index);
+            }}
+            fitView
+          >
+            <Background />
+            <Controls showInteractive={false} />
+          </ReactFlow>
+        </Card>
+
+        <Card className="p-3 h-[60vh] overflow-y-auto space-y-3">
+          <div className="flex items-center justify-between">
+            <Button size="sm" variant="outline" disabled={current === 0} onClick={() => setCurrent(current - 1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={steps.length < 2}
+              onClick={() => {
+                if (!playing && current >= steps.length - 1) setCurrent(0);
+                setPlaying(!playing);
+              }}
+            >
+              {playing ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+              {playing ? "Pause" : "Replay"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={current >= steps.length - 1}
+              onClick={() => setCurrent(current + 1)}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {!step && <div className="text-sm text-gray-500">This run has no recorded steps.</div>}
+
+          {step && (
+            <>
+              <div>
+                <div className="font-medium">
+                  Step {current + 1} of {steps.length}: {step.nodeType.replace(/_/g, " ")}
+                </div>
+                <div className="text-xs text-gray-500 font-mono">{step.nodeId}</div>
+                <div className="text-xs text-gray-500 mt-1 flex items-center gap-2">
+                  <Badge variant="outline">{step.status}</Badge>
+                  {step.startedAt && format(new Date(step.startedAt), "HH:mm:ss")}
+                  {formatWait(step.waitedMs) && <span>· waited {formatWait(step.waitedMs)}</span>}
+                </div>
+              </div>
+
+              {step.error && <div className="text-sm text-red-600">{step.error}</div>}
+
+              {stepWindow.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-xs font-medium text-gray-500">Messages</div>
+                  {stepWindow.map((message) => (
+                    <div
+                      key={message.id}
+                      className={`text-xs rounded px-2 py-1 ${
+                        message.direction === "inbound" ? "bg-gray-100" : "bg-green-100 ml-6"
+                      }`}
+                    >
+                      {message.content}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <div className="text-xs font-medium text-gray-500">Variables after this step</div>
+                {step.variables ? (
+                  <JsonBlock value={step.variables} />
+                ) : (
+                  <div className="text-xs text-gray-400">Not recorded for this run</div>
+                )}
+              </div>
+
+              {step.output && (
+                <div>
+                  <div className="text-xs font-medium text-gray-500">Output</div>
+                  <JsonBlock value={step.output} />
+                </div>
+              )}
+            </>
+          )}
+        </Card>
+      </div>
+
+      <Card className="p-3">
+        <div className="flex flex-wrap gap-1">
+          {steps.map((s) => (
+            <button
+              key={s.index}
+              type="button"
+              onClick={() => setCurrent(s.index)}
+              className={`text-[11px] px-2 py-1 rounded border ${
+                s.index === current ? "border-blue-600 bg-blue-50" : "border-gray-200"
+              } ${s.status === "failed" ? "text-red-600" : ""}`}
+              title={s.nodeId}
+            >
+              {s.index + 1}. {s.nodeType.replace(/_/g, " ")}
+              {s.waitedMs > 0 && " ⏱"}
+            </button>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+}
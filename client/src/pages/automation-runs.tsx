@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft } from "lucide-react";
+
+// Mirrors listExecutionRuns in server/services/automation-timeline.ts
+interface ExecutionRun {
+  id: string;
+  automationId: string;
+  automationName: string;
+  contactId: string | null;
+  status: string;
+  result: string | null;
+  failedNodeId: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+interface AutomationSummary {
+  id: string;
+  name: string;
+  automation_nodes?: { nodeId: string; type: string; data?: { label?: string } }[];
+}
+
+const PAGE_SIZE = 25;
+
+export const statusColors: Record<string, string> = {
+  running: "bg-blue-100 text-blue-800",
+  paused: "bg-amber-100 text-amber-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export default function AutomationRuns() {
+  const [, navigate] = useLocation();
+  const initial = new URLSearchParams(window.location.search);
+  const [automationId, setAutomationId] = useState(initial.get("automationId") || "");
+  const [status, setStatus] = useState(initial.get("status") ?? "failed");
+  const [nodeId, setNodeId] = useState("");
+  const [error, setError] = useState("");
+  const [page, setPage] = useState(0);
+
+  const { data: automations = [] } = useQuery<AutomationSummary[]>({
+    queryKey: ["/api/automations"],
+    queryFn: () => apiRequest("GET", "/api/automations").then((res) => res.json()),
+  });
+  const nodes = automations.find((a) => a.id === automationId)?.automation_nodes ?? [];
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  if (automationId) params.set("automationId", automationId);
+  if (status) params.set("status", status);
+  if (nodeId) params.set("nodeId", nodeId);
+  if (error.trim()) params.set("error", error.trim());
+
+  const { data, isLoading } = useQuery<{ runs: ExecutionRun[]; total: number }>({
+    queryKey: ["/api/automations/runs", params.toString()],
+    queryFn: () => apiRequest("GET", `/api/automations/runs?${params}`).then((res) => res.json()),
+  });
+  const runs = data?.runs ?? [];
+  const total = data?.total ?? 0;
+
+  // Any filter change starts again from the first page
+  const filter = (apply: () => void) => {
+    apply();
+    setPage(0);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Link href="/automation">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-semibold">Automation runs</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Open a run to replay it step by step on the flow
+          </p>
+        </div>
+      </div>
+
+      <Card className="p-4 grid grid-cols-4 gap-3">
+        <select
+          className="border rounded-md h-9 px-2"
+          value={automationId}
+          onChange={(e) =>
+            filter(() => {
+              setAutomationId(e.target.value);
+              setNodeId("");
+            })
+          }
+          data-testid="filter-automation"
+        >
+          <option value="">All automations</option>
+          {automations.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className="border rounded-md h-9 px-2"
+          value={status}
+          onChange={(e) => filter(() => setStatus(e.target.value))}
+          data-testid="filter-status"
+        >
+          <option value="">Any status</option>
+          <option value="failed">Failed</option>
+          <option value="completed">Completed</option>
+          <option value="paused">Waiting</option>
+          <option value="running">Running</option>
+        </select>
+        <select
+          className="border rounded-md h-9 px-2"
+          value={nodeId}
+          onChange={(e) => filter(() => setNodeId(e.target.value))}
+          disabled={!automationId}
+          data-testid="filter-node"
+        >
+          <option value="">{automationId ? "Failed at any step" : "Pick an automation to filter by step"}</option>
+          {nodes.map((node) => (
+            <option key={node.nodeId} value={node.nodeId}>
+              {node.data?.label || node.type} ({node.nodeId})
+            </option>
+          ))}
+        </select>
+        <Input
+          value={error}
+          onChange={(e) => filter(() => setError(e.target.value))}
+          placeholder="Error contains..."
+          data-testid="filter-error"
+        />
+      </Card>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>Automation</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Stopped at</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-sm text-gray-500">
+                  Loading runs...
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && runs.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-sm text-gray-500">
+                  No runs match these filters.
+                </TableCell>
+              </TableRow>
+            )}
+            {runs.map((run) => (
+              <TableRow
+                key={run.id}
+                className="cursor-pointer"
+                onClick={() => navigate(`/automation/runs/${run.id}`)}
+                data-testid={`run-${run.id}`}
+              >
+                <TableCell className="whitespace-nowrap">
+                  {run.startedAt ? format(new Date(run.startedAt), "MMM d, HH:mm:ss") : "-"}
+                </TableCell>
+                <TableCell>{run.automationName}</TableCell>
+                <TableCell>
+                  <Badge className={statusColors[run.status] ?? ""}>{run.status}</Badge>
+                </TableCell>
+                <TableCell className="font-mono text-xs">{run.failedNodeId ?? "-"}</TableCell>
+                <TableCell className="text-xs text-gray-600 max-w-md truncate">{run.result}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <span className="text-gray-500">
+            {page * PAGE_SIZE + 1}-{Math.min(total, (page + 1) * PAGE_SIZE)} of {total}
+          </span>
+          <Button size="sm" variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={(page + 1) * PAGE_SIZE >= total}
+            onClick={() => setPage(page + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
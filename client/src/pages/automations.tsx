@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
@@ -12,7 +12,14 @@ import {
   Trash2,
   Edit,
   LucideTestTube,
+  History,
+  Download,
+  FileUp,
+  LayoutTemplate,
+  Activity,
+  BarChart3,
 } from "lucide-react";
+import { Link } from "wouter";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -24,14 +31,25 @@ import {
 } from "@/components/ui/dialog";
 import AutomationFlowBuilderXYFlow from "@/components/automation-flow-builder";
 import { TestAutomationModal } from "@/components/TestAutomationModal";
+import { AutomationVersionsModal } from "@/components/AutomationVersionsModal";
+import { AutomationAnalyticsModal } from "@/components/AutomationAnalyticsModal";
+import { AutomationStartersModal } from "@/components/AutomationStartersModal";
 import { useAuth } from "@/contexts/auth-context";
 
 
+// Mirrors ImportWarning in server/services/automation-bundle.ts
+type ImportWarning = {
+  nodeId: string | null;
+  kind: "template" | "assignee" | "media" | "edge" | "config";
+  message: string;
+};
+
 type Automation = {
   id: string;
   name: string;
   description?: string;
   status: "active" | "inactive" | "paused";
+  publishedVersionId?: string | null;
   trigger: string;
   executionCount: number | null;
   lastExecutedAt?: string | null;
@@ -44,6 +62,11 @@ export default function Automations() {
   const { toast } = useToast();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedAutomationId, setSelectedAutomationId] = useState<string | null>(null);
+  const [versionsAutomationId, setVersionsAutomationId] = useState<string | null>(null);
+  const [analyticsAutomationId, setAnalyticsAutomationId] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<ImportWarning[]>([]);
+  const [showStarters, setShowStarters] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const {user} = useAuth();
   const openModal = (id: string) => {
     setSelectedAutomationId(id);
@@ -75,16 +98,25 @@ export default function Automations() {
         method: "POST",
         credentials: "include",
       });
-      if (!response.ok) throw new Error("Failed to toggle automation");
+      if (!response.ok) {
+        // Activation is refused while the flow has errors, list the first few
+        const body = await response.json().catch(() => ({}));
+        const details = (body.errors || [])
+          .slice(0, 3)
+          .map((issue: { message: string }) => issue.message)
+          .join("\n");
+        throw new Error(details || body.message || "Failed to toggle automation");
+      }
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/automations"] });
       toast({ title: "Automation status updated" });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to update automation",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -111,11 +143,56 @@ export default function Automations() {
     },
   });
 
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("bundle", file);
+      if (activeChannel?.id) formData.append("channelId", activeChannel.id);
+      const response = await fetch("/api/automations/import", {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.message || "Failed to import automation");
+      return body as { automation: Automation; warnings: ImportWarning[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/automations"] });
+      setImportWarnings(result.warnings);
+      toast({
+        title: "Automation imported",
+        description: result.warnings.length
+          ? `${result.automation.name} was imported as a draft with ${result.warnings.length} warning(s).`
+          : `${result.automation.name} was imported as a draft.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to import automation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleExport = (automation: Automation) => {
+    // The endpoint sends a Content-Disposition header, so the browser downloads it
+    window.location.href = `/api/automations/${automation.id}/export`;
+  };
+
   const handleCreateNew = () => {
     setSelectedAutomation(null);
     setShowFlowBuilder(true);
   };
 
+  // Starter flows arrive unsaved, so the builder creates them on save
+  const handleCreateFromStarter = (automation: any) => {
+    setShowStarters(false);
+    setSelectedAutomation(automation);
+    setShowFlowBuilder(true);
+  };
+
   const handleEdit = (automation: any) => {
     setSelectedAutomation(automation);
     setShowFlowBuilder(true);
@@ -175,14 +252,50 @@ export default function Automations() {
             Create automated workflows to engage with your customers
           </p>
         </div>
-        <Button
-          onClick={handleCreateNew}
-          data-testid="button-create-automation"
-          // disabled={user?.username === 'demouser'}
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Create Automation
-        </Button>
+        <div className="flex items-center gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importMutation.mutate(file);
+              e.target.value = "";
+            }}
+          />
+          <Link href="/automation/runs">
+            <Button variant="outline" data-testid="button-automation-runs">
+              <Activity className="h-4 w-4 mr-2" />
+              Runs
+            </Button>
+          </Link>
+          <Button
+            variant="outline"
+            onClick={() => importInputRef.current?.click()}
+            disabled={user?.username === 'demouser' ? true : importMutation.isPending}
+            data-testid="button-import-automation"
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            {importMutation.isPending ? "Importing..." : "Import"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowStarters(true)}
+            data-testid="button-automation-starters"
+          >
+            <LayoutTemplate className="h-4 w-4 mr-2" />
+            From template
+          </Button>
+          <Button
+            onClick={handleCreateNew}
+            data-testid="button-create-automation"
+            // disabled={user?.username === 'demouser'}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Automation
+          </Button>
+        </div>
       </div>
 
       {automations.length === 0 ? (
@@ -200,6 +313,15 @@ export default function Automations() {
             <Plus className="h-4 w-4 mr-2" />
             Create Your First Automation
           </Button>
+          <Button
+            variant="outline"
+            className="ml-2"
+            onClick={() => setShowStarters(true)}
+            data-testid="button-first-automation-starters"
+          >
+            <LayoutTemplate className="h-4 w-4 mr-2" />
+            Start from a template
+          </Button>
         </Card>
       ) : (
         <div className="grid gap-4">
@@ -226,6 +348,9 @@ export default function Automations() {
                     >
                       {automation.status}
                     </Badge>
+                    {!automation.publishedVersionId && (
+                      <Badge variant="outline">draft</Badge>
+                    )}
                   </div>
 
                   {automation.description && (
@@ -266,6 +391,48 @@ export default function Automations() {
                     <LucideTestTube className="h-4 w-4" />
                   </Button>
 
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setVersionsAutomationId(automation.id)}
+                    data-testid={`button-versions-${automation.id}`}
+                    aria-label="Version history"
+                    disabled={user?.username === 'demouser'}
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setAnalyticsAutomationId(automation.id)}
+                    data-testid={`button-analytics-${automation.id}`}
+                    aria-label="Funnel analytics"
+                  >
+                    <BarChart3 className="h-4 w-4" />
+                  </Button>
+
+                  <Link href={`/automation/runs?automationId=${automation.id}&status=`}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      data-testid={`button-runs-${automation.id}`}
+                      aria-label="Runs"
+                    >
+                      <Activity className="h-4 w-4" />
+                    </Button>
+                  </Link>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleExport(automation)}
+                    data-testid={`button-export-${automation.id}`}
+                    aria-label="Export automation"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+
                   <Button
                     variant="outline"
                     size="sm"
@@ -339,6 +506,44 @@ export default function Automations() {
           onSubmit={(data) => handleTest.mutate(data)}
         />
       )}
+      <Dialog open={importWarnings.length > 0} onOpenChange={() => setImportWarnings([])}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Imported with warnings</DialogTitle>
+            <DialogDescription>
+              These parts could not be mapped and were cleared. Fix them in the builder before activating.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2 text-sm max-h-[50vh] overflow-y-auto">
+            {importWarnings.map((warning, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <Badge variant="outline" className="shrink-0">{warning.kind}</Badge>
+                <span>{warning.message}</span>
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+      <AutomationStartersModal
+        open={showStarters}
+        onClose={() => setShowStarters(false)}
+        channelId={activeChannel?.id}
+        onCreate={handleCreateFromStarter}
+      />
+      {versionsAutomationId && (
+        <AutomationVersionsModal
+          open={!!versionsAutomationId}
+          onClose={() => setVersionsAutomationId(null)}
+          automationId={versionsAutomationId}
+        />
+      )}
+      {analyticsAutomationId && (
+        <AutomationAnalyticsModal
+          open={!!analyticsAutomationId}
+          onClose={() => setAnalyticsAutomationId(null)}
+          automationId={analyticsAutomationId}
+        />
+      )}
     </div>
   );
 }
@@ -14,7 +14,8 @@ import {
   CheckCircle,
   Send,
   AlertCircle,
-  Users
+  Users,
+  Trophy
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 
@@ -119,6 +120,85 @@ const SafeMessageChart = ({ data }: { data: any[] }) => {
   }
 };
 
+const METRIC_LABELS: Record<string, string> = {
+  delivered: "delivery rate",
+  read: "read rate",
+  replied: "reply rate",
+};
+
+// A/B test variants side by side, with the rate the winner is picked on highlighted
+const VariantComparison = ({ abTest }: { abTest: any }) => {
+  const variants: any[] = Array.isArray(abTest?.variants) ? abTest.variants : [];
+  const metricLabel = METRIC_LABELS[abTest.metric] || "read rate";
+  const best = Math.max(...variants.map((variant) => Number(variant[`${abTest.metric}Rate`]) || 0));
+
+  let summary = `Audience split across ${variants.length} variants.`;
+  if (abTest.winningVariantId) {
+    const winner = variants.find((variant) => variant.id === abTest.winningVariantId);
+    summary = `Variant ${winner?.label} won on ${metricLabel} and was sent to the rest of the audience.`;
+  } else if (abTest.samplePercent) {
+    const endsAt = abTest.endsAt ? new Date(abTest.endsAt).toLocaleString() : "after the first sends";
+    summary = `Testing on ${abTest.samplePercent}% of the audience; the variant with the best ${metricLabel} goes to the other ${abTest.held} recipients at ${endsAt}.`;
+  }
+
+  const rateCell = (variant: any, metric: string) => {
+    const value = Number(variant[`${metric}Rate`]) || 0;
+    const leading = metric === abTest.metric && value === best && best > 0;
+    return (
+      <td className={`px-6 py-4 text-sm ${leading ? "font-bold text-green-700" : "text-gray-900"}`}>
+        {value.toFixed(1)}%
+      </td>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>A/B Test Variants</CardTitle>
+        <p className="text-sm text-gray-600">{summary}</p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Variant", "Template", "Split", "Recipients", "Sent", "Failed", "Delivery Rate", "Read Rate", "Reply Rate"].map((heading) => (
+                  <th key={heading} className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {variants.map((variant) => (
+                <tr key={variant.id} className={variant.isWinner ? "bg-green-50" : "hover:bg-gray-50"}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    <span className="inline-flex items-center gap-1">
+                      {variant.label}
+                      {variant.isWinner && <Trophy className="w-4 h-4 text-yellow-500" />}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{variant.templateName || "N/A"}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{variant.percentage}%</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{variant.recipients}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{variant.sent}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{variant.failed}</td>
+                  {rateCell(variant, "delivered")}
+                  {rateCell(variant, "read")}
+                  {rateCell(variant, "replied")}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          Rates are out of each variant's sent and failed messages.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
 export default function CampaignAnalytics() {
   const { campaignId } = useParams<{ campaignId: string }>();
   const [exportLoading, setExportLoading] = useState(false);
@@ -159,6 +239,7 @@ export default function CampaignAnalytics() {
   const dailyStats = Array.isArray(campaignData?.dailyStats) ? campaignData.dailyStats : [];
   const recipientStats = Array.isArray(campaignData?.recipientStats) ? campaignData.recipientStats : [];
   const errorAnalysis = Array.isArray(campaignData?.errorAnalysis) ? campaignData.errorAnalysis : [];
+  const abTest = campaignData?.abTest || null;
 
   // console.log("Campaign Data:", campaignData);
   // console.log("Daily Stats:", dailyStats);
@@ -701,6 +782,9 @@ export default function CampaignAnalytics() {
           </Card>
         </div>
 
+        {/* A/B Test Variant Comparison */}
+        {abTest && <VariantComparison abTest={abTest} />}
+
         {/* Error Analysis */}
         {errorAnalysis.length > 0 && (
           <Card>
@@ -51,6 +51,9 @@ export default function Campaigns() {
       if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
       return res.json();
     },
+    // Keep counters live while a campaign is sending
+    refetchInterval: (query) =>
+      Array.isArray(query.state.data) && query.state.data.some((c: any) => c.status === "active") ? 5000 : false,
   });
 
   // Fetch templates for campaign creation
@@ -123,6 +126,35 @@ export default function Campaigns() {
         description: "Campaign status has been updated",
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Requeue the failed recipients of a completed campaign
+  const retryFailedMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/campaigns/${id}/retry-failed`);
+      return await response.json();
+    },
+    onSuccess: (data: { requeued: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      toast({
+        title: "Retrying failed recipients",
+        description: `${data.requeued} message(s) queued again`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   // Delete campaign mutation
@@ -146,7 +178,11 @@ export default function Campaigns() {
       csvData,
       campaignType,
       scheduledTime,
+      timezone,
+      sendAtLocalTime,
       autoRetry,
+      maxRetries,
+      abTest,
     } = campaignData;
 
     if (!selectedTemplate) {
@@ -158,6 +194,18 @@ export default function Campaigns() {
       return;
     }
 
+    const variantTotal = abTest?.enabled
+      ? abTest.variants.reduce((sum: number, variant: any) => sum + (variant.percentage || 0), 0)
+      : 100;
+    if (variantTotal !== 100) {
+      toast({
+        title: "Error",
+        description: "A/B test variant percentages must add up to 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!selectedChannel || !selectedChannel.id) {
       toast({
         title: "Error",
@@ -198,6 +246,8 @@ export default function Campaigns() {
       templateLanguage: selectedTemplate.language,
       status: scheduledTime ? "scheduled" : "active",
       scheduledAt: scheduledTime || null,
+      timezone: scheduledTime ? timezone : undefined,
+      sendAtLocalTime: !!sendAtLocalTime,
       contactGroups: campaignType === "contacts" ? selectedContacts : [],
       csvData: campaignType === "csv" ? csvData : [],
       recipientCount,
@@ -206,12 +256,30 @@ export default function Campaigns() {
       campaignType: campaignType,
       variableMapping: campaignData.variableMapping || {},
       autoRetry: autoRetry,
+      maxRetries: autoRetry ? maxRetries : 0,
+      // Variant A is the campaign's own template; the others default to it with their own variables
+      variants: abTest?.enabled
+        ? abTest.variants.map((variant: any, index: number) => ({
+            templateId: index === 0 || !variant.templateId ? selectedTemplate.id : variant.templateId,
+            // Left empty, a variant reuses the campaign's variables
+            variableMapping: index > 0 && Object.keys(variant.variableMapping).length > 0
+              ? variant.variableMapping
+              : campaignData.variableMapping || {},
+            percentage: variant.percentage,
+          }))
+        : undefined,
+      abTest: abTest?.enabled && abTest.sampleTest
+        ? { samplePercent: abTest.samplePercent, windowHours: abTest.windowHours, metric: abTest.metric }
+        : undefined,
     };
 
     createCampaignMutation.mutate(finalCampaignData);
   };
 
   const handleUpdateStatus = (id: string, status: string) => {
+    if (status === "cancelled" && !confirm("Cancel this campaign? Messages that haven't been sent yet will be dropped.")) {
+      return;
+    }
     updateStatusMutation.mutate({ id, status });
   };
 
@@ -263,6 +331,7 @@ export default function Campaigns() {
             campaigns={campaigns}
             onViewCampaign={setSelectedCampaign}
             onUpdateStatus={handleUpdateStatus}
+            onRetryFailed={(id) => retryFailedMutation.mutate(id)}
             onDeleteCampaign={handleDeleteCampaign}
           />
         </CardContent>
@@ -67,6 +67,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useAuth } from "@/contexts/auth-context";
+import { format } from "date-fns";
 
 
 
@@ -270,6 +271,70 @@ function EditContactForm({
     </Form>
   );
 }
+
+// Mirrors getContactChanges in server/controllers/contacts.controller.ts
+interface ContactChangeEntry {
+  id: string;
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  source: string;
+  automationId: string | null;
+  automationName: string | null;
+  changedAt: string;
+}
+
+const formatChangeValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "empty";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "empty";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+// Custom fields saved by automations and the history of what changed the contact
+function ContactDataHistory({ contact }: { contact: Contact }) {
+  const { data: changes = [] } = useQuery<ContactChangeEntry[]>({
+    queryKey: ["/api/contacts", contact.id, "changes"],
+  });
+  const customFields = Object.entries((contact.customFields ?? {}) as Record<string, unknown>);
+
+  if (customFields.length === 0 && changes.length === 0) return null;
+
+  return (
+    <div className="space-y-3 border-t pt-3 text-sm">
+      {customFields.length > 0 && (
+        <div>
+          <div className="font-medium mb-1">Custom fields</div>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+            {customFields.map(([key, value]) => (
+              <div key={key} className="contents">
+                <span className="text-gray-500 font-mono text-xs">{key}</span>
+                <span className="break-all">{formatChangeValue(value)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {changes.length > 0 && (
+        <div>
+          <div className="font-medium mb-1">History</div>
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {changes.map((change) => (
+              <div key={change.id} className="text-xs text-gray-600">
+                <span className="text-gray-400">{format(new Date(change.changedAt), "MMM d, HH:mm")}</span>{" "}
+                {change.source === "automation"
+                  ? `${change.automationName ?? "A deleted automation"} set`
+                  : "Set"}{" "}
+                <span className="font-mono">{change.field}</span> from {formatChangeValue(change.oldValue)} to{" "}
+                {formatChangeValue(change.newValue)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 const ITEMS_PER_PAGE = 10;
 export default function Contacts() {
   const { t } = useTranslation();
@@ -1863,6 +1928,7 @@ const exportToExcel = async (data: any[], fileName: string) => {
               }}
             />
           )}
+          {selectedContact && <ContactDataHistory contact={selectedContact} />}
         </DialogContent>
       </Dialog>
 
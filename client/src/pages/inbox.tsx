@@ -701,15 +701,33 @@ const MessageItem = ({
     }
   };
   
-  return (
-    <>
-      {showDate && (
-        <div className="flex items-center justify-center my-4">
-          <div className="bg-gray-100 px-3 py-1 rounded-full text-xs text-gray-600">
-            {formatMessageDate(message.createdAt)}
+  const dateSeparator = showDate && (
+    <div className="flex items-center justify-center my-4">
+      <div className="bg-gray-100 px-3 py-1 rounded-full text-xs text-gray-600">
+        {formatMessageDate(message.createdAt)}
+      </div>
+    </div>
+  );
+
+  // Internal notes, e.g. from an automation handoff, are only shown to agents
+  if (message.type === "note") {
+    return (
+      <>
+        {dateSeparator}
+        <div className="flex justify-center mb-4">
+          <div className="max-w-[80%] rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-amber-900">
+            <p className="text-[11px] font-medium uppercase text-amber-700 mb-1">Internal note</p>
+            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+            <span className="text-xs text-amber-600">{format(new Date(message.createdAt), "h:mm a")}</span>
           </div>
         </div>
-      )}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {dateSeparator}
       
       <div className={cn(
         "flex items-end gap-2 mb-4",
@@ -0,0 +1,5 @@
+ALTER TABLE "automation_executions" ADD COLUMN "waiting_for" text;--> statement-breakpoint
+ALTER TABLE "automation_executions" ADD COLUMN "resume_data" jsonb DEFAULT '{}'::jsonb;--> statement-breakpoint
+ALTER TABLE "automation_executions" ADD COLUMN "resume_at" timestamp;--> statement-breakpoint
+ALTER TABLE "automation_executions" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+CREATE INDEX "automation_executions_conversation_idx" ON "automation_executions" USING btree ("conversation_id","status");
\ No newline at end of file
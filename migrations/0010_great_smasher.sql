@@ -0,0 +1,19 @@
+CREATE TABLE "automation_timers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"execution_id" varchar NOT NULL,
+	"automation_id" varchar NOT NULL,
+	"conversation_id" varchar,
+	"node_id" varchar NOT NULL,
+	"fire_at" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"fired_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN "timezone" text;--> statement-breakpoint
+ALTER TABLE "automation_timers" ADD CONSTRAINT "automation_timers_execution_id_automation_executions_id_fk" FOREIGN KEY ("execution_id") REFERENCES "public"."automation_executions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "automation_timers" ADD CONSTRAINT "automation_timers_automation_id_automations_id_fk" FOREIGN KEY ("automation_id") REFERENCES "public"."automations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "automation_timers" ADD CONSTRAINT "automation_timers_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "automation_timers_due_idx" ON "automation_timers" USING btree ("status","fire_at");--> statement-breakpoint
+CREATE INDEX "automation_timers_execution_idx" ON "automation_timers" USING btree ("execution_id");--> statement-breakpoint
+CREATE INDEX "automation_timers_conversation_idx" ON "automation_timers" USING btree ("conversation_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "automation_edges" DROP CONSTRAINT "automation_edges_unique_idx";--> statement-breakpoint
+ALTER TABLE "automation_edges" ADD COLUMN "source_handle" varchar;--> statement-breakpoint
+ALTER TABLE "automation_edges" ADD COLUMN "label" text;--> statement-breakpoint
+ALTER TABLE "automation_edges" ADD CONSTRAINT "automation_edges_unique_idx" UNIQUE("automation_id","source_node_id","source_handle","target_node_id");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "automation_versions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"automation_id" varchar NOT NULL,
+	"version" integer NOT NULL,
+	"trigger" text NOT NULL,
+	"trigger_config" jsonb DEFAULT '{}'::jsonb,
+	"nodes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"edges" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"note" text,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "automation_versions_unique_idx" UNIQUE("automation_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "automation_executions" ADD COLUMN "version_id" varchar;--> statement-breakpoint
+ALTER TABLE "automations" ADD COLUMN "published_version_id" varchar;--> statement-breakpoint
+ALTER TABLE "automation_versions" ADD CONSTRAINT "automation_versions_automation_id_automations_id_fk" FOREIGN KEY ("automation_id") REFERENCES "public"."automations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "automation_versions" ADD CONSTRAINT "automation_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "automation_versions_automation_idx" ON "automation_versions" USING btree ("automation_id");--> statement-breakpoint
+ALTER TABLE "automation_executions" ADD CONSTRAINT "automation_executions_version_id_automation_versions_id_fk" FOREIGN KEY ("version_id") REFERENCES "public"."automation_versions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
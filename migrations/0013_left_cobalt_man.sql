@@ -0,0 +1,3 @@
+ALTER TABLE "automation_executions" ADD COLUMN "node_visits" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "automation_executions" ADD COLUMN "messages_sent" integer DEFAULT 0;--> statement-breakpoint
+CREATE INDEX "automation_executions_contact_idx" ON "automation_executions" USING btree ("automation_id","contact_id","started_at");
\ No newline at end of file
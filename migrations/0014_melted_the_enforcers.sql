@@ -0,0 +1 @@
+ALTER TABLE "automation_execution_logs" ADD COLUMN "variables" jsonb;
\ No newline at end of file
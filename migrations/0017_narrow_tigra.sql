@@ -0,0 +1,3 @@
+ALTER TABLE "automations" ADD COLUMN "webhook_secret" varchar;--> statement-breakpoint
+ALTER TABLE "automations" ADD COLUMN "last_scheduled_run_at" timestamp;--> statement-breakpoint
+ALTER TABLE "automations" ADD CONSTRAINT "automations_webhook_secret_unique" UNIQUE("webhook_secret");
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE "message_queue" DROP CONSTRAINT "message_queue_channel_id_whatsapp_channels_id_fk";
+--> statement-breakpoint
+ALTER TABLE "message_queue" DROP CONSTRAINT "message_queue_campaign_id_campaigns_id_fk";
+--> statement-breakpoint
+ALTER TABLE "channels" ADD COLUMN "throughput_tier" text DEFAULT 'standard';--> statement-breakpoint
+ALTER TABLE "message_queue" ADD COLUMN "recipient_id" varchar;--> statement-breakpoint
+ALTER TABLE "message_queue" ADD COLUMN "template_language" varchar(20);--> statement-breakpoint
+ALTER TABLE "message_queue" ADD CONSTRAINT "message_queue_recipient_id_campaign_recipients_id_fk" FOREIGN KEY ("recipient_id") REFERENCES "public"."campaign_recipients"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+DELETE FROM "message_queue" WHERE "channel_id" IS NOT NULL AND "channel_id" NOT IN (SELECT "id" FROM "channels");--> statement-breakpoint
+ALTER TABLE "message_queue" ADD CONSTRAINT "message_queue_channel_id_channels_id_fk" FOREIGN KEY ("channel_id") REFERENCES "public"."channels"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_queue" ADD CONSTRAINT "message_queue_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "message_queue_due_idx" ON "message_queue" USING btree ("channel_id","status","scheduled_for");--> statement-breakpoint
+CREATE INDEX "message_queue_campaign_idx" ON "message_queue" USING btree ("campaign_id","status");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "campaign_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" varchar NOT NULL,
+	"event" text NOT NULL,
+	"from_status" text,
+	"to_status" text,
+	"user_id" varchar,
+	"details" jsonb DEFAULT '{}'::jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "timezone" text;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "send_at_local_time" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "campaign_events" ADD CONSTRAINT "campaign_events_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaign_events" ADD CONSTRAINT "campaign_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "campaign_events_campaign_idx" ON "campaign_events" USING btree ("campaign_id","created_at");
\ No newline at end of file
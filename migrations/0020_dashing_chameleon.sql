@@ -0,0 +1 @@
+ALTER TABLE "campaigns" ADD COLUMN "max_retries" integer DEFAULT 3;
\ No newline at end of file
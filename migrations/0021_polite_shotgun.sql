@@ -0,0 +1,22 @@
+CREATE TABLE "campaign_variants" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" varchar NOT NULL,
+	"label" text NOT NULL,
+	"template_id" varchar,
+	"template_name" text,
+	"template_language" text,
+	"variable_mapping" jsonb DEFAULT '{}'::jsonb,
+	"percentage" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "campaign_recipients" ADD COLUMN "variant_id" varchar;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "ab_test_sample_percent" integer;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "ab_test_window_hours" integer DEFAULT 24;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "ab_test_metric" text DEFAULT 'read';--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "ab_test_ends_at" timestamp;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "winning_variant_id" varchar;--> statement-breakpoint
+ALTER TABLE "campaign_variants" ADD CONSTRAINT "campaign_variants_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaign_variants" ADD CONSTRAINT "campaign_variants_template_id_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "campaign_variants_campaign_idx" ON "campaign_variants" USING btree ("campaign_id");--> statement-breakpoint
+ALTER TABLE "campaign_recipients" ADD CONSTRAINT "campaign_recipients_variant_id_campaign_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."campaign_variants"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
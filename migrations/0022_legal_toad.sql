@@ -0,0 +1,2 @@
+ALTER TABLE "automation_executions" ADD COLUMN "heartbeat_at" timestamp;--> statement-breakpoint
+UPDATE "automation_executions" SET "heartbeat_at" = now() WHERE "status" = 'running';
@@ -0,0 +1,39 @@
+-- Automations that were already live when versioning shipped get their draft published as a version
+WITH "published" AS (
+	INSERT INTO "automation_versions" ("automation_id", "version", "trigger", "trigger_config", "nodes", "edges", "note")
+	SELECT
+		"a"."id",
+		coalesce((SELECT max("v"."version") FROM "automation_versions" "v" WHERE "v"."automation_id" = "a"."id"), 0) + 1,
+		"a"."trigger",
+		coalesce("a"."trigger_config", '{}'::jsonb),
+		coalesce((
+			SELECT jsonb_agg(jsonb_build_object(
+				'nodeId', "n"."node_id",
+				'type', "n"."type",
+				'subtype', "n"."subtype",
+				'position', "n"."position",
+				'measured', "n"."measured",
+				'data', "n"."data",
+				'connections', "n"."connections"
+			) ORDER BY "n"."created_at")
+			FROM "automation_nodes" "n" WHERE "n"."automation_id" = "a"."id"
+		), '[]'::jsonb),
+		coalesce((
+			SELECT jsonb_agg(jsonb_build_object(
+				'id', "e"."id",
+				'sourceNodeId', "e"."source_node_id",
+				'targetNodeId', "e"."target_node_id",
+				'sourceHandle', "e"."source_handle",
+				'label', "e"."label",
+				'animated', "e"."animated"
+			) ORDER BY "e"."created_at")
+			FROM "automation_edges" "e" WHERE "e"."automation_id" = "a"."id"
+		), '[]'::jsonb),
+		'Published when versioning was introduced'
+	FROM "automations" "a"
+	WHERE "a"."status" = 'active' AND "a"."published_version_id" IS NULL
+	RETURNING "id", "automation_id"
+)
+UPDATE "automations" SET "published_version_id" = "published"."id"
+FROM "published"
+WHERE "automations"."id" = "published"."automation_id";
@@ -0,0 +1,2 @@
+ALTER TABLE "campaign_recipients" ADD COLUMN "released" boolean DEFAULT false;--> statement-breakpoint
+UPDATE "campaign_recipients" SET "released" = true FROM "campaigns" WHERE "campaign_recipients"."campaign_id" = "campaigns"."id" AND "campaigns"."winning_variant_id" IS NOT NULL AND "campaigns"."ab_test_ends_at" IS NOT NULL AND "campaign_recipients"."created_at" >= "campaigns"."ab_test_ends_at";
\ No newline at end of file
@@ -6,6 +6,7 @@ import { eq, and, gte, lte, count, sql, desc } from 'drizzle-orm';
 import PDFDocument from 'pdfkit';
 import ExcelJS from "exceljs";
 import { storage } from 'server/storage';
+import { getAbTestSummary } from '../services/campaign-ab-test';
 
 // Get message analytics with real-time data
 export const getMessageAnalytics = asyncHandler(async (req: Request, res: Response) => {
@@ -208,11 +209,15 @@ console.log("Data", {campaign,
   recipientStats,
   errorAnalysis,});
 
+  // Variant comparison for A/B test campaigns, null otherwise
+  const abTest = await getAbTestSummary(campaign);
+
   res.status(200).json({
     campaign,
     dailyStats,
     recipientStats,
     errorAnalysis,
+    abTest,
   });
 });
 
@@ -7,13 +7,41 @@ import {
   automationExecutionLogs,
   insertAutomationSchema,
   automationEdges,
+  contacts,
 } from "@shared/schema";
-import { eq , and } from "drizzle-orm";
+import { eq , and, sql } from "drizzle-orm";
 import { AppError, asyncHandler } from "../middlewares/error.middleware";
 import { storage } from "../storage";
 import { executionService, triggerService } from "../services/automation-execution.service";
+import { validateFlow } from "../services/automation-flow-validator";
+import { runSimulation } from "../services/automation-simulator";
+import { getExecutionTimeline, listExecutionRuns } from "../services/automation-timeline";
+import { getAutomationFunnel } from "../services/automation-analytics";
+import {
+  diffFlows,
+  getDraftSnapshot,
+  getVersion,
+  listVersions,
+  publishDraft,
+  rollbackToVersion,
+  versionSnapshot,
+} from "../services/automation-versions";
+import {
+  exportAutomationBundle,
+  importAutomationBundle,
+  validateBundle,
+} from "../services/automation-bundle";
+import {
+  getStarter,
+  instantiateStarter,
+  listStarters,
+  resolveStarterParameters,
+} from "../services/automation-starters";
+import type { RequestWithChannel } from "../middlewares/channel.middleware";
 import fs from "fs/promises";
 import path from "path";
+import { randomBytes } from "crypto";
+import { z } from "zod";
 //
 // ─── AUTOMATIONS (flows) ───────────────────────────────────────────────
 //
@@ -123,7 +151,21 @@ export const getAutomation = asyncHandler(async (req: Request, res: Response) =>
 
   const nodes = await db.select().from(automationNodes).where(eq(automationNodes.automationId, id));
 
-  res.json({ ...automation, nodes });
+  // Unpublished automations are all draft
+  let publishedVersion: number | null = null;
+  let hasDraftChanges = true;
+  if (automation.publishedVersionId) {
+    const [version, draft] = await Promise.all([
+      getVersion(id, automation.publishedVersionId),
+      getDraftSnapshot(id),
+    ]);
+    if (version && draft) {
+      publishedVersion = version.version;
+      hasDraftChanges = diffFlows(versionSnapshot(version), draft).hasChanges;
+    }
+  }
+
+  res.json({ ...automation, nodes, publishedVersion, hasDraftChanges });
 });
 
 // CREATE automation (empty flow or with initial nodes)
@@ -242,6 +284,19 @@ export const getAutomation = asyncHandler(async (req: Request, res: Response) =>
 //   res.status(201).json(automation);
 // });
 
+// Map a builder edge (React Flow shape) to an automation_edges row
+function toEdgeRow(automationId: string, edge: any) {
+  return {
+    id: edge.id,
+    automationId,
+    sourceNodeId: edge.source ?? edge.sourceNodeId,
+    targetNodeId: edge.target ?? edge.targetNodeId,
+    sourceHandle: edge.sourceHandle ?? null,
+    label: edge.label ?? null,
+    animated: edge.animated,
+  };
+}
+
 export const createAutomation = asyncHandler(async (req: Request, res: Response) => {
   console.log("Raw body from form-data:", req.body);
   console.log("Uploaded files:", req.files);
@@ -302,6 +357,19 @@ export const createAutomation = asyncHandler(async (req: Request, res: Response)
         }
       });
     }
+    const { errors, warnings } = validateFlow(parsedNodes, parsedEdges, {
+      trigger,
+      triggerConfig: JSON.parse(triggerConfig || "{}"),
+    });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        status: "error",
+        message: "Automation has invalid steps",
+        errors,
+        warnings,
+      });
+    }
+
 console.log(    {  name,
   description,
   trigger,
@@ -313,6 +381,7 @@ console.log(    {  name,
       channelId,
       trigger,
       triggerConfig: JSON.parse(triggerConfig || "{}"),
+      webhookSecret: trigger === "api_webhook" ? createWebhookSecret() : null,
     }).returning();
 
 
@@ -332,11 +401,10 @@ console.log(    {  name,
     }
 
     // ✅ Save edges
-    for (const edge of parsedEdges) {
-      await db.insert(automationEdges).values({
-        automationId: automation.id,
-        ...edge,
-      });
+    if (parsedEdges.length > 0) {
+      await db.insert(automationEdges).values(
+        parsedEdges.map((edge: any) => toEdgeRow(automation.id, edge))
+      );
     }
 
     res.json({
@@ -344,6 +412,7 @@ console.log(    {  name,
       automation,
       nodes: parsedNodes,
       edges: parsedEdges,
+      warnings,
     });
   } catch (err: any) {
     console.error(err);
@@ -379,7 +448,13 @@ async function saveUploadedFile(file: Express.Multer.File, folder: string) {
 // UPDATE automation
 export const updateAutomation = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { name, description, trigger, triggerConfig, nodes, edges, ...rest } = req.body;
+  // Only publish and rollback move the published version
+  // Webhook secrets and schedule claims are managed by the server
+  const {
+    name, description, trigger, triggerConfig, nodes, edges,
+    publishedVersionId: _published, webhookSecret: _secret, lastScheduledRunAt: _lastRun,
+    ...rest
+  } = req.body;
 
   // ✅ Parse safely
   let parsedNodes: any[] = [];
@@ -424,6 +499,19 @@ export const updateAutomation = asyncHandler(async (req: Request, res: Response)
     });
   }
 
+  const { errors, warnings } = validateFlow(parsedNodes, parsedEdges, {
+    trigger,
+    triggerConfig: JSON.parse(triggerConfig || "{}"),
+  });
+  if (errors.length > 0) {
+    return res.status(400).json({
+      status: "error",
+      message: "Automation has invalid steps",
+      errors,
+      warnings,
+    });
+  }
+
   console.log("Updating automation with data:", {name,
     description,
     trigger,
@@ -438,6 +526,10 @@ export const updateAutomation = asyncHandler(async (req: Request, res: Response)
       description,
       trigger,
       triggerConfig: JSON.parse(triggerConfig || "{}"),
+      // Keep the URL of an automation that already has one
+      ...(trigger === "api_webhook" && {
+        webhookSecret: sql`coalesce(${automations.webhookSecret}, ${createWebhookSecret()})`,
+      }),
       ...rest,
     })
     .where(eq(automations.id, id))
@@ -474,13 +566,7 @@ export const updateAutomation = asyncHandler(async (req: Request, res: Response)
   // ✅ Insert new edges
   if (parsedEdges.length > 0) {
     await db.insert(automationEdges).values(
-      parsedEdges.map((edge: any) => ({
-        id: edge.id,
-        automationId: automation.id,
-        sourceNodeId: edge.source,
-        targetNodeId: edge.target,
-        animated: edge.animated,
-      }))
+      parsedEdges.map((edge: any) => toEdgeRow(automation.id, edge))
     );
   }
 
@@ -490,6 +576,7 @@ export const updateAutomation = asyncHandler(async (req: Request, res: Response)
     automation,
     nodes: parsedNodes,
     edges: parsedEdges,
+    warnings,
   });
 });
 
@@ -522,14 +609,188 @@ export const toggleAutomation = asyncHandler(async (req: Request, res: Response)
   });
   if (!automation) throw new AppError(404, "Automation not found");
 
+  const activating = automation.status !== "active";
+
+  // Check the flow that goes live: the published version, or the draft that is about to become v1
+  if (activating) {
+    const published = automation.publishedVersionId
+      ? await getVersion(id, automation.publishedVersionId)
+      : undefined;
+    const flow = published ? versionSnapshot(published) : await getDraftSnapshot(id);
+    const { errors, warnings } = validateFlow(flow?.nodes ?? [], flow?.edges ?? [], flow);
+    if (errors.length > 0 || !flow?.nodes.length) {
+      return res.status(400).json({
+        status: "error",
+        message: flow?.nodes.length ? "Automation has invalid steps" : "Add at least one step before activating",
+        errors,
+        warnings,
+      });
+    }
+  }
+
+  // Going live for the first time publishes the draft as v1
+  if (activating && !automation.publishedVersionId) {
+    await publishDraft(id, req.user?.id);
+  }
+
   const [updated] = await db.update(automations)
-    .set({ status: automation.status === "active" ? "inactive" : "active" })
+    .set({
+      status: activating ? "active" : "inactive",
+      // Imported API-triggered automations get their URL when they go live
+      ...(activating && automation.trigger === "api_webhook" && !automation.webhookSecret && {
+        webhookSecret: createWebhookSecret(),
+      }),
+    })
     .where(eq(automations.id, id))
     .returning();
 
   res.json(updated);
 });
 
+//
+// ─── VERSIONS ──────────────────────────────────────────────────────────
+//
+
+// Publish the current draft as a new version
+export const publishAutomation = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { note } = req.body ?? {};
+
+  const draft = await getDraftSnapshot(id);
+  if (!draft) throw new AppError(404, "Automation not found");
+
+  const { errors, warnings } = validateFlow(draft.nodes, draft.edges, draft);
+  if (errors.length > 0) {
+    return res.status(400).json({
+      status: "error",
+      message: "Automation has invalid steps",
+      errors,
+      warnings,
+    });
+  }
+
+  const version = await publishDraft(id, req.user?.id, typeof note === "string" ? note : undefined);
+  res.status(201).json(version);
+});
+
+// Version history, newest first
+export const getAutomationVersions = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const automation = await db.query.automations.findFirst({
+    where: eq(automations.id, id),
+  });
+  if (!automation) throw new AppError(404, "Automation not found");
+
+  const versions = await listVersions(id);
+  res.json(
+    versions.map(({ nodes, edges, ...version }) => ({
+      ...version,
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+      isPublished: version.id === automation.publishedVersionId,
+    }))
+  );
+});
+
+// Changes from a version to the draft, or to another version (?against=<versionId>)
+export const diffAutomationVersion = asyncHandler(async (req: Request, res: Response) => {
+  const { id, versionId } = req.params;
+  const against = (req.query.against as string | undefined) || "draft";
+
+  const version = await getVersion(id, versionId);
+  if (!version) throw new AppError(404, "Version not found");
+
+  let target;
+  if (against === "draft") {
+    target = await getDraftSnapshot(id);
+  } else {
+    const other = await getVersion(id, against);
+    target = other && versionSnapshot(other);
+  }
+  if (!target) throw new AppError(404, "Version to compare against not found");
+
+  res.json(diffFlows(versionSnapshot(version), target));
+});
+
+//
+// ─── STARTER FLOWS ─────────────────────────────────────────────────────
+//
+
+// Built-in starter flows and the parameters each one takes
+export const getAutomationStarters = asyncHandler(async (_req: Request, res: Response) => {
+  res.json(listStarters());
+});
+
+// Build an unsaved automation from a starter; the builder saves it with createAutomation
+export const instantiateAutomationStarter = asyncHandler(async (req: RequestWithChannel, res: Response) => {
+  const { starterId } = req.params;
+  const channelId = (req.body?.channelId as string | undefined) || req.channelId;
+  if (!channelId) throw new AppError(400, "No channel to create the automation on");
+
+  const starter = getStarter(starterId);
+  if (!starter) throw new AppError(404, "Starter flow not found");
+
+  const resolved = await resolveStarterParameters(starter, req.body?.params ?? {}, channelId);
+  if ("error" in resolved) throw new AppError(400, resolved.error);
+
+  res.json(instantiateStarter(starterId, resolved.params, channelId));
+});
+
+//
+// ─── IMPORT / EXPORT ───────────────────────────────────────────────────
+//
+
+// Download the draft as a portable JSON bundle
+export const exportAutomation = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const bundle = await exportAutomationBundle(id);
+  if (!bundle) throw new AppError(404, "Automation not found");
+
+  const filename = bundle.automation.name.replace(/[^\w-]+/g, "-").toLowerCase() || "automation";
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}.automation.json"`);
+  res.json(bundle);
+});
+
+// Create an automation from a bundle, sent as a "bundle" file or as the JSON body
+export const importAutomation = asyncHandler(async (req: RequestWithChannel, res: Response) => {
+  const channelId = (req.body?.channelId as string | undefined) || req.channelId;
+  if (!channelId) throw new AppError(400, "No channel to import into");
+
+  let bundle = req.body?.bundle ?? req.body;
+  if (req.file) {
+    try {
+      bundle = JSON.parse(req.file.buffer.toString("utf8"));
+    } catch {
+      throw new AppError(400, "Bundle file is not valid JSON");
+    }
+  } else if (typeof bundle === "string") {
+    try {
+      bundle = JSON.parse(bundle);
+    } catch {
+      throw new AppError(400, "Bundle is not valid JSON");
+    }
+  }
+
+  const error = validateBundle(bundle);
+  if (error) throw new AppError(400, error);
+
+  const result = await importAutomationBundle(bundle, channelId, req.user?.id, req.body?.name);
+  res.status(201).json(result);
+});
+
+// Make an older version live again and reset the draft to it
+export const rollbackAutomation = asyncHandler(async (req: Request, res: Response) => {
+  const { id, versionId } = req.params;
+
+  const version = await getVersion(id, versionId);
+  if (!version) throw new AppError(404, "Version not found");
+
+  const published = await rollbackToVersion(id, version, req.user?.id);
+  res.status(201).json(published);
+});
+
 
 //
 // ─── NODES ─────────────────────────────────────────────────────────────
@@ -779,6 +1040,49 @@ export const testAutomation = asyncHandler(async (req: Request, res: Response) =
   }
 });
 
+// Dry run against an in-memory transport: nothing is sent or stored.
+// Omit `state` to start; send it back with `message` to answer a question,
+// or with `closeConversation` to end a handoff.
+export const simulateAutomation = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { state, message, interactive, closeConversation, contactId, variables, liveHttp } = req.body;
+
+  const automation = await db.query.automations.findFirst({
+    where: eq(automations.id, id),
+  });
+
+  if (!automation) {
+    throw new AppError(404, "Automation not found");
+  }
+
+  let contact;
+  if (contactId) {
+    contact = await db.query.contacts.findFirst({
+      where: eq(contacts.id, contactId),
+    });
+    if (!contact) {
+      throw new AppError(404, "Contact not found");
+    }
+  }
+
+  if (state && state.status !== "waiting") {
+    throw new AppError(400, "This simulation has already finished");
+  }
+
+  const result = await runSimulation({
+    automation,
+    contact,
+    state,
+    message: typeof message === "string" ? message : undefined,
+    interactive,
+    closeConversation: !!closeConversation,
+    variables,
+    liveHttp: !!liveHttp,
+  });
+
+  res.json(result);
+});
+
 // NEW: Get execution status and logs
 export const getExecutionStatus = asyncHandler(async (req: Request, res: Response) => {
   const { executionId } = req.params;
@@ -820,6 +1124,55 @@ export const getAutomationExecutions = asyncHandler(async (req: Request, res: Re
   res.json(executions);
 });
 
+// Funnel per node over a date range, defaults to the last 30 days
+export const getAutomationAnalytics = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { days = "30", startDate, endDate } = req.query;
+
+  const automation = await db.query.automations.findFirst({
+    columns: { id: true },
+    where: eq(automations.id, id),
+  });
+  if (!automation) throw new AppError(404, "Automation not found");
+
+  const daysNum = parseInt(days as string, 10) || 30;
+  const start = startDate ? new Date(startDate as string) : new Date(Date.now() - daysNum * 24 * 60 * 60 * 1000);
+  const end = endDate ? new Date(endDate as string) : new Date();
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+    throw new AppError(400, "Invalid date range");
+  }
+
+  res.json(await getAutomationFunnel(id, start, end));
+});
+
+// Runs across the channel's automations, newest first
+export const getExecutionRuns = asyncHandler(async (req: RequestWithChannel, res: Response) => {
+  const { automationId, status, nodeId, error } = req.query as Record<string, string | undefined>;
+  const limit = Math.min(parseInt((req.query.limit as string) || "25", 10) || 25, 100);
+  const offset = parseInt((req.query.offset as string) || "0", 10) || 0;
+
+  const result = await listExecutionRuns({
+    channelId: (req.query.channelId as string | undefined) || req.channelId,
+    automationId: automationId || undefined,
+    status: status || undefined,
+    nodeId: nodeId || undefined,
+    error: error?.trim() || undefined,
+    limit,
+    offset,
+  });
+  res.json(result);
+});
+
+// Step by step replay of one run
+export const getExecutionTimelineById = asyncHandler(async (req: RequestWithChannel, res: Response) => {
+  const timeline = await getExecutionTimeline(req.params.executionId);
+  if (!timeline) throw new AppError(404, "Execution not found");
+  if (req.channelId && timeline.automation.channelId !== req.channelId) {
+    throw new AppError(404, "Execution not found");
+  }
+  res.json(timeline);
+});
+
 // NEW: Trigger automation for new conversation (call this from your conversation controller)
 export const triggerNewConversation = asyncHandler(async (req: Request, res: Response) => {
   const { conversationId, channelId, contactId } = req.body;
@@ -864,4 +1217,47 @@ export const triggerMessageReceived = asyncHandler(async (req: Request, res: Res
     console.error("Error processing message triggers:", error);
     throw new AppError(500, `Failed to process triggers: ${(error as Error).message}`);
   }
-});
\ No newline at end of file
+});
+// Path part of an api_webhook trigger URL, anyone holding it can start the automation
+function createWebhookSecret() {
+  return randomBytes(24).toString("hex");
+}
+
+// Replace the webhook URL, the old one stops working straight away
+export const regenerateWebhookSecret = asyncHandler(async (req: Request, res: Response) => {
+  const [automation] = await db.update(automations)
+    .set({ webhookSecret: createWebhookSecret() })
+    .where(eq(automations.id, req.params.id))
+    .returning({ id: automations.id, webhookSecret: automations.webhookSecret });
+  if (!automation) throw new AppError(404, "Automation not found");
+
+  res.json(automation);
+});
+
+const webhookPayloadSchema = z.object({
+  // Formatted numbers such as "+1 555-123-4567" are fine, only the digits are counted
+  phone: z.string().trim()
+    .regex(/^\+?[\d\s().-]+$/, "phone may only contain digits, spaces, dashes, dots and brackets")
+    .refine((phone) => phone.replace(/\D/g, "").length >= 6, "phone must include the country code"),
+  name: z.string().trim().optional(),
+  variables: z.record(z.unknown()).optional(),
+});
+
+// Inbound API trigger: POST { phone, name?, variables? } to the automation's secret URL
+export const receiveAutomationWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const automation = await triggerService.findWebhookAutomation(req.params.secret);
+  if (!automation) throw new AppError(404, "No active automation for this URL");
+
+  const payload = webhookPayloadSchema.safeParse(req.body ?? {});
+  if (!payload.success) {
+    throw new AppError(400, payload.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", "));
+  }
+
+  const execution = await triggerService.handleApiWebhook(automation, payload.data);
+
+  // Not started: the contact opted out, is filtered out, is cooling down or busy
+  res.status(execution ? 202 : 200).json({
+    started: !!execution,
+    executionId: execution?.id ?? null,
+  });
+});
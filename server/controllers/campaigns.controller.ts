@@ -1,9 +1,23 @@
 import { asyncHandler } from "../utils/async-handler";
 import { storage } from "../storage";
 import { z } from "zod";
-import type { Contact } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { WhatsAppApiService } from "../services/whatsapp-api";
+import {
+  DEFAULT_MAX_RETRIES,
+  cancelCampaign,
+  enqueueCampaign,
+  getCampaignProgress,
+  incrementCampaignCounters,
+  pauseCampaign,
+  resumeCampaign,
+  retryFailedRecipients,
+} from "../services/campaign-dispatcher";
+import { getCampaignEvents, recordCampaignEvent } from "../services/campaign-events";
+import { AB_TEST_METRICS, prepareVariants, saveVariants } from "../services/campaign-ab-test";
+import { AppError } from "../middlewares/error.middleware";
+import { isValidTimezone } from "../utils/automation-delay";
+import { campaignTimezone, parseScheduledAt } from "../utils/campaign-schedule";
 
 const createCampaignSchema = z.object({
   channelId: z.string(),
@@ -18,10 +32,24 @@ const createCampaignSchema = z.object({
   variableMapping: z.record(z.string()).optional(),
   status: z.string(),
   scheduledAt: z.string().nullable(),
+  timezone: z.string().optional(),
+  sendAtLocalTime: z.boolean().optional(),
   contactGroups: z.array(z.string()).optional(),
   csvData: z.array(z.any()).optional(),
   recipientCount: z.number(),
   autoRetry: z.boolean().optional(),
+  maxRetries: z.number().int().min(0).max(10).optional(),
+  // A/B test: the audience split across variants, optionally on a sample first
+  variants: z.array(z.object({
+    templateId: z.string(),
+    variableMapping: z.record(z.string()).optional(),
+    percentage: z.number().int().min(1).max(99),
+  })).optional(),
+  abTest: z.object({
+    samplePercent: z.number().int().min(1).max(99).optional(),
+    windowHours: z.number().int().min(1).max(168).optional(),
+    metric: z.enum(AB_TEST_METRICS).optional(),
+  }).optional(),
 });
 
 const updateStatusSchema = z.object({
@@ -49,7 +77,29 @@ export const campaignsController = {
 
   // Create new campaign
   createCampaign: asyncHandler(async (req, res) => {
-    const data = createCampaignSchema.parse(req.body);
+    const { variants, abTest, ...data } = createCampaignSchema.parse(req.body);
+
+    // Schedules are entered as wall-clock time in the campaign's timezone
+    if (data.timezone && !isValidTimezone(data.timezone)) {
+      throw new AppError(400, `Unknown timezone "${data.timezone}"`);
+    }
+    const timezone = campaignTimezone({ timezone: data.timezone ?? null });
+    const scheduledAt = data.scheduledAt ? parseScheduledAt(data.scheduledAt, timezone) : null;
+    if (data.scheduledAt && !scheduledAt) {
+      throw new AppError(400, "Invalid scheduled time");
+    }
+    if (data.sendAtLocalTime && !scheduledAt) {
+      throw new AppError(400, "Sending at the recipient's local time needs a scheduled time");
+    }
+    const status = scheduledAt && data.status !== "draft" ? "scheduled" : data.status;
+
+    if (variants?.length && data.campaignType === "api") {
+      throw new AppError(400, "API campaigns can't be A/B tested");
+    }
+    if (abTest && !variants?.length) {
+      throw new AppError(400, "An A/B test needs variants");
+    }
+    const preparedVariants = variants?.length ? await prepareVariants(variants, data.variableMapping) : [];
 
     // Generate API key for API campaigns
     let apiKey = undefined;
@@ -95,12 +145,35 @@ export const campaignsController = {
       apiEndpoint,
       recipientCount,
       contactGroups: contactIds,
-      scheduledAt: data.scheduledAt ? new Date(data.scheduledAt) : null,
+      status,
+      scheduledAt,
+      timezone,
+      sendAtLocalTime: !!data.sendAtLocalTime,
+      maxRetries: data.autoRetry === false ? 0 : data.maxRetries ?? DEFAULT_MAX_RETRIES,
+      abTestSamplePercent: abTest?.samplePercent ?? null,
+      abTestWindowHours: abTest?.windowHours ?? 24,
+      abTestMetric: abTest?.metric ?? "read",
+      // The campaign's own template is variant A's
+      ...(preparedVariants.length > 0 && {
+        templateId: preparedVariants[0].templateId,
+        templateName: preparedVariants[0].templateName,
+        templateLanguage: preparedVariants[0].templateLanguage,
+      }),
+    });
+    await saveVariants(campaign.id, preparedVariants);
+
+    await recordCampaignEvent({
+      campaignId: campaign.id,
+      event: status === "scheduled" ? "scheduled" : status === "active" ? "started" : "created",
+      toStatus: status,
+      userId: req.user?.id,
+      details: scheduledAt ? { scheduledAt, timezone, sendAtLocalTime: !!data.sendAtLocalTime } : {},
     });
 
-    // If status is active and not scheduled, start campaign immediately
-    if (data.status === "active" && !data.scheduledAt) {
-      await startCampaignExecution(campaign.id);
+    // If status is active and not scheduled, queue the campaign immediately
+    if (status === "active") {
+      await enqueueCampaign(campaign.id);
+      return res.json((await storage.getCampaign(campaign.id)) ?? campaign);
     }
 
     res.json(campaign);
@@ -109,15 +182,46 @@ export const campaignsController = {
   // Update campaign status
   updateCampaignStatus: asyncHandler(async (req, res) => {
     const { status } = updateStatusSchema.parse(req.body);
-    const campaign = await storage.updateCampaign(req.params.id, { status });
+    const existing = await storage.getCampaign(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Campaign not found" });
+    }
+    if (status === "scheduled" && !existing.scheduledAt) {
+      throw new AppError(400, "Campaign has no scheduled time");
+    }
 
+    // Pausing, resuming and cancelling act on the queue as well as the status
+    if (status === "paused") {
+      return res.json(await pauseCampaign(existing.id, req.user?.id));
+    }
+    if (status === "cancelled") {
+      return res.json(await cancelCampaign(existing.id, req.user?.id));
+    }
+    if (status === "active" && existing.status === "paused") {
+      return res.json(await resumeCampaign(existing.id, req.user?.id));
+    }
+    if (existing.status === "completed" || existing.status === "cancelled") {
+      throw new AppError(409, `Campaign is already ${existing.status}`);
+    }
+
+    const campaign = await storage.updateCampaign(req.params.id, { status });
     if (!campaign) {
       return res.status(404).json({ error: "Campaign not found" });
     }
 
-    // If reactivating a campaign, start execution
+    if (existing.status !== status) {
+      await recordCampaignEvent({
+        campaignId: campaign.id,
+        event: "status_changed",
+        fromStatus: existing.status,
+        toStatus: status,
+        userId: req.user?.id,
+      });
+    }
+
+    // Starting a draft or scheduled campaign queues its recipients
     if (status === "active") {
-      await startCampaignExecution(campaign.id);
+      await enqueueCampaign(campaign.id);
     }
 
     res.json(campaign);
@@ -139,8 +243,49 @@ export const campaignsController = {
       return res.status(404).json({ error: "Campaign not found" });
     }
 
-    await startCampaignExecution(campaign.id);
-    res.json({ success: true, message: "Campaign started" });
+    // Sending happens in the message queue; poll /progress to follow it
+    const { queued, recipientCount } = await enqueueCampaign(campaign.id);
+    res.status(202).json({ success: true, message: "Campaign started", queued, recipientCount });
+  }),
+
+  // Pause a sending campaign
+  pauseCampaign: asyncHandler(async (req, res) => {
+    res.json(await pauseCampaign(req.params.id, req.user?.id));
+  }),
+
+  // Resume a paused campaign with its pending recipients
+  resumeCampaign: asyncHandler(async (req, res) => {
+    res.json(await resumeCampaign(req.params.id, req.user?.id));
+  }),
+
+  // Cancel a campaign and drop its queued messages
+  cancelCampaign: asyncHandler(async (req, res) => {
+    res.json(await cancelCampaign(req.params.id, req.user?.id));
+  }),
+
+  // Send a completed campaign again to its failed recipients
+  retryFailedRecipients: asyncHandler(async (req, res) => {
+    res.json(await retryFailedRecipients(req.params.id, req.user?.id));
+  }),
+
+  // Get campaign sending progress
+  getCampaignProgress: asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ error: "Campaign not found" });
+    }
+
+    res.json(await getCampaignProgress(campaign));
+  }),
+
+  // Get campaign status history
+  getCampaignEvents: asyncHandler(async (req, res) => {
+    const campaign = await storage.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ error: "Campaign not found" });
+    }
+
+    res.json(await getCampaignEvents(campaign.id));
   }),
 
   // Get campaign analytics
@@ -299,6 +444,7 @@ export const campaignsController = {
         status: "sent",
         whatsappMessageId: messageId,
         messageType: "text",
+        campaignId: campaign.id,
         metadata: {},
       });
 
@@ -320,9 +466,7 @@ export const campaignsController = {
       // });
 
       // Update campaign stats
-      await storage.updateCampaign(campaign.id, {
-        sentCount: (campaign.sentCount || 0) + 1,
-      });
+      await incrementCampaignCounters(campaign.id, { sentCount: 1 });
 
       res.json({
         success: true,
@@ -331,9 +475,7 @@ export const campaignsController = {
       });
     } catch (error: any) {
       // Update failed count
-      await storage.updateCampaign(campaign.id, {
-        failedCount: (campaign.failedCount || 0) + 1,
-      });
+      await incrementCampaignCounters(campaign.id, { failedCount: 1 });
 
       res.status(500).json({
         error: "Failed to send message",
@@ -342,169 +484,3 @@ export const campaignsController = {
     }
   }),
 };
-
-// Helper function to execute campaign
-async function startCampaignExecution(campaignId: string) {
-  console.log("Starting campaign execution for:", campaignId);
-
-  const campaign = await storage.getCampaign(campaignId);
-  if (!campaign || campaign.status !== "active") {
-    console.log("Campaign not found or not active:", campaignId);
-    return;
-  }
-
-  if (!campaign.channelId) {
-    console.error("Channel ID is missing for campaign:", campaignId);
-    return;
-  }
-
-  const channel = await storage.getChannel(campaign.channelId);
-  if (!channel) {
-    console.error("Channel not found for campaign:", campaignId);
-    return;
-  }
-
-  if (!campaign.templateId) {
-    console.error("Template ID is missing for campaign:", campaignId);
-    return;
-  }
-  const template = await storage.getTemplate(campaign.templateId);
-  if (!template) {
-    console.error("Template not found for campaign:", campaignId);
-    return;
-  }
-
-  console.log("Campaign details:", {
-    campaignId,
-    channelId: channel.id,
-    templateId: template.id,
-    templateName: template.name,
-    campaignType: campaign.campaignType,
-    contactGroups: campaign.contactGroups,
-  });
-
-  // Get contacts for the campaign
-  let contacts: Contact[] = [];
-  if (campaign.campaignType === "contacts" && campaign.contactGroups) {
-    for (const contactId of campaign.contactGroups) {
-      const contact = await storage.getContact(contactId);
-      if (contact) {
-        contacts.push(contact);
-      }
-    }
-  }
-
-  console.log(`Found ${contacts.length} contacts for campaign`);
-
-  // Process each contact
-  for (const contact of contacts) {
-    try {
-      console.log(`Processing contact: ${contact.name} (${contact.phone})`);
-
-      // Prepare template parameters based on variable mapping
-      const templateParams: any[] = [];
-      if (
-        campaign.variableMapping &&
-        typeof campaign.variableMapping === "object" &&
-        !Array.isArray(campaign.variableMapping)
-      ) {
-        Object.entries(campaign.variableMapping).forEach(([key, fieldName]) => {
-          let value = "";
-      
-          if (fieldName === "name") value = contact.name;
-          else if (fieldName === "phone") value = contact.phone;
-          else if (fieldName === "email") value = contact.email || "";
-      
-          templateParams.push({ type: "text", text: value });
-        });
-      }      
-
-      // console.log("Sending message with params:", {
-      //   phone: contact.phone,
-      //   template: template.name,
-      //   parameters: templateParams.map(p => p.text)
-      // });
-
-      // Send template message - always use MM Lite for marketing campaigns
-      const response = await WhatsAppApiService.sendTemplateMessage(
-        channel,
-        contact.phone,
-        template.name,
-        templateParams.map((p) => p.text),
-        template.language || "en_US",
-        true // Always use MM Lite
-      );
-      const messageId = response.messages?.[0]?.id || `msg_${randomUUID()}`;
-
-      // console.log( "Message sent, response:",{
-      //   sentCount: (campaign.sentCount || 0) + 1,
-      // })
-
-      // Create message log entry
-
-
-       // Conversation / contact logic (same as before)
-       let conversation = await storage.getConversationByPhone(contact.phone);
-       if (!conversation) {
-         conversation = await storage.createConversation({
-           contactId: contact.id,
-           contactPhone: contact.phone,
-           contactName: contact.name || contact.phone,
-           channelId: channel.id,
-           unreadCount: 0,
-         });
-       }
- 
-       const createdMessage = await storage.createMessage({
-         conversationId: conversation.id,
-         content: template.body || "",
-         status: "sent",
-         whatsappMessageId: messageId,
-         messageType: "text",
-         metadata: {},
-       });
-
-      // const sendMsg = await storage.createMessage({
-      //   conversationId: null, // Campaign messages may not have conversation
-      //   to: contact.phone,
-      //   from: channel.phoneNumber,
-      //   type: "template",
-      //   content: JSON.stringify({
-      //     templateId: template.id,
-      //     templateName: template.name,
-      //     parameters: templateParams,
-      //   }),
-      //   status: "sent",
-      //   direction: "outbound",
-      //   whatsappMessageId: messageId,
-      //   timestamp: new Date(),
-      //   campaignId: campaignId,
-      // });
-      // console.log("Message logged:", sendMsg);
-      // Update sent count
-      const updateCampaign = await storage.updateCampaign(campaignId, {
-        sentCount: (campaign.sentCount || 0) + 1,
-      });
-      console.log("Campaign updated:", updateCampaign);
-    } catch (error) {
-      console.error(`Failed to send message to ${contact.phone}:`, error);
-      // Update failed count
-      await storage.updateCampaign(campaignId, {
-        failedCount: (campaign.failedCount || 0) + 1,
-      });
-    }
-  }
-
-  // Mark campaign as completed if all messages are processed
-  const updatedCampaign = await storage.getCampaign(campaignId);
-  if (
-    updatedCampaign &&
-    (updatedCampaign.sentCount || 0) + (updatedCampaign.failedCount || 0) >=
-      (updatedCampaign.recipientCount || 0)
-  ) {
-    await storage.updateCampaign(campaignId, {
-      status: "completed",
-      completedAt: new Date(),
-    });
-  }
-}
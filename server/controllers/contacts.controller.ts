@@ -1,9 +1,10 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage";
-import { contacts, insertContactSchema } from "@shared/schema";
+import { automations, contactChanges, contacts, insertContactSchema } from "@shared/schema";
 import { AppError, asyncHandler } from "../middlewares/error.middleware";
 import { db } from "server/db";
-import { and, eq, ilike, inArray, or, sql } from "drizzle-orm";
+import { triggerService } from "server/services/automation-execution.service";
+import { and, desc, eq, ilike, inArray, or, sql } from "drizzle-orm";
 
 
 interface RequestWithChannel extends Request {
@@ -133,6 +134,36 @@ export const getContact = asyncHandler(async (req: Request, res: Response) => {
   res.json(contact);
 });
 
+// Field changes made to a contact, newest first, with the automation that made them
+export const getContactChanges = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const contact = await storage.getContact(id);
+  if (!contact) {
+    throw new AppError(404, "Contact not found");
+  }
+
+  const limit = Math.min(Number(req.query.limit) || 100, 500);
+  const changes = await db.select({
+    id: contactChanges.id,
+    field: contactChanges.field,
+    oldValue: contactChanges.oldValue,
+    newValue: contactChanges.newValue,
+    source: contactChanges.source,
+    automationId: contactChanges.automationId,
+    automationName: automations.name,
+    executionId: contactChanges.executionId,
+    nodeId: contactChanges.nodeId,
+    changedAt: contactChanges.changedAt,
+  })
+    .from(contactChanges)
+    .leftJoin(automations, eq(automations.id, contactChanges.automationId))
+    .where(eq(contactChanges.contactId, id))
+    .orderBy(desc(contactChanges.changedAt))
+    .limit(limit);
+
+  res.json(changes);
+});
+
 export const createContact = asyncHandler(
   async (req: RequestWithChannel, res: Response) => {
     const validatedContact = insertContactSchema.parse(req.body);
@@ -163,6 +194,11 @@ export const createContact = asyncHandler(
       channelId,
     });
 
+    // Automations run in the background, the contact is saved either way
+    triggerService.handleContactsCreated([contact]).catch((error) => {
+      console.error("Failed to run contact_created automations:", error);
+    });
+
     res.json(contact);
   }
 );
@@ -170,10 +206,21 @@ export const createContact = asyncHandler(
 export const updateContact = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = req.params;
+    const previous = await storage.getContact(id);
     const contact = await storage.updateContact(id, req.body);
     if (!contact) {
       throw new AppError(404, "Contact not found");
     }
+
+    const previousTags = new Set(Array.isArray(previous?.tags) ? (previous.tags as string[]) : []);
+    const addedTags = (Array.isArray(contact.tags) ? (contact.tags as string[]) : [])
+      .filter((tag) => !previousTags.has(tag));
+    if (addedTags.length > 0) {
+      triggerService.handleTagsAdded(contact, addedTags).catch((error) => {
+        console.error("Failed to run tag_added automations:", error);
+      });
+    }
+
     res.json(contact);
   }
 );
@@ -266,6 +313,10 @@ export const importContacts = asyncHandler(
       }
     }
 
+    triggerService.handleContactsCreated(createdContacts).catch((error) => {
+      console.error("Failed to run contact_created automations:", error);
+    });
+
     res.json({
       created: createdContacts.length,
       duplicates: duplicates.length,
@@ -121,12 +121,6 @@ export const updateConversation = asyncHandler(async (req: Request, res: Respons
   const { id } = req.params;
   // console.log("Update conversation body:", req.body);
 
-  const conversation = await storage.updateConversation(id, {assignedTo: req.body.assignedTo, status: req.body.status});
-
-  if (!conversation) {
-    throw new AppError(404, 'Conversation not found');
-  }
-
   // Validate and transform body to match insert schema
   const validatedConversation = insertConversationAssignmentSchema.parse({
     conversationId: id,
@@ -136,6 +130,12 @@ export const updateConversation = asyncHandler(async (req: Request, res: Respons
     status: req.body.status,
   });
 
+  const conversation = await storage.updateConversation(id, {assignedTo: req.body.assignedTo, status: req.body.status});
+
+  if (!conversation) {
+    throw new AppError(404, 'Conversation not found');
+  }
+
   // console.log("Validated conversation assignment:", validatedConversation);
 if(req.body.status ==="assigned"){
   const insertConversation = await db
@@ -144,6 +144,15 @@ if(req.body.status ==="assigned"){
     .returning();
 }
 
+  // Hands the conversation back to a waiting handoff, cancels delayed follow-ups
+  // and starts conversation_closed automations. The flows run in the background
+  // so closing doesn't wait on them.
+  if (req.body.status === 'closed' || req.body.status === 'resolved') {
+    triggerService.handleConversationClosed(id).catch((error) => {
+      console.error(`Failed to hand conversation ${id} back to its automations:`, error);
+    });
+  }
+
   res.json(
      {   ...conversation,assignedToName:req.body.assignedToName}
    );
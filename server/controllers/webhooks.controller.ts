@@ -2,10 +2,16 @@ import type { Request, Response } from 'express';
 import { storage } from '../storage';
 import { insertMessageSchema } from '@shared/schema';
 import { AppError, asyncHandler } from '../middlewares/error.middleware';
+import type { RequestWithChannel } from '../middlewares/channel.middleware';
 import crypto from 'crypto';
 import { startAutomationExecutionFunction } from './automation.controller';
 import { triggerService } from 'server/services/automation-execution.service';
 import { WhatsAppApiService } from 'server/services/whatsapp-api';
+import {
+  handleCampaignDeliveryFailure,
+  incrementCampaignCounters,
+  recordRecipientStatus
+} from 'server/services/campaign-dispatcher';
 
 export const getWebhookConfigs = asyncHandler(async (req: Request, res: Response) => {
   const configs = await storage.getWebhookConfigs();
@@ -480,6 +486,7 @@ async function handleMessageChange(value: any) {
     let conversation = await storage.getConversationByPhone(from);
     let contact = await storage.getContactByPhone(from);
     let isNewConversation = false;
+    let isNewContact = false;
 
     if (!conversation) {
       isNewConversation = true;
@@ -492,6 +499,7 @@ async function handleMessageChange(value: any) {
           phone: from,
           channelId: channel.id,
         });
+        isNewContact = true;
       }
 
       conversation = await storage.createConversation({
@@ -548,7 +556,7 @@ async function handleMessageChange(value: any) {
     // --- Automation handling (unchanged) ---
     try {
       const hasPendingExecution =
-        triggerService.getExecutionService().hasPendingExecution(conversation.id);
+        await triggerService.getExecutionService().hasPendingExecution(conversation.id);
 
       if (hasPendingExecution) {
         console.log(
@@ -587,16 +595,21 @@ async function handleMessageChange(value: any) {
         }
       }
 
+      let startedForNewConversation = 0;
       if (isNewConversation) {
         console.log(
           `New conversation automation trigger for: ${conversation.id}`
         );
-        await triggerService.handleNewConversation(
+        startedForNewConversation = await triggerService.handleNewConversation(
           conversation.id,
           channel.id,
           contact?.id
         );
-      } else {
+      }
+
+      // The first message of a conversation can still match keyword and
+      // first-message-only automations when no new_conversation flow ran
+      if (!isNewConversation || startedForNewConversation === 0) {
         console.log(
           `Message received automation trigger for: ${conversation.id}`
         );
@@ -628,6 +641,11 @@ async function handleMessageChange(value: any) {
           contact?.id
         );
       }
+
+      // Skipped when a flow above is already waiting for this contact's reply
+      if (isNewContact && contact) {
+        await triggerService.handleContactsCreated([contact]);
+      }
     } catch (automationError) {
       console.error(
         `❌ Automation error for conversation ${conversation.id}:`,
@@ -725,24 +743,29 @@ async function handleMessageStatuses(statuses: any[], metadata: any) {
 
     // If message has a campaign ID, update campaign stats
     if (message.campaignId) {
-      const campaign = await storage.getCampaign(message.campaignId);
-      if (campaign) {
-        const updates: any = {};
-        
-        if (messageStatus === 'delivered' && message.status !== 'delivered') {
-          updates.deliveredCount = (campaign.deliveredCount || 0) + 1;
-        } else if (messageStatus === 'read' && message.status !== 'read') {
-          updates.readCount = (campaign.readCount || 0) + 1;
-        } else if (messageStatus === 'failed' && message.status !== 'failed') {
-          updates.failedCount = (campaign.failedCount || 0) + 1;
-          // Only decrease sent count if message was previously marked as sent
-          if (message.status === 'sent') {
-            updates.sentCount = Math.max(0, (campaign.sentCount || 0) - 1);
-          }
-        }
-        
-        if (Object.keys(updates).length > 0) {
-          await storage.updateCampaign(campaign.id, updates);
+      const statusAt = new Date(parseInt(timestamp, 10) * 1000);
+
+      if (messageStatus === 'delivered' && message.status !== 'delivered') {
+        await incrementCampaignCounters(message.campaignId, { deliveredCount: 1 });
+        await recordRecipientStatus(whatsappMessageId, 'delivered', statusAt);
+      } else if (messageStatus === 'read' && message.status !== 'read') {
+        await incrementCampaignCounters(message.campaignId, { readCount: 1 });
+        await recordRecipientStatus(whatsappMessageId, 'read', statusAt);
+        triggerService.handleCampaignMessageRead(message).catch((error) => {
+          console.error(`Failed to run campaign_message_read automations for ${message.id}:`, error);
+        });
+      } else if (messageStatus === 'failed' && message.status !== 'failed') {
+        // Retryable errors send the recipient back to the queue instead of failing it
+        const failure = { code: errorDetails?.code, message: errorDetails?.message || 'Message failed' };
+        const outcome = await handleCampaignDeliveryFailure(whatsappMessageId, failure);
+
+        // Only decrease sent count if message was previously marked as sent
+        await incrementCampaignCounters(message.campaignId, {
+          failedCount: outcome === 'retrying' ? 0 : 1,
+          sentCount: message.status === 'sent' ? -1 : 0,
+        });
+        if (!outcome) {
+          await recordRecipientStatus(whatsappMessageId, 'failed', statusAt, failure);
         }
       }
     }
@@ -790,10 +813,8 @@ export const getConversationAutomationStatus = asyncHandler(async (req: Request,
   const { conversationId } = req.params;
   
   const executionService = triggerService.getExecutionService();
-  const hasPending = executionService.hasPendingExecution(conversationId);
-  const pendingExecutions = executionService.getPendingExecutions().filter(
-    pe => pe.conversationId === conversationId
-  );
+  const hasPending = await executionService.hasPendingExecution(conversationId);
+  const pendingExecutions = await executionService.getPendingExecutions({ conversationId });
   
   res.json({
     conversationId,
@@ -822,13 +843,18 @@ export const cancelConversationAutomation = asyncHandler(async (req: Request, re
   });
 });
 
+const MIN_CLEANUP_TIMEOUT_MINUTES = 5;
+
 /**
- * Get all pending executions across all conversations
+ * Get all pending executions across the channel's conversations
  * Useful for monitoring dashboard
  */
-export const getAllPendingExecutions = asyncHandler(async (req: Request, res: Response) => {
+export const getAllPendingExecutions = asyncHandler(async (req: RequestWithChannel, res: Response) => {
+  if (!req.channelId) {
+    throw new AppError(400, 'No channel selected');
+  }
   const executionService = triggerService.getExecutionService();
-  const pendingExecutions = executionService.getPendingExecutions();
+  const pendingExecutions = await executionService.getPendingExecutions({ channelId: req.channelId });
   
   res.json({
     totalCount: pendingExecutions.length,
@@ -840,12 +866,17 @@ export const getAllPendingExecutions = asyncHandler(async (req: Request, res: Re
  * Cleanup expired executions manually
  * Can be called via API or scheduled job
  */
-export const cleanupExpiredExecutions = asyncHandler(async (req: Request, res: Response) => {
-  const { timeoutMinutes = 30 } = req.query;
-  const timeoutMs = parseInt(timeoutMinutes as string) * 60 * 1000;
+export const cleanupExpiredExecutions = asyncHandler(async (req: RequestWithChannel, res: Response) => {
+  if (!req.channelId) {
+    throw new AppError(400, 'No channel selected');
+  }
+  // Never less than a few minutes, so a manual cleanup can't fail waits that just started
+  const requested = parseInt(String(req.query.timeoutMinutes ?? 30), 10);
+  const timeoutMinutes = Math.max(MIN_CLEANUP_TIMEOUT_MINUTES, isNaN(requested) ? 30 : requested);
+  const timeoutMs = timeoutMinutes * 60 * 1000;
   
   const executionService = triggerService.getExecutionService();
-  const cleanedCount = await executionService.cleanupExpiredExecutions(timeoutMs);
+  const cleanedCount = await executionService.cleanupExpiredExecutions(timeoutMs, req.channelId);
   
   res.json({
     success: true,
@@ -0,0 +1,96 @@
+import * as cron from 'node-cron';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import { db } from '../db';
+import { automations, type Automation, type AutomationTriggerConfig } from '@shared/schema';
+import { triggerService } from '../services/automation-execution.service';
+import { isScheduleDue, startOfMinute } from '../utils/automation-schedule';
+
+export class AutomationScheduleWorker {
+  private static instance: AutomationScheduleWorker;
+  private cronJob: cron.ScheduledTask | null = null;
+  private running = false;
+  private inFlight = new Set<string>(); // automations still working through their segment
+
+  private constructor() {}
+
+  static getInstance(): AutomationScheduleWorker {
+    if (!AutomationScheduleWorker.instance) {
+      AutomationScheduleWorker.instance = new AutomationScheduleWorker();
+    }
+    return AutomationScheduleWorker.instance;
+  }
+
+  // Claim this minute's run so that only one instance fires the schedule
+  private async claimRun(automationId: string, minute: Date) {
+    const [claimed] = await db.update(automations)
+      .set({ lastScheduledRunAt: minute })
+      .where(and(
+        eq(automations.id, automationId),
+        or(isNull(automations.lastScheduledRunAt), lt(automations.lastScheduledRunAt, minute))
+      ))
+      .returning({ id: automations.id });
+    return !!claimed;
+  }
+
+  // Segments can be large, so each run goes on without holding up the tick
+  private run(automation: Automation) {
+    this.inFlight.add(automation.id);
+    triggerService.handleSchedule(automation)
+      .then((started) => {
+        console.log(`[Automation Schedule Worker] "${automation.name}" started for ${started} contact(s)`);
+      })
+      .catch((error) => {
+        console.error(`[Automation Schedule Worker] Error running automation ${automation.id}:`, error);
+      })
+      .finally(() => this.inFlight.delete(automation.id));
+  }
+
+  // Start every scheduled automation that is due this minute
+  async processDueSchedules(now: Date = new Date()) {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const minute = startOfMinute(now);
+      const due = (await triggerService.getScheduledAutomations()).filter((automation) =>
+        isScheduleDue((automation.triggerConfig as AutomationTriggerConfig | null)?.schedule, minute)
+      );
+
+      for (const automation of due) {
+        if (this.inFlight.has(automation.id)) {
+          console.warn(`[Automation Schedule Worker] Previous run of ${automation.id} is still going, skipping`);
+          continue;
+        }
+        if (await this.claimRun(automation.id, minute)) {
+          this.run(automation);
+        }
+      }
+    } catch (error) {
+      console.error('[Automation Schedule Worker] Error processing schedules:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Start the cron job
+  start() {
+    // Every minute, on the minute
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.processDueSchedules();
+    });
+
+    console.log('[Automation Schedule Worker] Started - checking schedules every minute');
+  }
+
+  // Stop the cron job
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+      console.log('[Automation Schedule Worker] Stopped');
+    }
+  }
+}
+
+// Export singleton instance
+export const automationScheduleWorker = AutomationScheduleWorker.getInstance();
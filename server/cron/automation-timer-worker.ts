@@ -0,0 +1,111 @@
+import * as cron from 'node-cron';
+import { and, asc, eq, inArray, lte } from 'drizzle-orm';
+import { db } from '../db';
+import { automationExecutions, automationTimers } from '@shared/schema';
+import { executionService } from '../services/automation-execution.service';
+
+const BATCH_SIZE = 50;
+
+export class AutomationTimerWorker {
+  private static instance: AutomationTimerWorker;
+  private cronJob: cron.ScheduledTask | null = null;
+  private running = false;
+
+  private constructor() {}
+
+  static getInstance(): AutomationTimerWorker {
+    if (!AutomationTimerWorker.instance) {
+      AutomationTimerWorker.instance = new AutomationTimerWorker();
+    }
+    return AutomationTimerWorker.instance;
+  }
+
+  // Claim due timers so that only one instance fires each of them. The timer
+  // is marked fired in the same transaction that moves its execution back to
+  // running, so a crash can't leave a paused execution without a pending timer.
+  private async claimDueTimers() {
+    return db.transaction(async (tx) => {
+      const due = tx.select({ id: automationTimers.id })
+        .from(automationTimers)
+        .where(and(
+          eq(automationTimers.status, 'pending'),
+          lte(automationTimers.fireAt, new Date())
+        ))
+        .orderBy(asc(automationTimers.fireAt))
+        .limit(BATCH_SIZE);
+
+      const timers = await tx.update(automationTimers)
+        .set({ status: 'fired', firedAt: new Date() })
+        .where(and(
+          inArray(automationTimers.id, due),
+          eq(automationTimers.status, 'pending')
+        ))
+        .returning();
+      if (timers.length === 0) return { timers, executions: [] };
+
+      // Executions cancelled meanwhile stay as they are
+      const executions = await tx.update(automationExecutions)
+        .set({ status: 'running', waitingFor: null, resumeAt: null, result: null, heartbeatAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          inArray(automationExecutions.id, timers.map((timer) => timer.executionId)),
+          eq(automationExecutions.status, 'paused'),
+          eq(automationExecutions.waitingFor, 'time_gap')
+        ))
+        .returning();
+      return { timers, executions };
+    });
+  }
+
+  // Fire every timer that is due
+  async processDueTimers() {
+    // Skip the tick if the previous one is still resuming executions
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      let claimed = await this.claimDueTimers();
+      while (claimed.timers.length > 0) {
+        console.log(`[Automation Timer Worker] Firing ${claimed.timers.length} timer(s)`);
+
+        for (const execution of claimed.executions) {
+          try {
+            await executionService.continueTimeGap(execution);
+          } catch (error) {
+            console.error(`[Automation Timer Worker] Error continuing execution ${execution.id}:`, error);
+          }
+        }
+
+        claimed = claimed.timers.length === BATCH_SIZE ? await this.claimDueTimers() : { timers: [], executions: [] };
+      }
+    } catch (error) {
+      console.error('[Automation Timer Worker] Error processing timers:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Start the cron job
+  start() {
+    // Poll every 15 seconds
+    this.cronJob = cron.schedule('*/15 * * * * *', async () => {
+      await this.processDueTimers();
+    });
+
+    // Also catch up on anything that fell due while the server was down
+    this.processDueTimers();
+
+    console.log('[Automation Timer Worker] Started - polling every 15 seconds');
+  }
+
+  // Stop the cron job
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+      console.log('[Automation Timer Worker] Stopped');
+    }
+  }
+}
+
+// Export singleton instance
+export const automationTimerWorker = AutomationTimerWorker.getInstance();
@@ -0,0 +1,75 @@
+import * as cron from 'node-cron';
+import { and, asc, eq, isNotNull, isNull, lte } from 'drizzle-orm';
+import { db } from '../db';
+import { campaigns } from '@shared/schema';
+import { selectWinningVariant } from '../services/campaign-ab-test';
+
+export class CampaignAbTestWorker {
+  private static instance: CampaignAbTestWorker;
+  private cronJob: cron.ScheduledTask | null = null;
+  private running = false;
+
+  private constructor() {}
+
+  static getInstance(): CampaignAbTestWorker {
+    if (!CampaignAbTestWorker.instance) {
+      CampaignAbTestWorker.instance = new CampaignAbTestWorker();
+    }
+    return CampaignAbTestWorker.instance;
+  }
+
+  // Pick the winner of every sample test whose window has passed; paused campaigns wait until resumed
+  async processFinishedTests(now: Date = new Date()) {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const finished = await db.select()
+        .from(campaigns)
+        .where(and(
+          eq(campaigns.status, 'active'),
+          isNull(campaigns.winningVariantId),
+          isNotNull(campaigns.abTestEndsAt),
+          lte(campaigns.abTestEndsAt, now)
+        ))
+        .orderBy(asc(campaigns.abTestEndsAt));
+
+      for (const campaign of finished) {
+        try {
+          const winner = await selectWinningVariant(campaign);
+          if (winner) {
+            console.log(`[Campaign A/B Test Worker] "${campaign.name}" sends variant ${winner.label} to the rest`);
+          }
+        } catch (error) {
+          console.error(`[Campaign A/B Test Worker] Error picking the winner of campaign ${campaign.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[Campaign A/B Test Worker] Error processing A/B tests:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Start the cron job
+  start() {
+    // Every minute, on the minute
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.processFinishedTests();
+    });
+
+    console.log('[Campaign A/B Test Worker] Started - checking A/B test windows every minute');
+  }
+
+  // Stop the cron job
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+      console.log('[Campaign A/B Test Worker] Stopped');
+    }
+  }
+}
+
+// Export singleton instance
+export const campaignAbTestWorker = CampaignAbTestWorker.getInstance();
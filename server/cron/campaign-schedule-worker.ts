@@ -0,0 +1,113 @@
+import * as cron from 'node-cron';
+import { and, asc, eq, isNotNull, lte, or } from 'drizzle-orm';
+import { db } from '../db';
+import { campaigns, type Campaign } from '@shared/schema';
+import { enqueueCampaign } from '../services/campaign-dispatcher';
+import { recordCampaignEvent } from '../services/campaign-events';
+import { LOCAL_TIME_LEAD_MS } from '../utils/campaign-schedule';
+
+export class CampaignScheduleWorker {
+  private static instance: CampaignScheduleWorker;
+  private cronJob: cron.ScheduledTask | null = null;
+  private running = false;
+
+  private constructor() {}
+
+  static getInstance(): CampaignScheduleWorker {
+    if (!CampaignScheduleWorker.instance) {
+      CampaignScheduleWorker.instance = new CampaignScheduleWorker();
+    }
+    return CampaignScheduleWorker.instance;
+  }
+
+  // Move the campaign from scheduled to active so that only one instance launches it
+  private async claimLaunch(campaignId: string) {
+    const [claimed] = await db.update(campaigns)
+      .set({ status: 'active', updatedAt: new Date() })
+      .where(and(eq(campaigns.id, campaignId), eq(campaigns.status, 'scheduled')))
+      .returning({ id: campaigns.id });
+    return !!claimed;
+  }
+
+  private async launch(campaign: Campaign) {
+    if (!(await this.claimLaunch(campaign.id))) return;
+
+    await recordCampaignEvent({
+      campaignId: campaign.id,
+      event: 'started',
+      fromStatus: 'scheduled',
+      toStatus: 'active',
+      details: { scheduledAt: campaign.scheduledAt, sendAtLocalTime: !!campaign.sendAtLocalTime },
+    });
+
+    try {
+      const { queued } = await enqueueCampaign(campaign.id);
+      console.log(`[Campaign Schedule Worker] "${campaign.name}" queued ${queued} message(s)`);
+    } catch (error) {
+      // Back to draft so the problem can be fixed and the campaign started again
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Campaign Schedule Worker] Error launching campaign ${campaign.id}:`, error);
+      await db.update(campaigns)
+        .set({ status: 'draft', updatedAt: new Date() })
+        .where(eq(campaigns.id, campaign.id));
+      await recordCampaignEvent({
+        campaignId: campaign.id,
+        event: 'status_changed',
+        fromStatus: 'active',
+        toStatus: 'draft',
+        details: { error: message },
+      });
+    }
+  }
+
+  // Launch every scheduled campaign whose time has come
+  async processDueCampaigns(now: Date = new Date()) {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const localTimeHorizon = new Date(now.getTime() + LOCAL_TIME_LEAD_MS);
+      const due = await db.select()
+        .from(campaigns)
+        .where(and(
+          eq(campaigns.status, 'scheduled'),
+          isNotNull(campaigns.scheduledAt),
+          or(
+            lte(campaigns.scheduledAt, now),
+            and(eq(campaigns.sendAtLocalTime, true), lte(campaigns.scheduledAt, localTimeHorizon))
+          )
+        ))
+        .orderBy(asc(campaigns.scheduledAt));
+
+      for (const campaign of due) {
+        await this.launch(campaign);
+      }
+    } catch (error) {
+      console.error('[Campaign Schedule Worker] Error processing scheduled campaigns:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Start the cron job
+  start() {
+    // Every minute, on the minute
+    this.cronJob = cron.schedule('* * * * *', async () => {
+      await this.processDueCampaigns();
+    });
+
+    console.log('[Campaign Schedule Worker] Started - checking scheduled campaigns every minute');
+  }
+
+  // Stop the cron job
+  stop() {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+      console.log('[Campaign Schedule Worker] Stopped');
+    }
+  }
+}
+
+// Export singleton instance
+export const campaignScheduleWorker = CampaignScheduleWorker.getInstance();
@@ -78,7 +78,7 @@ async logApiRequest(log: InsertApiLog): Promise<ApiLog | null> {
   return null;
 }
 
- async getAutomationByChannel(channelId: string): Promise<{ id: string; name: string; createdAt: Date | null; updatedAt: Date | null; channelId: string | null; description: string | null; trigger: string; triggerConfig: unknown; status: string | null; executionCount: number | null; lastExecutedAt: Date | null; createdBy: string | null; }[]> {
+ async getAutomationByChannel(channelId: string): Promise<Automation[]> {
     // implement your logic
     return [];
 }
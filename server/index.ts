@@ -130,5 +130,27 @@ app.use((req, res, next) => {
   
     const { channelHealthMonitor } = await import("./cron/channel-health-monitor");
     channelHealthMonitor.start();
+
+    const { automationTimerWorker } = await import("./cron/automation-timer-worker");
+    automationTimerWorker.start();
+
+    const { automationScheduleWorker } = await import("./cron/automation-schedule-worker");
+    automationScheduleWorker.start();
+
+    const { campaignScheduleWorker } = await import("./cron/campaign-schedule-worker");
+    campaignScheduleWorker.start();
+
+    const { campaignAbTestWorker } = await import("./cron/campaign-ab-test-worker");
+    campaignAbTestWorker.start();
+
+    // Drain campaign sends at each channel's messages-per-second limit
+    const { MessageQueueService } = await import("./services/message-queue");
+    MessageQueueService.startProcessing();
+
+    // Re-arm delays and pick up automations interrupted by the last restart
+    const { executionService } = await import("./services/automation-execution.service");
+    executionService.resumeInterrupted().catch((error) => {
+      console.error("Failed to resume automation executions:", error);
+    });
   });
 })();
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { Permission } from "@shared/schema";
 import { storage } from '../storage';
+import { touchUserPresence } from '../utils/user-presence';
 
 // Extend Express Request type to include session
 declare global {
@@ -29,6 +30,7 @@ export const requireAuth = (req: Request, res: Response, next: NextFunction) =>
   }
 
   req.user = user;
+  touchUserPresence(user.id);
   next();
 };
 
@@ -33,3 +33,17 @@ export const upload = multer({
     }
   },
 });
+
+// Automation bundles are read from memory, they can be larger than the JSON body limit
+export const bundleUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === "application/json" || file.originalname.endsWith(".json")) {
+      cb(null, true);
+    } else {
+      cb(null, false);
+      (req as any).fileFilterError = `Unsupported file type: ${file.mimetype}`;
+    }
+  },
+});
@@ -6,6 +6,7 @@ import { z } from "zod";
 import bcrypt from "bcryptjs";
 import { validateRequest } from "../middlewares/validateRequest.middleware";
 import { resolveUserPermissions } from "server/utils/role-permissions";
+import { clearUserPresence } from "server/utils/user-presence";
 
 const router = Router();
 
@@ -61,6 +62,7 @@ router.post("/login", validateRequest(loginSchema), async (req, res) => {
       .update(users)
       .set({
         lastLogin: new Date(),
+        lastSeenAt: new Date(),
         updatedAt: new Date(),
       })
       .where(eq(users.id, user.id));
@@ -129,6 +131,8 @@ router.post("/logout", (req, res) => {
         details: {},
       })
       .catch(console.error);
+
+    clearUserPresence(userId).catch(console.error);
   }
 
   // Destroy session
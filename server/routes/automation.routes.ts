@@ -18,13 +18,27 @@ import {
   startAutomationExecution,
   logAutomationNodeExecution,
   testAutomation,
+  simulateAutomation,
+  publishAutomation,
+  getAutomationVersions,
+  diffAutomationVersion,
+  rollbackAutomation,
+  exportAutomation,
+  importAutomation,
+  getAutomationStarters,
+  instantiateAutomationStarter,
   getExecutionStatus,
   getAutomationExecutions,
+  getExecutionRuns,
+  getExecutionTimelineById,
+  getAutomationAnalytics,
+  regenerateWebhookSecret,
+  receiveAutomationWebhook,
   triggerNewConversation,
   triggerMessageReceived
 } from "../controllers/automation.controller";
 import { cleanupExpiredExecutions, getAllPendingExecutions } from "server/controllers/webhooks.controller";
-import { upload } from "server/middlewares/upload.middleware";
+import { bundleUpload, upload } from "server/middlewares/upload.middleware";
 
 // Schema for automation + nodes (used for builder save)
 const automationWithNodesSchema = z.object({
@@ -50,6 +64,54 @@ export function registerAutomationRoutes(app: Express) {
     getAutomations
   );
 
+  // Paused executions and their pending timers
+  // (registered before /:id so the path is not captured as an automation id)
+  app.get('/api/automations/pending-executions', requireAuth, extractChannelId, getAllPendingExecutions);
+  app.post('/api/automations/cleanup-expired', requireAuth, extractChannelId, cleanupExpiredExecutions);
+
+  // Inbound API trigger, authenticated by the secret in the URL
+  app.post("/api/automations/hooks/:secret", receiveAutomationWebhook);
+
+  // Starter flow gallery
+  app.get(
+    "/api/automations/starters",
+    requireAuth,
+    getAutomationStarters
+  );
+
+  // Fill a starter flow in for the builder, nothing is saved yet
+  app.post(
+    "/api/automations/starters/:starterId/instantiate",
+    requireAuth,
+    extractChannelId,
+    instantiateAutomationStarter
+  );
+
+  // Runs across automations, filterable by status, node and error
+  app.get(
+    "/api/automations/runs",
+    requireAuth,
+    extractChannelId,
+    getExecutionRuns
+  );
+
+  // Replay of a single run
+  app.get(
+    "/api/automations/executions/:executionId/timeline",
+    requireAuth,
+    extractChannelId,
+    getExecutionTimelineById
+  );
+
+  // Import a bundle exported from another channel or installation
+  app.post(
+    "/api/automations/import",
+    requireAuth,
+    extractChannelId,
+    bundleUpload.single("bundle"),
+    importAutomation
+  );
+
   // Get single automation with nodes
   app.get(
     "/api/automations/:id",
@@ -92,6 +154,66 @@ export function registerAutomationRoutes(app: Express) {
     toggleAutomation
   );
 
+  // Export as a portable JSON bundle
+  app.get(
+    "/api/automations/:id/export",
+    requireAuth,
+    extractChannelId,
+    exportAutomation
+  );
+
+  // New URL for the api_webhook trigger
+  app.post(
+    "/api/automations/:id/webhook-secret",
+    requireAuth,
+    extractChannelId,
+    regenerateWebhookSecret
+  );
+
+  // Funnel analytics per node
+  app.get(
+    "/api/automations/:id/analytics",
+    requireAuth,
+    extractChannelId,
+    getAutomationAnalytics
+  );
+
+  //
+  // ─── VERSIONS ────────────────────────────────────────────────────
+  //
+
+  // Publish the draft as a new immutable version
+  app.post(
+    "/api/automations/:id/publish",
+    requireAuth,
+    extractChannelId,
+    publishAutomation
+  );
+
+  // Version history
+  app.get(
+    "/api/automations/:id/versions",
+    requireAuth,
+    extractChannelId,
+    getAutomationVersions
+  );
+
+  // Diff a version against the draft or another version
+  app.get(
+    "/api/automations/:id/versions/:versionId/diff",
+    requireAuth,
+    extractChannelId,
+    diffAutomationVersion
+  );
+
+  // Roll back to a version
+  app.post(
+    "/api/automations/:id/versions/:versionId/rollback",
+    requireAuth,
+    extractChannelId,
+    rollbackAutomation
+  );
+
   //
   // ─── NODES (visual builder) ──────────────────────────────────────
   //
@@ -148,6 +270,7 @@ export function registerAutomationRoutes(app: Express) {
 // Execution
 app.post("/api/automations/:automationId/execute", startAutomationExecution);
 app.post("/api/automations/:id/test", testAutomation); // NEW: Manual test
+app.post("/api/automations/:id/simulate", requireAuth, simulateAutomation); // Dry run, nothing is sent
 app.get("/api/automations/:id/executions", getAutomationExecutions); // NEW: Get execution history
 app.get("/api/automations/executions/:executionId/status", getExecutionStatus); // NEW: Get execution status
 
@@ -160,7 +283,4 @@ app.post("/api/automations/triggers/message-received", triggerMessageReceived);
 
 
 
-app.get('/api/automations/pending-executions', getAllPendingExecutions);
-app.post('/api/automations/cleanup-expired', cleanupExpiredExecutions);
-
 }
@@ -42,6 +42,40 @@ export function registerCampaignRoutes(app: Express) {
     campaignsController.startCampaign
   );
 
+  // Pause, resume and cancel a running campaign
+  app.post("/api/campaigns/:id/pause", requireAuth,
+  requirePermission(PERMISSIONS.CAMPAIGNS_EDIT),
+    campaignsController.pauseCampaign
+  );
+
+  app.post("/api/campaigns/:id/resume", requireAuth,
+  requirePermission(PERMISSIONS.CAMPAIGNS_EDIT),
+    campaignsController.resumeCampaign
+  );
+
+  app.post("/api/campaigns/:id/cancel", requireAuth,
+  requirePermission(PERMISSIONS.CAMPAIGNS_EDIT),
+    campaignsController.cancelCampaign
+  );
+
+  // Requeue the failed recipients of a completed campaign
+  app.post("/api/campaigns/:id/retry-failed", requireAuth,
+  requirePermission(PERMISSIONS.CAMPAIGNS_EDIT),
+    campaignsController.retryFailedRecipients
+  );
+
+  // Get campaign sending progress
+  app.get("/api/campaigns/:id/progress", requireAuth,
+  requirePermission(PERMISSIONS.CAMPAIGNS_VIEW),
+    campaignsController.getCampaignProgress
+  );
+
+  // Get campaign status history
+  app.get("/api/campaigns/:id/events", requireAuth,
+  requirePermission(PERMISSIONS.CAMPAIGNS_VIEW),
+    campaignsController.getCampaignEvents
+  );
+
   // Get campaign analytics
   app.get("/api/campaigns/:id/analytics", 
     campaignsController.getCampaignAnalytics
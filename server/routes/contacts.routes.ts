@@ -25,6 +25,10 @@ export function registerContactRoutes(app: Express) {
   app.get("/api/contacts/:id", requireAuth,
   requirePermission(PERMISSIONS.CONTACTS_VIEW), contactsController.getContact);
 
+  // Change history of a contact
+  app.get("/api/contacts/:id/changes", requireAuth,
+  requirePermission(PERMISSIONS.CONTACTS_VIEW), contactsController.getContactChanges);
+
   // Create contact
   app.post("/api/contacts",
     extractChannelId, requireAuth,
@@ -6,6 +6,7 @@ import { extractChannelId } from "../middlewares/channel.middleware";
 import { storage } from "../storage";
 import { requireAuth, requirePermission } from "../middlewares/auth.middleware";
 import { cancelConversationAutomation, getConversationAutomationStatus } from "server/controllers/webhooks.controller";
+import { triggerService } from "server/services/automation-execution.service";
 
 export function registerConversationRoutes(app: Express) {
   // Get unread count
@@ -64,6 +65,13 @@ export function registerConversationRoutes(app: Express) {
       }
       
       await storage.updateConversation(id, { status });
+
+      // Hands the conversation back to a waiting handoff, cancels delayed follow-ups
+      // and starts conversation_closed automations
+      if (status === 'closed' || status === 'resolved') {
+        await triggerService.handleConversationClosed(id);
+      }
+
       res.json({ success: true });
     } catch (error) {
       console.error('Error updating conversation status:', error);
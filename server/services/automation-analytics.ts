@@ -0,0 +1,250 @@
+// Funnel analytics for an automation: how far executions get through the
+// flow, where they stop, and how contacts answer its questions.
+//
+// Reach and transitions come from automation_executions.execution_path,
+// which records every node an execution visits, in order. Answers come from
+// the user_reply logs.
+import { and, eq, gte, lte, sql } from "drizzle-orm";
+import { db } from "../db";
+import { automationExecutionLogs, automationExecutions, automationVersions } from "@shared/schema";
+import { getDraftSnapshot } from "./automation-versions";
+import { EXECUTION_TIMEOUT_RESULT } from "./automation-execution.service";
+
+export interface OutcomeCounts {
+  completed: number;
+  failed: number;
+  timedOut: number;
+  waiting: number;
+  running: number;
+}
+
+export interface NodeFunnel {
+  nodeId: string;
+  type: string | null;
+  label: string;
+  reached: number;
+  continued: number; // executions that went on to another node
+  dropOff: number;
+  dropOffRate: number;
+  stopped: OutcomeCounts; // executions whose last node is this one
+  answers: number;
+  averageAnswerSeconds: number | null;
+  choices: Array<{ choice: string; label: string; count: number; share: number }>;
+}
+
+export interface AutomationFunnel {
+  range: { from: Date; to: Date };
+  total: number;
+  outcomes: OutcomeCounts;
+  rates: { completion: number; failure: number; timeout: number };
+  nodes: NodeFunnel[];
+  transitions: Array<{ sourceNodeId: string; targetNodeId: string; count: number; rate: number }>;
+}
+
+const emptyOutcomes = (): OutcomeCounts => ({ completed: 0, failed: 0, timedOut: 0, waiting: 0, running: 0 });
+
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+// Logs store their output as a JSON string inside the jsonb column
+const logOutput = sql`(case when jsonb_typeof(${automationExecutionLogs.output}) = 'string'
+  then (${automationExecutionLogs.output} #>> '{}')::jsonb
+  else ${automationExecutionLogs.output} end)`;
+
+// Labels for nodes and answer options, from the draft and every published version
+async function describeNodes(automationId: string) {
+  const draft = await getDraftSnapshot(automationId);
+  const versions = await db.select({ nodes: automationVersions.nodes })
+    .from(automationVersions)
+    .where(eq(automationVersions.automationId, automationId));
+
+  const nodes = new Map<string, { type: string; label: string; options: Map<string, string> }>();
+  for (const node of [...versions.flatMap((version) => version.nodes), ...(draft?.nodes ?? [])]) {
+    const data: any = node.data || {};
+    const options = new Map<string, string>();
+    for (const button of data.buttons || []) options.set(button.id, button.text);
+    for (const section of data.listSections || []) {
+      for (const row of section.rows || []) options.set(row.id, row.title);
+    }
+    nodes.set(node.nodeId, {
+      type: node.type,
+      label: data.label || data.question || node.type.replace(/_/g, " "),
+      options,
+    });
+  }
+  return nodes;
+}
+
+export async function getAutomationFunnel(automationId: string, from: Date, to: Date): Promise<AutomationFunnel> {
+  const inRange = and(
+    eq(automationExecutions.automationId, automationId),
+    gte(automationExecutions.startedAt, from),
+    lte(automationExecutions.startedAt, to)
+  );
+
+  const stoppedRows = await db.select({
+    nodeId: automationExecutions.currentNodeId,
+    status: automationExecutions.status,
+    count: sql<number>`count(*)::int`,
+    timedOut: sql<number>`count(*) filter (where ${automationExecutions.result} = ${EXECUTION_TIMEOUT_RESULT})::int`,
+  })
+    .from(automationExecutions)
+    .where(inRange)
+    .groupBy(automationExecutions.currentNodeId, automationExecutions.status);
+
+  // One row per visited node, with the node visited just before it
+  const visits = sql`(
+    select ${automationExecutions.id} as execution_id, step.node_id,
+      lag(step.node_id) over (partition by ${automationExecutions.id} order by step.position) as previous_id
+    from ${automationExecutions}
+    cross join lateral jsonb_array_elements_text(coalesce(${automationExecutions.executionPath}, '[]'::jsonb))
+      with ordinality as step(node_id, position)
+    where ${inRange}
+  ) visits`;
+
+  const reachRows = await db.execute<{ node_id: string; reached: number; continued: number }>(sql`
+    select node_id, count(distinct execution_id)::int as reached, 0 as continued from ${visits} group by node_id
+    union all
+    select previous_id, 0, count(distinct execution_id)::int from ${visits}
+    where previous_id is not null group by previous_id
+  `);
+
+  const transitionRows = await db.execute<{ source_id: string; target_id: string; count: number }>(sql`
+    select previous_id as source_id, node_id as target_id, count(distinct execution_id)::int as count
+    from ${visits}
+    where previous_id is not null
+    group by previous_id, node_id
+  `);
+
+  const choice = sql<string>`coalesce(
+    ${logOutput} ->> 'selectedButtonId',
+    case ${logOutput} -> 'validation' ->> 'valid' when 'true' then 'valid' when 'false' then 'invalid' end,
+    'free_text'
+  )`;
+  const choiceRows = await db.select({
+    nodeId: automationExecutionLogs.nodeId,
+    choice,
+    count: sql<number>`count(*)::int`,
+  })
+    .from(automationExecutionLogs)
+    .innerJoin(automationExecutions, eq(automationExecutions.id, automationExecutionLogs.executionId))
+    .where(and(
+      inRange,
+      eq(automationExecutionLogs.nodeType, "user_reply"),
+      eq(automationExecutionLogs.status, "completed")
+    ))
+    .groupBy(automationExecutionLogs.nodeId, choice);
+
+  // Time from the last question (or re-prompt) to the answer
+  const answerTimeRows = await db.execute<{ node_id: string; seconds: number }>(sql`
+    select answer.node_id, avg(extract(epoch from answer.executed_at - asked.at))::float as seconds
+    from ${automationExecutionLogs} answer
+    join ${automationExecutions} on ${automationExecutions.id} = answer.execution_id
+    cross join lateral (
+      select max(question.executed_at) as at
+      from ${automationExecutionLogs} question
+      where question.execution_id = answer.execution_id
+        and question.node_id = answer.node_id
+        and question.status = 'waiting_for_response'
+        and question.executed_at <= answer.executed_at
+    ) asked
+    where ${inRange}
+      and answer.node_type = 'user_reply'
+      and answer.status = 'completed'
+      and asked.at is not null
+    group by answer.node_id
+  `);
+
+  const labels = await describeNodes(automationId);
+  const funnel = new Map<string, NodeFunnel>();
+  const nodeFor = (nodeId: string) => {
+    let node = funnel.get(nodeId);
+    if (!node) {
+      const known = labels.get(nodeId);
+      node = {
+        nodeId,
+        type: known?.type ?? null,
+        label: known?.label ?? nodeId,
+        reached: 0,
+        continued: 0,
+        dropOff: 0,
+        dropOffRate: 0,
+        stopped: emptyOutcomes(),
+        answers: 0,
+        averageAnswerSeconds: null,
+        choices: [],
+      };
+      funnel.set(nodeId, node);
+    }
+    return node;
+  };
+
+  const outcomes = emptyOutcomes();
+  let total = 0;
+  for (const row of stoppedRows) {
+    const counts: Partial<OutcomeCounts> =
+      row.status === "failed" ? { failed: row.count - row.timedOut, timedOut: row.timedOut }
+      : row.status === "completed" ? { completed: row.count }
+      : row.status === "paused" ? { waiting: row.count }
+      : { running: row.count };
+    total += row.count;
+    for (const [key, count] of Object.entries(counts) as [keyof OutcomeCounts, number][]) {
+      outcomes[key] += count;
+      if (row.nodeId) nodeFor(row.nodeId).stopped[key] += count;
+    }
+  }
+
+  for (const row of reachRows.rows) {
+    const node = nodeFor(row.node_id);
+    node.reached += row.reached;
+    node.continued += row.continued;
+  }
+
+  for (const row of answerTimeRows.rows) {
+    nodeFor(row.node_id).averageAnswerSeconds = Math.round(row.seconds);
+  }
+
+  for (const row of choiceRows) {
+    const node = nodeFor(row.nodeId);
+    const options = labels.get(row.nodeId)?.options;
+    // Unmatched answers to a question with options took the "no match" branch
+    const key = row.choice === "free_text" && options?.size ? "no_match" : row.choice;
+    node.answers += row.count;
+    node.choices.push({
+      choice: key,
+      label: options?.get(key) ?? key.replace(/_/g, " "),
+      count: row.count,
+      share: 0,
+    });
+  }
+
+  const nodes = Array.from(funnel.values());
+  for (const node of nodes) {
+    // Executions still waiting here haven't dropped off yet
+    node.dropOff = Math.max(0, node.reached - node.continued - node.stopped.completed - node.stopped.waiting);
+    node.dropOffRate = ratio(node.dropOff, node.reached);
+    node.choices = node.choices
+      .map((entry) => ({ ...entry, share: ratio(entry.count, node.answers) }))
+      .sort((a, b) => b.count - a.count);
+  }
+  nodes.sort((a, b) => b.reached - a.reached);
+
+  const transitions = transitionRows.rows.map((row) => ({
+    sourceNodeId: row.source_id,
+    targetNodeId: row.target_id,
+    count: row.count,
+    rate: ratio(row.count, funnel.get(row.source_id)?.reached ?? 0),
+  }));
+
+  return {
+    range: { from, to },
+    total,
+    outcomes,
+    rates: {
+      completion: ratio(outcomes.completed, total),
+      failure: ratio(outcomes.failed, total),
+      timeout: ratio(outcomes.timedOut, total),
+    },
+    nodes,
+    transitions,
+  };
+}
@@ -0,0 +1,414 @@
+// Portable JSON bundles for moving an automation between channels or
+// installations.
+//
+// A bundle carries the draft flow plus what it points at outside itself:
+// template and assignee names, and the uploaded media files inlined as
+// base64. Import gives every node a fresh id, since automation_nodes.nodeId
+// is globally unique, and maps templates and assignees by name on the
+// target side. Anything that can't be mapped is cleared and reported.
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import {
+  automations,
+  automationNodes,
+  automationEdges,
+  campaigns,
+  templates,
+  users,
+  type AutomationTriggerConfig,
+  type AutomationVersionEdge,
+  type AutomationVersionNode,
+} from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { getDraftSnapshot } from "./automation-versions";
+import { validateFlow } from "./automation-flow-validator";
+
+export const BUNDLE_FORMAT = "automation-bundle";
+export const BUNDLE_FORMAT_VERSION = 1;
+
+// Media above this total is left out of the bundle and reported on import
+const MAX_BUNDLE_MEDIA_BYTES = 25 * 1024 * 1024;
+
+const MEDIA_FIELDS = ["imageFile", "videoFile", "audioFile", "documentFile"] as const;
+
+const UPLOADS_DIR = path.resolve("uploads");
+
+export interface BundleMedia {
+  path: string; // path the nodes reference, e.g. /uploads/123-photo.jpg
+  filename: string;
+  mimetype?: string;
+  size: number;
+  data: string; // base64
+}
+
+export interface AutomationBundle {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  automation: {
+    name: string;
+    description: string | null;
+    trigger: string;
+    triggerConfig: AutomationTriggerConfig | null;
+  };
+  nodes: AutomationVersionNode[];
+  edges: AutomationVersionEdge[];
+  templates: Array<{ id: string; name: string; language: string | null }>;
+  assignees: Array<{ id: string; username: string; email: string }>;
+  media: BundleMedia[];
+  missingMedia: Array<{ path: string; reason: string }>;
+}
+
+export interface ImportWarning {
+  nodeId: string | null; // id in the imported automation
+  kind: "template" | "assignee" | "media" | "edge" | "config";
+  message: string;
+}
+
+// Resolves an /uploads/... path inside the uploads folder, null if it escapes
+function resolveUploadPath(publicPath: string): string | null {
+  const relative = publicPath.replace(/^\/?uploads\//, "");
+  const resolved = path.resolve(UPLOADS_DIR, relative);
+  return resolved.startsWith(UPLOADS_DIR + path.sep) ? resolved : null;
+}
+
+function mediaFiles(nodes: AutomationVersionNode[]) {
+  const files: Array<{ path: string; filename: string; mimetype?: string }> = [];
+  for (const node of nodes) {
+    for (const field of MEDIA_FIELDS) {
+      const file = node.data?.[field];
+      if (file?.path && !files.some((f) => f.path === file.path)) {
+        files.push({ path: file.path, filename: file.filename, mimetype: file.mimetype });
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Bundle an automation's draft, undefined when it does not exist
+ */
+export async function exportAutomationBundle(automationId: string): Promise<AutomationBundle | undefined> {
+  const automation = await db.query.automations.findFirst({
+    where: eq(automations.id, automationId),
+  });
+  const draft = await getDraftSnapshot(automationId);
+  if (!automation || !draft) return undefined;
+
+  const templateIds = Array.from(new Set(
+    draft.nodes.filter((n) => n.type === "send_template" && n.data?.templateId).map((n) => n.data.templateId as string)
+  ));
+  const assigneeIds = Array.from(new Set(
+    draft.nodes
+      .filter((n) => n.type === "assign_user" || n.type === "handoff")
+      .flatMap((n) => [n.data?.assigneeId, ...(n.data?.teamMemberIds || [])])
+      .filter((id): id is string => !!id)
+  ));
+
+  const referencedTemplates = templateIds.length
+    ? await db.select({ id: templates.id, name: templates.name, language: templates.language })
+        .from(templates)
+        .where(inArray(templates.id, templateIds))
+    : [];
+  const referencedAssignees = assigneeIds.length
+    ? await db.select({ id: users.id, username: users.username, email: users.email })
+        .from(users)
+        .where(inArray(users.id, assigneeIds))
+    : [];
+
+  const media: BundleMedia[] = [];
+  const missingMedia: AutomationBundle["missingMedia"] = [];
+  let totalBytes = 0;
+
+  for (const file of mediaFiles(draft.nodes)) {
+    const diskPath = resolveUploadPath(file.path);
+    if (!diskPath) {
+      missingMedia.push({ path: file.path, reason: "Not an uploaded file" });
+      continue;
+    }
+    try {
+      const content = await fs.readFile(diskPath);
+      if (totalBytes + content.length > MAX_BUNDLE_MEDIA_BYTES) {
+        missingMedia.push({ path: file.path, reason: `Bundle media limit of ${MAX_BUNDLE_MEDIA_BYTES / 1024 / 1024} MB reached` });
+        continue;
+      }
+      totalBytes += content.length;
+      media.push({
+        path: file.path,
+        filename: file.filename || path.basename(diskPath),
+        mimetype: file.mimetype,
+        size: content.length,
+        data: content.toString("base64"),
+      });
+    } catch {
+      missingMedia.push({ path: file.path, reason: "File not found on the server" });
+    }
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    automation: {
+      name: automation.name,
+      description: automation.description,
+      trigger: draft.trigger,
+      triggerConfig: draft.triggerConfig,
+    },
+    // Canvas measurements are recomputed by the builder
+    nodes: draft.nodes.map(({ measured: _measured, ...node }) => node),
+    edges: draft.edges,
+    templates: referencedTemplates,
+    assignees: referencedAssignees,
+    media,
+    missingMedia,
+  };
+}
+
+// Returns null when the bundle can be imported, otherwise the reason
+export function validateBundle(bundle: any): string | null {
+  if (!bundle || typeof bundle !== "object" || bundle.format !== BUNDLE_FORMAT) {
+    return "Not an automation bundle";
+  }
+  if (typeof bundle.formatVersion !== "number" || bundle.formatVersion > BUNDLE_FORMAT_VERSION) {
+    return `Unsupported bundle version ${bundle.formatVersion}, this server reads up to ${BUNDLE_FORMAT_VERSION}`;
+  }
+  if (!bundle.automation?.name || !bundle.automation?.trigger) {
+    return "Bundle has no automation name or trigger";
+  }
+  if (!Array.isArray(bundle.nodes) || !Array.isArray(bundle.edges)) {
+    return "Bundle has no nodes or edges";
+  }
+  if (bundle.nodes.some((node: any) => !node?.nodeId || !node?.type)) {
+    return "Bundle has nodes without an id or type";
+  }
+  return null;
+}
+
+function newNodeId() {
+  return `node_${Date.now()}_${randomUUID().slice(0, 8)}`;
+}
+
+function safeFilename(filename: string) {
+  return path.basename(filename).replace(/[^\w.-]+/g, "_") || "file";
+}
+
+/**
+ * Create an inactive, unpublished automation on a channel from a bundle
+ */
+export async function importAutomationBundle(
+  bundle: AutomationBundle,
+  channelId: string,
+  createdBy?: string | null,
+  name?: string
+) {
+  const warnings: ImportWarning[] = [];
+
+  const idMap = new Map<string, string>();
+  for (const node of bundle.nodes) {
+    idMap.set(node.nodeId, newNodeId());
+  }
+
+  // Templates are matched by name, preferring the same language
+  const channelTemplates = await db.select({ id: templates.id, name: templates.name, language: templates.language })
+    .from(templates)
+    .where(eq(templates.channelId, channelId));
+  const templateMap = new Map<string, string>();
+  for (const source of bundle.templates || []) {
+    const match =
+      channelTemplates.find((t) => t.name === source.name && t.language === source.language) ??
+      channelTemplates.find((t) => t.name === source.name);
+    if (match) templateMap.set(source.id, match.id);
+  }
+
+  const assigneeMap = new Map<string, string>();
+  for (const source of bundle.assignees || []) {
+    const match = await db.query.users.findFirst({
+      columns: { id: true },
+      where: eq(users.username, source.username),
+    }) ?? await db.query.users.findFirst({
+      columns: { id: true },
+      where: eq(users.email, source.email),
+    });
+    if (match) assigneeMap.set(source.id, match.id);
+  }
+
+  // Media is written once per original path, even if several nodes share it
+  const writtenMedia = new Map<string, { filename: string; path: string }>();
+  const mediaFor = async (sourcePath: string) => {
+    if (writtenMedia.has(sourcePath)) return writtenMedia.get(sourcePath)!;
+    const media = (bundle.media || []).find((m) => m.path === sourcePath);
+    if (!media) return null;
+
+    const filename = `${Date.now()}-${safeFilename(media.filename)}`;
+    await fs.mkdir(UPLOADS_DIR, { recursive: true });
+    await fs.writeFile(path.join(UPLOADS_DIR, filename), Buffer.from(media.data, "base64"));
+    const saved = { filename, path: `/uploads/${filename}` };
+    writtenMedia.set(sourcePath, saved);
+    return saved;
+  };
+
+  const nodes: AutomationVersionNode[] = [];
+  for (const source of bundle.nodes) {
+    const nodeId = idMap.get(source.nodeId)!;
+    const data = structuredClone(source.data ?? {});
+
+    if (source.type === "send_template" && data.templateId) {
+      const template = (bundle.templates || []).find((t) => t.id === data.templateId);
+      const mapped = templateMap.get(data.templateId);
+      if (mapped) {
+        data.templateId = mapped;
+      } else {
+        warnings.push({
+          nodeId,
+          kind: "template",
+          message: `Template "${template?.name ?? data.templateId}" was not found on this channel`,
+        });
+        data.templateId = "";
+      }
+    }
+
+    if ((source.type === "assign_user" || source.type === "handoff") && data.assigneeId) {
+      const assignee = (bundle.assignees || []).find((a) => a.id === data.assigneeId);
+      const mapped = assigneeMap.get(data.assigneeId);
+      if (mapped) {
+        data.assigneeId = mapped;
+      } else {
+        warnings.push({
+          nodeId,
+          kind: "assignee",
+          message: `User "${assignee?.username ?? data.assigneeId}" does not exist here`,
+        });
+        data.assigneeId = "";
+      }
+    }
+
+    if (source.type === "handoff" && Array.isArray(data.teamMemberIds)) {
+      const missing = data.teamMemberIds.filter((id: string) => !assigneeMap.has(id));
+      if (missing.length > 0) {
+        warnings.push({
+          nodeId,
+          kind: "assignee",
+          message: `${missing.length} handoff team member(s) do not exist here and were removed`,
+        });
+      }
+      data.teamMemberIds = data.teamMemberIds.filter((id: string) => assigneeMap.has(id)).map((id: string) => assigneeMap.get(id));
+    }
+
+    for (const field of MEDIA_FIELDS) {
+      const file = data[field];
+      if (!file?.path) continue;
+      const previewField = field.replace("File", "Preview");
+
+      const saved = await mediaFor(file.path);
+      if (saved) {
+        data[field] = { ...file, filename: saved.filename, path: saved.path };
+        data[previewField] = saved.path;
+      } else {
+        const reason = (bundle.missingMedia || []).find((m) => m.path === file.path)?.reason;
+        warnings.push({
+          nodeId,
+          kind: "media",
+          message: `${file.filename || file.path} is not in the bundle${reason ? ` (${reason})` : ""}`,
+        });
+        data[field] = null;
+        data[previewField] = null;
+      }
+    }
+
+    nodes.push({
+      nodeId,
+      type: source.type,
+      subtype: source.subtype ?? null,
+      position: source.position ?? {},
+      data,
+      connections: Array.isArray(source.connections)
+        ? source.connections.map((id: string) => idMap.get(id)).filter(Boolean)
+        : [],
+    });
+  }
+
+  const edges: AutomationVersionEdge[] = [];
+  for (const source of bundle.edges) {
+    const sourceNodeId = idMap.get(source.sourceNodeId);
+    const targetNodeId = idMap.get(source.targetNodeId);
+    if (!sourceNodeId || !targetNodeId) {
+      warnings.push({
+        nodeId: sourceNodeId ?? null,
+        kind: "edge",
+        message: `Connection ${source.sourceNodeId} → ${source.targetNodeId} points at a missing step and was dropped`,
+      });
+      continue;
+    }
+    edges.push({
+      // Edge ids are a global primary key too
+      id: `edge-${sourceNodeId}-${source.sourceHandle ?? "out"}-${targetNodeId}`,
+      sourceNodeId,
+      targetNodeId,
+      sourceHandle: source.sourceHandle ?? null,
+      label: source.label ?? null,
+      animated: source.animated ?? false,
+    });
+  }
+
+  // Campaign read triggers only keep campaigns that exist on this channel
+  const triggerConfig: AutomationTriggerConfig = { ...(bundle.automation.triggerConfig ?? {}) };
+  if (triggerConfig.campaignIds?.length) {
+    const found = await db.select({ id: campaigns.id })
+      .from(campaigns)
+      .where(and(eq(campaigns.channelId, channelId), inArray(campaigns.id, triggerConfig.campaignIds)));
+    const kept = new Set(found.map((campaign) => campaign.id));
+    if (kept.size < triggerConfig.campaignIds.length) {
+      warnings.push({
+        nodeId: null,
+        kind: "config",
+        message: `${triggerConfig.campaignIds.length - kept.size} trigger campaign(s) do not exist here and were removed`,
+      });
+    }
+    triggerConfig.campaignIds = triggerConfig.campaignIds.filter((id) => kept.has(id));
+  }
+
+  const { errors, warnings: flowWarnings } = validateFlow(nodes, edges, {
+    trigger: bundle.automation.trigger,
+    triggerConfig,
+  });
+  for (const issue of [...errors, ...flowWarnings]) {
+    warnings.push({ nodeId: issue.nodeId, kind: "config", message: issue.message });
+  }
+
+  const automation = await db.transaction(async (tx) => {
+    const [created] = await tx.insert(automations).values({
+      channelId,
+      name: name || bundle.automation.name,
+      description: bundle.automation.description,
+      trigger: bundle.automation.trigger,
+      triggerConfig,
+      status: "inactive",
+      createdBy: createdBy ?? null,
+    }).returning();
+
+    if (nodes.length > 0) {
+      await tx.insert(automationNodes).values(
+        nodes.map((node) => ({
+          automationId: created.id,
+          nodeId: node.nodeId,
+          type: node.type,
+          subtype: node.subtype,
+          position: node.position,
+          data: node.data,
+          connections: node.connections,
+        }))
+      );
+    }
+    if (edges.length > 0) {
+      await tx.insert(automationEdges).values(
+        edges.map((edge) => ({ ...edge, automationId: created.id }))
+      );
+    }
+    return created;
+  });
+
+  return { automation, nodeIdMap: Object.fromEntries(idMap), warnings };
+}
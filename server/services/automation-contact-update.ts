@@ -0,0 +1,170 @@
+// update_contact nodes: copy what the bot collected onto the contact.
+//
+// Values may contain {{variable}} placeholders. A field whose placeholders
+// can't all be filled is skipped rather than saved with the raw template,
+// and every field that actually changes is recorded in contact_changes.
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { contactChanges, contacts, type Contact } from "@shared/schema";
+import { validateAnswer } from "server/utils/answer-validators";
+
+export const CONTACT_STATUSES = ["active", "blocked", "unsubscribed"];
+
+// Custom field keys follow the variable naming rules
+export const CUSTOM_FIELD_KEY = /^[A-Za-z_][\w]*$/;
+
+export interface ContactUpdateNodeData {
+  name?: string;
+  email?: string;
+  status?: string;
+  addTags?: string[];
+  removeTags?: string[];
+  addGroups?: string[];
+  removeGroups?: string[];
+  customFields?: Array<{ key: string; value: string }>;
+}
+
+export interface ContactFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface ContactUpdatePlan {
+  patch: Partial<Pick<Contact, "name" | "email" | "status" | "tags" | "groups" | "customFields">>;
+  changes: ContactFieldChange[];
+  skipped: Array<{ field: string; reason: string }>;
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Fill a value's placeholders. A value that is a single placeholder keeps
+ * the variable's type, so numbers and lists stay numbers and lists.
+ */
+function resolveValue(template: string, variables: Record<string, any>): { value?: unknown; missing?: string } {
+  const whole = template.trim().match(/^\{\{(\w+)\}\}$/);
+  if (whole) {
+    const value = variables[whole[1]];
+    return value === undefined || value === null || value === "" ? { missing: whole[1] } : { value };
+  }
+
+  let missing: string | undefined;
+  const value = template.replace(PLACEHOLDER, (match, key) => {
+    const variable = variables[key];
+    if (variable === undefined || variable === null || variable === "") {
+      missing ??= key;
+      return match;
+    }
+    return typeof variable === "object" ? JSON.stringify(variable) : String(variable);
+  });
+  return missing ? { missing } : { value: value.trim() };
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function resolveList(items: string[] | undefined, variables: Record<string, any>) {
+  return (items || [])
+    .map((item) => resolveValue(item, variables))
+    .filter((item) => item.value !== undefined)
+    .flatMap((item) => (Array.isArray(item.value) ? item.value.map(String) : [String(item.value)]))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Work out what an update_contact node changes on a contact, without saving
+ */
+export function planContactUpdate(
+  contact: Contact,
+  data: ContactUpdateNodeData,
+  variables: Record<string, any>
+): ContactUpdatePlan {
+  const plan: ContactUpdatePlan = { patch: {}, changes: [], skipped: [] };
+  const set = <K extends keyof ContactUpdatePlan["patch"]>(field: K, value: ContactUpdatePlan["patch"][K]) => {
+    if (sameValue(contact[field], value)) return;
+    plan.patch[field] = value;
+    plan.changes.push({ field, oldValue: contact[field] ?? null, newValue: value });
+  };
+
+  if (data.name?.trim()) {
+    const { value, missing } = resolveValue(data.name, variables);
+    if (missing) plan.skipped.push({ field: "name", reason: `{{${missing}}} is not set` });
+    else set("name", String(value));
+  }
+
+  if (data.email?.trim()) {
+    const { value, missing } = resolveValue(data.email, variables);
+    const check = missing ? null : validateAnswer({ type: "email" }, String(value));
+    if (missing) plan.skipped.push({ field: "email", reason: `{{${missing}}} is not set` });
+    else if (!check?.valid) plan.skipped.push({ field: "email", reason: `"${value}" is not a valid email address` });
+    else set("email", String(check.normalized));
+  }
+
+  if (data.status) {
+    if (CONTACT_STATUSES.includes(data.status)) set("status", data.status);
+    else plan.skipped.push({ field: "status", reason: `Unknown status "${data.status}"` });
+  }
+
+  const tags = asList(contact.tags);
+  const removeTags = new Set(resolveList(data.removeTags, variables));
+  const nextTags = Array.from(new Set([...tags.filter((tag) => !removeTags.has(tag)), ...resolveList(data.addTags, variables)]));
+  set("tags", nextTags);
+
+  const groups = asList(contact.groups);
+  const removeGroups = new Set(resolveList(data.removeGroups, variables));
+  const nextGroups = Array.from(new Set([...groups.filter((group) => !removeGroups.has(group)), ...resolveList(data.addGroups, variables)]));
+  set("groups", nextGroups);
+
+  const customFields = { ...((contact.customFields ?? {}) as Record<string, unknown>) };
+  let customChanged = false;
+  for (const { key, value: template } of data.customFields || []) {
+    if (!key || !CUSTOM_FIELD_KEY.test(key)) continue;
+    const { value, missing } = resolveValue(template ?? "", variables);
+    if (missing) {
+      plan.skipped.push({ field: `customFields.${key}`, reason: `{{${missing}}} is not set` });
+      continue;
+    }
+    if (sameValue(customFields[key], value)) continue;
+    plan.changes.push({ field: `customFields.${key}`, oldValue: customFields[key] ?? null, newValue: value });
+    customFields[key] = value;
+    customChanged = true;
+  }
+  if (customChanged) plan.patch.customFields = customFields;
+
+  return plan;
+}
+
+/**
+ * Save a planned update and its history in one transaction
+ */
+export async function saveContactUpdate(
+  contactId: string,
+  plan: ContactUpdatePlan,
+  origin: { automationId?: string; executionId?: string; nodeId?: string; source?: string }
+) {
+  if (plan.changes.length === 0) return;
+
+  await db.transaction(async (tx) => {
+    await tx.update(contacts)
+      .set({ ...plan.patch, updatedAt: new Date() })
+      .where(eq(contacts.id, contactId));
+
+    await tx.insert(contactChanges).values(
+      plan.changes.map((change) => ({
+        contactId,
+        field: change.field,
+        oldValue: change.oldValue,
+        newValue: change.newValue,
+        source: "automation",
+        ...origin,
+      }))
+    );
+  });
+}
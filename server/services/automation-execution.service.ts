@@ -1,45 +1,162 @@
 // automation-execution.service.ts - Enhanced with Conditions Support
 import { db } from "../db";
-import { sql } from "drizzle-orm";
 import {
   automations,
   automationNodes,
   automationExecutions,
   automationExecutionLogs,
   automationEdges,
+  automationTimers,
+  automationVersions,
   contacts,
+  conversations,
+  messages,
   templates,
 } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, lt, gt, gte, inArray, desc, asc, ne, sql, isNull, isNotNull, or } from "drizzle-orm";
+import type {
+  Automation,
+  AutomationExecution,
+  AutomationExecutionLimits,
+  AutomationTriggerConfig,
+  Contact,
+  Message,
+} from "@shared/schema";
 import { sendBusinessMessage } from "../services/messageService";
 import { WhatsAppApiService } from "./whatsapp-api";
 import { storage } from "server/storage";
+import { computeResumeAt, describeDelay } from "server/utils/automation-delay";
+import { matchesContactTags, selectBestMatch } from "./automation-trigger-matcher";
+import type { AutomationTransport, ListSection } from "./automation-transport";
+import { evaluateCondition, evaluateExpression } from "server/utils/expression";
+import { validateAnswer, type AnswerCheck, type AnswerValidation } from "server/utils/answer-validators";
+import {
+  performHttpRequest,
+  readJsonPath,
+  type HttpRequestConfig,
+  type HttpRequestResult,
+} from "server/utils/automation-http";
+import {
+  ExecutionLimitError,
+  resolveCooldownMinutes,
+  resolveExecutionLimits,
+} from "server/utils/automation-limits";
+import {
+  findLeastBusyAgent,
+  formatHandoffNote,
+  HANDOFF_RESUME_HANDLE,
+  type HandoffNodeData,
+} from "./automation-handoff";
+import {
+  planContactUpdate,
+  saveContactUpdate,
+  type ContactUpdateNodeData,
+  type ContactUpdatePlan,
+} from "./automation-contact-update";
 
-interface ExecutionContext {
+export interface ExecutionContext {
   executionId: string;
   automationId: string;
+  versionId?: string | null; // published version the execution is pinned to
   contactId?: string;
   conversationId?: string;
   variables: Record<string, any>;
   triggerData: any;
   lastUserMessage?: string; // Add this to track user input for conditions
+  startedAt?: Date;
+  nodeVisits?: number;
+  messagesSent?: number;
+  limits?: Required<AutomationExecutionLimits>;
 }
 
-interface PendingExecution {
-  executionId: string;
-  automationId: string;
-  nodeId: string;
-  conversationId: string;
-  contactId?: string;
-  context: ExecutionContext;
+// Stored in automation_executions.resume_data while an execution is paused
+export interface ResumeData {
   saveAs?: string;
-  timestamp: Date;
-  status: 'waiting_for_response';
   expectedButtons?: any[];
+  replyType?: 'buttons' | 'list';
+  attempts?: number; // re-prompts already sent for an unmatched answer
+  lastUserMessage?: string;
 }
 
+// Result recorded on executions that stopped waiting for an answer
+export const EXECUTION_TIMEOUT_RESULT = 'Execution timed out waiting for user response';
+
+// WhatsApp accepts at most 10 rows across all sections
+const MAX_LIST_ROWS = 10;
+
+function flattenListRows(sections: ListSection[]) {
+  return sections.flatMap((section) => section.rows || []).slice(0, MAX_LIST_ROWS);
+}
+
+// Options a user_reply node offers; list rows are matched like buttons
+function getReplyOptions(nodeData: any) {
+  const isList = nodeData.replyType === 'list';
+  const sections: ListSection[] = isList ? nodeData.listSections || [] : [];
+  const buttons: any[] = isList
+    ? flattenListRows(sections).map((row) => ({ id: row.id, text: row.title }))
+    : nodeData.buttons || [];
+  return { isList, sections, buttons };
+}
+
+// Handle used for answers that match none of a question's options
+const NO_MATCH_HANDLE = 'no_match';
+
+// Running executions refresh heartbeatAt this often; one that misses a few
+// beats belongs to an instance that died
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const HEARTBEAT_STALE_MS = 2 * 60 * 1000;
+
+// Contacts a scheduled run loads and starts at a time
+const SCHEDULE_BATCH_SIZE = 20;
+
+// Executions this process is running, shared by every service instance
+const runningExecutions = new Set<string>();
+
+export type WaitType = 'user_reply' | 'time_gap' | 'handoff';
+
 export class AutomationExecutionService {
-  private pendingExecutions = new Map<string, PendingExecution>();
+  protected transport: AutomationTransport;
+
+  constructor(transport?: AutomationTransport) {
+    this.transport = transport ?? this.createWhatsAppTransport();
+  }
+
+  /**
+   * Default transport: the WhatsApp Cloud API plus the inbox records
+   */
+  private createWhatsAppTransport(): AutomationTransport {
+    return {
+      sendText: (contact, text, conversationId) =>
+        sendBusinessMessage({ to: contact.phone, message: text, channelId: contact.channelId!, conversationId }),
+      sendButtons: (contact, text, buttons, conversationId) =>
+        this.sendInteractiveMessage(contact.phone, text, buttons, contact.channelId!, conversationId),
+      sendList: (contact, text, buttonText, sections, conversationId) =>
+        this.sendListMessage(contact.phone, text, buttonText || '', sections, contact.channelId!, conversationId),
+      sendMedia: (contact, nodeData, caption, conversationId) =>
+        this.sendMediaMessage(contact, nodeData, caption, conversationId),
+      sendTemplate: (contact, templateName, parameters) =>
+        sendBusinessMessage({ to: contact.phone, templateName, parameters, channelId: contact.channelId! }),
+      assignConversation: (conversationId, assigneeId) =>
+        storage.updateConversation(conversationId, { assignedTo: assigneeId, status: "assigned" }),
+      handoffConversation: (conversationId, assigneeId) =>
+        storage.updateConversation(
+          conversationId,
+          assigneeId ? { assignedTo: assigneeId, status: "assigned" } : { status: "pending" }
+        ),
+      postInternalNote: async (conversationId, text) => {
+        const note = await storage.createMessage({
+          conversationId,
+          content: text,
+          type: "note",
+          direction: "internal",
+          fromUser: false,
+          status: "internal",
+        });
+        (global as any).broadcastToConversation?.(conversationId, { type: "new-message", message: note });
+        return note;
+      },
+    };
+  }
 
   /**
    * Start automation execution (called from your controller)
@@ -57,8 +174,25 @@ export class AutomationExecutionService {
         throw new Error(`Execution ${executionId} not found`);
       }
 
+      // Pin the execution to the published version so later edits and
+      // publishes don't change it mid-flow. Manual tests run the draft.
+      let versionId = execution.versionId;
+      const testMode = (execution.triggerData as { testMode?: boolean } | null)?.testMode;
+      if (!versionId && !testMode) {
+        const current = await db.query.automations.findFirst({
+          columns: { publishedVersionId: true },
+          where: eq(automations.id, execution.automationId),
+        });
+        versionId = current?.publishedVersionId ?? null;
+        if (versionId) {
+          await db.update(automationExecutions)
+            .set({ versionId })
+            .where(eq(automationExecutions.id, executionId));
+        }
+      }
+
       // Get automation with nodes and edges
-      const automation = await this.getAutomationWithFlow(execution.automationId);
+      const automation = await this.getAutomationWithFlow(execution.automationId, versionId);
       if (!automation) {
         throw new Error(`Automation ${execution.automationId} not found`);
       }
@@ -77,6 +211,7 @@ export class AutomationExecutionService {
       const context: ExecutionContext = {
         executionId: execution.id,
         automationId: execution.automationId,
+        versionId,
         contactId: execution.contactId ?? undefined,
         conversationId: execution.conversationId ?? undefined,
         variables: {
@@ -85,6 +220,9 @@ export class AutomationExecutionService {
           ...triggerData
         },
         triggerData,
+        startedAt: execution.startedAt ?? new Date(),
+        nodeVisits: execution.nodeVisits ?? 0,
+        messagesSent: execution.messagesSent ?? 0,
         lastUserMessage:
           (execution.triggerData as { message?: { content?: string; text?: string } }).message
             ?.content ||
@@ -93,10 +231,7 @@ export class AutomationExecutionService {
           "",
     };
 
-      // Get first node = no incoming edges
-      const firstNode = automation.nodes.find(
-        (n: any) => !automation.edges.some((e: any) => e.targetNodeId === n.nodeId)
-      );
+      const firstNode = this.findStartNode(automation);
 
       if (firstNode) {
         await this.executeNode(firstNode, automation, context);
@@ -111,14 +246,28 @@ export class AutomationExecutionService {
     }
   }
 
+  /**
+   * First node of a flow: the one without incoming edges
+   */
+  protected findStartNode(automation: any) {
+    return automation.nodes.find(
+      (n: any) => !automation.edges.some((e: any) => e.targetNodeId === n.nodeId)
+    );
+  }
+
   /**
    * Execute a single node
    */
-  private async executeNode(node: any, automation: any, context: ExecutionContext) {
+  protected async executeNode(node: any, automation: any, context: ExecutionContext) {
     const startTime = new Date();
     console.log(`Executing node ${node.nodeId} (${node.type})`);
 
     try {
+      this.checkExecutionLimits(automation, context);
+
+      // Persist the resume point before doing any work on this node
+      await this.saveProgress(node.nodeId, context);
+
       // Log node start
       await this.logNodeExecution(
         context.executionId,
@@ -127,7 +276,8 @@ export class AutomationExecutionService {
         'running',
         node.data,
         null,
-        null
+        null,
+        context.variables
       );
 
       let result: any = null;
@@ -140,7 +290,7 @@ export class AutomationExecutionService {
           
         case 'user_reply':
           result = await this.executeUserReply(node, context);
-          break;
+          return; // Resumed by handleUserResponse once the contact answers
           
         case 'time_gap':
           result = await this.executeTimeGap(node, context);
@@ -154,9 +304,25 @@ export class AutomationExecutionService {
           result = await this.executeAssignUser(node, context);
           break;
 
+        case 'update_contact':
+          result = await this.executeUpdateContact(node, context);
+          break;
+
+        case 'handoff':
+          result = await this.executeHandoff(node, context);
+          return; // Resumed by resumeHandoffs once the agent closes the conversation
+
+        case 'set_variable':
+          result = await this.executeSetVariable(node, context);
+          break;
+
         case 'conditions':
           result = await this.executeConditions(node, automation, context);
           return; // Conditions handle their own routing
+
+        case 'http_request':
+          result = await this.executeHttpRequest(node, automation, context);
+          return; // Routes to its success or error branch
           
         default:
           throw new Error(`Unknown node type: ${node.type}`);
@@ -170,7 +336,8 @@ export class AutomationExecutionService {
         'completed',
         node.data,
         result,
-        null
+        null,
+        context.variables
       );
 
       // Continue to next node
@@ -187,7 +354,8 @@ export class AutomationExecutionService {
         'failed',
         node.data,
         null,
-        (error as Error).message
+        (error as Error).message,
+        context.variables
       );
 
       // Fail the entire execution
@@ -196,12 +364,49 @@ export class AutomationExecutionService {
     }
   }
 
+  /**
+   * Count a node visit and stop the execution once it has visited too many
+   * nodes or run for too long, so a loop in the graph can't spin forever
+   */
+  private checkExecutionLimits(automation: any, context: ExecutionContext) {
+    context.limits ??= resolveExecutionLimits(automation.triggerConfig);
+    context.nodeVisits = (context.nodeVisits ?? 0) + 1;
+
+    if (context.nodeVisits > context.limits.maxNodeVisits) {
+      throw new ExecutionLimitError(
+        `Stopped after ${context.limits.maxNodeVisits} steps, the flow may contain a loop`
+      );
+    }
+
+    const startedAt = context.startedAt ?? new Date();
+    if (Date.now() - startedAt.getTime() > context.limits.maxDurationHours * 60 * 60 * 1000) {
+      throw new ExecutionLimitError(`Stopped after running for ${context.limits.maxDurationHours} hours`);
+    }
+  }
+
+  /**
+   * Count an outbound message before it is sent
+   */
+  private countOutbound(context: ExecutionContext) {
+    const limits = context.limits ?? resolveExecutionLimits(null);
+    const sent = context.messagesSent ?? 0;
+    if (sent >= limits.maxMessages) {
+      throw new ExecutionLimitError(`Stopped after sending ${limits.maxMessages} messages to the contact`);
+    }
+    context.messagesSent = sent + 1;
+  }
+
   /**
    * Execute conditions node - NEW
    */
   private async executeConditions(node: any, automation: any, context: ExecutionContext) {
     const conditionData = node.data;
     const conditionType = conditionData.conditionType || 'keyword';
+
+    if (conditionType === 'switch') {
+      return this.executeSwitch(node, automation, context);
+    }
+
     const matchType = conditionData.matchType || 'any';
     const keywords = conditionData.keywords || [];
 
@@ -237,21 +442,22 @@ export class AutomationExecutionService {
         }
         break;
 
+      case 'equals':
+      case 'contains':
+      case 'starts_with':
+        matchedKeyword = keywords.find((keyword: string) => this.matchText(conditionType, userInput, keyword)) ?? null;
+        conditionMet = matchedKeyword !== null;
+        break;
+
       case 'regex':
-        try {
-          const pattern = new RegExp(keywords[0] || '', 'i'); // case insensitive
-          conditionMet = pattern.test(userInput);
-          matchedKeyword = conditionMet ? keywords[0] : null;
-        } catch (error) {
-          console.error('Invalid regex pattern:', keywords[0], error);
-          conditionMet = false;
-        }
+        conditionMet = this.matchText('regex', userInput, keywords[0] || '');
+        matchedKeyword = conditionMet ? keywords[0] : null;
         break;
 
       case 'variable':
-        // Check variable conditions (e.g., {{contactName}} === 'John')
-        const variableCondition = keywords[0] || '';
-        conditionMet = this.evaluateVariableCondition(variableCondition, context.variables);
+        // Expression such as: score >= 10 && contact.tags in ['vip']
+        const variableCondition = conditionData.expression || keywords[0] || '';
+        conditionMet = this.evaluateVariableCondition(variableCondition, await this.buildExpressionScope(context));
         matchedKeyword = conditionMet ? variableCondition : null;
         break;
 
@@ -264,8 +470,10 @@ export class AutomationExecutionService {
     context.variables.lastConditionResult = conditionMet;
     context.variables.matchedKeyword = matchedKeyword;
 
+    const branch = conditionMet ? 'true' : 'false';
     const result = {
       conditionMet,
+      branch,
       matchedKeyword,
       userInput,
       conditionType,
@@ -281,25 +489,94 @@ export class AutomationExecutionService {
       'completed',
       conditionData,
       result,
-      null
+      null,
+      context.variables
     );
 
     console.log(`🎯 Condition ${conditionMet ? 'MET' : 'NOT MET'}: "${matchedKeyword || 'none'}"`);
 
     // Route based on condition result
-    await this.routeFromCondition(node, automation, context, conditionMet);
+    await this.routeFromCondition(node, automation, context, branch);
+
+    return result;
+  }
+
+  /**
+   * Execute a multi-way switch: the first matching case wins, otherwise default
+   */
+  private async executeSwitch(node: any, automation: any, context: ExecutionContext) {
+    const conditionData = node.data;
+    const cases: Array<{ id: string; label?: string; operator?: string; value?: string }> = conditionData.cases || [];
+    const input = conditionData.switchOn
+      ? String(context.variables[conditionData.switchOn] ?? '')
+      : context.lastUserMessage || '';
+
+    const matchedCase = cases.find((c) => this.matchText(c.operator || 'equals', input, c.value || ''));
+    const branch = matchedCase ? matchedCase.id : 'default';
+
+    context.variables.lastConditionResult = !!matchedCase;
+    context.variables.matchedCase = matchedCase?.label ?? null;
+
+    const result = {
+      conditionType: 'switch',
+      branch,
+      matchedCase: matchedCase?.label ?? null,
+      input
+    };
+
+    await this.logNodeExecution(
+      context.executionId,
+      node.nodeId,
+      node.type,
+      'completed',
+      conditionData,
+      result,
+      null,
+      context.variables
+    );
+
+    console.log(`🔀 Switch on "${input}": ${matchedCase ? `case "${matchedCase.label}"` : 'default'}`);
+
+    await this.routeFromCondition(node, automation, context, branch);
 
     return result;
   }
 
   /**
-   * Route execution based on condition result
+   * Compare user input with a condition value
+   */
+  private matchText(operator: string, input: string, value: string): boolean {
+    const lowerInput = input.toLowerCase().trim();
+    const lowerValue = value.toLowerCase().trim();
+
+    switch (operator) {
+      case 'equals':
+        return lowerInput === lowerValue;
+      case 'contains':
+        return lowerValue !== '' && lowerInput.includes(lowerValue);
+      case 'starts_with':
+        return lowerValue !== '' && lowerInput.startsWith(lowerValue);
+      case 'regex':
+        try {
+          return new RegExp(value, 'i').test(input); // case insensitive
+        } catch (error) {
+          console.error('Invalid regex pattern:', value, error);
+          return false;
+        }
+      default:
+        console.warn(`Unknown match operator: ${operator}`);
+        return false;
+    }
+  }
+
+  /**
+   * Route execution along the edges leaving the given branch handle
    */
   private async routeFromCondition(
     conditionNode: any, 
     automation: any, 
     context: ExecutionContext, 
-    conditionMet: boolean
+    branch: string
   ) {
     // Get outgoing edges from condition node
     const outgoingEdges = automation.edges.filter(
@@ -312,81 +589,240 @@ export class AutomationExecutionService {
       return;
     }
 
-    // If condition is met, follow the first edge (TRUE path)
-    // If condition is not met, look for alternative edges or complete execution
-    if (conditionMet) {
-      // Follow TRUE path (first edge)
-      const trueEdge = outgoingEdges[0];
-      const nextNode = automation.nodes.find((n: any) => n.nodeId === trueEdge.targetNodeId);
-      
+    let branchEdges = outgoingEdges.filter((e: any) => e.sourceHandle === branch);
+
+    // Flows saved before edges carried a handle: first edge is TRUE, second is FALSE
+    if (outgoingEdges.every((e: any) => !e.sourceHandle)) {
+      const legacyEdge = branch === 'true' ? outgoingEdges[0] : branch === 'false' ? outgoingEdges[1] : undefined;
+      branchEdges = legacyEdge ? [legacyEdge] : [];
+    }
+
+    if (branchEdges.length === 0) {
+      console.log(`🛑 Condition branch "${branch}" has no path defined, ending execution`);
+      await this.completeExecution(context.executionId, 'completed', `No path defined for branch "${branch}"`);
+      return;
+    }
+
+    for (const edge of branchEdges) {
+      const nextNode = automation.nodes.find((n: any) => n.nodeId === edge.targetNodeId);
       if (nextNode) {
-        console.log(`➡️  Condition TRUE: Following path to ${nextNode.type} node`);
+        console.log(`➡️  Branch "${branch}": Following path to ${nextNode.type} node`);
         await this.executeNode(nextNode, automation, context);
       } else {
-        console.warn(`Node ${trueEdge.targetNodeId} not found for TRUE path`);
-        await this.completeExecution(context.executionId, 'completed', 'TRUE path node not found');
-      }
-    } else {
-      // Check if there's a FALSE path (second edge) or alternative routing
-      if (outgoingEdges.length > 1) {
-        const falseEdge = outgoingEdges[1];
-        const nextNode = automation.nodes.find((n: any) => n.nodeId === falseEdge.targetNodeId);
-        
-        if (nextNode) {
-          console.log(`➡️  Condition FALSE: Following alternative path to ${nextNode.type} node`);
-          await this.executeNode(nextNode, automation, context);
-        } else {
-          console.warn(`Node ${falseEdge.targetNodeId} not found for FALSE path`);
-          await this.completeExecution(context.executionId, 'completed', 'FALSE path node not found');
-        }
-      } else {
-        // No FALSE path defined, complete execution
-        console.log(`🛑 Condition FALSE: No alternative path defined, ending execution`);
-        await this.completeExecution(context.executionId, 'completed', 'Condition not met and no alternative path');
+        console.warn(`Node ${edge.targetNodeId} not found for branch "${branch}"`);
+        await this.completeExecution(context.executionId, 'completed', `Node for branch "${branch}" not found`);
       }
     }
   }
 
   /**
-   * Evaluate variable-based conditions
+   * Evaluate variable-based conditions with the sandboxed expression language
    */
-  private evaluateVariableCondition(condition: string, variables: Record<string, any>): boolean {
+  private evaluateVariableCondition(condition: string, scope: Record<string, any>): boolean {
     try {
-      // Replace variables in condition string
-      const resolvedCondition = this.replaceVariables(condition, variables);
-      
-      // Simple evaluation for common patterns
-      // Example: "{{contactName}} === 'John'" becomes "John === 'John'"
-      // This is a basic implementation - you might want to use a proper expression evaluator
-      
-      if (resolvedCondition.includes('===')) {
-        const [left, right] = resolvedCondition.split('===').map(s => s.trim().replace(/['"]/g, ''));
-        return left === right;
+      return evaluateCondition(condition, scope);
+    } catch (error) {
+      console.error('Error evaluating variable condition:', (error as Error).message);
+      return false;
+    }
+  }
+
+  /**
+   * Values visible to expressions: execution variables plus the contact
+   */
+  private async buildExpressionScope(context: ExecutionContext): Promise<Record<string, any>> {
+    const contact = await this.loadContact(context);
+
+    return {
+      ...context.variables,
+      variables: context.variables,
+      message: context.lastUserMessage ?? '',
+      contact: contact
+        ? {
+            id: contact.id,
+            name: contact.name,
+            phone: contact.phone,
+            email: contact.email,
+            status: contact.status,
+            timezone: contact.timezone,
+            tags: contact.tags ?? [],
+            groups: contact.groups ?? [],
+            customFields: contact.customFields ?? {},
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Execute set variable node
+   */
+  private async executeSetVariable(node: any, context: ExecutionContext) {
+    const { variableName, expression } = node.data;
+    if (!variableName) {
+      throw new Error('Set variable node has no variable name');
+    }
+
+    const scope = await this.buildExpressionScope(context);
+    const value = evaluateExpression(expression || '', scope);
+
+    // Dates are stored as ISO strings so the variable survives a restart unchanged
+    context.variables[variableName] = value instanceof Date ? value.toISOString() : value;
+    console.log(`🧮 Set variable ${variableName} = ${JSON.stringify(context.variables[variableName])}`);
+
+    return {
+      action: 'variable_set',
+      variableName,
+      value: context.variables[variableName]
+    };
+  }
+
+  /**
+   * Execute HTTP request node: call an external API, copy parts of the
+   * response into variables and follow the success or error branch
+   */
+  private async executeHttpRequest(node: any, automation: any, context: ExecutionContext) {
+    const config = (node.data || {}) as HttpRequestConfig;
+    const scope = await this.buildExpressionScope(context);
+
+    console.log(`🌐 HTTP ${config.method || 'GET'} ${config.url}`);
+    const response = await this.sendHttpRequest(config, scope);
+
+    context.variables.http_status = response.status;
+    context.variables.http_error = response.error ?? null;
+
+    const extracted: Record<string, any> = {};
+    if (response.ok) {
+      for (const mapping of config.responseMappings || []) {
+        if (!mapping.variable || !mapping.path) continue;
+        const value = readJsonPath(response.data, mapping.path);
+        context.variables[mapping.variable] = value ?? null;
+        extracted[mapping.variable] = value ?? null;
       }
-      
-      if (resolvedCondition.includes('!==')) {
-        const [left, right] = resolvedCondition.split('!==').map(s => s.trim().replace(/['"]/g, ''));
-        return left !== right;
+      if (config.saveResponseAs) {
+        context.variables[config.saveResponseAs] = response.data;
       }
-      
-      if (resolvedCondition.includes('contains')) {
-        const [left, right] = resolvedCondition.split('contains').map(s => s.trim().replace(/['"]/g, ''));
-        return left.toLowerCase().includes(right.toLowerCase());
+    }
+
+    const branch = response.ok ? 'success' : 'error';
+    const result = {
+      action: 'http_request',
+      branch,
+      status: response.status,
+      error: response.error ?? null,
+      extracted
+    };
+
+    await this.logNodeExecution(
+      context.executionId,
+      node.nodeId,
+      node.type,
+      'completed', // the error branch is a normal outcome, not a failed node
+      node.data,
+      result,
+      response.error ?? null,
+      context.variables
+    );
+
+    console.log(response.ok ? `✅ HTTP ${response.status}` : `⚠️  HTTP request failed: ${response.error}`);
+
+    await this.routeFromCondition(node, automation, context, branch);
+
+    return result;
+  }
+
+  /**
+   * Send the retry message with the options again and keep waiting
+   */
+  private async repromptUserReply(
+    node: any,
+    context: ExecutionContext,
+    resumeData: ResumeData,
+    attempt: number,
+    userResponse: string,
+    message?: string
+  ) {
+    const contact = await this.loadContact(context);
+    if (!contact?.phone || !contact.channelId) {
+      throw new Error('Contact phone number or channel not found');
+    }
+
+    const retryText = this.replaceVariables(
+      message || node.data.retryMessage || "Sorry, I didn't get that. Please choose one of the options.",
+      context.variables
+    );
+    this.countOutbound(context);
+    await this.sendReplyPrompt(contact, node.data, retryText, context.conversationId);
+
+    await this.pauseExecution(
+      context,
+      node.nodeId,
+      'user_reply',
+      { ...resumeData, attempts: attempt },
+      `Re-prompted (attempt ${attempt}) after unmatched answer`
+    );
+
+    await this.logNodeExecution(
+      context.executionId,
+      node.nodeId,
+      node.type,
+      'waiting_for_response',
+      { retryMessage: retryText, attempt },
+      { action: 'reprompted', userResponse },
+      null,
+      context.variables
+    );
+
+    console.log(`🔁 Answer "${userResponse}" matched no option, re-prompt ${attempt} sent`);
+  }
+
+  /**
+   * Continue after a user_reply node. Edges drawn from an option's handle
+   * only run when that option was chosen; anything else follows the
+   * fallback handle ("no match", or "valid"/"invalid" for validated free
+   * text). Flows without handles continue as before.
+   */
+  private async routeFromReply(
+    replyNode: any,
+    automation: any,
+    context: ExecutionContext,
+    optionId: string | null,
+    fallbackHandle: string = NO_MATCH_HANDLE
+  ) {
+    const outgoingEdges = automation.edges.filter(
+      (e: any) => e.sourceNodeId === replyNode.nodeId
+    );
+
+    if (!outgoingEdges.some((e: any) => e.sourceHandle)) {
+      await this.continueToNextNode(replyNode, automation, context);
+      return;
+    }
+
+    const optionEdges = optionId
+      ? outgoingEdges.filter((e: any) => e.sourceHandle === optionId)
+      : [];
+    const branchEdges = optionEdges.length > 0
+      ? optionEdges
+      : outgoingEdges.filter((e: any) => !e.sourceHandle || e.sourceHandle === fallbackHandle);
+
+    if (branchEdges.length === 0) {
+      const branch = optionId ?? fallbackHandle;
+      console.log(`🛑 No path for reply branch "${branch}", ending execution`);
+      await this.completeExecution(context.executionId, 'completed', `No path defined for reply "${branch}"`);
+      return;
+    }
+
+    for (const edge of branchEdges) {
+      const nextNode = automation.nodes.find((n: any) => n.nodeId === edge.targetNodeId);
+      if (nextNode) {
+        await this.executeNode(nextNode, automation, context);
       }
-      
-      // Default: check if resolved condition is truthy
-      return Boolean(resolvedCondition);
-      
-    } catch (error) {
-      console.error('Error evaluating variable condition:', error);
-      return false;
     }
   }
 
   /**
    * Continue to next node(s) using edges
    */
-  private async continueToNextNode(currentNode: any, automation: any, context: ExecutionContext) {
+  protected async continueToNextNode(currentNode: any, automation: any, context: ExecutionContext) {
     // Get outgoing edges
     const outgoingEdges = automation.edges.filter(
       (e: any) => e.sourceNodeId === currentNode.nodeId
@@ -441,17 +877,24 @@ export class AutomationExecutionService {
   async handleUserResponse(conversationId: string, userResponse: string, interactiveData?: any) {
     console.log(`📨 Received user response for conversation ${conversationId}: "${userResponse}"`);
     
-    // Find pending execution for this conversation
-    const pendingExecution = this.findPendingExecutionByConversation(conversationId);
+    // Claim the waiting execution so no other instance resumes it as well
+    const pendingExecution = await this.claimWaitingExecution(conversationId);
     if (!pendingExecution) {
       console.warn(`No pending execution found for conversation ${conversationId}`);
       return null;
     }
 
+    return this.processUserResponse(pendingExecution, userResponse, interactiveData);
+  }
+
+  /**
+   * Apply an answer to an execution paused on a user_reply node and carry on
+   */
+  protected async processUserResponse(pendingExecution: AutomationExecution, userResponse: string, interactiveData?: any) {
+    const resumeData = (pendingExecution.resumeData ?? {}) as ResumeData;
+    const nodeId = pendingExecution.currentNodeId!;
+
     try {
-      // Remove from pending
-      this.pendingExecutions.delete(pendingExecution.pendingId);
-      
       // Process the response
       let processedResponse = userResponse;
       let selectedButtonId = null;
@@ -461,9 +904,13 @@ export class AutomationExecutionService {
         selectedButtonId = interactiveData.button_reply.id;
         processedResponse = interactiveData.button_reply.title;
         console.log(`🔘 Button clicked: ${selectedButtonId} - "${processedResponse}"`);
-      } else if (pendingExecution.expectedButtons && pendingExecution.expectedButtons.length > 0) {
+      } else if (interactiveData && interactiveData.type === 'list_reply') {
+        selectedButtonId = interactiveData.list_reply.id;
+        processedResponse = interactiveData.list_reply.title;
+        console.log(`📋 List row selected: ${selectedButtonId} - "${processedResponse}"`);
+      } else if (resumeData.expectedButtons && resumeData.expectedButtons.length > 0) {
         // Try to match text response to button options
-        const matchedButton = this.matchTextToButton(userResponse, pendingExecution.expectedButtons);
+        const matchedButton = this.matchTextToButton(userResponse, resumeData.expectedButtons);
         if (matchedButton) {
           selectedButtonId = matchedButton.id;
           processedResponse = matchedButton.text;
@@ -471,57 +918,100 @@ export class AutomationExecutionService {
         }
       }
       
+      const automation = await this.getAutomationWithFlow(pendingExecution.automationId, pendingExecution.versionId);
+      if (!automation) {
+        throw new Error(`Automation ${pendingExecution.automationId} not found during resume`);
+      }
+
+      const currentNode = automation.nodes.find((n: any) => n.nodeId === nodeId);
+      if (!currentNode) {
+        throw new Error(`Node ${nodeId} not found during resume`);
+      }
+
       // Update context with user response
-      const context = pendingExecution.context;
+      const context = this.restoreContext(pendingExecution);
+      context.limits = resolveExecutionLimits(automation.triggerConfig);
+
+      // Ask again while re-prompt attempts remain, then fall through to "no match"
+      const hasOptions = (resumeData.expectedButtons?.length ?? 0) > 0;
+      const attempts = resumeData.attempts ?? 0;
+      const maxAttempts = Math.max(0, Number((currentNode.data as any)?.maxAttempts) || 0);
+      if (hasOptions && !selectedButtonId && attempts < maxAttempts) {
+        await this.repromptUserReply(currentNode, context, resumeData, attempts + 1, userResponse);
+        return {
+          success: true,
+          executionId: context.executionId,
+          userResponse,
+          selectedButtonId: null,
+          reprompted: true,
+          attempt: attempts + 1
+        };
+      }
+
+      // Free text answers are checked against the node's validator, if any
+      const validation = (currentNode.data as any)?.validation as AnswerValidation | undefined;
+      let check: AnswerCheck | null = null;
+      if (!hasOptions && validation?.type) {
+        check = validateAnswer(validation, userResponse);
+        const maxValidationAttempts = Math.max(0, Number(validation.maxAttempts) || 0);
+        if (!check.valid && attempts < maxValidationAttempts) {
+          const retryMessage = validation.retryMessage || `${check.error}. Please try again.`;
+          await this.repromptUserReply(currentNode, context, resumeData, attempts + 1, userResponse, retryMessage);
+          return {
+            success: true,
+            executionId: context.executionId,
+            userResponse,
+            selectedButtonId: null,
+            reprompted: true,
+            attempt: attempts + 1
+          };
+        }
+      }
+
       context.lastUserMessage = processedResponse; // ✅ Update for conditions
       
-      if (pendingExecution.saveAs) {
-        context.variables[pendingExecution.saveAs] = processedResponse;
+      if (resumeData.saveAs) {
+        context.variables[resumeData.saveAs] = processedResponse;
         
-        // Also save button ID if available
-        if (selectedButtonId) {
-          context.variables[`${pendingExecution.saveAs}_button_id`] = selectedButtonId;
+        // Also save button or row ID if available
+        if (selectedButtonId && resumeData.replyType === 'list') {
+          context.variables[`${resumeData.saveAs}_row_id`] = selectedButtonId;
+          context.variables[`${resumeData.saveAs}_row_title`] = processedResponse;
+        } else if (selectedButtonId) {
+          context.variables[`${resumeData.saveAs}_button_id`] = selectedButtonId;
+        }
+
+        // The normalized value (E.164 phone, ISO date, ...) sits next to the raw answer
+        if (check?.valid) {
+          context.variables[`${resumeData.saveAs}_normalized`] = check.normalized;
         }
         
-        console.log(`💾 Saved user response to variable: ${pendingExecution.saveAs} = "${processedResponse}"`);
+        console.log(`💾 Saved user response to variable: ${resumeData.saveAs} = "${processedResponse}"`);
       }
 
       // Log the response received
       await this.logNodeExecution(
         context.executionId,
-        pendingExecution.nodeId,
+        nodeId,
         'user_reply',
         'completed',
         { question: 'User response received', interactiveData },
         { 
           userResponse: processedResponse, 
           selectedButtonId,
-          savedAs: pendingExecution.saveAs 
+          savedAs: resumeData.saveAs,
+          validation: check
         },
-        null
+        null,
+        context.variables
       );
 
-      // Resume execution status
-      await db.update(automationExecutions)
-        .set({
-          status: 'running',
-          result: null
-        })
-        .where(eq(automationExecutions.id, context.executionId));
-
       console.log(`▶️  Resuming execution ${context.executionId} with user response`);
 
-      // Get fresh automation data and continue
-      const automation = await this.getAutomationWithFlow(context.automationId);
-      if (!automation) {
-        throw new Error(`Automation ${context.automationId} not found during resume`);
-      }
-
-      const currentNode = automation.nodes.find((n: any) => n.nodeId === pendingExecution.nodeId);
-      if (currentNode) {
-        await this.continueToNextNode(currentNode, automation, context);
+      if (check) {
+        await this.routeFromReply(currentNode, automation, context, null, check.valid ? 'valid' : 'invalid');
       } else {
-        throw new Error(`Node ${pendingExecution.nodeId} not found during resume`);
+        await this.routeFromReply(currentNode, automation, context, selectedButtonId);
       }
 
       return {
@@ -529,15 +1019,15 @@ export class AutomationExecutionService {
         executionId: context.executionId,
         userResponse: processedResponse,
         selectedButtonId,
-        savedVariable: pendingExecution.saveAs,
+        savedVariable: resumeData.saveAs,
         resumedAt: new Date()
       };
 
     } catch (error) {
-      console.error(`Error resuming execution for conversation ${conversationId}:`, error);
+      console.error(`Error resuming execution ${pendingExecution.id}:`, error);
       
       await this.completeExecution(
-        pendingExecution.executionId, 
+        pendingExecution.id, 
         'failed', 
         `Failed to resume after user response: ${ (error as Error).message}`
       );
@@ -644,9 +1134,7 @@ private async executeCustomReply(node: any, context: ExecutionContext) {
   
   console.log(`Sending message to conversation ${context.conversationId}: "${message}"`);
 
-  const getContact = await db.query.contacts.findFirst({
-    where: eq(contacts?.id!, context.contactId!),
-  });
+  const getContact = await this.loadContact(context);
 
   if (!getContact?.phone) {
     throw new Error('Contact phone number not found');
@@ -655,8 +1143,9 @@ private async executeCustomReply(node: any, context: ExecutionContext) {
   // Check for media attachments
   const hasMedia = nodeData.imageFile || nodeData.videoFile || nodeData.audioFile || nodeData.documentFile;
   
+  this.countOutbound(context);
   if (hasMedia) {
-    await this.sendMediaMessage(getContact, nodeData, message, context);
+    await this.transport.sendMedia(getContact, nodeData, message, context.conversationId);
   } else {
     // Regular text message
     if (!getContact?.phone) {
@@ -667,11 +1156,7 @@ private async executeCustomReply(node: any, context: ExecutionContext) {
       throw new Error('channelId not found');
     }
     
-    await sendBusinessMessage({
-      to: getContact.phone,
-      message,
-      channelId: getContact.channelId,
-    });
+    await this.transport.sendText(getContact, message, context.conversationId);
   }
   
   console.log(`✅ Message sent: ${message}`);
@@ -687,7 +1172,7 @@ private async executeCustomReply(node: any, context: ExecutionContext) {
 /**
  * Send media message with WhatsApp API
  */
-private async sendMediaMessage(contact: any, nodeData: any, caption: string, context: ExecutionContext) {
+private async sendMediaMessage(contact: any, nodeData: any, caption: string, conversationId?: string) {
   try {
     // Get channel information
     const channel = await storage.getChannel(contact.channelId);
@@ -759,7 +1244,7 @@ console.log("Media payload:", mediaPayload);
     const result = await response.json();
     
     // Save message to database
-    await this.saveMediaMessage(contact, nodeData, caption, context, result);
+    await this.saveMediaMessage(contact, nodeData, caption, conversationId, result);
     
     console.log(`✅ Media message sent successfully to ${contact.phone}`);
     return result;
@@ -784,16 +1269,14 @@ console.log("Media payload:", mediaPayload);
  */
 private async executeUserReply(node: any, context: ExecutionContext) {
   const question = this.replaceVariables(node.data.question || '', context.variables);
-  const buttons = node.data.buttons || [];
   const nodeData = node.data;
+  const { isList, buttons } = getReplyOptions(nodeData);
   
   console.log(`Asking question to conversation ${context.conversationId}: "${question}"`);
   console.log('Question buttons:', buttons);
   
   // Get contact information
-  const getContact = await db.query.contacts.findFirst({
-    where: eq(contacts?.id!, context.contactId!),
-  });
+  const getContact = await this.loadContact(context);
 
   if (!getContact?.phone) {
     throw new Error('Contact phone number not found');
@@ -804,62 +1287,36 @@ private async executeUserReply(node: any, context: ExecutionContext) {
   
   if (hasMedia) {
     // Send media with question first
-    await this.sendMediaMessage(getContact, nodeData, question, context);
+    this.countOutbound(context);
+    await this.transport.sendMedia(getContact, nodeData, question, context.conversationId);
   }
 
   if (!getContact?.channelId) {
     throw new Error('channelId not found');
   }
 
-  // Send the question with buttons (if any)
-  if (buttons.length > 0) {
-    // Send interactive message with buttons
-    await this.sendInteractiveMessage(
-      getContact.phone,
+  // Send the options, or the plain question if no media already carried it
+  if (buttons.length > 0 || !hasMedia) {
+    this.countOutbound(context);
+    await this.sendReplyPrompt(
+      getContact,
+      nodeData,
       hasMedia ? "Please choose an option:" : question, // Avoid duplicate text if media was sent
-      buttons,
-      getContact.channelId,
       context.conversationId
     );
-  } else if (!hasMedia) {
-    // Send regular text message only if no media was sent
-    await sendBusinessMessage({
-      to: getContact.phone,
-      message: question,
-      channelId: getContact.channelId,
-      conversationId: context.conversationId,
-    });
   }
   
-  // Create a unique pending execution ID
-  const pendingId = `${context.executionId}_${node.nodeId}_${Date.now()}`;
-  
   if (!context.conversationId) {
     throw new Error('conversationId is required to wait for user response');
   }
-  // Store the execution state for resumption
-  const pendingExecution: PendingExecution = {
-    executionId: context.executionId,
-    automationId: context.automationId,
-    nodeId: node.nodeId,
-    conversationId: context.conversationId,
-    contactId: context.contactId,
-    context: { ...context },
+
+  // Persist the wait so any instance can resume it, even after a restart
+  await this.pauseExecution(context, node.nodeId, 'user_reply', {
     saveAs: node.data.saveAs,
-    timestamp: new Date(),
-    status: 'waiting_for_response',
-    expectedButtons: buttons
-  };
-  
-  this.pendingExecutions.set(pendingId, pendingExecution);
-  
-  // Update execution status to paused
-  await db.update(automationExecutions)
-    .set({
-      status: 'paused',
-      result: `Waiting for user response to: "${question}"`
-    })
-    .where(eq(automationExecutions.id, context.executionId));
+    expectedButtons: buttons,
+    replyType: isList ? 'list' : 'buttons',
+    attempts: 0,
+  }, `Waiting for user response to: "${question}"`);
   
   // Log that we're waiting
   await this.logNodeExecution(
@@ -868,12 +1325,13 @@ private async executeUserReply(node: any, context: ExecutionContext) {
     node.type,
     'waiting_for_response',
     { ...node.data, question, buttons, hasMedia },
-    { pendingId, action: 'interactive_question_sent' },
-    null
+    { executionId: context.executionId, action: 'interactive_question_sent' },
+    null,
+    context.variables
   );
   
   console.log(`✅ Interactive question sent: ${question} with ${buttons.length} buttons and media: ${hasMedia}`);
-  console.log(`⏸️  Execution paused. Waiting for user response (pending ID: ${pendingId})`);
+  console.log(`⏸️  Execution ${context.executionId} paused. Waiting for user response`);
   
   return {
     action: 'execution_paused',
@@ -881,11 +1339,26 @@ private async executeUserReply(node: any, context: ExecutionContext) {
     buttons,
     hasMedia,
     conversationId: context.conversationId,
-    pendingId,
+    executionId: context.executionId,
     saveAs: node.data.saveAs
   };
 }
 
+/**
+ * Send a question's answer options as a list, reply buttons or plain text
+ */
+private async sendReplyPrompt(contact: Contact, nodeData: any, text: string, conversationId?: string) {
+  const { isList, sections, buttons } = getReplyOptions(nodeData);
+
+  if (isList && buttons.length > 0) {
+    await this.transport.sendList(contact, text, nodeData.listButtonText, sections, conversationId);
+  } else if (buttons.length > 0) {
+    await this.transport.sendButtons(contact, text, buttons, conversationId);
+  } else {
+    await this.transport.sendText(contact, text, conversationId);
+  }
+}
+
 /**
  * Helper method to send text message
  */
@@ -938,7 +1411,7 @@ private async saveMediaMessage(
   contact: any, 
   nodeData: any, 
   caption: string, 
-  context: ExecutionContext, 
+  conversationId: string | undefined, 
   whatsappResult: any
 ) {
   try {
@@ -986,11 +1459,11 @@ private async saveMediaMessage(
     }
 
     // Find conversation
-    if (!context.conversationId) {
+    if (!conversationId) {
       console.warn('No conversationId in context, cannot save media message');
       return;
     }
-    const conversation = await storage.getConversation(context.conversationId);
+    const conversation = await storage.getConversation(conversationId);
     if (!conversation) {
       console.warn('Conversation not found for media message');
       return;
@@ -1092,37 +1565,14 @@ private async sendInteractiveMessage(
 
     // Save the message to database
     const messageContent = `${question}\n\nOptions:\n${buttons.map((btn, i) => `${i + 1}. ${btn.text}`).join('\n')}`;
-    
-    // Find conversation
-    const conversation = conversationId
-      ? await storage.getConversation(conversationId)
-      : await storage.getConversationByPhone(to);
-
-    if (conversation) {
-      // Save message
-      const createdMessage = await storage.createMessage({
-        conversationId: conversation.id,
-        content: messageContent,
-        status: "sent",
-        whatsappMessageId: result.messages?.[0]?.id,
-        messageType: "interactive",
-        metadata: JSON.stringify({ buttons, interactiveType: "button" })
-      });
-
-      // Update conversation
-      await storage.updateConversation(conversation.id, {
-        lastMessageAt: new Date(),
-        lastMessageText: question,
-      });
-
-      // Broadcast to websocket
-      if ((global as any).broadcastToConversation) {
-        (global as any).broadcastToConversation(conversation.id, {
-          type: "new-message",
-          message: createdMessage,
-        });
-      }
-    }
+    await this.saveInteractiveMessage(
+      to,
+      conversationId,
+      question,
+      messageContent,
+      result.messages?.[0]?.id,
+      { buttons, interactiveType: "button" }
+    );
 
     console.log(`✅ Interactive message sent successfully to ${to}`);
     return result;
@@ -1254,6 +1704,119 @@ private async sendInteractiveMessage(
   //   }
   // }
 
+  /**
+   * Send a WhatsApp list message: one menu button that opens up to 10 rows
+   * grouped in sections
+   */
+  private async sendListMessage(
+    to: string,
+    question: string,
+    buttonText: string,
+    sections: ListSection[],
+    channelId: string,
+    conversationId?: string
+  ) {
+    const rows = flattenListRows(sections);
+
+    try {
+      const channel = await storage.getChannel(channelId);
+      if (!channel) {
+        throw new Error(`Channel ${channelId} not found`);
+      }
+
+      const interactivePayload = {
+        messaging_product: "whatsapp",
+        to: this.formatPhoneNumber(to),
+        type: "interactive",
+        interactive: {
+          type: "list",
+          body: { text: question },
+          action: {
+            button: (buttonText || 'Choose an option').substring(0, 20),
+            sections: sections
+              .filter((section) => section.rows && section.rows.length > 0)
+              .map((section) => ({
+                // Titles are required by WhatsApp once there is more than one section
+                ...(section.title ? { title: section.title.substring(0, 24) } : {}),
+                rows: section.rows.map((row) => ({
+                  id: row.id,
+                  title: row.title.substring(0, 24),
+                  ...(row.description ? { description: row.description.substring(0, 72) } : {})
+                }))
+              }))
+          }
+        }
+      };
+
+      const whatsappApi = new WhatsAppApiService(channel);
+      const result = await this.sendInteractiveMessageDirect(whatsappApi, interactivePayload);
+
+      const messageContent = `${question}\n\nOptions:\n${rows.map((row, i) => `${i + 1}. ${row.title}`).join('\n')}`;
+      await this.saveInteractiveMessage(
+        to,
+        conversationId,
+        question,
+        messageContent,
+        result.messages?.[0]?.id,
+        { sections, interactiveType: "list" }
+      );
+
+      console.log(`✅ List message sent successfully to ${to}`);
+      return result;
+
+    } catch (error) {
+      console.error('Error sending list message:', error);
+
+      // Same numbered text fallback as reply buttons, answers are matched by number or title
+      const fallbackMessage = `${question}\n\nReply with:\n${rows.map((row, i) => `${i + 1}. ${row.title}`).join('\n')}`;
+      return await sendBusinessMessage({
+        to,
+        message: fallbackMessage,
+        channelId,
+        conversationId
+      });
+    }
+  }
+
+  /**
+   * Store an interactive message we sent and push it to the inbox
+   */
+  private async saveInteractiveMessage(
+    to: string,
+    conversationId: string | undefined,
+    question: string,
+    content: string,
+    whatsappMessageId: string | undefined,
+    metadata: Record<string, any>
+  ) {
+    const conversation = conversationId
+      ? await storage.getConversation(conversationId)
+      : await storage.getConversationByPhone(to);
+
+    if (!conversation) return;
+
+    const createdMessage = await storage.createMessage({
+      conversationId: conversation.id,
+      content,
+      status: "sent",
+      whatsappMessageId,
+      messageType: "interactive",
+      metadata: JSON.stringify(metadata)
+    });
+
+    await storage.updateConversation(conversation.id, {
+      lastMessageAt: new Date(),
+      lastMessageText: question,
+    });
+
+    if ((global as any).broadcastToConversation) {
+      (global as any).broadcastToConversation(conversation.id, {
+        type: "new-message",
+        message: createdMessage,
+      });
+    }
+  }
+
   private async sendInteractiveMessageDirect(whatsappApi: any, payload: any) {
     const response = await fetch(
       `https://graph.facebook.com/v23.0/${whatsappApi.channel.phoneNumberId}/messages`,
@@ -1313,39 +1876,131 @@ private async sendInteractiveMessage(
     return cleaned;
   }
 
-  private findPendingExecutionByConversation(conversationId: string) {
-    for (const [pendingId, execution] of this.pendingExecutions.entries()) {
-      if (execution.conversationId === conversationId) {
-        return { pendingId, ...execution };
+  private async executeTimeGap(node: any, context: ExecutionContext) {
+    const contact = await this.loadContact(context);
+    const contactTimezone = contact?.timezone ?? null;
+
+    const resumeAt = computeResumeAt(node.data || {}, contactTimezone);
+    const description = describeDelay(node.data || {});
+    console.log(`⏳ Delaying execution ${description}, resuming at ${resumeAt.toISOString()}`);
+
+    await this.pauseExecution(context, node.nodeId, 'time_gap', {}, `Waiting ${description}`, resumeAt);
+    await this.scheduleTimer(context, node.nodeId, resumeAt);
+
+    return {
+      action: 'delay_started',
+      delay: description,
+      scheduledFor: resumeAt
+    };
+  }
+
+  /**
+   * Continue an execution whose time_gap timer has fired.
+   * Called by the automation timer worker, which has already moved the
+   * execution back to running together with firing the timer.
+   */
+  async continueTimeGap(execution: AutomationExecution) {
+    const executionId = execution.id;
+    console.log(`⏰ Delay completed, continuing execution ${executionId}`);
+
+    try {
+      const context = this.restoreContext(execution);
+      const automation = await this.getAutomationWithFlow(context.automationId, context.versionId);
+      const node = automation?.nodes.find((n: any) => n.nodeId === execution.currentNodeId);
+      if (!automation || !node) {
+        throw new Error(`Node ${execution.currentNodeId} not found during resume`);
       }
+
+      await this.logNodeExecution(execution.id, node.nodeId, node.type, 'completed', node.data, { action: 'delay_completed' }, null, context.variables);
+      await this.continueToNextNode(node, automation, context);
+    } catch (error) {
+      await this.completeExecution(executionId, 'failed', `Delay continuation failed: ${ (error as Error).message}`);
     }
-    
-    return null;
   }
 
-  private async executeTimeGap(node: any, context: ExecutionContext, automation?: any) {
-    const delay = node.data?.delay || 60;
-    console.log(`⏳ Delaying execution by ${delay} seconds`);
-    
-    // Schedule continuation after delay
-    setTimeout(async () => {
+  private async hasFiredTimer(executionId: string, nodeId: string) {
+    const [timer] = await db.select({ id: automationTimers.id })
+      .from(automationTimers)
+      .where(and(
+        eq(automationTimers.executionId, executionId),
+        eq(automationTimers.nodeId, nodeId),
+        eq(automationTimers.status, 'fired')
+      ))
+      .limit(1);
+    return !!timer;
+  }
+
+  /**
+   * Pick up in-flight executions whose instance died, at boot and then
+   * periodically, since another instance may stop at any time.
+   * Waiting user replies and delays need nothing: they are resumed from the
+   * database by the next inbound message or by the timer worker. Executions
+   * that were mid-node when their instance died are re-run from the node they
+   * were on; an instance that is alive keeps its executions' heartbeat fresh,
+   * however long a node takes.
+   */
+  async resumeInterrupted(staleAfterMs: number = HEARTBEAT_STALE_MS) {
+    const stale = new Date(Date.now() - staleAfterMs);
+
+    // Died before reaching the first node: nothing to resume from
+    await db.update(automationExecutions)
+      .set({ status: 'failed', completedAt: new Date(), updatedAt: new Date(), result: 'Interrupted before its first node' })
+      .where(and(
+        eq(automationExecutions.status, 'running'),
+        isNull(automationExecutions.currentNodeId),
+        lt(automationExecutions.updatedAt, stale)
+      ));
+
+    // Refreshing the heartbeat claims the row: a second instance booting at
+    // the same time no longer sees it as stale
+    const interrupted = await db.update(automationExecutions)
+      .set({ heartbeatAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(automationExecutions.status, 'running'),
+        isNotNull(automationExecutions.currentNodeId),
+        or(isNull(automationExecutions.heartbeatAt), lt(automationExecutions.heartbeatAt, stale))
+      ))
+      .returning();
+
+    if (interrupted.length > 0) {
+      console.log(`🔁 Resuming ${interrupted.length} interrupted automation execution(s)`);
+    }
+
+    for (const execution of interrupted) {
+      runningExecutions.add(execution.id);
       try {
-        console.log(`⏰ Delay completed, continuing execution`);
-        
-        // Get fresh automation data
-        const freshAutomation = await this.getAutomationWithFlow(context.automationId);
-        await this.continueToNextNode(node, freshAutomation, context);
+        const context = this.restoreContext(execution);
+        const automation = await this.getAutomationWithFlow(context.automationId, context.versionId);
+        const node = automation?.nodes.find((n: any) => n.nodeId === execution.currentNodeId);
+        if (!automation || !node) {
+          await this.completeExecution(execution.id, 'failed', `Node ${execution.currentNodeId} not found during resume`);
+          continue;
+        }
+
+        // A delay whose timer already fired is continued, not started over
+        if (node.type === 'time_gap' && await this.hasFiredTimer(execution.id, node.nodeId)) {
+          await this.continueTimeGap(execution);
+          continue;
+        }
+
+        await this.executeNode(node, automation, context);
       } catch (error) {
-        console.error('Error continuing after delay:', error);
-        await this.completeExecution(context.executionId, 'failed', `Delay continuation failed: ${ (error as Error).message}`);
+        console.error(`Failed to resume execution ${execution.id}:`, error);
       }
-    }, delay * 1000);
+    }
 
-    return {
-      action: 'delay_started',
-      delay,
-      scheduledFor: new Date(Date.now() + delay * 1000)
-    };
+    return interrupted.length;
+  }
+
+  // Keep the heartbeat of this process's running executions fresh
+  async beatHeartbeats() {
+    if (runningExecutions.size === 0) return;
+    await db.update(automationExecutions)
+      .set({ heartbeatAt: new Date() })
+      .where(and(
+        inArray(automationExecutions.id, [...runningExecutions]),
+        eq(automationExecutions.status, 'running')
+      ));
   }
 
   private async executeSendTemplate(node: any, context: ExecutionContext) {
@@ -1363,9 +2018,7 @@ private async sendInteractiveMessage(
       throw new Error('No conversation ID in context');
     }
 
-    const getContact = await db.query.contacts.findFirst({
-      where: eq(contacts?.id, context.contactId),
-    });
+    const getContact = await this.loadContact(context);
   
     if (!getContact?.phone) {
       throw new Error('Contact phone number not found');
@@ -1384,16 +2037,22 @@ private async sendInteractiveMessage(
       )
     });
 
+    // Deleted since the flow was saved, or never on this channel
+    if (!getTemplate) {
+      throw new Error(`Template ${templateId} not found on the contact's channel`);
+    }
+
     if (!getContact?.channelId) {
       throw new Error('channelId not found');
     } 
     if (getContact?.phone) {
-      await sendBusinessMessage({
-        to: getContact?.phone,
-        templateName: getTemplate?.name || '',
-        parameters: node.data?.parameters || [],
-        channelId: getContact?.channelId,
-      });
+      this.countOutbound(context);
+      await this.transport.sendTemplate(
+        getContact,
+        getTemplate.name,
+        node.data?.parameters || [],
+        context.conversationId
+      );
     }
     
     console.log(`✅ Template sent: ${templateId}`);
@@ -1418,7 +2077,7 @@ private async sendInteractiveMessage(
   throw new Error("No conversationId provided in context");
 }
 
-    const conversation = await storage.updateConversation(context.conversationId, {assignedTo: assigneeId, status:"assigned"});
+    const conversation = await this.transport.assignConversation(context.conversationId, assigneeId);
     
     if (!conversation) {
       throw new Error('Conversation not found for assignment');
@@ -1432,80 +2091,471 @@ private async sendInteractiveMessage(
     };
   }
 
-  getPendingExecutions() {
-    return Array.from(this.pendingExecutions.entries()).map(([pendingId, execution]) => ({
-      pendingId,
-      executionId: execution.executionId,
-      conversationId: execution.conversationId,
-      nodeId: execution.nodeId,
-      contactId: execution.contactId,
-      saveAs: execution.saveAs,
-      timestamp: execution.timestamp,
-      waitingTime: Date.now() - execution.timestamp.getTime()
-    }));
+  /**
+   * Write collected variables onto the contact: name, email, status, tags,
+   * groups and custom fields
+   */
+  private async executeUpdateContact(node: any, context: ExecutionContext) {
+    const contact = await this.loadContact(context);
+    if (!contact) {
+      throw new Error('No contact to update');
+    }
+
+    const plan = planContactUpdate(contact, (node.data || {}) as ContactUpdateNodeData, context.variables);
+    await this.applyContactUpdate(contact, plan, context, node.nodeId);
+
+    console.log(`📇 Updated contact ${contact.id}: ${plan.changes.map((c) => c.field).join(', ') || 'no changes'}`);
+
+    return {
+      action: 'contact_updated',
+      changes: plan.changes,
+      skipped: plan.skipped
+    };
+  }
+
+  protected async applyContactUpdate(contact: Contact, plan: ContactUpdatePlan, context: ExecutionContext, nodeId: string) {
+    await saveContactUpdate(contact.id, plan, {
+      automationId: context.automationId,
+      executionId: context.executionId,
+      nodeId,
+    });
+
+    // Tag triggers of other automations run on their own, not inside this step
+    const previousTags = new Set(Array.isArray(contact.tags) ? (contact.tags as string[]) : []);
+    const addedTags = (plan.patch.tags as string[] | undefined)?.filter((tag) => !previousTags.has(tag)) ?? [];
+    if (addedTags.length > 0) {
+      triggerService.handleTagsAdded({ ...contact, ...plan.patch }, addedTags, context.automationId).catch((error) => {
+        console.error(`Failed to run tag triggers for contact ${contact.id}:`, error);
+      });
+    }
   }
 
-  hasPendingExecution(conversationId: string): boolean {
-    return this.findPendingExecutionByConversation(conversationId) !== null;
+  /**
+   * Hand the conversation to an agent and wait until they close it. The
+   * agent gets an internal note with everything the flow collected.
+   */
+  private async executeHandoff(node: any, context: ExecutionContext) {
+    const data = (node.data || {}) as HandoffNodeData;
+
+    if (!context.conversationId) {
+      throw new Error('No conversationId provided in context');
+    }
+    if (data.routing === 'user' && !data.assigneeId) {
+      throw new Error('No agent selected for handoff');
+    }
+
+    const assigneeId = await this.findHandoffAgent(data);
+    await this.transport.handoffConversation(context.conversationId, assigneeId);
+
+    const note = formatHandoffNote(
+      this.replaceVariables(data.note || '', context.variables),
+      context.variables,
+      Object.keys(context.triggerData || {})
+    );
+    await this.transport.postInternalNote(context.conversationId, note);
+
+    // Other automations waiting in this conversation would talk over the agent
+    await this.releaseConversation(context);
+
+    const result = assigneeId
+      ? `Handed off to agent ${assigneeId}`
+      : 'Handed off, no agent online: waiting in the pending queue';
+    await this.pauseExecution(context, node.nodeId, 'handoff', {}, result);
+
+    await this.logNodeExecution(
+      context.executionId,
+      node.nodeId,
+      node.type,
+      'waiting_for_agent',
+      node.data,
+      { action: 'handed_off', assigneeId, note },
+      null,
+      context.variables
+    );
+
+    console.log(`🙋 Conversation ${context.conversationId} handed off${assigneeId ? ` to ${assigneeId}` : ', no agent online'}`);
+
+    return { action: 'handed_off', assigneeId, conversationId: context.conversationId };
+  }
+
+  /**
+   * Agent a handoff goes to, or null to leave the conversation pending
+   */
+  protected async findHandoffAgent(data: HandoffNodeData): Promise<string | null> {
+    if (data.routing === 'user') return data.assigneeId ?? null;
+    return findLeastBusyAgent(data.teamMemberIds ?? []);
+  }
+
+  /**
+   * Cancel the other executions paused in the handed off conversation
+   */
+  protected async releaseConversation(context: ExecutionContext) {
+    if (!context.conversationId) return;
+    await this.cancelExecution(context.conversationId, {
+      exceptExecutionId: context.executionId,
+      result: 'Execution cancelled, the conversation was handed off to an agent',
+    });
   }
 
-  async cleanupExpiredExecutions(timeoutMs: number = 30 * 60 * 1000) { // 30 minutes default
-    const now = Date.now();
-    const expired: { pendingId: string; execution: PendingExecution }[] = [];
+  /**
+   * The agent closed or resolved the conversation: hand it back to the
+   * executions waiting on a handoff and cancel anything else still paused.
+   * Called by the inbox whenever a conversation is closed.
+   */
+  async handleConversationClosed(conversationId: string) {
+    const handedBack = await db.update(automationExecutions)
+      .set({ status: 'running', waitingFor: null, result: null, heartbeatAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(automationExecutions.conversationId, conversationId),
+        eq(automationExecutions.status, 'paused'),
+        eq(automationExecutions.waitingFor, 'handoff')
+      ))
+      .returning();
+
+    // A closed conversation should not receive delayed follow-ups
+    await this.cancelExecution(conversationId);
 
-    for (const [pendingId, execution] of this.pendingExecutions.entries()) {
-      if (now - execution.timestamp.getTime() > timeoutMs) {
-        expired.push({ pendingId, execution });
+    for (const execution of handedBack) {
+      try {
+        await this.resumeAfterHandoff(execution);
+      } catch (error) {
+        console.error(`Failed to resume execution ${execution.id} after handoff:`, error);
       }
     }
-    
-    for (const { pendingId, execution } of expired) {
-      this.pendingExecutions.delete(pendingId);
-      
-      // Mark execution as failed due to timeout
-      await this.completeExecution(
-        execution.executionId,
-        'failed',
-        'Execution timed out waiting for user response'
+
+    return handedBack.length;
+  }
+
+  /**
+   * Continue from the handoff node's "back to bot" branch when the node
+   * asks for it, otherwise end the execution
+   */
+  protected async resumeAfterHandoff(execution: AutomationExecution) {
+    try {
+      const context = this.restoreContext(execution);
+      const automation = await this.getAutomationWithFlow(context.automationId, context.versionId);
+      const node = automation?.nodes.find((n: any) => n.nodeId === execution.currentNodeId);
+      if (!automation || !node) {
+        throw new Error(`Node ${execution.currentNodeId} not found during resume`);
+      }
+      context.limits = resolveExecutionLimits(automation.triggerConfig);
+
+      const branchEdges = automation.edges.filter((e: any) =>
+        e.sourceNodeId === node.nodeId && (!e.sourceHandle || e.sourceHandle === HANDOFF_RESUME_HANDLE)
       );
-      
-      console.warn(`⚠️  Cleaned up expired execution: ${pendingId} (conversation: ${execution.conversationId})`);
+      const backToBot = !!(node.data as HandoffNodeData)?.resumeOnClose && branchEdges.length > 0;
+
+      await this.logNodeExecution(
+        execution.id,
+        node.nodeId,
+        node.type,
+        'completed',
+        node.data,
+        { action: 'conversation_closed', branch: backToBot ? HANDOFF_RESUME_HANDLE : null },
+        null,
+        context.variables
+      );
+
+      if (!backToBot) {
+        await this.completeExecution(execution.id, 'completed', 'Conversation closed by the agent');
+        return;
+      }
+
+      console.log(`🤖 Conversation ${execution.conversationId} is back with the bot`);
+      for (const edge of branchEdges) {
+        const nextNode = automation.nodes.find((n: any) => n.nodeId === edge.targetNodeId);
+        if (nextNode) {
+          await this.executeNode(nextNode, automation, context);
+        }
+      }
+    } catch (error) {
+      await this.completeExecution(execution.id, 'failed', `Handoff continuation failed: ${ (error as Error).message}`);
+    }
+  }
+
+  /**
+   * Whether an agent owns the conversation: an automation handed it off, or
+   * it was assigned in the inbox. Automations don't start while it does.
+   */
+  async isHumanOwned(conversationId: string): Promise<boolean> {
+    const [handoff] = await db.select({ id: automationExecutions.id })
+      .from(automationExecutions)
+      .where(and(
+        eq(automationExecutions.conversationId, conversationId),
+        eq(automationExecutions.status, 'paused'),
+        eq(automationExecutions.waitingFor, 'handoff')
+      ))
+      .limit(1);
+    if (handoff) return true;
+
+    const conversation = await db.query.conversations.findFirst({
+      columns: { assignedTo: true, status: true },
+      where: eq(conversations.id, conversationId),
+    });
+    return !!conversation?.assignedTo && conversation.status === 'assigned';
+  }
+
+  // Executions of automations on the channel, so one channel can't see another's
+  private onChannel(channelId: string) {
+    return inArray(
+      automationExecutions.automationId,
+      db.select({ id: automations.id }).from(automations).where(eq(automations.channelId, channelId))
+    );
+  }
+
+  async getPendingExecutions(scope: { channelId: string } | { conversationId: string }) {
+    const executions = await db.select()
+      .from(automationExecutions)
+      .where(and(
+        eq(automationExecutions.status, 'paused'),
+        'channelId' in scope
+          ? this.onChannel(scope.channelId)
+          : eq(automationExecutions.conversationId, scope.conversationId)
+      ))
+      .orderBy(desc(automationExecutions.updatedAt));
+
+    const timers = executions.length > 0
+      ? await db.select()
+          .from(automationTimers)
+          .where(and(
+            inArray(automationTimers.executionId, executions.map((e) => e.id)),
+            eq(automationTimers.status, 'pending')
+          ))
+      : [];
+
+    return executions.map((execution) => {
+      const resumeData = (execution.resumeData ?? {}) as ResumeData;
+      const timestamp = execution.updatedAt ?? execution.startedAt ?? new Date();
+      const timer = timers.find((t) => t.executionId === execution.id);
+      return {
+        pendingId: execution.id,
+        executionId: execution.id,
+        automationId: execution.automationId,
+        conversationId: execution.conversationId,
+        nodeId: execution.currentNodeId,
+        contactId: execution.contactId,
+        waitingFor: execution.waitingFor,
+        saveAs: resumeData.saveAs,
+        resumeAt: execution.resumeAt,
+        timer: timer ? { id: timer.id, nodeId: timer.nodeId, fireAt: timer.fireAt } : null,
+        timestamp,
+        waitingTime: Date.now() - timestamp.getTime()
+      };
+    });
+  }
+
+  async hasPendingExecution(conversationId: string): Promise<boolean> {
+    const [execution] = await db.select({ id: automationExecutions.id })
+      .from(automationExecutions)
+      .where(and(
+        eq(automationExecutions.conversationId, conversationId),
+        eq(automationExecutions.status, 'paused'),
+        eq(automationExecutions.waitingFor, 'user_reply')
+      ))
+      .limit(1);
+
+    return !!execution;
+  }
+
+  // Without a channel this covers every channel, as the periodic cleanup does
+  async cleanupExpiredExecutions(timeoutMs: number = 30 * 60 * 1000, channelId?: string) { // 30 minutes default
+    const expired = await db.update(automationExecutions)
+      .set({
+        status: 'failed',
+        waitingFor: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+        result: EXECUTION_TIMEOUT_RESULT
+      })
+      .where(and(
+        eq(automationExecutions.status, 'paused'),
+        eq(automationExecutions.waitingFor, 'user_reply'),
+        lt(automationExecutions.updatedAt, new Date(Date.now() - timeoutMs)),
+        channelId ? this.onChannel(channelId) : undefined
+      ))
+      .returning({ id: automationExecutions.id, conversationId: automationExecutions.conversationId });
+
+    for (const execution of expired) {
+      console.warn(`⚠️  Cleaned up expired execution: ${execution.id} (conversation: ${execution.conversationId})`);
     }
     
     return expired.length;
   }
 
-  async cancelExecution(conversationId: string): Promise<boolean> {
-    const pending = this.findPendingExecutionByConversation(conversationId);
-    if (pending) {
-      this.pendingExecutions.delete(pending.pendingId);
-      await this.completeExecution(pending.executionId, 'failed', 'Execution cancelled by user');
+  async cancelExecution(
+    conversationId: string,
+    options: { exceptExecutionId?: string; result?: string } = {}
+  ): Promise<boolean> {
+    const cancelled = await db.update(automationExecutions)
+      .set({
+        status: 'failed',
+        waitingFor: null,
+        resumeAt: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+        result: options.result ?? 'Execution cancelled by user'
+      })
+      .where(and(
+        eq(automationExecutions.conversationId, conversationId),
+        eq(automationExecutions.status, 'paused'),
+        options.exceptExecutionId ? ne(automationExecutions.id, options.exceptExecutionId) : undefined
+      ))
+      .returning({ id: automationExecutions.id });
+
+    if (cancelled.length > 0) {
+      await db.update(automationTimers)
+        .set({ status: 'cancelled' })
+        .where(and(
+          inArray(automationTimers.executionId, cancelled.map(({ id }) => id)),
+          eq(automationTimers.status, 'pending')
+        ));
+    }
+
+    if (cancelled.length > 0) {
       console.log(`❌ Cancelled execution for conversation: ${conversationId}`);
       return true;
     }
     return false;
   }
 
-  private async completeExecution(executionId: string, status: 'completed' | 'failed', result: string) {
+  /**
+   * Contact the execution runs for, or undefined when there is none
+   */
+  protected async loadContact(context: ExecutionContext): Promise<Contact | undefined> {
+    if (!context.contactId) return undefined;
+    return db.query.contacts.findFirst({ where: eq(contacts.id, context.contactId) });
+  }
+
+  /**
+   * Queue the timer that resumes a paused time_gap node
+   */
+  protected async scheduleTimer(context: ExecutionContext, nodeId: string, fireAt: Date) {
+    await db.insert(automationTimers).values({
+      executionId: context.executionId,
+      automationId: context.automationId,
+      conversationId: context.conversationId ?? null,
+      nodeId,
+      fireAt,
+    });
+  }
+
+  protected async sendHttpRequest(config: HttpRequestConfig, scope: Record<string, any>): Promise<HttpRequestResult> {
+    return performHttpRequest(config, scope);
+  }
+
+  protected async completeExecution(executionId: string, status: 'completed' | 'failed', result: string) {
     await db.update(automationExecutions)
       .set({
         status,
+        waitingFor: null,
         completedAt: new Date(),
+        updatedAt: new Date(),
         result
       })
       .where(eq(automationExecutions.id, executionId));
+    runningExecutions.delete(executionId);
 
     console.log(`🏁 Execution ${executionId} ${status}: ${result}`);
   }
 
-  private async logNodeExecution(
+  /**
+   * Record the node being executed and the variables collected so far,
+   * so the execution can be picked up again from this point
+   */
+  protected async saveProgress(nodeId: string, context: ExecutionContext) {
+    await db.update(automationExecutions)
+      .set({
+        currentNodeId: nodeId,
+        variables: context.variables,
+        nodeVisits: context.nodeVisits ?? 0,
+        messagesSent: context.messagesSent ?? 0,
+        resumeData: { lastUserMessage: context.lastUserMessage },
+        executionPath: sql`coalesce(${automationExecutions.executionPath}, '[]'::jsonb) || ${JSON.stringify([nodeId])}::jsonb`,
+        heartbeatAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(automationExecutions.id, context.executionId));
+    runningExecutions.add(context.executionId);
+  }
+
+  protected async pauseExecution(
+    context: ExecutionContext,
+    nodeId: string,
+    waitingFor: WaitType,
+    resumeData: ResumeData,
+    result: string,
+    resumeAt?: Date
+  ) {
+    await db.update(automationExecutions)
+      .set({
+        status: 'paused',
+        currentNodeId: nodeId,
+        variables: context.variables,
+        nodeVisits: context.nodeVisits ?? 0,
+        messagesSent: context.messagesSent ?? 0,
+        waitingFor,
+        resumeData: { ...resumeData, lastUserMessage: context.lastUserMessage },
+        resumeAt: resumeAt ?? null,
+        result,
+        updatedAt: new Date()
+      })
+      .where(eq(automationExecutions.id, context.executionId));
+    runningExecutions.delete(context.executionId);
+  }
+
+  /**
+   * Atomically move the oldest execution waiting for a reply in this
+   * conversation back to running. Returns undefined if there is none, or if
+   * another instance claimed it first.
+   */
+  private async claimWaitingExecution(conversationId: string): Promise<AutomationExecution | undefined> {
+    const waiting = db.select({ id: automationExecutions.id })
+      .from(automationExecutions)
+      .where(and(
+        eq(automationExecutions.conversationId, conversationId),
+        eq(automationExecutions.status, 'paused'),
+        eq(automationExecutions.waitingFor, 'user_reply')
+      ))
+      .orderBy(automationExecutions.updatedAt)
+      .limit(1);
+
+    const [execution] = await db.update(automationExecutions)
+      .set({ status: 'running', waitingFor: null, result: null, heartbeatAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        inArray(automationExecutions.id, waiting),
+        eq(automationExecutions.status, 'paused')
+      ))
+      .returning();
+
+    return execution;
+  }
+
+  protected restoreContext(execution: AutomationExecution): ExecutionContext {
+    const resumeData = (execution.resumeData ?? {}) as ResumeData;
+    return {
+      executionId: execution.id,
+      automationId: execution.automationId,
+      versionId: execution.versionId,
+      contactId: execution.contactId ?? undefined,
+      conversationId: execution.conversationId ?? undefined,
+      variables: (execution.variables ?? {}) as Record<string, any>,
+      triggerData: execution.triggerData ?? {},
+      lastUserMessage: resumeData.lastUserMessage,
+      startedAt: execution.startedAt ?? undefined,
+      nodeVisits: execution.nodeVisits ?? 0,
+      messagesSent: execution.messagesSent ?? 0,
+    };
+  }
+
+  protected async logNodeExecution(
     executionId: string,
     nodeId: string,
     nodeType: string,
     status: string,
     input: any,
     output: any,
-    error: string | null
+    error: string | null,
+    variables?: Record<string, any>
   ) {
     await db.insert(automationExecutionLogs).values({
       executionId,
@@ -1514,7 +2564,8 @@ private async sendInteractiveMessage(
       status,
       input: JSON.stringify(input),
       output: JSON.stringify(output),
-      error
+      error,
+      variables: variables ?? null,
     });
   }
 
@@ -1524,7 +2575,31 @@ private async sendInteractiveMessage(
     });
   }
 
-  private async getAutomationWithFlow(automationId: string) {
+  /**
+   * Automation with the flow to run: the pinned version's snapshot when a
+   * versionId is given, otherwise the draft nodes and edges
+   */
+  protected async getAutomationWithFlow(automationId: string, versionId?: string | null) {
+    if (versionId) {
+      const [automation, version] = await Promise.all([
+        db.query.automations.findFirst({ where: eq(automations.id, automationId) }),
+        db.query.automationVersions.findFirst({
+          where: and(eq(automationVersions.id, versionId), eq(automationVersions.automationId, automationId)),
+        }),
+      ]);
+      if (!automation) return undefined;
+      if (!version) {
+        throw new Error(`Version ${versionId} of automation ${automationId} not found`);
+      }
+      return {
+        ...automation,
+        trigger: version.trigger,
+        triggerConfig: version.triggerConfig,
+        nodes: version.nodes as any[],
+        edges: version.edges as any[],
+      };
+    }
+
     // Get automation
     const automation = await db.query.automations.findFirst({
       where: eq(automations.id, automationId),
@@ -1547,28 +2622,28 @@ export class AutomationTriggerService {
   }
 
   /**
-   * Handle new conversation trigger
+   * Handle new conversation trigger, returns how many automations were started
    */
   async handleNewConversation(conversationId: string, channelId: string, contactId?: string) {
     console.log(`🎯 New conversation trigger: ${conversationId}`);
+
+    if (await this.executionService.isHumanOwned(conversationId)) {
+      console.log(`🙋 Conversation ${conversationId} is with an agent, not starting automations`);
+      return 0;
+    }
     
     // Find active automations with "new_conversation" trigger
-    const activeAutomations = await db.select()
-      .from(automations)
-      .where(and(
-        eq(automations.channelId, channelId),
-        eq(automations.trigger, 'new_conversation'),
-        eq(automations.status, 'active')
-      ));
+    const activeAutomations = (await this.getActiveAutomations(channelId))
+      .filter((automation) => automation.trigger === 'new_conversation');
 
     console.log(`Found ${activeAutomations.length} active automation(s)`);
 
     // Start execution for each automation
+    let started = 0;
     for (const automation of activeAutomations) {
       try {
         // Create execution record
-        const [execution] = await db.insert(automationExecutions).values({
-          automationId: automation.id,
+        const execution = await this.createExecution(automation, {
           contactId,
           conversationId,
           triggerData: {
@@ -1576,16 +2651,19 @@ export class AutomationTriggerService {
             channelId,
             timestamp: new Date()
           },
-          status: 'running'
-        }).returning();
+        });
+        if (!execution) continue;
 
         // Start execution
+        started++;
         await this.executionService.executeAutomation(execution.id);
 
       } catch (error) {
         console.error(`Failed to execute automation ${automation.id}:`, error);
       }
     }
+
+    return started;
   }
 
   /**
@@ -1643,7 +2721,7 @@ export class AutomationTriggerService {
     console.log(`📝 Message: "${message.content || message.text || message}"`);
     
     // First, check if this is a response to a pending user_reply node
-    if (this.executionService.hasPendingExecution(conversationId)) {
+    if (await this.executionService.hasPendingExecution(conversationId)) {
       console.log(`📨 Processing as user response to pending execution`);
       try {
         await this.executionService.handleUserResponse(conversationId, message.content || message.text || message, message.interactive);
@@ -1653,24 +2731,16 @@ export class AutomationTriggerService {
         // Continue to trigger new automations as fallback
       }
     }
+
+    // The bot stays out of conversations an agent is handling
+    if (await this.executionService.isHumanOwned(conversationId)) {
+      console.log(`🙋 Conversation ${conversationId} is with an agent, not starting automations`);
+      return;
+    }
     
-    // DEBUG: Show all automations for this channel first
-    const allAutomations = await db.select()
-      .from(automations)
-      .where(eq(automations.channelId, channelId));
-      
-    console.log(`📊 Total automations for channel ${channelId}: ${allAutomations.length}`);
-    allAutomations.forEach(auto => {
-      console.log(`   - ID: ${auto.id}, Name: "${auto.name}", Trigger: ${auto.trigger}, Status: ${auto.status}`);
-    });
-    
-    // Normal message-based automation triggers
-    const activeAutomations = await db.select()
-      .from(automations)
-      .where(and(
-        eq(automations.channelId, channelId),
-        eq(automations.status, 'active')
-      ));
+    // Message-based automations on this channel
+    const activeAutomations = (await this.getActiveAutomations(channelId))
+      .filter((automation) => ['message_received', 'keyword'].includes(automation.trigger));
   
     console.log(`🎯 Found ${activeAutomations.length} active message_received automation(s)`);
     
@@ -1678,47 +2748,420 @@ export class AutomationTriggerService {
       console.warn(`⚠️ No active automations found for message_received trigger on channel ${channelId}`);
       return;
     }
-  
-    for (const automation of activeAutomations) {
-      console.log(`🚀 Starting automation: ${automation.id} - "${automation.name}"`);
+
+    const contact = contactId
+      ? await db.query.contacts.findFirst({ where: eq(contacts.id, contactId) })
+      : undefined;
+
+    const [{ count: inboundCount }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.direction, 'inbound')
+      ));
+
+    const match = selectBestMatch(activeAutomations, {
+      text: String(message.content || message.text || message.body || ''),
+      // The inbound message has already been stored by the webhook
+      isFirstMessage: inboundCount <= 1,
+      contactTags: Array.isArray(contact?.tags) ? (contact.tags as string[]) : [],
+    });
+
+    if (!match) {
+      console.log(`🚫 No automation trigger matched message in conversation ${conversationId}`);
+      return;
+    }
+
+    const automation = match.automation;
+    console.log(`🚀 Starting automation: ${automation.id} - "${automation.name}"${match.matchedKeyword ? ` (keyword: ${match.matchedKeyword})` : ''}`);
       
-      try {
-        // Check if automation has nodes
-        const nodeCount = await db.select({ count: sql`count(*)` })
+    try {
+      // Check if an unpublished automation has nodes
+      const nodeCount = automation.publishedVersionId
+        ? [{ count: 1 }]
+        : await db.select({ count: sql<number>`count(*)::int` })
           .from(automationNodes)
           .where(eq(automationNodes.automationId, automation.id));
-          
-        console.log(`🔗 Automation ${automation.id} has ${nodeCount[0]?.count || 0} nodes`);
         
-        if (!nodeCount[0]?.count || nodeCount[0].count === 0) {
-          console.warn(`⚠️ Automation ${automation.id} has no nodes, skipping`);
-          continue;
-        }
-        
-        const [execution] = await db.insert(automationExecutions).values({
-          automationId: automation.id,
-          contactId,
-          conversationId,
-          triggerData: {
-            trigger: 'message_received',
-            message,
-            channelId,
-            timestamp: new Date()
-          },
-          status: 'running'
-        }).returning();
-  
-        console.log(`✅ Created execution record: ${execution.id}`);
-        
-        await this.executionService.executeAutomation(execution.id);
-        
-        console.log(`🎉 Automation ${automation.id} execution completed`);
-        
-      } catch (error) {
-        console.error(`❌ Failed to execute automation ${automation.id}:`, error);
-        console.error(`Stack trace:`,  (error as Error).stack);
+      if (!nodeCount[0]?.count) {
+        console.warn(`⚠️ Automation ${automation.id} has no nodes, skipping`);
+        return;
       }
+      
+      const execution = await this.createExecution(automation, {
+        contactId,
+        conversationId,
+        triggerData: {
+          trigger: 'message_received',
+          message,
+          matchedKeyword: match.matchedKeyword,
+          channelId,
+          timestamp: new Date()
+        },
+      });
+      if (!execution) return;
+
+      console.log(`✅ Created execution record: ${execution.id}`);
+      
+      await this.executionService.executeAutomation(execution.id);
+      
+      console.log(`🎉 Automation ${automation.id} execution completed`);
+      
+    } catch (error) {
+      console.error(`❌ Failed to execute automation ${automation.id}:`, error);
+      console.error(`Stack trace:`,  (error as Error).stack);
+    }
+  }
+
+  /**
+   * Run a scheduled automation for its segment: active contacts on its
+   * channel in one of the schedule's groups that pass the tag filters.
+   * The segment is read and started in batches of SCHEDULE_BATCH_SIZE, so a
+   * large one neither sits in memory nor goes out one contact at a time, and
+   * a batch finishes before the next so sends stay within the channel limits.
+   */
+  async handleSchedule(automation: Automation) {
+    const config = (automation.triggerConfig || {}) as AutomationTriggerConfig;
+    const groups = (config.schedule?.groups || []).filter(Boolean);
+    const segment = and(
+      automation.channelId ? eq(contacts.channelId, automation.channelId) : undefined,
+      eq(contacts.status, 'active'),
+      groups.length > 0
+        ? sql`${contacts.groups} ?| array[${sql.join(groups.map((group) => sql`${group}`), sql`, `)}]`
+        : undefined
+    );
+
+    console.log(`⏰ Scheduled automation ${automation.id} starts for its segment`);
+
+    let started = 0;
+    let lastId: string | undefined;
+    for (;;) {
+      const batch = await db.select()
+        .from(contacts)
+        .where(and(segment, lastId ? gt(contacts.id, lastId) : undefined))
+        .orderBy(asc(contacts.id))
+        .limit(SCHEDULE_BATCH_SIZE);
+      if (batch.length === 0) break;
+      lastId = batch[batch.length - 1].id;
+
+      const executions = await Promise.all(batch.map((contact) =>
+        this.startForContact(automation, contact, { trigger: 'schedule' }).catch((error) => {
+          console.error(`Failed to start automation ${automation.id} for contact ${contact.id}:`, error);
+          return undefined;
+        })
+      ));
+      started += executions.filter(Boolean).length;
+    }
+    return started;
+  }
+
+  /**
+   * Inbound API trigger: find or create the contact by phone and start the
+   * automation with the posted variables. The run carries on in the
+   * background so the caller gets an answer straight away.
+   */
+  async handleApiWebhook(
+    automation: Automation,
+    payload: { phone: string; name?: string; variables?: Record<string, unknown> }
+  ) {
+    // Stored the way WhatsApp sends numbers: digits with the country code
+    const phone = payload.phone.replace(/\D/g, '');
+    let contact = await db.query.contacts.findFirst({
+      where: and(
+        eq(contacts.phone, phone),
+        automation.channelId ? eq(contacts.channelId, automation.channelId) : undefined
+      ),
+    });
+    const created = !contact;
+    if (!contact) {
+      contact = await storage.createContact({
+        name: payload.name || phone,
+        phone,
+        channelId: automation.channelId,
+      });
+    }
+
+    // Posted variables can't override what the trigger sets itself
+    const execution = await this.startForContact(
+      automation,
+      contact,
+      { ...payload.variables, trigger: 'api_webhook' },
+      { background: true }
+    );
+
+    if (created) {
+      this.handleContactsCreated([contact]).catch((error) => {
+        console.error(`Failed to run contact triggers for ${contact.id}:`, error);
+      });
+    }
+    return execution;
+  }
+
+  /**
+   * Active automation behind an api_webhook URL, with its published trigger
+   */
+  async findWebhookAutomation(secret: string): Promise<Automation | undefined> {
+    const automation = await db.query.automations.findFirst({
+      where: and(eq(automations.webhookSecret, secret), eq(automations.status, 'active')),
+    });
+    if (!automation) return undefined;
+
+    const [live] = await this.withPublishedTrigger([automation]);
+    return live.trigger === 'api_webhook' ? live : undefined;
+  }
+
+  // Active automations with a schedule trigger, on every channel
+  async getScheduledAutomations() {
+    return (await this.getActiveAutomations()).filter((automation) => automation.trigger === 'schedule');
+  }
+
+  /**
+   * Contacts added from the contacts page, an import, the API trigger or a
+   * first inbound message
+   */
+  async handleContactsCreated(created: Contact[]) {
+    const triggered = (await this.getActiveAutomations())
+      .some((automation) => automation.trigger === 'contact_created');
+    if (!triggered) return;
+
+    for (const contact of created) {
+      await this.handleEvent('contact_created', contact, {});
+    }
+  }
+
+  /**
+   * Tags were added to a contact. The automation that added them, if any,
+   * is not started again.
+   */
+  async handleTagsAdded(contact: Contact, addedTags: string[], sourceAutomationId?: string) {
+    if (addedTags.length === 0) return 0;
+    const added = addedTags.map((tag) => tag.toLowerCase());
+
+    return this.handleEvent('tag_added', contact, { addedTags }, {
+      accepts: (automation, config) =>
+        automation.id !== sourceAutomationId &&
+        (!config.eventTags?.length || config.eventTags.some((tag) => added.includes(tag.toLowerCase()))),
+    });
+  }
+
+  /**
+   * A conversation was closed or resolved in the inbox. A waiting handoff
+   * gets it back first; conversation_closed automations only start when
+   * there was none.
+   */
+  async handleConversationClosed(conversationId: string) {
+    const handedBack = await this.executionService.handleConversationClosed(conversationId);
+    if (handedBack > 0) return 0;
+
+    const found = await this.loadConversationContact(conversationId);
+    if (!found) return 0;
+
+    return this.handleEvent('conversation_closed', found.contact, {}, {
+      conversationId,
+      channelId: found.conversation.channelId,
+    });
+  }
+
+  // A contact read a message sent by a campaign
+  async handleCampaignMessageRead(message: Message) {
+    const { campaignId, conversationId } = message;
+    if (!campaignId || !conversationId) return 0;
+
+    const found = await this.loadConversationContact(conversationId);
+    if (!found) return 0;
+
+    return this.handleEvent('campaign_message_read', found.contact, { campaignId, messageId: message.id }, {
+      conversationId,
+      channelId: found.conversation.channelId,
+      accepts: (_automation, config) => !config.campaignIds?.length || config.campaignIds.includes(campaignId),
+    });
+  }
+
+  /**
+   * Start every active automation with an event trigger for a contact,
+   * returns how many were started
+   */
+  private async handleEvent(
+    trigger: string,
+    contact: Contact,
+    triggerData: Record<string, any>,
+    options: {
+      conversationId?: string;
+      channelId?: string | null;
+      accepts?: (automation: Automation, config: AutomationTriggerConfig) => boolean;
+    } = {}
+  ) {
+    const channelId = options.channelId ?? contact.channelId;
+    const matching = (await this.getActiveAutomations(channelId ?? undefined)).filter((automation) =>
+      automation.trigger === trigger &&
+      (!options.accepts || options.accepts(automation, (automation.triggerConfig || {}) as AutomationTriggerConfig))
+    );
+
+    let started = 0;
+    for (const automation of matching) {
+      const execution = await this.startForContact(
+        automation,
+        contact,
+        { ...triggerData, trigger },
+        { conversationId: options.conversationId }
+      );
+      if (execution) started++;
+    }
+    return started;
+  }
+
+  /**
+   * Start an automation for a contact without an inbound message to answer:
+   * in the given conversation, or the contact's latest one on the channel
+   * (created when there is none). Contacts who opted out or don't pass the
+   * tag filters are skipped, and so are conversations with an agent or with
+   * an execution waiting for a reply.
+   */
+  private async startForContact(
+    automation: Automation,
+    contact: Contact,
+    triggerData: Record<string, any>,
+    options: { conversationId?: string; background?: boolean } = {}
+  ): Promise<AutomationExecution | undefined> {
+    const config = (automation.triggerConfig || {}) as AutomationTriggerConfig;
+    const tags = Array.isArray(contact.tags) ? (contact.tags as string[]) : [];
+    if ((contact.status ?? 'active') !== 'active' || !matchesContactTags(config, tags)) {
+      return undefined;
     }
+
+    const channelId = automation.channelId ?? contact.channelId;
+    const conversationId = options.conversationId ?? (await this.findOrCreateConversation(contact, channelId)).id;
+
+    if (
+      await this.executionService.hasPendingExecution(conversationId) ||
+      await this.executionService.isHumanOwned(conversationId)
+    ) {
+      console.log(`⏭️ Conversation ${conversationId} is busy, not starting automation ${automation.id}`);
+      return undefined;
+    }
+
+    const execution = await this.createExecution(automation, {
+      contactId: contact.id,
+      conversationId,
+      triggerData: { ...triggerData, channelId, timestamp: new Date() },
+    });
+    if (!execution) return undefined;
+
+    const run = this.executionService.executeAutomation(execution.id).catch((error) => {
+      console.error(`Failed to execute automation ${automation.id}:`, error);
+    });
+    if (!options.background) await run;
+
+    return execution;
+  }
+
+  // Latest conversation of the contact on the channel, or a new one
+  private async findOrCreateConversation(contact: Contact, channelId: string | null) {
+    const existing = await db.query.conversations.findFirst({
+      where: and(
+        eq(conversations.contactId, contact.id),
+        channelId ? eq(conversations.channelId, channelId) : undefined
+      ),
+      orderBy: [sql`${conversations.lastMessageAt} desc nulls last`, desc(conversations.createdAt)],
+    });
+    if (existing) return existing;
+
+    return storage.createConversation({
+      contactId: contact.id,
+      contactPhone: contact.phone,
+      contactName: contact.name || contact.phone,
+      channelId,
+      unreadCount: 0,
+    });
+  }
+
+  private async loadConversationContact(conversationId: string) {
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId),
+    });
+    if (!conversation?.contactId) return undefined;
+
+    const contact = await db.query.contacts.findFirst({
+      where: eq(contacts.id, conversation.contactId),
+    });
+    return contact ? { conversation, contact } : undefined;
+  }
+
+  /**
+   * Create a running execution, unless the contact already started this
+   * automation within its cooldown window. The advisory lock makes the
+   * check and insert atomic across instances.
+   */
+  private async createExecution(
+    automation: Automation,
+    values: { contactId?: string; conversationId: string; triggerData: Record<string, any> }
+  ): Promise<AutomationExecution | undefined> {
+    const cooldownMinutes = resolveCooldownMinutes(automation.triggerConfig);
+    const { contactId } = values;
+
+    return db.transaction(async (tx) => {
+      if (cooldownMinutes > 0 && contactId) {
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`${automation.id}:${contactId}`}))`);
+
+        const since = new Date(Date.now() - cooldownMinutes * 60 * 1000);
+        const recent = await tx.query.automationExecutions.findFirst({
+          columns: { id: true },
+          where: and(
+            eq(automationExecutions.automationId, automation.id),
+            eq(automationExecutions.contactId, contactId),
+            gte(automationExecutions.startedAt, since)
+          ),
+        });
+        if (recent) {
+          console.log(`⏳ Automation ${automation.id} is cooling down for contact ${contactId}, skipping`);
+          return undefined;
+        }
+      }
+
+      const [execution] = await tx.insert(automationExecutions).values({
+        automationId: automation.id,
+        ...values,
+        status: 'running'
+      }).returning();
+      return execution;
+    });
+  }
+
+  /**
+   * Active automations on a channel, or on every channel
+   */
+  private async getActiveAutomations(channelId?: string): Promise<Automation[]> {
+    const rows = await db.select()
+      .from(automations)
+      .where(and(
+        channelId ? eq(automations.channelId, channelId) : undefined,
+        eq(automations.status, 'active')
+      ));
+
+    return this.withPublishedTrigger(rows);
+  }
+
+  /**
+   * Published automations are matched on the trigger of their published
+   * version, not on draft edits
+   */
+  private async withPublishedTrigger(rows: Automation[]): Promise<Automation[]> {
+    const versionIds = rows.map((row) => row.publishedVersionId).filter((id): id is string => !!id);
+    if (versionIds.length === 0) return rows;
+
+    const versions = await db.select({
+      id: automationVersions.id,
+      trigger: automationVersions.trigger,
+      triggerConfig: automationVersions.triggerConfig,
+    })
+      .from(automationVersions)
+      .where(inArray(automationVersions.id, versionIds));
+    const byId = new Map(versions.map((version) => [version.id, version]));
+
+    return rows.map((row) => {
+      const version = row.publishedVersionId ? byId.get(row.publishedVersionId) : undefined;
+      return version ? { ...row, trigger: version.trigger, triggerConfig: version.triggerConfig } : row;
+    });
   }
 
   /**
@@ -1735,5 +3178,19 @@ export const triggerService = new AutomationTriggerService();
 
 // Periodic cleanup (run this somewhere in your app)
 setInterval(() => {
-  executionService.cleanupExpiredExecutions();
-}, 5 * 60 * 1000); // Every 5 minutes
\ No newline at end of file
+  executionService.cleanupExpiredExecutions().catch((error) => {
+    console.error('Error cleaning up expired executions:', error);
+  });
+}, 5 * 60 * 1000); // Every 5 minutes
+
+setInterval(() => {
+  executionService.beatHeartbeats().catch((error) => {
+    console.error('Error refreshing execution heartbeats:', error);
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+setInterval(() => {
+  executionService.resumeInterrupted().catch((error) => {
+    console.error('Error resuming interrupted executions:', error);
+  });
+}, HEARTBEAT_STALE_MS);
\ No newline at end of file
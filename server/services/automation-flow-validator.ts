@@ -0,0 +1,352 @@
+// Checks run on an automation's nodes before it is saved or activated
+import type { AutomationTriggerConfig } from "@shared/schema";
+import { validateExpression } from "server/utils/expression";
+import { validateHttpRequestConfig } from "server/utils/automation-http";
+import { validateAnswerValidation } from "server/utils/answer-validators";
+import { isValidTimezone } from "server/utils/automation-delay";
+import { parseCron } from "server/utils/automation-schedule";
+import { CONTACT_STATUSES, CUSTOM_FIELD_KEY } from "./automation-contact-update";
+
+export interface FlowIssue {
+  nodeId: string | null;
+  message: string;
+}
+
+// Errors block saving and activation, warnings are shown but allowed
+export interface FlowValidation {
+  errors: FlowIssue[];
+  warnings: FlowIssue[];
+}
+
+export const NODE_TYPES = [
+  'custom_reply',
+  'user_reply',
+  'time_gap',
+  'send_template',
+  'assign_user',
+  'handoff',
+  'update_contact',
+  'set_variable',
+  'conditions',
+  'http_request',
+];
+
+export interface FlowTrigger {
+  trigger?: string | null;
+  triggerConfig?: AutomationTriggerConfig | null;
+}
+
+// Accepts builder nodes (id/source/target) and stored rows (nodeId/sourceNodeId/targetNodeId)
+export function validateFlow(nodes: any[], edges: any[], trigger?: FlowTrigger): FlowValidation {
+  const normalized = nodes.map((node) => ({ ...node, id: node.id ?? node.nodeId }));
+  const links = edges.map((edge) => ({
+    source: edge.source ?? edge.sourceNodeId,
+    target: edge.target ?? edge.targetNodeId,
+    sourceHandle: edge.sourceHandle ?? null,
+  }));
+
+  const structure = validateStructure(normalized, links);
+  return {
+    errors: [
+      ...structure.errors,
+      ...validateNodeConfigs(normalized),
+      ...validateFlowGraph(normalized, links),
+      ...(trigger ? validateTrigger(trigger) : []),
+    ],
+    warnings: structure.warnings,
+  };
+}
+
+function validateStructure(
+  nodes: any[],
+  edges: { source: string; target: string; sourceHandle: string | null }[]
+): FlowValidation {
+  const errors: FlowIssue[] = [];
+  const warnings: FlowIssue[] = [];
+  const ids = new Set(nodes.map((node) => node.id));
+
+  if (nodes.length === 0) {
+    warnings.push({ nodeId: null, message: 'The flow has no steps yet' });
+    return { errors, warnings };
+  }
+
+  for (const edge of edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) {
+      warnings.push({
+        nodeId: ids.has(edge.source) ? edge.source : null,
+        message: `Connection ${edge.source} → ${edge.target} points at a missing step and is ignored`,
+      });
+    }
+  }
+
+  // The engine starts at the first step without an incoming connection
+  const hasIncoming = new Set(edges.filter((edge) => ids.has(edge.source)).map((edge) => edge.target));
+  const hasOutgoing = new Set(edges.filter((edge) => ids.has(edge.target)).map((edge) => edge.source));
+  const roots = nodes.filter((node) => !hasIncoming.has(node.id));
+
+  if (roots.length === 0) {
+    errors.push({ nodeId: null, message: 'Every step has an incoming connection, so the flow has no first step' });
+  }
+  for (const node of roots.slice(1)) {
+    errors.push({
+      nodeId: node.id,
+      message: hasOutgoing.has(node.id)
+        ? 'Step has no incoming connection, so the flow would have several first steps'
+        : 'Step is not connected to the flow',
+    });
+  }
+
+  for (const node of nodes) {
+    const data = node.data || {};
+    const outgoing = edges.filter((edge) => edge.source === node.id && ids.has(edge.target));
+    const handles = new Set(outgoing.map((edge) => edge.sourceHandle));
+
+    if (!NODE_TYPES.includes(node.type)) {
+      errors.push({ nodeId: node.id, message: `Unknown step type "${node.type}"` });
+      continue;
+    }
+
+    if (node.type === 'send_template' && !data.templateId) {
+      errors.push({ nodeId: node.id, message: 'Template step needs a template' });
+    }
+
+    if (node.type === 'assign_user' && !data.assigneeId) {
+      errors.push({ nodeId: node.id, message: 'Assign step needs a team member' });
+    }
+
+    if (node.type === 'handoff' && data.routing === 'user' && !data.assigneeId) {
+      errors.push({ nodeId: node.id, message: 'Handoff step needs an agent' });
+    }
+
+    if (node.type === 'handoff' && data.resumeOnClose && outgoing.length === 0) {
+      warnings.push({
+        nodeId: node.id,
+        message: 'Handoff resumes when the conversation is closed, but nothing is connected to "back to bot"',
+      });
+    }
+
+    if (node.type === 'custom_reply' && !data.message?.trim() && !hasMedia(data)) {
+      errors.push({ nodeId: node.id, message: 'Message step needs text or an attachment' });
+    }
+
+    if (node.type === 'conditions') {
+      const branches = data.conditionType === 'switch'
+        ? [...(data.cases || []).map((c: any) => c.id), 'default']
+        : ['true', 'false'];
+      // Older flows have unnamed edges, taken as true then false
+      const legacy = outgoing.length > 0 && outgoing.every((edge) => !edge.sourceHandle);
+      const missing = legacy
+        ? branches.slice(outgoing.length)
+        : branches.filter((branch) => !handles.has(branch));
+      if (outgoing.length === 0) {
+        warnings.push({ nodeId: node.id, message: 'Condition has no connected branches, the flow ends there' });
+      } else if (missing.length > 0) {
+        warnings.push({
+          nodeId: node.id,
+          message: `Condition branch ${missing.join(', ')} is not connected, the flow ends there`,
+        });
+      }
+    }
+
+    if (node.type === 'http_request' && handles.size > 0 && !handles.has('error')) {
+      warnings.push({ nodeId: node.id, message: 'HTTP request has no error branch, a failed call ends the flow' });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+function hasMedia(data: any) {
+  return !!(data.imageFile || data.videoFile || data.audioFile || data.documentFile);
+}
+
+// Builder nodes arrive in React Flow shape (id/type/data)
+export function validateNodeConfigs(nodes: any[]): FlowIssue[] {
+  const issues: FlowIssue[] = [];
+
+  for (const node of nodes) {
+    const data = node.data || {};
+
+    if (node.type === 'conditions' && data.conditionType === 'variable') {
+      const error = validateExpression(data.expression || data.keywords?.[0] || '');
+      if (error) {
+        issues.push({ nodeId: node.id, message: `Condition expression: ${error}` });
+      }
+    }
+
+    if (node.type === 'set_variable') {
+      if (!data.variableName || !/^[A-Za-z_][\w]*$/.test(data.variableName)) {
+        issues.push({ nodeId: node.id, message: 'Set variable needs a name made of letters, digits and underscores' });
+      }
+      const error = validateExpression(data.expression || '');
+      if (error) {
+        issues.push({ nodeId: node.id, message: `Value expression: ${error}` });
+      }
+    }
+
+    if (node.type === 'user_reply' && data.replyType === 'list') {
+      issues.push(...validateListReply(node.id, data));
+    }
+
+    if (node.type === 'user_reply' && data.validation?.type) {
+      const error = validateAnswerValidation(data.validation);
+      if (error) {
+        issues.push({ nodeId: node.id, message: `Answer validation: ${error}` });
+      }
+    }
+
+    if (node.type === 'update_contact') {
+      issues.push(...validateContactUpdate(node.id, data));
+    }
+
+    if (node.type === 'http_request') {
+      const error = validateHttpRequestConfig(data);
+      if (error) {
+        issues.push({ nodeId: node.id, message: `HTTP request: ${error}` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Settings of triggers that don't start from an inbound message
+export function validateTrigger({ trigger, triggerConfig }: FlowTrigger): FlowIssue[] {
+  const issues: FlowIssue[] = [];
+  const config = triggerConfig || {};
+
+  if (trigger === 'schedule') {
+    const schedule = config.schedule || {};
+    if (!parseCron(schedule.cron)) {
+      issues.push({ nodeId: null, message: 'Schedule needs a valid cron expression, e.g. "0 9 * * 1" for Mondays at 9:00' });
+    }
+    if (schedule.timezone && !isValidTimezone(schedule.timezone)) {
+      issues.push({ nodeId: null, message: `Unknown timezone "${schedule.timezone}"` });
+    }
+    if (!schedule.groups?.length && !config.contactTags?.length) {
+      issues.push({ nodeId: null, message: 'Schedule needs a contact group or tag to run for' });
+    }
+  }
+
+  return issues;
+}
+
+function validateContactUpdate(nodeId: string, data: any): FlowIssue[] {
+  const issues: FlowIssue[] = [];
+  const fields: any[] = data.customFields || [];
+  const lists = [data.addTags, data.removeTags, data.addGroups, data.removeGroups];
+
+  const changesSomething = !!data.name?.trim() || !!data.email?.trim() || !!data.status
+    || lists.some((list) => list?.some((item: string) => item?.trim())) || fields.length > 0;
+  if (!changesSomething) {
+    issues.push({ nodeId, message: 'Contact update does not change anything' });
+  }
+  if (data.status && !CONTACT_STATUSES.includes(data.status)) {
+    issues.push({ nodeId, message: `Contact status must be one of ${CONTACT_STATUSES.join(', ')}` });
+  }
+  if (fields.some((field) => !CUSTOM_FIELD_KEY.test(field.key || ''))) {
+    issues.push({ nodeId, message: 'Custom field names are made of letters, digits and underscores' });
+  }
+  const keys = fields.map((field) => field.key);
+  if (new Set(keys).size !== keys.length) {
+    issues.push({ nodeId, message: 'Each custom field can only be set once' });
+  }
+
+  return issues;
+}
+
+// WhatsApp limits for interactive list messages
+function validateListReply(nodeId: string, data: any): FlowIssue[] {
+  const issues: FlowIssue[] = [];
+  const sections: any[] = data.listSections || [];
+  const rows = sections.flatMap((section) => section.rows || []);
+
+  if (rows.length === 0) {
+    issues.push({ nodeId, message: 'List needs at least one row' });
+  }
+  if (rows.length > 10) {
+    issues.push({ nodeId, message: 'List can have at most 10 rows across all sections' });
+  }
+  if ((data.listButtonText || '').length > 20) {
+    issues.push({ nodeId, message: 'List button text can be at most 20 characters' });
+  }
+  if (sections.length > 1 && sections.some((section) => !section.title?.trim())) {
+    issues.push({ nodeId, message: 'Every section needs a title when the list has more than one' });
+  }
+  if (rows.some((row) => !row.title?.trim() || row.title.length > 24)) {
+    issues.push({ nodeId, message: 'List row titles are required and can be at most 24 characters' });
+  }
+  const ids = rows.map((row) => row.id);
+  if (new Set(ids).size !== ids.length) {
+    issues.push({ nodeId, message: 'List row ids must be unique' });
+  }
+
+  return issues;
+}
+
+// Loops are fine while they wait for the customer on a user_reply node, or
+// for an agent on a handoff. A loop without one runs straight through and
+// keeps messaging the contact.
+export function validateFlowGraph(nodes: any[], edges: any[]): FlowIssue[] {
+  const waits = new Set(
+    nodes
+      .filter((node) => node.type === 'user_reply' || node.type === 'handoff')
+      .map((node) => node.id ?? node.nodeId)
+  );
+  const ids = nodes.map((node) => node.id ?? node.nodeId).filter((id) => !waits.has(id));
+
+  const next = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const edge of edges) {
+    const source = edge.source ?? edge.sourceNodeId;
+    const target = edge.target ?? edge.targetNodeId;
+    if (next.has(source) && next.has(target)) {
+      next.get(source)!.push(target);
+    }
+  }
+
+  // Tarjan's strongly connected components
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const issues: FlowIssue[] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    low.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const target of next.get(id)!) {
+      if (!index.has(target)) {
+        visit(target);
+        low.set(id, Math.min(low.get(id)!, low.get(target)!));
+      } else if (onStack.has(target)) {
+        low.set(id, Math.min(low.get(id)!, index.get(target)!));
+      }
+    }
+
+    if (low.get(id) !== index.get(id)) return;
+
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+
+    if (component.length > 1 || next.get(id)!.includes(id)) {
+      const steps = component.length > 1 ? `Steps ${component.reverse().join(' → ')} form` : `Step ${id} is`;
+      issues.push({ nodeId: id, message: `${steps} a loop that never waits for the customer` });
+    }
+  };
+
+  for (const id of ids) {
+    if (!index.has(id)) visit(id);
+  }
+
+  return issues;
+}
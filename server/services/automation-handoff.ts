@@ -0,0 +1,66 @@
+// Handing a conversation from an automation over to a human agent.
+//
+// The handoff node picks an agent, posts the details the bot collected as
+// an internal note and pauses the execution. Closing or resolving the
+// conversation in the inbox hands it back: the flow either carries on from
+// the node's "back to bot" branch or ends.
+import { and, asc, desc, eq, inArray, notInArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { conversations, users } from "@shared/schema";
+import { onlineSince } from "server/utils/user-presence";
+
+// Handle of the branch followed when the agent closes the conversation
+export const HANDOFF_RESUME_HANDLE = "back_to_bot";
+
+export interface HandoffNodeData {
+  routing?: "least_busy" | "user";
+  teamMemberIds?: string[]; // least_busy: only these agents, empty for everyone
+  assigneeId?: string; // user: always this agent
+  note?: string;
+  resumeOnClose?: boolean;
+}
+
+/**
+ * Online agent with the fewest open conversations, optionally limited to a
+ * team. Returns null when nobody is online.
+ */
+export async function findLeastBusyAgent(teamMemberIds: string[] = []): Promise<string | null> {
+  const openConversations = sql<number>`count(${conversations.id})::int`;
+  const [agent] = await db.select({ id: users.id, openConversations })
+    .from(users)
+    .leftJoin(conversations, and(
+      eq(conversations.assignedTo, users.id),
+      notInArray(conversations.status, ["closed", "resolved"])
+    ))
+    .where(and(
+      eq(users.status, "active"),
+      onlineSince(),
+      teamMemberIds.length > 0 ? inArray(users.id, teamMemberIds) : undefined
+    ))
+    .groupBy(users.id)
+    .orderBy(asc(openConversations), desc(users.lastSeenAt))
+    .limit(1);
+
+  return agent?.id ?? null;
+}
+
+/**
+ * Internal note for the agent: the node's own text, then every variable the
+ * flow collected. Trigger data and ids are left out.
+ */
+export function formatHandoffNote(
+  note: string,
+  variables: Record<string, any>,
+  hiddenKeys: string[] = []
+): string {
+  const hidden = new Set(["automationId", "contactId", "conversationId", ...hiddenKeys]);
+  const details = Object.entries(variables)
+    .filter(([key, value]) => !hidden.has(key) && value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => `• ${key}: ${typeof value === "object" ? JSON.stringify(value) : value}`);
+
+  return [
+    "🤖 Handed over by automation",
+    note.trim(),
+    details.length > 0 ? `Collected details:\n${details.join("\n")}` : "",
+  ].filter(Boolean).join("\n\n");
+}
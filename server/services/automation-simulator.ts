@@ -0,0 +1,407 @@
+// Dry runs of an automation against an in-memory transport.
+//
+// Nothing is written to executions, logs, timers or the inbox, and no
+// WhatsApp message is sent. The caller keeps the returned state and sends it
+// back with the next reply, so a session works on any instance of the
+// cluster.
+import type { Automation, AutomationExecution, Contact } from "@shared/schema";
+import {
+  AutomationExecutionService,
+  type ExecutionContext,
+  type ResumeData,
+  type WaitType,
+} from "./automation-execution.service";
+import type { AutomationTransport, ListSection, ReplyButton } from "./automation-transport";
+import type { HandoffNodeData } from "./automation-handoff";
+import type { ContactUpdatePlan } from "./automation-contact-update";
+import {
+  performHttpRequest,
+  type HttpRequestConfig,
+  type HttpRequestResult,
+} from "server/utils/automation-http";
+
+const SIMULATION_ID = "simulation";
+
+// Guards against flows that loop forever, per request
+const MAX_STEPS = 200;
+
+export interface SimulationMessage {
+  direction: "inbound" | "outbound" | "system";
+  kind: "text" | "buttons" | "list" | "media" | "template" | "note";
+  text: string;
+  buttons?: ReplyButton[];
+  buttonText?: string;
+  sections?: ListSection[];
+  at: string;
+}
+
+export interface SimulationStep {
+  nodeId: string;
+  nodeType: string;
+  status: string;
+  branch: string | null;
+  output: any;
+  error: string | null;
+  variables: Record<string, any>;
+}
+
+export interface SimulationState {
+  status: "running" | "waiting" | "completed" | "failed";
+  currentNodeId: string | null;
+  waitingFor: WaitType | null;
+  variables: Record<string, any>;
+  resumeData: ResumeData;
+  lastUserMessage?: string;
+  result?: string;
+  nodeVisits?: number;
+  messagesSent?: number;
+}
+
+export interface SimulationResult {
+  state: SimulationState;
+  transcript: SimulationMessage[];
+  steps: SimulationStep[];
+}
+
+export interface SimulationInput {
+  automation: Automation;
+  contact?: Contact;
+  state?: SimulationState;
+  message?: string;
+  interactive?: any;
+  closeConversation?: boolean; // the agent closes a handed off conversation
+  variables?: Record<string, any>;
+  liveHttp?: boolean; // call real APIs from http_request nodes
+}
+
+/**
+ * Transport that records messages instead of sending them
+ */
+export class InMemoryTransport implements AutomationTransport {
+  readonly messages: SimulationMessage[] = [];
+
+  private push(message: Omit<SimulationMessage, "at" | "direction">) {
+    this.messages.push({ direction: "outbound", at: new Date().toISOString(), ...message });
+    return Promise.resolve({ simulated: true });
+  }
+
+  note(text: string) {
+    this.messages.push({ direction: "system", kind: "note", text, at: new Date().toISOString() });
+  }
+
+  inbound(text: string) {
+    this.messages.push({ direction: "inbound", kind: "text", text, at: new Date().toISOString() });
+  }
+
+  sendText(_contact: Contact, text: string) {
+    return this.push({ kind: "text", text });
+  }
+
+  sendButtons(_contact: Contact, text: string, buttons: ReplyButton[]) {
+    return this.push({ kind: "buttons", text, buttons: buttons.slice(0, 3) });
+  }
+
+  sendList(_contact: Contact, text: string, buttonText: string | undefined, sections: ListSection[]) {
+    return this.push({ kind: "list", text, buttonText: buttonText || "Choose an option", sections });
+  }
+
+  sendMedia(_contact: Contact, nodeData: any, caption: string) {
+    const file = nodeData.imageFile || nodeData.videoFile || nodeData.audioFile || nodeData.documentFile;
+    return this.push({ kind: "media", text: `[${file?.filename || "media"}] ${caption}`.trim() });
+  }
+
+  sendTemplate(_contact: Contact, templateName: string) {
+    return this.push({ kind: "template", text: `Template: ${templateName}` });
+  }
+
+  assignConversation(conversationId: string, assigneeId: string) {
+    this.note(`Conversation assigned to ${assigneeId}`);
+    return Promise.resolve({ id: conversationId, assignedTo: assigneeId });
+  }
+
+  handoffConversation(conversationId: string, assigneeId: string | null) {
+    this.note(`Conversation handed off to ${assigneeId ?? "the pending queue"}`);
+    return Promise.resolve({ id: conversationId, assignedTo: assigneeId });
+  }
+
+  postInternalNote(_conversationId: string, text: string) {
+    this.note(`Internal note:\n${text}`);
+    return Promise.resolve({ simulated: true });
+  }
+}
+
+/**
+ * Execution service whose persistence lives in memory for one request
+ */
+class SimulatedExecutionService extends AutomationExecutionService {
+  readonly steps: SimulationStep[] = [];
+  private stepCount = 0;
+  private context: ExecutionContext | null = null;
+
+  constructor(
+    private memory: InMemoryTransport,
+    private automationId: string,
+    private contact: Contact,
+    public state: SimulationState,
+    private liveHttp: boolean
+  ) {
+    super(memory);
+  }
+
+  loadFlow() {
+    return this.getAutomationWithFlow(this.automationId);
+  }
+
+  async start(automation: any, context: ExecutionContext) {
+    this.context = context;
+    const firstNode = this.findStartNode(automation);
+    if (!firstNode) {
+      await this.completeExecution(SIMULATION_ID, "completed", "No start node found");
+      return;
+    }
+    await this.run(() => this.executeNode(firstNode, automation, context));
+    await this.skipDelays(automation);
+  }
+
+  async reply(automation: any, message: string, interactive?: any) {
+    await this.run(() => this.processUserResponse(this.toExecution(), message, interactive));
+    await this.skipDelays(automation);
+  }
+
+  async closeConversation(automation: any) {
+    this.context = this.restoreContext(this.toExecution());
+    this.state.status = "running";
+    this.state.waitingFor = null;
+    await this.run(() => this.resumeAfterHandoff(this.toExecution()));
+    await this.skipDelays(automation);
+  }
+
+  // Failures are already recorded in the state by completeExecution
+  private async run(task: () => Promise<unknown>) {
+    try {
+      await task();
+    } catch (error) {
+      if (this.state.status !== "failed") {
+        await this.completeExecution(SIMULATION_ID, "failed", (error as Error).message);
+      }
+    }
+  }
+
+  // Delays finish straight away in a simulation
+  private async skipDelays(automation: any) {
+    while (this.state.status === "waiting" && this.state.waitingFor === "time_gap" && this.context) {
+      const node = automation.nodes.find((n: any) => n.nodeId === this.state.currentNodeId);
+      if (!node) break;
+
+      this.state.status = "running";
+      this.state.waitingFor = null;
+      const context = this.context;
+      await this.logNodeExecution(SIMULATION_ID, node.nodeId, node.type, "completed", node.data, { action: "delay_completed" }, null);
+      await this.run(() => this.continueToNextNode(node, automation, context));
+    }
+  }
+
+  // Shape processUserResponse expects for a paused execution
+  private toExecution(): AutomationExecution {
+    const now = new Date();
+    return {
+      id: SIMULATION_ID,
+      automationId: this.automationId,
+      contactId: this.contact.id,
+      conversationId: SIMULATION_ID,
+      triggerData: { trigger: "simulation" },
+      status: "running",
+      versionId: null,
+      currentNodeId: this.state.currentNodeId,
+      executionPath: [],
+      variables: this.state.variables,
+      nodeVisits: this.state.nodeVisits ?? 0,
+      messagesSent: this.state.messagesSent ?? 0,
+      waitingFor: null,
+      resumeData: { ...this.state.resumeData, lastUserMessage: this.state.lastUserMessage },
+      resumeAt: null,
+      heartbeatAt: null,
+      result: null,
+      error: null,
+      startedAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+  }
+
+  protected async saveProgress(nodeId: string, context: ExecutionContext) {
+    if (++this.stepCount > MAX_STEPS) {
+      throw new Error(`Stopped after ${MAX_STEPS} steps, the flow may loop`);
+    }
+    this.context = context;
+    this.state.status = "running";
+    this.state.currentNodeId = nodeId;
+    this.state.variables = context.variables;
+    this.state.lastUserMessage = context.lastUserMessage;
+    this.state.nodeVisits = context.nodeVisits;
+    this.state.messagesSent = context.messagesSent;
+  }
+
+  protected async pauseExecution(
+    context: ExecutionContext,
+    nodeId: string,
+    waitingFor: WaitType,
+    resumeData: ResumeData,
+    result: string
+  ) {
+    this.context = context;
+    this.state = {
+      ...this.state,
+      status: "waiting",
+      currentNodeId: nodeId,
+      waitingFor,
+      variables: context.variables,
+      resumeData,
+      lastUserMessage: context.lastUserMessage,
+      nodeVisits: context.nodeVisits,
+      messagesSent: context.messagesSent,
+      result,
+    };
+  }
+
+  protected async completeExecution(_executionId: string, status: "completed" | "failed", result: string) {
+    // A failing node is reported again by every node above it in the call chain
+    if (this.state.status === "failed") return;
+    this.state = { ...this.state, status, waitingFor: null, result };
+    this.memory.note(status === "completed" ? `Flow ended: ${result}` : `Flow failed: ${result}`);
+  }
+
+  protected async logNodeExecution(
+    _executionId: string,
+    nodeId: string,
+    nodeType: string,
+    status: string,
+    _input: any,
+    output: any,
+    error: string | null
+  ) {
+    this.steps.push({
+      nodeId,
+      nodeType,
+      status,
+      branch: output?.branch ?? output?.selectedButtonId ?? null,
+      output,
+      error,
+      variables: { ...(this.context?.variables ?? this.state.variables) },
+    });
+  }
+
+  protected async loadContact() {
+    return this.contact;
+  }
+
+  // The contact is left as it is, the transcript shows what would change
+  protected async applyContactUpdate(_contact: Contact, plan: ContactUpdatePlan) {
+    for (const change of plan.changes) {
+      this.memory.note(`Contact ${change.field}: ${JSON.stringify(change.oldValue)} → ${JSON.stringify(change.newValue)}`);
+    }
+    for (const skipped of plan.skipped) {
+      this.memory.note(`Contact ${skipped.field} not updated: ${skipped.reason}`);
+    }
+  }
+
+  // Nobody's presence is looked up in a simulation
+  protected async findHandoffAgent(data: HandoffNodeData) {
+    return data.routing === "user" ? data.assigneeId ?? null : "the least busy online agent";
+  }
+
+  protected async releaseConversation() {}
+
+  protected async scheduleTimer(_context: ExecutionContext, _nodeId: string, fireAt: Date) {
+    this.memory.note(`Delay skipped, a live run would continue at ${fireAt.toISOString()}`);
+  }
+
+  protected async sendHttpRequest(config: HttpRequestConfig, scope: Record<string, any>): Promise<HttpRequestResult> {
+    if (this.liveHttp) {
+      return performHttpRequest(config, scope);
+    }
+    this.memory.note(`HTTP ${config.method || "GET"} ${config.url} not sent, taking the success branch`);
+    return { ok: true, status: 200, data: {} };
+  }
+}
+
+// Stand-in contact for simulations run without a real one
+function placeholderContact(automation: Automation): Contact {
+  const now = new Date();
+  const contact: Contact = {
+    id: SIMULATION_ID,
+    channelId: automation.channelId,
+    name: "Test Contact",
+    phone: "+10000000000",
+    email: null,
+    groups: [],
+    tags: [],
+    status: "active",
+    timezone: null,
+    customFields: {},
+    lastContact: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return contact;
+}
+
+/**
+ * Start a simulation, or continue one with the contact's next message
+ */
+export async function runSimulation(input: SimulationInput): Promise<SimulationResult> {
+  const { automation } = input;
+  const contact = input.contact ?? placeholderContact(automation);
+  const memory = new InMemoryTransport();
+
+  const state: SimulationState = input.state ?? {
+    status: "running",
+    currentNodeId: null,
+    waitingFor: null,
+    variables: {},
+    resumeData: {},
+  };
+  const service = new SimulatedExecutionService(memory, automation.id, contact, state, !!input.liveHttp);
+
+  const flow = await service.loadFlow();
+  if (!flow) {
+    throw new Error(`Automation ${automation.id} not found`);
+  }
+
+  if (!input.state) {
+    const triggerData = { trigger: "simulation", message: { content: input.message ?? "" } };
+    const context: ExecutionContext = {
+      executionId: SIMULATION_ID,
+      automationId: automation.id,
+      contactId: contact.id,
+      conversationId: SIMULATION_ID,
+      variables: {
+        automationId: automation.id,
+        contactId: contact.id,
+        conversationId: SIMULATION_ID,
+        ...triggerData,
+        ...(input.variables || {}),
+      },
+      triggerData,
+      lastUserMessage: input.message ?? "",
+    };
+    if (input.message) memory.inbound(input.message);
+    await service.start(flow, context);
+  } else if (state.status === "waiting" && state.waitingFor === "user_reply") {
+    const text = input.message ?? "";
+    memory.inbound(
+      input.interactive?.button_reply?.title || input.interactive?.list_reply?.title || text
+    );
+    await service.reply(flow, text, input.interactive);
+  } else if (state.status === "waiting" && state.waitingFor === "handoff" && input.closeConversation) {
+    memory.note("The agent closed the conversation");
+    await service.closeConversation(flow);
+  } else if (state.status === "waiting" && state.waitingFor === "handoff") {
+    if (input.message) memory.inbound(input.message);
+    memory.note("The conversation is with an agent, the bot stays quiet until they close it");
+  } else {
+    memory.note("The flow is not waiting for a reply");
+  }
+
+  return { state: service.state, transcript: memory.messages, steps: service.steps };
+}
@@ -0,0 +1,501 @@
+// Built-in starter flows for common bots.
+//
+// A starter is a blueprint filled in with the caller's parameters (business
+// name, agent, WhatsApp templates of the channel, API URLs). Instantiating
+// one returns an unsaved automation in the shape the flow builder loads, so
+// it is reviewed on the canvas and saved through the usual create path.
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import { templates, users, type AutomationTriggerConfig } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+
+export interface StarterParameter {
+  key: string;
+  label: string;
+  type: "text" | "textarea" | "url" | "template" | "user" | "list";
+  required?: boolean;
+  default?: string;
+  description?: string;
+}
+
+export interface StarterFlow {
+  id: string;
+  name: string;
+  description: string;
+  category: "support" | "sales" | "scheduling" | "commerce" | "compliance";
+  parameters: StarterParameter[];
+}
+
+type Params = Record<string, string>;
+
+interface BlueprintNode {
+  key: string;
+  type: string;
+  data: Record<string, any>;
+}
+
+interface BlueprintEdge {
+  from: string;
+  to: string;
+  handle?: string;
+  label?: string;
+}
+
+interface Blueprint {
+  trigger: string;
+  triggerConfig: AutomationTriggerConfig;
+  nodes: BlueprintNode[];
+  edges: BlueprintEdge[];
+}
+
+interface StarterDefinition extends StarterFlow {
+  build(params: Params): Blueprint;
+}
+
+// ─── Node helpers ─────────────────────────────
+
+const message = (key: string, text: string): BlueprintNode => ({
+  key,
+  type: "custom_reply",
+  data: { label: "Message", message: text, buttons: [] },
+});
+
+const question = (key: string, text: string, saveAs: string, extra: Record<string, any> = {}): BlueprintNode => ({
+  key,
+  type: "user_reply",
+  data: { label: "Question", question: text, saveAs, buttons: [], ...extra },
+});
+
+const buttons = (options: Array<[string, string]>) =>
+  options.map(([id, text]) => ({ id, text, action: "next" }));
+
+const assign = (key: string, assigneeId: string): BlueprintNode => ({
+  key,
+  type: "assign_user",
+  data: { label: "Assign User", assigneeId },
+});
+
+const sendTemplate = (key: string, templateId: string): BlueprintNode => ({
+  key,
+  type: "send_template",
+  data: { label: "Template", templateId },
+});
+
+function splitList(value: string | undefined) {
+  return (value || "").split(/[\n,]/).map((item) => item.trim()).filter(Boolean);
+}
+
+// ─── Starters ─────────────────────────────────
+
+const faqMenu: StarterDefinition = {
+  id: "faq_menu",
+  name: "FAQ menu",
+  description: "Answers common questions from a list menu and hands anything else to an agent.",
+  category: "support",
+  parameters: [
+    { key: "businessName", label: "Business name", type: "text", required: true },
+    { key: "openingHours", label: "Opening hours answer", type: "textarea", default: "We're open Monday to Friday, 9:00 to 18:00." },
+    { key: "shippingInfo", label: "Shipping answer", type: "textarea", default: "Orders ship within 2 business days." },
+    { key: "returnsInfo", label: "Returns answer", type: "textarea", default: "You can return any item within 30 days." },
+    { key: "agentId", label: "Agent for other questions", type: "user", description: "Leave empty to only reply" },
+  ],
+  build: (p) => {
+    const nodes: BlueprintNode[] = [
+      question("menu", `Hi! Welcome to ${p.businessName}. What can we help you with?`, "faq_topic", {
+        replyType: "list",
+        listButtonText: "See topics",
+        listSections: [{
+          id: "topics",
+          title: "Topics",
+          rows: [
+            { id: "hours", title: "Opening hours" },
+            { id: "shipping", title: "Shipping" },
+            { id: "returns", title: "Returns" },
+            { id: "human", title: "Talk to a person" },
+          ],
+        }],
+        maxAttempts: 1,
+        retryMessage: "Please pick a topic from the list.",
+      }),
+      message("hours", p.openingHours),
+      message("shipping", p.shippingInfo),
+      message("returns", p.returnsInfo),
+      message("handoff", "Thanks! A member of our team will reply here shortly."),
+    ];
+    const edges: BlueprintEdge[] = [
+      { from: "menu", to: "hours", handle: "hours", label: "Opening hours" },
+      { from: "menu", to: "shipping", handle: "shipping", label: "Shipping" },
+      { from: "menu", to: "returns", handle: "returns", label: "Returns" },
+      { from: "menu", to: "handoff", handle: "human", label: "Talk to a person" },
+      { from: "menu", to: "handoff", handle: "no_match", label: "No match" },
+    ];
+    if (p.agentId) {
+      nodes.push(assign("assign", p.agentId));
+      edges.push({ from: "handoff", to: "assign" });
+    }
+    return {
+      trigger: "message_received",
+      triggerConfig: { keywords: ["menu", "help", "faq"], matchType: "any" },
+      nodes,
+      edges,
+    };
+  },
+};
+
+const leadQualification: StarterDefinition = {
+  id: "lead_qualification",
+  name: "Lead qualification",
+  description: "Collects name, email and budget from new chats and routes large deals to sales.",
+  category: "sales",
+  parameters: [
+    { key: "businessName", label: "Business name", type: "text", required: true },
+    { key: "salesRepId", label: "Sales rep for large budgets", type: "user" },
+    { key: "crmWebhookUrl", label: "CRM webhook", type: "url", description: "Receives the lead as JSON, optional" },
+  ],
+  build: (p) => {
+    const nodes: BlueprintNode[] = [
+      question("name", `Hi, thanks for reaching out to ${p.businessName}! What's your name?`, "lead_name"),
+      question("email", "Nice to meet you, {{lead_name}}. What's your email address?", "lead_email", {
+        validation: {
+          type: "email",
+          retryMessage: "That doesn't look like an email address, could you check it?",
+          maxAttempts: 2,
+        },
+      }),
+      question("budget", "What budget do you have in mind?", "lead_budget", {
+        buttons: buttons([["budget_small", "Under $1k"], ["budget_mid", "$1k to $5k"], ["budget_large", "Over $5k"]]),
+      }),
+      message("thanks", "Thanks {{lead_name}}! We'll email you at {{lead_email}} within one business day."),
+      message("priority", "Thanks {{lead_name}}! A sales specialist will contact you today."),
+    ];
+    const edges: BlueprintEdge[] = [
+      { from: "name", to: "email" },
+      { from: "email", to: "budget", handle: "valid", label: "Valid" },
+      { from: "email", to: "budget", handle: "invalid", label: "Invalid" },
+      { from: "budget", to: "thanks", handle: "budget_small", label: "Under $1k" },
+      { from: "budget", to: "thanks", handle: "budget_mid", label: "$1k to $5k" },
+      { from: "budget", to: "priority", handle: "budget_large", label: "Over $5k" },
+      { from: "budget", to: "thanks", handle: "no_match", label: "No match" },
+    ];
+    if (p.salesRepId) {
+      nodes.push(assign("assign", p.salesRepId));
+      edges.push({ from: "priority", to: "assign" });
+    }
+    if (p.crmWebhookUrl) {
+      nodes.push({
+        key: "crm",
+        type: "http_request",
+        data: {
+          label: "HTTP Request",
+          method: "POST",
+          url: p.crmWebhookUrl,
+          headers: [],
+          body: '{"name": "{{lead_name}}", "email": "{{lead_email}}", "budget": "{{lead_budget}}", "contactId": "{{contactId}}"}',
+          timeout: 10,
+          responseMappings: [],
+        },
+      });
+      edges.push({ from: "thanks", to: "crm" });
+    }
+    return { trigger: "new_conversation", triggerConfig: {}, nodes, edges };
+  },
+};
+
+const appointmentBooking: StarterDefinition = {
+  id: "appointment_booking",
+  name: "Appointment booking",
+  description: "Asks for a service, date and time slot, then confirms the request.",
+  category: "scheduling",
+  parameters: [
+    { key: "services", label: "Services", type: "list", required: true, default: "Consultation, Follow-up, Check-up", description: "Comma separated, up to 10" },
+    { key: "confirmationTemplateId", label: "Confirmation template", type: "template", description: "Sent after booking, optional" },
+    { key: "staffId", label: "Staff member who confirms bookings", type: "user" },
+  ],
+  build: (p) => {
+    const services = splitList(p.services).slice(0, 10);
+    const nodes: BlueprintNode[] = [
+      question("service", "Which service would you like to book?", "appointment_service", {
+        replyType: "list",
+        listButtonText: "Choose a service",
+        listSections: [{
+          id: "services",
+          title: "Services",
+          rows: services.map((title, index) => ({ id: `service_${index + 1}`, title: title.slice(0, 24) })),
+        }],
+        maxAttempts: 1,
+      }),
+      question("date", "What date works for you? For example 24/05/2025.", "appointment_date", {
+        validation: { type: "date", dateOrder: "DMY", maxAttempts: 2 },
+      }),
+      question("slot", "Which time of day do you prefer?", "appointment_slot", {
+        buttons: buttons([["morning", "Morning"], ["afternoon", "Afternoon"], ["evening", "Evening"]]),
+      }),
+      message(
+        "confirm",
+        "Thanks! We've noted {{appointment_service}} on {{appointment_date_normalized}} ({{appointment_slot}}). We'll confirm shortly."
+      ),
+      message("retry", "Sorry, we couldn't read that date. A member of our team will follow up to schedule."),
+    ];
+    const edges: BlueprintEdge[] = [
+      ...services.map((title, index) => ({
+        from: "service",
+        to: "date",
+        handle: `service_${index + 1}`,
+        label: title.slice(0, 24),
+      })),
+      { from: "service", to: "date", handle: "no_match", label: "No match" },
+      { from: "date", to: "slot", handle: "valid", label: "Valid" },
+      { from: "date", to: "retry", handle: "invalid", label: "Invalid" },
+      { from: "slot", to: "confirm", handle: "morning", label: "Morning" },
+      { from: "slot", to: "confirm", handle: "afternoon", label: "Afternoon" },
+      { from: "slot", to: "confirm", handle: "evening", label: "Evening" },
+      { from: "slot", to: "confirm", handle: "no_match", label: "No match" },
+    ];
+    let last = "confirm";
+    if (p.confirmationTemplateId) {
+      nodes.push(sendTemplate("template", p.confirmationTemplateId));
+      edges.push({ from: last, to: "template" });
+      last = "template";
+    }
+    if (p.staffId) {
+      nodes.push(assign("assign", p.staffId));
+      edges.push({ from: last, to: "assign" });
+    }
+    return {
+      trigger: "message_received",
+      triggerConfig: { keywords: ["book", "appointment", "schedule"], matchType: "any" },
+      nodes,
+      edges,
+    };
+  },
+};
+
+const orderStatus: StarterDefinition = {
+  id: "order_status",
+  name: "Order status lookup",
+  description: "Asks for an order number and looks it up in your order API.",
+  category: "commerce",
+  parameters: [
+    { key: "statusApiUrl", label: "Order status API URL", type: "url", required: true, description: "Called with ?order=<number>, should return JSON with status and eta" },
+    { key: "apiKey", label: "API key", type: "text", description: "Sent as a Bearer token, optional" },
+    { key: "agentId", label: "Agent when the lookup fails", type: "user" },
+  ],
+  build: (p) => {
+    const separator = p.statusApiUrl.includes("?") ? "&" : "?";
+    const nodes: BlueprintNode[] = [
+      question("order", "Please send your order number.", "order_number", {
+        validation: {
+          type: "regex",
+          pattern: "^[A-Za-z0-9-]{4,}$",
+          retryMessage: "Order numbers are at least 4 letters or digits, please try again.",
+          maxAttempts: 2,
+        },
+      }),
+      {
+        key: "lookup",
+        type: "http_request",
+        data: {
+          label: "HTTP Request",
+          method: "GET",
+          url: `${p.statusApiUrl}${separator}order={{order_number}}`,
+          headers: p.apiKey ? [{ key: "Authorization", value: `Bearer ${p.apiKey}` }] : [],
+          body: "",
+          timeout: 10,
+          responseMappings: [
+            { variable: "order_status", path: "$.status" },
+            { variable: "order_eta", path: "$.eta" },
+          ],
+        },
+      },
+      message("found", "Order {{order_number}} is {{order_status}}. Expected delivery: {{order_eta}}."),
+      message("not_found", "We couldn't find order {{order_number}}. A member of our team will look into it."),
+      message("invalid", "Sorry, we couldn't read that order number. A member of our team will help you."),
+    ];
+    const edges: BlueprintEdge[] = [
+      { from: "order", to: "lookup", handle: "valid", label: "Valid" },
+      { from: "order", to: "invalid", handle: "invalid", label: "Invalid" },
+      { from: "lookup", to: "found", handle: "success", label: "Success" },
+      { from: "lookup", to: "not_found", handle: "error", label: "Error" },
+    ];
+    if (p.agentId) {
+      nodes.push(assign("assign", p.agentId));
+      edges.push({ from: "not_found", to: "assign" }, { from: "invalid", to: "assign" });
+    }
+    return {
+      trigger: "message_received",
+      triggerConfig: { keywords: ["order", "status", "track"], matchType: "any" },
+      nodes,
+      edges,
+    };
+  },
+};
+
+const optOut: StarterDefinition = {
+  id: "opt_out",
+  name: "Opt-out handling",
+  description: "Confirms STOP and UNSUBSCRIBE requests and notifies your system.",
+  category: "compliance",
+  parameters: [
+    { key: "businessName", label: "Business name", type: "text", required: true },
+    { key: "optOutWebhookUrl", label: "Opt-out webhook", type: "url", description: "Receives the contact id, optional" },
+  ],
+  build: (p) => {
+    const nodes: BlueprintNode[] = [
+      question("confirm", `Do you want to stop receiving messages from ${p.businessName}?`, "opt_out_choice", {
+        buttons: buttons([["opt_out_yes", "Yes, unsubscribe"], ["opt_out_no", "No, keep me"]]),
+      }),
+      message("done", `You're unsubscribed and won't get more messages from ${p.businessName}. Reply START to subscribe again.`),
+      message("kept", "Great, you're still subscribed."),
+    ];
+    const edges: BlueprintEdge[] = [
+      { from: "confirm", to: "done", handle: "opt_out_yes", label: "Yes, unsubscribe" },
+      { from: "confirm", to: "kept", handle: "opt_out_no", label: "No, keep me" },
+      { from: "confirm", to: "kept", handle: "no_match", label: "No match" },
+    ];
+    if (p.optOutWebhookUrl) {
+      nodes.push({
+        key: "notify",
+        type: "http_request",
+        data: {
+          label: "HTTP Request",
+          method: "POST",
+          url: p.optOutWebhookUrl,
+          headers: [],
+          body: '{"contactId": "{{contactId}}", "event": "opt_out"}',
+          timeout: 10,
+          responseMappings: [],
+        },
+      });
+      edges.push({ from: "done", to: "notify" });
+    }
+    return {
+      trigger: "message_received",
+      triggerConfig: { keywords: ["stop", "unsubscribe"], matchType: "exact", priority: 100 },
+      nodes,
+      edges,
+    };
+  },
+};
+
+const STARTERS: StarterDefinition[] = [faqMenu, leadQualification, appointmentBooking, orderStatus, optOut];
+
+export function listStarters(): StarterFlow[] {
+  return STARTERS.map(({ build: _build, ...starter }) => starter);
+}
+
+export function getStarter(id: string): StarterFlow | undefined {
+  return listStarters().find((starter) => starter.id === id);
+}
+
+/**
+ * Fill in defaults and check parameters against the target channel.
+ * Returns the resolved parameters, or the first problem found.
+ */
+export async function resolveStarterParameters(
+  starter: StarterFlow,
+  input: Params,
+  channelId: string
+): Promise<{ params: Params } | { error: string }> {
+  const params: Params = {};
+
+  for (const parameter of starter.parameters) {
+    const raw = input[parameter.key];
+    const value = (typeof raw === "string" ? raw.trim() : "") || parameter.default || "";
+
+    if (!value) {
+      if (parameter.required) return { error: `${parameter.label} is required` };
+      continue;
+    }
+
+    if (parameter.type === "url" && !/^https?:\/\//i.test(value)) {
+      return { error: `${parameter.label} must start with http:// or https://` };
+    }
+    if (parameter.type === "template") {
+      const template = await db.query.templates.findFirst({
+        columns: { id: true },
+        where: and(eq(templates.id, value), eq(templates.channelId, channelId)),
+      });
+      if (!template) return { error: `${parameter.label}: template not found on this channel` };
+    }
+    if (parameter.type === "user") {
+      const user = await db.query.users.findFirst({
+        columns: { id: true },
+        where: eq(users.id, value),
+      });
+      if (!user) return { error: `${parameter.label}: user not found` };
+    }
+    if (parameter.type === "list" && splitList(value).length === 0) {
+      return { error: `${parameter.label} needs at least one item` };
+    }
+
+    params[parameter.key] = value;
+  }
+
+  return { params };
+}
+
+function newNodeId() {
+  return `node_${Date.now()}_${randomUUID().slice(0, 8)}`;
+}
+
+// Lays nodes out top to bottom by distance from the first one
+function layout(blueprint: Blueprint) {
+  const depth = new Map<string, number>([[blueprint.nodes[0].key, 0]]);
+  const queue = [blueprint.nodes[0].key];
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    for (const edge of blueprint.edges.filter((e) => e.from === key)) {
+      if (!depth.has(edge.to)) {
+        depth.set(edge.to, depth.get(key)! + 1);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  const perRow = new Map<number, number>();
+  const positions = new Map<string, { x: number; y: number }>();
+  for (const node of blueprint.nodes) {
+    const row = depth.get(node.key) ?? depth.size;
+    const column = perRow.get(row) ?? 0;
+    perRow.set(row, column + 1);
+    positions.set(node.key, { x: 200 + column * 300, y: 160 + row * 180 });
+  }
+  return positions;
+}
+
+/**
+ * Build an unsaved automation from a starter with resolved parameters
+ */
+export function instantiateStarter(id: string, params: Params, channelId: string) {
+  const starter = STARTERS.find((s) => s.id === id);
+  if (!starter) return undefined;
+
+  const blueprint = starter.build(params);
+  const positions = layout(blueprint);
+  const ids = new Map(blueprint.nodes.map((node) => [node.key, newNodeId()]));
+
+  return {
+    channelId,
+    name: starter.name,
+    description: starter.description,
+    trigger: blueprint.trigger,
+    triggerConfig: blueprint.triggerConfig,
+    automation_nodes: blueprint.nodes.map((node) => ({
+      nodeId: ids.get(node.key)!,
+      type: node.type,
+      position: positions.get(node.key),
+      data: node.data,
+    })),
+    automation_edges: blueprint.edges.map((edge) => {
+      const sourceNodeId = ids.get(edge.from)!;
+      const targetNodeId = ids.get(edge.to)!;
+      return {
+        id: `edge-${sourceNodeId}-${edge.handle ?? "out"}-${targetNodeId}`,
+        sourceNodeId,
+        targetNodeId,
+        sourceHandle: edge.handle ?? null,
+        label: edge.label ?? null,
+      };
+    }),
+  };
+}
@@ -0,0 +1,234 @@
+// Reconstructs what an execution did from its node logs, for the run viewer
+import { and, desc, eq, gte, ilike, lte, sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import {
+  automationExecutionLogs,
+  automationExecutions,
+  automations,
+  messages,
+  type AutomationExecution,
+  type AutomationExecutionLog,
+} from "@shared/schema";
+import { getDraftSnapshot, getVersion, versionSnapshot, type FlowSnapshot } from "./automation-versions";
+
+// One visit of a node. A user_reply visit spans the question, any re-prompts and the answer.
+export interface TimelineStep {
+  index: number;
+  nodeId: string;
+  nodeType: string;
+  status: string;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  waitedMs: number; // time spent waiting for the contact, an agent or a delay
+  input: unknown;
+  output: unknown;
+  error: string | null;
+  variables: Record<string, any> | null;
+  events: Array<{ status: string; at: Date | null; output: unknown; error: string | null }>;
+}
+
+export interface ExecutionTimeline {
+  execution: AutomationExecution;
+  automation: { id: string; name: string; channelId: string | null };
+  flow: FlowSnapshot | null;
+  flowSource: "version" | "draft"; // draft flows may have changed since the run
+  steps: TimelineStep[];
+  failure: { nodeId: string; nodeType: string; error: string | null; at: Date | null } | null;
+  messages: Array<{
+    id: string;
+    direction: string | null;
+    content: string;
+    type: string | null;
+    status: string | null;
+    createdAt: Date | null;
+  }>;
+}
+
+// Logs store input and output as JSON strings
+function parse(value: unknown) {
+  if (typeof value !== "string") return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function time(log: AutomationExecutionLog) {
+  return log.executedAt ? new Date(log.executedAt).getTime() : 0;
+}
+
+export function buildSteps(logs: AutomationExecutionLog[]): TimelineStep[] {
+  const steps: TimelineStep[] = [];
+  const open = new Map<string, TimelineStep>();
+  const waitingSince = new Map<string, number>();
+  let failed = false;
+
+  for (const log of logs) {
+    // A failing node is logged again by every node above it in the call chain
+    if (log.status === "failed" && failed) continue;
+
+    let step = open.get(log.nodeId);
+    if (!step || log.status === "running") {
+      step = {
+        index: steps.length,
+        nodeId: log.nodeId,
+        nodeType: log.nodeType,
+        status: log.status,
+        startedAt: log.executedAt,
+        finishedAt: null,
+        waitedMs: 0,
+        input: parse(log.input),
+        output: null,
+        error: null,
+        variables: null,
+        events: [],
+      };
+      steps.push(step);
+      open.set(log.nodeId, step);
+    }
+
+    const since = waitingSince.get(log.nodeId);
+    if (since !== undefined && log.status !== "running") {
+      step.waitedMs += Math.max(0, time(log) - since);
+      waitingSince.delete(log.nodeId);
+    }
+    const waits = log.status === "waiting_for_response" || log.status === "waiting_for_agent";
+    if (waits || (log.status === "running" && log.nodeType === "time_gap")) {
+      waitingSince.set(log.nodeId, time(log));
+    }
+
+    const output = parse(log.output);
+    step.status = log.status;
+    step.finishedAt = log.executedAt;
+    step.output = output ?? step.output;
+    step.error = log.error ?? step.error;
+    step.variables = (log.variables as Record<string, any> | null) ?? step.variables;
+    step.events.push({ status: log.status, at: log.executedAt, output, error: log.error });
+
+    if (log.status === "failed") failed = true;
+    if (log.status === "completed" || log.status === "failed") open.delete(log.nodeId);
+  }
+
+  return steps;
+}
+
+export async function getExecutionTimeline(executionId: string): Promise<ExecutionTimeline | undefined> {
+  const execution = await db.query.automationExecutions.findFirst({
+    where: eq(automationExecutions.id, executionId),
+  });
+  if (!execution) return undefined;
+
+  const automation = await db.query.automations.findFirst({
+    columns: { id: true, name: true, channelId: true },
+    where: eq(automations.id, execution.automationId),
+  });
+  if (!automation) return undefined;
+
+  const version = execution.versionId ? await getVersion(execution.automationId, execution.versionId) : undefined;
+  const flow = version ? versionSnapshot(version) : (await getDraftSnapshot(execution.automationId)) ?? null;
+
+  const logs = await db.select()
+    .from(automationExecutionLogs)
+    .where(eq(automationExecutionLogs.executionId, executionId))
+    .orderBy(automationExecutionLogs.executedAt);
+  const steps = buildSteps(logs);
+
+  const failedStep = steps.find((step) => step.status === "failed");
+  const failure = failedStep
+    ? { nodeId: failedStep.nodeId, nodeType: failedStep.nodeType, error: failedStep.error, at: failedStep.finishedAt }
+    : null;
+
+  // The conversation while the run was going, automated replies and the contact's answers
+  const conversationMessages = execution.conversationId && execution.startedAt
+    ? await db.select({
+        id: messages.id,
+        direction: messages.direction,
+        content: messages.content,
+        type: messages.type,
+        status: messages.status,
+        createdAt: messages.createdAt,
+      })
+        .from(messages)
+        .where(and(
+          eq(messages.conversationId, execution.conversationId),
+          gte(messages.createdAt, execution.startedAt),
+          lte(messages.createdAt, execution.completedAt ?? new Date())
+        ))
+        .orderBy(messages.createdAt)
+        .limit(500)
+    : [];
+
+  return {
+    execution,
+    automation,
+    flow,
+    flowSource: version ? "version" : "draft",
+    steps,
+    failure,
+    messages: conversationMessages,
+  };
+}
+
+export interface ExecutionRunFilters {
+  channelId?: string;
+  automationId?: string;
+  status?: string;
+  nodeId?: string; // node a failed run stopped at
+  error?: string; // text in the failure message
+  limit: number;
+  offset: number;
+}
+
+export async function listExecutionRuns(filters: ExecutionRunFilters) {
+  const conditions: SQL[] = [];
+  if (filters.channelId) conditions.push(eq(automations.channelId, filters.channelId));
+  if (filters.automationId) conditions.push(eq(automationExecutions.automationId, filters.automationId));
+  if (filters.status) conditions.push(eq(automationExecutions.status, filters.status));
+  if (filters.error) conditions.push(ilike(automationExecutions.result, `%${filters.error}%`));
+  if (filters.nodeId) {
+    conditions.push(sql`exists (
+      select 1 from ${automationExecutionLogs}
+      where ${automationExecutionLogs.executionId} = ${automationExecutions.id}
+        and ${automationExecutionLogs.status} = 'failed'
+        and ${automationExecutionLogs.nodeId} = ${filters.nodeId}
+    )`);
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  // Node a failed run stopped at: its first failed log
+  const failedNode = sql<string | null>`(
+    select ${automationExecutionLogs.nodeId} from ${automationExecutionLogs}
+    where ${automationExecutionLogs.executionId} = ${automationExecutions.id}
+      and ${automationExecutionLogs.status} = 'failed'
+    order by ${automationExecutionLogs.executedAt}
+    limit 1
+  )`;
+
+  const runs = await db.select({
+    id: automationExecutions.id,
+    automationId: automationExecutions.automationId,
+    automationName: automations.name,
+    contactId: automationExecutions.contactId,
+    conversationId: automationExecutions.conversationId,
+    status: automationExecutions.status,
+    result: automationExecutions.result,
+    currentNodeId: automationExecutions.currentNodeId,
+    failedNodeId: failedNode,
+    startedAt: automationExecutions.startedAt,
+    completedAt: automationExecutions.completedAt,
+  })
+    .from(automationExecutions)
+    .innerJoin(automations, eq(automations.id, automationExecutions.automationId))
+    .where(where)
+    .orderBy(desc(automationExecutions.startedAt))
+    .limit(filters.limit)
+    .offset(filters.offset);
+
+  const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+    .from(automationExecutions)
+    .innerJoin(automations, eq(automations.id, automationExecutions.automationId))
+    .where(where);
+
+  return { runs, total };
+}
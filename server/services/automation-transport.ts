@@ -0,0 +1,36 @@
+// Outbound side effects of an automation execution.
+//
+// The execution service sends through WhatsApp by default; the simulator
+// swaps in an in-memory transport so a flow can be exercised without
+// messaging a real number.
+import type { Contact } from "@shared/schema";
+
+export interface ReplyButton {
+  id: string;
+  text: string;
+}
+
+// Rows of a user_reply list message, grouped in sections
+export interface ListSection {
+  title?: string;
+  rows: Array<{ id: string; title: string; description?: string }>;
+}
+
+export interface AutomationTransport {
+  sendText(contact: Contact, text: string, conversationId?: string): Promise<unknown>;
+  sendButtons(contact: Contact, text: string, buttons: ReplyButton[], conversationId?: string): Promise<unknown>;
+  sendList(
+    contact: Contact,
+    text: string,
+    buttonText: string | undefined,
+    sections: ListSection[],
+    conversationId?: string
+  ): Promise<unknown>;
+  sendMedia(contact: Contact, nodeData: any, caption: string, conversationId?: string): Promise<unknown>;
+  sendTemplate(contact: Contact, templateName: string, parameters: any[], conversationId?: string): Promise<unknown>;
+  assignConversation(conversationId: string, assigneeId: string): Promise<unknown>;
+  // Hand over to an agent, or leave the conversation pending when nobody is available
+  handoffConversation(conversationId: string, assigneeId: string | null): Promise<unknown>;
+  // Note shown to agents in the inbox, never sent to the contact
+  postInternalNote(conversationId: string, text: string): Promise<unknown>;
+}
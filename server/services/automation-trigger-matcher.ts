@@ -0,0 +1,139 @@
+// Decides which message_received automations apply to an inbound message,
+// and which contacts the other triggers may start an automation for
+import type { Automation, AutomationTriggerConfig } from "@shared/schema";
+import { DEFAULT_TIMEZONE, getZonedParts, isValidTimezone } from "server/utils/automation-delay";
+
+export interface TriggerMatchContext {
+  text: string;
+  isFirstMessage: boolean;
+  contactTags: string[];
+  now?: Date;
+}
+
+export interface TriggerMatch {
+  automation: Automation;
+  matchedKeyword: string | null;
+  specificity: number;
+}
+
+// Exact and all-keyword rules are more specific than a single "any" hit
+const SPECIFICITY: Record<NonNullable<AutomationTriggerConfig["matchType"]>, number> = {
+  exact: 4,
+  regex: 3,
+  all: 2,
+  any: 1,
+};
+
+function toMinutes(value: string | undefined, fallback: number): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || "");
+  if (!match) return fallback;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+export function isWithinBusinessHours(
+  hours: NonNullable<AutomationTriggerConfig["businessHours"]>,
+  now: Date = new Date()
+): boolean {
+  const timezone = isValidTimezone(hours.timezone) ? hours.timezone : DEFAULT_TIMEZONE;
+  const parts = getZonedParts(now, timezone);
+  const weekday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+  const days = hours.days && hours.days.length > 0 ? hours.days : [1, 2, 3, 4, 5];
+  if (!days.includes(weekday)) return false;
+
+  const minutes = parts.hour * 60 + parts.minute;
+  const start = toMinutes(hours.start, 9 * 60);
+  const end = toMinutes(hours.end, 18 * 60);
+
+  // Windows like 22:00-06:00 wrap past midnight
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+// Returns the keyword that matched, "" when the config has no keywords,
+// or null when the message does not match
+export function matchKeywords(config: AutomationTriggerConfig, text: string): string | null {
+  const keywords = (config.keywords || []).map((k) => k.trim()).filter(Boolean);
+  if (keywords.length === 0) return "";
+
+  const normalize = (value: string) => (config.caseSensitive ? value : value.toLowerCase());
+  const input = normalize(text.trim());
+
+  switch (config.matchType || "any") {
+    case "exact":
+      return keywords.find((k) => normalize(k) === input) ?? null;
+
+    case "all":
+      return keywords.every((k) => input.includes(normalize(k))) ? keywords.join(", ") : null;
+
+    case "regex":
+      for (const pattern of keywords) {
+        try {
+          if (new RegExp(pattern, config.caseSensitive ? "" : "i").test(text)) {
+            return pattern;
+          }
+        } catch {
+          console.warn(`⚠️ Invalid trigger regex ignored: ${pattern}`);
+        }
+      }
+      return null;
+
+    case "any":
+    default:
+      return keywords.find((k) => input.includes(normalize(k))) ?? null;
+  }
+}
+
+// The trigger's "has any tag" and "has none of the tags" filters
+export function matchesContactTags(config: AutomationTriggerConfig, contactTags: string[]): boolean {
+  const tags = contactTags.map((t) => t.toLowerCase());
+  if (config.contactTags?.length && !config.contactTags.some((t) => tags.includes(t.toLowerCase()))) {
+    return false;
+  }
+  if (config.excludeTags?.length && config.excludeTags.some((t) => tags.includes(t.toLowerCase()))) {
+    return false;
+  }
+  return true;
+}
+
+export function matchTrigger(automation: Automation, context: TriggerMatchContext): TriggerMatch | null {
+  const config = (automation.triggerConfig || {}) as AutomationTriggerConfig;
+
+  if (config.firstMessageOnly && !context.isFirstMessage) return null;
+
+  if (config.businessHours?.enabled && !isWithinBusinessHours(config.businessHours, context.now)) {
+    return null;
+  }
+
+  if (!matchesContactTags(config, context.contactTags)) return null;
+
+  const matchedKeyword = matchKeywords(config, context.text);
+  if (matchedKeyword === null) return null;
+
+  return {
+    automation,
+    matchedKeyword: matchedKeyword || null,
+    specificity: matchedKeyword ? SPECIFICITY[config.matchType || "any"] : 0,
+  };
+}
+
+/**
+ * Pick the single automation that should run for a message.
+ * Highest priority wins; ties go to the more specific keyword rule, then to
+ * the oldest automation so the choice is stable.
+ */
+export function selectBestMatch(automations: Automation[], context: TriggerMatchContext): TriggerMatch | null {
+  const matches = automations
+    .map((automation) => matchTrigger(automation, context))
+    .filter((match): match is TriggerMatch => match !== null);
+
+  matches.sort((a, b) => {
+    const priorityA = (a.automation.triggerConfig as AutomationTriggerConfig | null)?.priority ?? 0;
+    const priorityB = (b.automation.triggerConfig as AutomationTriggerConfig | null)?.priority ?? 0;
+    if (priorityA !== priorityB) return priorityB - priorityA;
+    if (a.specificity !== b.specificity) return b.specificity - a.specificity;
+    return (a.automation.createdAt?.getTime() ?? 0) - (b.automation.createdAt?.getTime() ?? 0);
+  });
+
+  return matches[0] ?? null;
+}
@@ -0,0 +1,292 @@
+// Published versions of an automation.
+//
+// The automation_nodes and automation_edges tables are the draft the builder
+// edits. Publishing copies the draft into an immutable automation_versions
+// row, and executions stay on the version they started with, so editing a
+// live bot never changes conversations that are already mid-flow.
+import { db } from "../db";
+import {
+  automations,
+  automationNodes,
+  automationEdges,
+  automationVersions,
+  type AutomationTriggerConfig,
+  type AutomationVersion,
+  type AutomationVersionEdge,
+  type AutomationVersionNode,
+} from "@shared/schema";
+import { and, desc, eq } from "drizzle-orm";
+
+export interface FlowSnapshot {
+  trigger: string;
+  triggerConfig: AutomationTriggerConfig | null;
+  nodes: AutomationVersionNode[];
+  edges: AutomationVersionEdge[];
+}
+
+interface NodeSummary {
+  nodeId: string;
+  type: string;
+  label: string;
+}
+
+export interface FlowDiff {
+  trigger: { from: string; to: string } | null;
+  triggerConfigChanged: boolean;
+  nodes: {
+    added: NodeSummary[];
+    removed: NodeSummary[];
+    changed: Array<NodeSummary & { fields: string[] }>;
+  };
+  edges: {
+    added: AutomationVersionEdge[];
+    removed: AutomationVersionEdge[];
+  };
+  hasChanges: boolean;
+}
+
+// Key order must not count as a change, jsonb does not preserve it
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .filter((key) => (value as any)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableJson((value as any)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function sameJson(a: unknown, b: unknown) {
+  return stableJson(a) === stableJson(b);
+}
+
+function summarize(node: AutomationVersionNode): NodeSummary {
+  const data = node.data || {};
+  return {
+    nodeId: node.nodeId,
+    type: node.type,
+    label: data.label || data.title || data.message?.slice?.(0, 40) || node.type,
+  };
+}
+
+// Edges are identified by what they connect, builder ids are regenerated
+function edgeKey(edge: AutomationVersionEdge) {
+  return `${edge.sourceNodeId}|${edge.sourceHandle ?? ""}|${edge.targetNodeId}`;
+}
+
+/**
+ * Compare two flows. Node config changes are reported per top level field
+ * of node data; a move on the canvas shows up as "position".
+ */
+export function diffFlows(from: FlowSnapshot, to: FlowSnapshot): FlowDiff {
+  const before = new Map(from.nodes.map((n) => [n.nodeId, n]));
+  const after = new Map(to.nodes.map((n) => [n.nodeId, n]));
+
+  const added = to.nodes.filter((n) => !before.has(n.nodeId)).map(summarize);
+  const removed = from.nodes.filter((n) => !after.has(n.nodeId)).map(summarize);
+
+  const changed: FlowDiff["nodes"]["changed"] = [];
+  for (const node of to.nodes) {
+    const previous = before.get(node.nodeId);
+    if (!previous) continue;
+
+    const fields: string[] = [];
+    if (previous.type !== node.type) fields.push("type");
+    if (!sameJson(previous.position, node.position)) fields.push("position");
+
+    const oldData = previous.data || {};
+    const newData = node.data || {};
+    const keys = Array.from(new Set([...Object.keys(oldData), ...Object.keys(newData)]));
+    for (const key of keys.sort()) {
+      if (!sameJson(oldData[key], newData[key])) fields.push(key);
+    }
+
+    if (fields.length > 0) {
+      changed.push({ ...summarize(node), fields });
+    }
+  }
+
+  const oldEdges = new Set(from.edges.map(edgeKey));
+  const newEdges = new Set(to.edges.map(edgeKey));
+
+  const diff: FlowDiff = {
+    trigger: from.trigger !== to.trigger ? { from: from.trigger, to: to.trigger } : null,
+    triggerConfigChanged: !sameJson(from.triggerConfig ?? {}, to.triggerConfig ?? {}),
+    nodes: { added, removed, changed },
+    edges: {
+      added: to.edges.filter((e) => !oldEdges.has(edgeKey(e))),
+      removed: from.edges.filter((e) => !newEdges.has(edgeKey(e))),
+    },
+    hasChanges: false,
+  };
+  diff.hasChanges =
+    !!diff.trigger ||
+    diff.triggerConfigChanged ||
+    added.length + removed.length + changed.length > 0 ||
+    diff.edges.added.length + diff.edges.removed.length > 0;
+  return diff;
+}
+
+export function versionSnapshot(version: AutomationVersion): FlowSnapshot {
+  return {
+    trigger: version.trigger,
+    triggerConfig: version.triggerConfig,
+    nodes: version.nodes,
+    edges: version.edges,
+  };
+}
+
+/**
+ * Current draft of an automation, undefined when it does not exist
+ */
+export async function getDraftSnapshot(automationId: string): Promise<FlowSnapshot | undefined> {
+  const automation = await db.query.automations.findFirst({
+    where: eq(automations.id, automationId),
+    with: { nodes: true, edges: true },
+  });
+  if (!automation) return undefined;
+
+  return {
+    trigger: automation.trigger,
+    triggerConfig: automation.triggerConfig,
+    nodes: automation.nodes.map((node) => ({
+      nodeId: node.nodeId,
+      type: node.type,
+      subtype: node.subtype,
+      position: node.position,
+      measured: node.measured,
+      data: node.data,
+      connections: node.connections,
+    })),
+    edges: automation.edges.map((edge) => ({
+      id: edge.id,
+      sourceNodeId: edge.sourceNodeId,
+      targetNodeId: edge.targetNodeId,
+      sourceHandle: edge.sourceHandle,
+      label: edge.label,
+      animated: edge.animated,
+    })),
+  };
+}
+
+export async function listVersions(automationId: string) {
+  return db.query.automationVersions.findMany({
+    where: eq(automationVersions.automationId, automationId),
+    orderBy: [desc(automationVersions.version)],
+  });
+}
+
+export async function getVersion(automationId: string, versionId: string) {
+  return db.query.automationVersions.findFirst({
+    where: and(
+      eq(automationVersions.id, versionId),
+      eq(automationVersions.automationId, automationId)
+    ),
+  });
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Locks the automation row so concurrent publishes get distinct numbers
+async function insertVersion(
+  tx: Transaction,
+  automationId: string,
+  snapshot: FlowSnapshot,
+  createdBy?: string | null,
+  note?: string
+) {
+  await tx.select({ id: automations.id })
+    .from(automations)
+    .where(eq(automations.id, automationId))
+    .for("update");
+
+  const [latest] = await tx.select({ version: automationVersions.version })
+    .from(automationVersions)
+    .where(eq(automationVersions.automationId, automationId))
+    .orderBy(desc(automationVersions.version))
+    .limit(1);
+
+  const [version] = await tx.insert(automationVersions).values({
+    automationId,
+    version: (latest?.version ?? 0) + 1,
+    trigger: snapshot.trigger,
+    triggerConfig: snapshot.triggerConfig ?? {},
+    nodes: snapshot.nodes,
+    edges: snapshot.edges,
+    note,
+    createdBy: createdBy ?? null,
+  }).returning();
+
+  await tx.update(automations)
+    .set({ publishedVersionId: version.id, updatedAt: new Date() })
+    .where(eq(automations.id, automationId));
+
+  return version;
+}
+
+/**
+ * Publish the draft as a new version. New executions start on it; running
+ * ones finish on the version they started with.
+ */
+export async function publishDraft(automationId: string, createdBy?: string | null, note?: string) {
+  const snapshot = await getDraftSnapshot(automationId);
+  if (!snapshot) return undefined;
+
+  return db.transaction((tx) => insertVersion(tx, automationId, snapshot, createdBy, note));
+}
+
+/**
+ * Make an older version live again. The rollback is published as a new
+ * version so history stays linear, and the draft is reset to match it.
+ */
+export async function rollbackToVersion(
+  automationId: string,
+  target: AutomationVersion,
+  createdBy?: string | null
+) {
+  const snapshot = versionSnapshot(target);
+
+  return db.transaction(async (tx) => {
+    await tx.update(automations)
+      .set({ trigger: snapshot.trigger, triggerConfig: snapshot.triggerConfig ?? {} })
+      .where(eq(automations.id, automationId));
+
+    // Edges reference nodes, so they go first and come back last
+    await tx.delete(automationEdges).where(eq(automationEdges.automationId, automationId));
+    await tx.delete(automationNodes).where(eq(automationNodes.automationId, automationId));
+
+    if (snapshot.nodes.length > 0) {
+      await tx.insert(automationNodes).values(
+        snapshot.nodes.map((node) => ({
+          automationId,
+          nodeId: node.nodeId,
+          type: node.type,
+          subtype: node.subtype ?? null,
+          position: node.position ?? {},
+          measured: node.measured ?? {},
+          data: node.data ?? {},
+          connections: node.connections ?? [],
+        }))
+      );
+    }
+    if (snapshot.edges.length > 0) {
+      await tx.insert(automationEdges).values(
+        snapshot.edges.map((edge) => ({
+          id: edge.id,
+          automationId,
+          sourceNodeId: edge.sourceNodeId,
+          targetNodeId: edge.targetNodeId,
+          sourceHandle: edge.sourceHandle ?? null,
+          label: edge.label ?? null,
+          animated: edge.animated ?? false,
+        }))
+      );
+    }
+
+    return insertVersion(tx, automationId, snapshot, createdBy, `Rolled back to v${target.version}`);
+  });
+}
@@ -0,0 +1,237 @@
+// A/B tests that split a campaign's audience across two to four variants.
+//
+// A variant is a template with its own variable mapping and a share of the
+// audience, so two variants can also be the same template with different
+// parameters. Rates are taken over the sample recipients whose message was
+// sent or failed: delivered and read from campaign_recipients, replied from
+// inbound messages in the recipient's conversation after the campaign message.
+// Recipients released to the winner after the test don't count towards it.
+import { and, eq, isNull, or, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  campaignRecipients,
+  campaignVariants,
+  campaigns,
+  messages,
+  type Campaign,
+  type CampaignVariant,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { AppError } from "../middlewares/error.middleware";
+import { getCampaignVariants, releaseHeldRecipients } from "./campaign-dispatcher";
+import { recordCampaignEvent } from "./campaign-events";
+
+export const AB_TEST_METRICS = ["delivered", "read", "replied"] as const;
+export type AbTestMetric = (typeof AB_TEST_METRICS)[number];
+
+const VARIANT_LABELS = ["A", "B", "C", "D"];
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = VARIANT_LABELS.length;
+
+export interface VariantInput {
+  templateId: string;
+  variableMapping?: Record<string, string>;
+  percentage: number;
+}
+
+export type PreparedVariant = Omit<typeof campaignVariants.$inferInsert, "campaignId">;
+
+export interface VariantStats {
+  id: string;
+  label: string;
+  templateName: string | null;
+  percentage: number;
+  recipients: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  failed: number;
+  deliveredRate: number;
+  readRate: number;
+  repliedRate: number;
+  isWinner: boolean;
+}
+
+export interface AbTestSummary {
+  metric: AbTestMetric;
+  samplePercent: number | null;
+  windowHours: number | null;
+  endsAt: Date | null;
+  winningVariantId: string | null;
+  held: number; // recipients waiting for the winner
+  variants: VariantStats[];
+}
+
+export function abTestMetric(campaign: Pick<Campaign, "abTestMetric">): AbTestMetric {
+  return AB_TEST_METRICS.includes(campaign.abTestMetric as AbTestMetric)
+    ? (campaign.abTestMetric as AbTestMetric)
+    : "read";
+}
+
+/**
+ * Check the variants of a new campaign and look up their templates, before
+ * the campaign itself is created. Variants without a mapping use the campaign's.
+ */
+export async function prepareVariants(
+  inputs: VariantInput[],
+  defaultMapping: Record<string, string> = {}
+): Promise<PreparedVariant[]> {
+  if (inputs.length < MIN_VARIANTS || inputs.length > MAX_VARIANTS) {
+    throw new AppError(400, `An A/B test needs ${MIN_VARIANTS} to ${MAX_VARIANTS} variants`);
+  }
+  const totalPercentage = inputs.reduce((sum, input) => sum + input.percentage, 0);
+  if (totalPercentage !== 100) {
+    throw new AppError(400, `Variant percentages must add up to 100, not ${totalPercentage}`);
+  }
+
+  const prepared: PreparedVariant[] = [];
+  for (const [index, input] of inputs.entries()) {
+    const template = await storage.getTemplate(input.templateId);
+    if (!template) {
+      throw new AppError(400, `Template not found for variant ${VARIANT_LABELS[index]}`);
+    }
+    prepared.push({
+      label: VARIANT_LABELS[index],
+      templateId: template.id,
+      templateName: template.name,
+      templateLanguage: template.language,
+      variableMapping: input.variableMapping ?? defaultMapping,
+      percentage: input.percentage,
+    });
+  }
+  return prepared;
+}
+
+export async function saveVariants(campaignId: string, prepared: PreparedVariant[]): Promise<CampaignVariant[]> {
+  if (prepared.length === 0) return [];
+  return db.insert(campaignVariants)
+    .values(prepared.map((variant) => ({ ...variant, campaignId })))
+    .returning();
+}
+
+function rate(count: number, total: number) {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+}
+
+export async function getVariantStats(campaign: Campaign): Promise<VariantStats[]> {
+  const variants = await getCampaignVariants(campaign.id);
+  if (variants.length === 0) return [];
+
+  const count = (statuses: string[]) =>
+    sql<number>`count(*) filter (where ${campaignRecipients.status} in (${sql.join(statuses.map((status) => sql`${status}`), sql`, `)}))::int`;
+  const rows = await db.select({
+    variantId: campaignRecipients.variantId,
+    recipients: sql<number>`count(*) filter (where ${campaignRecipients.status} <> 'cancelled')::int`,
+    sent: count(["sent", "delivered", "read"]),
+    delivered: count(["delivered", "read"]),
+    read: count(["read"]),
+    failed: count(["failed"]),
+    replied: sql<number>`count(*) filter (where exists (
+      select 1 from ${messages} sent_message
+      join ${messages} reply on reply.conversation_id = sent_message.conversation_id
+      where sent_message.whatsapp_message_id = ${campaignRecipients}.whatsapp_message_id
+        and sent_message.campaign_id = ${campaignRecipients}.campaign_id
+        and reply.direction = 'inbound'
+        and reply.created_at > sent_message.created_at
+    ))::int`,
+  })
+    .from(campaignRecipients)
+    .where(and(
+      eq(campaignRecipients.campaignId, campaign.id),
+      or(isNull(campaignRecipients.released), eq(campaignRecipients.released, false))
+    ))
+    .groupBy(campaignRecipients.variantId);
+  const byVariant = new Map(rows.map((row) => [row.variantId, row]));
+
+  return variants.map((variant) => {
+    const row = byVariant.get(variant.id);
+    const sent = row?.sent ?? 0;
+    const attempted = sent + (row?.failed ?? 0);
+    return {
+      id: variant.id,
+      label: variant.label,
+      templateName: variant.templateName,
+      percentage: variant.percentage,
+      recipients: row?.recipients ?? 0,
+      sent,
+      delivered: row?.delivered ?? 0,
+      read: row?.read ?? 0,
+      replied: row?.replied ?? 0,
+      failed: row?.failed ?? 0,
+      deliveredRate: rate(row?.delivered ?? 0, attempted),
+      readRate: rate(row?.read ?? 0, attempted),
+      repliedRate: rate(row?.replied ?? 0, attempted),
+      isWinner: campaign.winningVariantId === variant.id,
+    };
+  });
+}
+
+// Null for campaigns that aren't A/B tests
+export async function getAbTestSummary(campaign: Campaign): Promise<AbTestSummary | null> {
+  const variants = await getVariantStats(campaign);
+  if (variants.length === 0) return null;
+
+  const [held] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(campaignRecipients)
+    .where(and(eq(campaignRecipients.campaignId, campaign.id), eq(campaignRecipients.status, "held")));
+
+  return {
+    metric: abTestMetric(campaign),
+    samplePercent: campaign.abTestSamplePercent,
+    windowHours: campaign.abTestWindowHours,
+    endsAt: campaign.abTestEndsAt,
+    winningVariantId: campaign.winningVariantId,
+    held: held.count,
+    variants,
+  };
+}
+
+// Best rate on the metric; ties go to the variant with more sends, then the earlier label
+export function pickWinner(variants: VariantStats[], metric: AbTestMetric): VariantStats | null {
+  const rateOf = (variant: VariantStats) => variant[`${metric}Rate`];
+  return [...variants].sort((a, b) =>
+    rateOf(b) - rateOf(a) || b.sent - a.sent || a.label.localeCompare(b.label)
+  )[0] ?? null;
+}
+
+/**
+ * End a sample test: pick the winning variant and send it to the held-back
+ * recipients. The winner is claimed first so that only one instance sends it.
+ */
+export async function selectWinningVariant(campaign: Campaign): Promise<VariantStats | null> {
+  const metric = abTestMetric(campaign);
+  const winner = pickWinner(await getVariantStats(campaign), metric);
+  if (!winner) return null;
+
+  const [claimed] = await db.update(campaigns)
+    .set({ winningVariantId: winner.id, updatedAt: new Date() })
+    .where(and(eq(campaigns.id, campaign.id), eq(campaigns.status, "active"), isNull(campaigns.winningVariantId)))
+    .returning();
+  if (!claimed) return null;
+
+  const variant = (await getCampaignVariants(campaign.id)).find(({ id }) => id === winner.id)!;
+  let released: number;
+  try {
+    released = await releaseHeldRecipients(claimed, variant);
+  } catch (error) {
+    // Let the next run try again
+    await db.update(campaigns)
+      .set({ winningVariantId: null })
+      .where(eq(campaigns.id, campaign.id));
+    throw error;
+  }
+
+  await recordCampaignEvent({
+    campaignId: campaign.id,
+    event: "winner_selected",
+    details: {
+      variant: winner.label,
+      templateName: winner.templateName,
+      metric,
+      rate: winner[`${metric}Rate`],
+      released,
+    },
+  });
+  return { ...winner, isWinner: true };
+}
@@ -0,0 +1,744 @@
+// Campaign sending through the message queue.
+//
+// Starting a campaign writes one campaign_recipients row and one
+// message_queue row per recipient and returns; MessageQueueService drains
+// the queue at the channel's throughput. Campaign counters are changed with
+// SQL increments only, since queue batches and delivery webhooks update
+// them at the same time.
+//
+// A/B test campaigns split their recipients across campaign_variants; the
+// test itself is run by campaign-ab-test.ts.
+import { and, asc, eq, inArray, notExists, sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import {
+  CHANNEL_THROUGHPUT_TIERS,
+  campaignRecipients,
+  campaigns,
+  contacts,
+  messageQueue,
+  campaignVariants,
+  type Campaign,
+  type CampaignRecipient,
+  type CampaignVariant,
+  type Channel,
+  type ChannelThroughputTier,
+  type Contact,
+  type MessageQueue,
+  type Template,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { AppError } from "../middlewares/error.middleware";
+import { campaignTimezone, localSendTime } from "../utils/campaign-schedule";
+import { recordCampaignEvent } from "./campaign-events";
+import { planContactUpdate, saveContactUpdate } from "./automation-contact-update";
+import {
+  NOT_ON_WHATSAPP_TAG,
+  UNREACHABLE_ERROR_CODES,
+  contactMarkFor,
+  planFailedSend,
+  type ContactMark,
+} from "../utils/whatsapp-errors";
+
+const INSERT_BATCH_SIZE = 500;
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+type CampaignCounter = "sentCount" | "deliveredCount" | "readCount" | "failedCount";
+
+interface RecipientSource {
+  contactId: string | null;
+  phone: string;
+  name: string | null;
+  timezone: string | null;
+  fields: Record<string, unknown>; // what the variable mapping reads from
+}
+
+// Recipients of an A/B test go to a variant, or are held back until the winner is known
+interface AudienceSlot {
+  source: RecipientSource;
+  variant: CampaignVariant | null;
+  held: boolean;
+}
+
+// The campaign's template, plus each A/B test variant's template by variant id
+interface SendingTemplates {
+  template: Template;
+  variants: Map<string, { variant: CampaignVariant; template: Template }>;
+}
+
+export interface CampaignProgress {
+  campaignId: string;
+  status: string | null;
+  recipientCount: number;
+  held: number; // waiting for an A/B test's winning variant
+  pending: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  cancelled: number;
+  queued: number; // still waiting in message_queue, retries included
+  messagesPerSecond: number;
+  percentComplete: number;
+  estimatedSecondsRemaining: number;
+}
+
+export function messagesPerSecond(channel: Pick<Channel, "throughputTier"> | null | undefined): number {
+  const tier = (channel?.throughputTier || "standard") as ChannelThroughputTier;
+  return CHANNEL_THROUGHPUT_TIERS[tier] ?? CHANNEL_THROUGHPUT_TIERS.standard;
+}
+
+function contactFields(contact: Contact): Record<string, unknown> {
+  return {
+    ...((contact.customFields ?? {}) as Record<string, unknown>),
+    name: contact.name,
+    phone: contact.phone,
+    email: contact.email || "",
+  };
+}
+
+/**
+ * Body parameters in template variable order, read from the recipient's
+ * contact fields or CSV columns
+ */
+export function resolveTemplateParams(
+  variableMapping: Record<string, string> | null | undefined,
+  fields: Record<string, unknown>
+): string[] {
+  if (!variableMapping || typeof variableMapping !== "object" || Array.isArray(variableMapping)) {
+    return [];
+  }
+  return Object.values(variableMapping).map((fieldName) => {
+    const value = fields[fieldName];
+    return value === undefined || value === null ? "" : String(value);
+  });
+}
+
+async function loadContacts(ids: string[]): Promise<Contact[]> {
+  const loaded: Contact[] = [];
+  for (let i = 0; i < ids.length; i += INSERT_BATCH_SIZE) {
+    const batch = ids.slice(i, i + INSERT_BATCH_SIZE);
+    loaded.push(...(await db.select().from(contacts).where(inArray(contacts.id, batch))));
+  }
+  return loaded;
+}
+
+// Contacts that opted out, were blocked or that WhatsApp couldn't deliver to before
+function isReachable(contact: Contact) {
+  const tags = Array.isArray(contact.tags) ? (contact.tags as string[]) : [];
+  return (contact.status ?? "active") === "active" && !tags.includes(NOT_ON_WHATSAPP_TAG);
+}
+
+// contactGroups holds the recipients' contact ids for both contact and CSV campaigns
+async function loadRecipients(campaign: Campaign): Promise<RecipientSource[]> {
+  const loaded = await loadContacts(campaign.contactGroups || []);
+  // Every contact, so a CSV row for an opted-out contact is recognised and skipped
+  const byPhone = new Map(loaded.map((contact) => [contact.phone, contact]));
+  const sources: RecipientSource[] = [];
+
+  if (campaign.campaignType === "csv") {
+    for (const row of (campaign.csvData as Array<Record<string, unknown>> | null) || []) {
+      const phone = row?.phone ? String(row.phone) : "";
+      if (!phone) continue;
+      const contact = byPhone.get(phone);
+      if (contact && !isReachable(contact)) continue;
+      sources.push({
+        contactId: contact?.id ?? null,
+        phone,
+        name: row.name ? String(row.name) : contact?.name ?? null,
+        timezone: (row.timezone ? String(row.timezone) : contact?.timezone) ?? null,
+        fields: { ...(contact ? contactFields(contact) : {}), ...row },
+      });
+    }
+  } else {
+    for (const contact of loaded.filter(isReachable)) {
+      sources.push({
+        contactId: contact.id,
+        phone: contact.phone,
+        name: contact.name,
+        timezone: contact.timezone,
+        fields: contactFields(contact),
+      });
+    }
+  }
+
+  // One message per phone number, as campaign_recipients enforces
+  const seen = new Set<string>();
+  return sources.filter((source) => !seen.has(source.phone) && !!seen.add(source.phone));
+}
+
+export async function getCampaignVariants(campaignId: string): Promise<CampaignVariant[]> {
+  return db.select()
+    .from(campaignVariants)
+    .where(eq(campaignVariants.campaignId, campaignId))
+    .orderBy(asc(campaignVariants.label));
+}
+
+// Templates and channel a campaign sends with, checked before anything is queued
+async function loadSendingTemplates(campaign: Campaign): Promise<SendingTemplates> {
+  if (!campaign.channelId || !(await storage.getChannel(campaign.channelId))) {
+    throw new AppError(400, "Channel not found for campaign");
+  }
+  const template = campaign.templateId ? await storage.getTemplate(campaign.templateId) : undefined;
+  if (!template) {
+    throw new AppError(400, "Template not found for campaign");
+  }
+
+  const variants: SendingTemplates["variants"] = new Map();
+  for (const variant of await getCampaignVariants(campaign.id)) {
+    const variantTemplate = variant.templateId === template.id
+      ? template
+      : variant.templateId ? await storage.getTemplate(variant.templateId) : undefined;
+    if (!variantTemplate) {
+      throw new AppError(400, `Template not found for variant ${variant.label}`);
+    }
+    variants.set(variant.id, { variant, template: variantTemplate });
+  }
+  return { template, variants };
+}
+
+function queueRows(
+  campaign: Campaign,
+  templates: SendingTemplates,
+  recipients: CampaignRecipient[],
+  sendAt: (phone: string) => Date | null = () => null
+) {
+  return recipients.map((recipient) => {
+    const template = (recipient.variantId && templates.variants.get(recipient.variantId)?.template) || templates.template;
+    return {
+      campaignId: campaign.id,
+      recipientId: recipient.id,
+      channelId: campaign.channelId,
+      recipientPhone: recipient.phone,
+      templateName: template.name,
+      templateLanguage: template.language || campaign.templateLanguage || "en_US",
+      templateParams: recipient.templateParams,
+      messageType: campaign.type === "transactional" ? "utility" : "marketing",
+      // Campaigns go out through MM Lite unless the campaign asks for the plain Cloud API
+      sentVia: campaign.apiType === "cloud_api" ? "cloud_api" : null,
+      status: "queued",
+      scheduledFor: sendAt(recipient.phone),
+    };
+  });
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Spread an A/B test's audience over its variants by percentage. With a
+ * sample percentage only that share is tested and the rest is held back.
+ */
+function splitAudience(campaign: Campaign, variants: CampaignVariant[], sources: RecipientSource[]): AudienceSlot[] {
+  if (variants.length === 0) {
+    return sources.map((source) => ({ source, variant: null, held: false }));
+  }
+
+  const shuffled = shuffle(sources);
+  const tested = campaign.abTestSamplePercent
+    ? Math.min(shuffled.length, Math.max(variants.length, Math.ceil((shuffled.length * campaign.abTestSamplePercent) / 100)))
+    : shuffled.length;
+  const totalPercentage = variants.reduce((sum, variant) => sum + variant.percentage, 0);
+
+  // Rounding the running total keeps the variant sizes adding up to the tested count
+  const slots: AudienceSlot[] = [];
+  let start = 0;
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.percentage;
+    const end = Math.round((tested * cumulative) / totalPercentage);
+    for (const source of shuffled.slice(start, end)) {
+      slots.push({ source, variant, held: false });
+    }
+    start = end;
+  }
+  for (const source of shuffled.slice(tested)) {
+    slots.push({ source, variant: null, held: true });
+  }
+  return slots;
+}
+
+// When the winner of a sample test is picked: the test window after the campaign starts sending
+function abTestEndsAt(campaign: Campaign): Date {
+  const start = campaign.scheduledAt && campaign.scheduledAt > new Date() ? campaign.scheduledAt : new Date();
+  return new Date(start.getTime() + (campaign.abTestWindowHours ?? 24) * 60 * 60 * 1000);
+}
+
+/**
+ * Queue every recipient of an active campaign. Recipients already queued by
+ * an earlier start are skipped, so starting twice never sends twice.
+ */
+export async function enqueueCampaign(campaignId: string): Promise<{ queued: number; recipientCount: number }> {
+  const campaign = await storage.getCampaign(campaignId);
+  if (!campaign) {
+    throw new AppError(404, "Campaign not found");
+  }
+  if (campaign.status !== "active") {
+    throw new AppError(400, "Campaign is not active");
+  }
+  // API campaigns send one message per request to /api/campaigns/send/:apiKey
+  if (campaign.campaignType === "api") {
+    return { queued: 0, recipientCount: campaign.recipientCount || 0 };
+  }
+  const templates = await loadSendingTemplates(campaign);
+
+  const sources = await loadRecipients(campaign);
+  const timezones = new Map(sources.map((source) => [source.phone, source.timezone]));
+  const slots = splitAudience(campaign, [...templates.variants.values()].map(({ variant }) => variant), sources);
+  // Local-time campaigns are queued ahead of time and each message waits for its recipient's clock
+  const sendAt = (phone: string) =>
+    campaign.sendAtLocalTime && campaign.scheduledAt
+      ? localSendTime(campaign.scheduledAt, campaignTimezone(campaign), timezones.get(phone))
+      : null;
+  let queued = 0;
+
+  await db.transaction(async (tx) => {
+    for (let i = 0; i < slots.length; i += INSERT_BATCH_SIZE) {
+      const batch = slots.slice(i, i + INSERT_BATCH_SIZE);
+      const recipients = await tx.insert(campaignRecipients)
+        .values(batch.map(({ source, variant, held }) => ({
+          campaignId,
+          contactId: source.contactId,
+          phone: source.phone,
+          name: source.name,
+          status: held ? "held" : "pending",
+          variantId: variant?.id ?? null,
+          templateParams: resolveTemplateParams(variant ? variant.variableMapping : campaign.variableMapping, source.fields),
+        })))
+        .onConflictDoNothing({ target: [campaignRecipients.campaignId, campaignRecipients.phone] })
+        .returning();
+
+      const sending = recipients.filter((recipient) => recipient.status === "pending");
+      if (sending.length === 0) continue;
+      await tx.insert(messageQueue).values(queueRows(campaign, templates, sending, sendAt));
+      queued += sending.length;
+    }
+
+    await tx.update(campaigns)
+      .set({
+        recipientCount: sql`(select count(*)::int from ${campaignRecipients} where ${campaignRecipients.campaignId} = ${campaignId})`,
+        abTestEndsAt: campaign.abTestEndsAt ?? (slots.some((slot) => slot.held) ? abTestEndsAt(campaign) : null),
+        updatedAt: new Date(),
+      })
+      .where(eq(campaigns.id, campaignId));
+  });
+
+  // Nothing left to send, e.g. an empty audience
+  await completeCampaignIfDrained(campaignId);
+
+  const updated = await storage.getCampaign(campaignId);
+  return { queued, recipientCount: updated?.recipientCount || 0 };
+}
+
+export async function incrementCampaignCounters(
+  campaignId: string,
+  counters: Partial<Record<CampaignCounter, number>>
+) {
+  const set: Partial<Record<CampaignCounter, SQL>> = {};
+  for (const [field, amount] of Object.entries(counters) as Array<[CampaignCounter, number]>) {
+    if (!amount) continue;
+    set[field] = sql`greatest(coalesce(${campaigns[field]}, 0) + ${amount}, 0)`;
+  }
+  if (Object.keys(set).length === 0) return;
+
+  await db.update(campaigns).set(set).where(eq(campaigns.id, campaignId));
+}
+
+/**
+ * Mark an active campaign completed once nothing of it is waiting in or
+ * being sent from the queue, or held back for an A/B test's winner
+ */
+export async function completeCampaignIfDrained(campaignId: string) {
+  const [completed] = await db.update(campaigns)
+    .set({ status: "completed", completedAt: new Date() })
+    .where(and(
+      eq(campaigns.id, campaignId),
+      eq(campaigns.status, "active"),
+      sql`not exists (
+        select 1 from ${messageQueue}
+        where ${messageQueue.campaignId} = ${campaignId}
+          and ${messageQueue.status} in ('queued', 'processing')
+      )`,
+      sql`not exists (
+        select 1 from ${campaignRecipients}
+        where ${campaignRecipients.campaignId} = ${campaignId}
+          and ${campaignRecipients.status} = 'held'
+      )`
+    ))
+    .returning({ sentCount: campaigns.sentCount, failedCount: campaigns.failedCount });
+
+  if (completed) {
+    await recordCampaignEvent({
+      campaignId,
+      event: "completed",
+      fromStatus: "active",
+      toStatus: "completed",
+      details: { sentCount: completed.sentCount, failedCount: completed.failedCount },
+    });
+  }
+}
+
+// Move a campaign between statuses only if it is still in one of `from`
+async function transitionCampaign(campaignId: string, from: string[], to: string, action: string) {
+  const campaign = await storage.getCampaign(campaignId);
+  if (!campaign) {
+    throw new AppError(404, "Campaign not found");
+  }
+
+  const [updated] = await db.update(campaigns)
+    .set({ status: to, updatedAt: new Date() })
+    .where(and(eq(campaigns.id, campaignId), inArray(campaigns.status, from)))
+    .returning();
+  if (!updated) {
+    throw new AppError(409, `Only ${from.join(" or ")} campaigns can be ${action}, this one is ${campaign.status}`);
+  }
+  return { campaign: updated, fromStatus: campaign.status };
+}
+
+/**
+ * Stop sending. The queue only picks up messages of active campaigns, so
+ * everything still queued waits; messages already handed to WhatsApp go out.
+ */
+export async function pauseCampaign(campaignId: string, userId?: string) {
+  const { campaign, fromStatus } = await transitionCampaign(campaignId, ["active"], "paused", "paused");
+  await recordCampaignEvent({ campaignId, event: "paused", fromStatus, toStatus: "paused", userId });
+  return campaign;
+}
+
+/**
+ * Carry on with the recipients that are still pending. Their queued messages
+ * are picked up again; any pending recipient that lost its queue row is queued anew.
+ */
+export async function resumeCampaign(campaignId: string, userId?: string) {
+  const { campaign, fromStatus } = await transitionCampaign(campaignId, ["paused"], "active", "resumed");
+
+  let requeued = 0;
+  if (campaign.campaignType !== "api") {
+    const templates = await loadSendingTemplates(campaign);
+    const stranded = await db.select()
+      .from(campaignRecipients)
+      .where(and(
+        eq(campaignRecipients.campaignId, campaignId),
+        eq(campaignRecipients.status, "pending"),
+        notExists(
+          db.select({ id: messageQueue.id })
+            .from(messageQueue)
+            .where(and(
+              eq(messageQueue.recipientId, campaignRecipients.id),
+              inArray(messageQueue.status, ["queued", "processing"])
+            ))
+        )
+      ));
+
+    for (let i = 0; i < stranded.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(messageQueue).values(queueRows(campaign, templates, stranded.slice(i, i + INSERT_BATCH_SIZE)));
+    }
+    requeued = stranded.length;
+  }
+
+  await recordCampaignEvent({ campaignId, event: "resumed", fromStatus, toStatus: "active", userId, details: { requeued } });
+  await completeCampaignIfDrained(campaignId);
+  return (await storage.getCampaign(campaignId)) ?? campaign;
+}
+
+/**
+ * Stop for good: queued messages are dropped and their recipients marked
+ * cancelled. A message already being sent still finishes.
+ */
+export async function cancelCampaign(campaignId: string, userId?: string) {
+  const { campaign, fromStatus } = await transitionCampaign(
+    campaignId,
+    ["scheduled", "active", "paused"],
+    "cancelled",
+    "cancelled"
+  );
+
+  const dropped = await db.delete(messageQueue)
+    .where(and(eq(messageQueue.campaignId, campaignId), eq(messageQueue.status, "queued")))
+    .returning({ recipientId: messageQueue.recipientId });
+
+  const recipientIds = dropped.map((row) => row.recipientId).filter((id): id is string => !!id);
+  for (let i = 0; i < recipientIds.length; i += INSERT_BATCH_SIZE) {
+    await db.update(campaignRecipients)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(
+        inArray(campaignRecipients.id, recipientIds.slice(i, i + INSERT_BATCH_SIZE)),
+        eq(campaignRecipients.status, "pending")
+      ));
+  }
+  // Recipients held back for an A/B test's winner won't get it either
+  await db.update(campaignRecipients)
+    .set({ status: "cancelled", updatedAt: new Date() })
+    .where(and(eq(campaignRecipients.campaignId, campaignId), eq(campaignRecipients.status, "held")));
+
+  await recordCampaignEvent({
+    campaignId,
+    event: "cancelled",
+    fromStatus,
+    toStatus: "cancelled",
+    userId,
+    details: { dropped: dropped.length },
+  });
+  return campaign;
+}
+
+/**
+ * Send an A/B test's winning variant to the recipients held back from the
+ * test. Their rows are written anew with the winner's variable mapping;
+ * anyone who has become unreachable since the start is dropped.
+ */
+export async function releaseHeldRecipients(campaign: Campaign, winner: CampaignVariant): Promise<number> {
+  const templates = await loadSendingTemplates(campaign);
+  const sources = new Map((await loadRecipients(campaign)).map((source) => [source.phone, source]));
+  let released = 0;
+
+  await db.transaction(async (tx) => {
+    const held = await tx.delete(campaignRecipients)
+      .where(and(eq(campaignRecipients.campaignId, campaign.id), eq(campaignRecipients.status, "held")))
+      .returning({ phone: campaignRecipients.phone });
+    const releasing = held
+      .map(({ phone }) => sources.get(phone))
+      .filter((source): source is RecipientSource => !!source);
+
+    for (let i = 0; i < releasing.length; i += INSERT_BATCH_SIZE) {
+      const recipients = await tx.insert(campaignRecipients)
+        .values(releasing.slice(i, i + INSERT_BATCH_SIZE).map((source) => ({
+          campaignId: campaign.id,
+          contactId: source.contactId,
+          phone: source.phone,
+          name: source.name,
+          status: "pending",
+          variantId: winner.id,
+          released: true,
+          templateParams: resolveTemplateParams(winner.variableMapping, source.fields),
+        })))
+        .returning();
+      await tx.insert(messageQueue).values(queueRows(campaign, templates, recipients));
+      released += recipients.length;
+    }
+
+    await tx.update(campaigns)
+      .set({
+        recipientCount: sql`(select count(*)::int from ${campaignRecipients} where ${campaignRecipients.campaignId} = ${campaign.id})`,
+        updatedAt: new Date(),
+      })
+      .where(eq(campaigns.id, campaign.id));
+  });
+
+  // Everyone held back may have dropped out
+  await completeCampaignIfDrained(campaign.id);
+  return released;
+}
+
+// Record what a permanent failure says about the contact, with a history entry
+async function markContact(recipient: CampaignRecipient, mark: ContactMark) {
+  const contact = recipient.contactId
+    ? await storage.getContact(recipient.contactId)
+    : await storage.getContactByPhone(recipient.phone);
+  if (!contact) return;
+
+  const plan = planContactUpdate(
+    contact,
+    mark === "opted_out" ? { status: "unsubscribed" } : { addTags: [NOT_ON_WHATSAPP_TAG] },
+    {}
+  );
+  await saveContactUpdate(contact.id, plan, { source: "campaign" });
+}
+
+/**
+ * A campaign message failed, either when sending or later through a status
+ * webhook. Retryable errors put the queue row back with a backoff while the
+ * campaign's retry limit allows; anything else fails the recipient for good.
+ * `message.attempts` counts the failed send. Null when the queue row has
+ * moved on from the status the caller saw, so a send is never repeated.
+ */
+export async function handleCampaignSendFailure(
+  message: MessageQueue,
+  failure: { code?: number; httpStatus?: number; message: string }
+): Promise<"retrying" | "failed" | null> {
+  const campaign = message.campaignId ? await storage.getCampaign(message.campaignId) : undefined;
+  const attempts = message.attempts || 1;
+  // A cancelled campaign gets no more retries
+  const maxRetries = campaign?.status === "cancelled" ? 0 : campaign?.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const { retrying, errorCode, retryAt } = planFailedSend(failure, attempts, maxRetries);
+
+  const [updated] = await db.update(messageQueue)
+    .set({
+      status: retrying ? "queued" : "failed",
+      attempts,
+      errorCode,
+      errorMessage: failure.message,
+      scheduledFor: retryAt,
+    })
+    .where(and(eq(messageQueue.id, message.id), eq(messageQueue.status, message.status ?? "processing")))
+    .returning({ id: messageQueue.id });
+  if (!updated) return null;
+
+  if (message.recipientId) {
+    const [recipient] = await db.update(campaignRecipients)
+      .set({
+        status: retrying ? "pending" : "failed",
+        retryCount: retrying ? attempts : attempts - 1,
+        errorCode,
+        errorMessage: failure.message,
+        updatedAt: new Date(),
+      })
+      .where(eq(campaignRecipients.id, message.recipientId))
+      .returning();
+
+    const mark = retrying ? null : contactMarkFor(failure.code);
+    if (recipient && mark) {
+      await markContact(recipient, mark).catch((error) => {
+        console.error(`Failed to mark contact for recipient ${recipient.id}:`, error);
+      });
+    }
+  }
+
+  return retrying ? "retrying" : "failed";
+}
+
+// A "failed" status webhook for a campaign send. Null when the message didn't come from the queue.
+export async function handleCampaignDeliveryFailure(
+  whatsappMessageId: string,
+  failure: { code?: number; message: string }
+): Promise<"retrying" | "failed" | null> {
+  const [message] = await db.select()
+    .from(messageQueue)
+    .where(and(eq(messageQueue.whatsappMessageId, whatsappMessageId), eq(messageQueue.status, "sent")))
+    .limit(1);
+  if (!message) return null;
+  return handleCampaignSendFailure(message, failure);
+}
+
+/**
+ * Send a finished campaign again to the recipients that failed, except the
+ * ones WhatsApp can't reach
+ */
+export async function retryFailedRecipients(campaignId: string, userId?: string) {
+  const existing = await storage.getCampaign(campaignId);
+  if (!existing) {
+    throw new AppError(404, "Campaign not found");
+  }
+  const templates = await loadSendingTemplates(existing);
+
+  const failed = await db.select()
+    .from(campaignRecipients)
+    .where(and(
+      eq(campaignRecipients.campaignId, campaignId),
+      eq(campaignRecipients.status, "failed"),
+      sql`coalesce(${campaignRecipients.errorCode}, '') not in (${sql.join(UNREACHABLE_ERROR_CODES.map((code) => sql`${code}`), sql`, `)})`
+    ));
+  if (failed.length === 0) {
+    throw new AppError(400, "No failed recipients to retry");
+  }
+
+  const { campaign, fromStatus } = await transitionCampaign(campaignId, ["completed"], "active", "retried");
+
+  await db.transaction(async (tx) => {
+    for (let i = 0; i < failed.length; i += INSERT_BATCH_SIZE) {
+      const batch = failed.slice(i, i + INSERT_BATCH_SIZE);
+      await tx.update(campaignRecipients)
+        .set({ status: "pending", errorCode: null, errorMessage: null, updatedAt: new Date() })
+        .where(inArray(campaignRecipients.id, batch.map((recipient) => recipient.id)));
+      await tx.insert(messageQueue).values(queueRows(campaign, templates, batch));
+    }
+    await tx.update(campaigns)
+      .set({
+        completedAt: null,
+        failedCount: sql`greatest(coalesce(${campaigns.failedCount}, 0) - ${failed.length}, 0)`,
+      })
+      .where(eq(campaigns.id, campaignId));
+  });
+
+  await recordCampaignEvent({
+    campaignId,
+    event: "retried",
+    fromStatus,
+    toStatus: "active",
+    userId,
+    details: { recipients: failed.length },
+  });
+  return { campaign: (await storage.getCampaign(campaignId)) ?? campaign, requeued: failed.length };
+}
+
+/**
+ * Copy a delivery status from the webhook onto the campaign recipient.
+ * Statuses only move forward, so a late "delivered" doesn't undo "read".
+ */
+export async function recordRecipientStatus(
+  whatsappMessageId: string,
+  status: "delivered" | "read" | "failed",
+  at: Date,
+  error?: { code?: string | number; message?: string }
+) {
+  const updates = {
+    delivered: { status, deliveredAt: at, from: ["sent"] },
+    read: { status, readAt: at, from: ["sent", "delivered"] },
+    failed: {
+      status,
+      errorCode: error?.code !== undefined ? String(error.code) : null,
+      errorMessage: error?.message ?? null,
+      from: ["pending", "sent", "delivered"],
+    },
+  }[status];
+  const { from, ...set } = updates;
+
+  await db.update(campaignRecipients)
+    .set({ ...set, updatedAt: new Date() })
+    .where(and(
+      eq(campaignRecipients.whatsappMessageId, whatsappMessageId),
+      inArray(campaignRecipients.status, from)
+    ));
+}
+
+export async function getCampaignProgress(campaign: Campaign): Promise<CampaignProgress> {
+  const count = (status: string) =>
+    sql<number>`count(*) filter (where ${campaignRecipients.status} = ${status})::int`;
+  const [recipients] = await db.select({
+    total: sql<number>`count(*)::int`,
+    held: count("held"),
+    pending: count("pending"),
+    sent: count("sent"),
+    delivered: count("delivered"),
+    read: count("read"),
+    failed: count("failed"),
+    cancelled: count("cancelled"),
+  })
+    .from(campaignRecipients)
+    .where(eq(campaignRecipients.campaignId, campaign.id));
+
+  const [queue] = await db.select({ queued: sql<number>`count(*)::int` })
+    .from(messageQueue)
+    .where(and(
+      eq(messageQueue.campaignId, campaign.id),
+      inArray(messageQueue.status, ["queued", "processing"])
+    ));
+
+  const channel = campaign.channelId ? await storage.getChannel(campaign.channelId) : undefined;
+  const perSecond = messagesPerSecond(channel);
+  const recipientCount = recipients.total || campaign.recipientCount || 0;
+  const done = recipientCount - queue.queued - recipients.held;
+
+  return {
+    campaignId: campaign.id,
+    status: campaign.status,
+    recipientCount,
+    held: recipients.held,
+    pending: recipients.pending,
+    sent: recipients.sent,
+    delivered: recipients.delivered,
+    read: recipients.read,
+    failed: recipients.failed,
+    cancelled: recipients.cancelled,
+    queued: queue.queued,
+    messagesPerSecond: perSecond,
+    percentComplete: recipientCount > 0 ? Math.round((done / recipientCount) * 100) : 100,
+    estimatedSecondsRemaining: Math.ceil(queue.queued / perSecond),
+  };
+}
@@ -0,0 +1,57 @@
+// Audit trail of campaign status changes, shown in the campaign details.
+//
+// Changes made by the scheduler or the message queue have no user.
+import { desc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { campaignEvents, users, type CampaignEvent } from "@shared/schema";
+
+export type CampaignEventType =
+  | "created"
+  | "scheduled"
+  | "started"
+  | "paused"
+  | "resumed"
+  | "cancelled"
+  | "completed"
+  | "retried"
+  | "winner_selected"
+  | "status_changed";
+
+export async function recordCampaignEvent(event: {
+  campaignId: string;
+  event: CampaignEventType;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  userId?: string | null;
+  details?: Record<string, unknown>;
+}): Promise<CampaignEvent> {
+  const [created] = await db.insert(campaignEvents)
+    .values({
+      campaignId: event.campaignId,
+      event: event.event,
+      fromStatus: event.fromStatus ?? null,
+      toStatus: event.toStatus ?? null,
+      userId: event.userId ?? null,
+      details: event.details ?? {},
+    })
+    .returning();
+  return created;
+}
+
+// Newest first, with the name of the user behind each change
+export async function getCampaignEvents(campaignId: string) {
+  return db.select({
+    id: campaignEvents.id,
+    event: campaignEvents.event,
+    fromStatus: campaignEvents.fromStatus,
+    toStatus: campaignEvents.toStatus,
+    details: campaignEvents.details,
+    createdAt: campaignEvents.createdAt,
+    userId: campaignEvents.userId,
+    username: users.username,
+  })
+    .from(campaignEvents)
+    .leftJoin(users, eq(campaignEvents.userId, users.id))
+    .where(eq(campaignEvents.campaignId, campaignId))
+    .orderBy(desc(campaignEvents.createdAt));
+}
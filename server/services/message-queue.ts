@@ -1,12 +1,38 @@
 import { db } from "../db";
-import { messageQueue, channels, campaigns } from "@shared/schema";
-import { eq, and, lte, isNull, sql } from "drizzle-orm";
+import {
+  messageQueue,
+  channels,
+  campaigns,
+  campaignRecipients,
+  contacts,
+  conversations,
+  messages,
+  templates,
+  type Channel,
+  type MessageQueue,
+  type Template
+} from "@shared/schema";
+import { eq, and, lt, lte, isNull, or, inArray, sql } from "drizzle-orm";
 import { WhatsAppApiService } from "./whatsapp-api";
 import { storage } from '../storage';
+import {
+  DEFAULT_MAX_RETRIES,
+  completeCampaignIfDrained,
+  handleCampaignSendFailure,
+  incrementCampaignCounters,
+  messagesPerSecond
+} from "./campaign-dispatcher";
+import { failureDetails, planFailedSend } from "../utils/whatsapp-errors";
+
+// A batch sends within one interval, so a message still "processing" after this
+// long belongs to an instance that died mid-batch
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
 
 export class MessageQueueService {
-  private static isProcessing = false;
   private static processingInterval: NodeJS.Timeout | null = null;
+  private static intervalMs = 1000;
+  private static isPolling = false;
+  private static draining = new Set<string>(); // channels with a batch still sending
 
   // Start processing the message queue
   static startProcessing(intervalMs: number = 1000) {
@@ -14,8 +40,10 @@ export class MessageQueueService {
       return;
     }
 
+    this.intervalMs = intervalMs;
+    this.requeueExpired().catch((error) => console.error("Error requeueing expired messages:", error));
     this.processingInterval = setInterval(() => {
-      if (!this.isProcessing) {
+      if (!this.isPolling) {
         this.processQueue();
       }
     }, intervalMs);
@@ -32,60 +60,110 @@ export class MessageQueueService {
     }
   }
 
-  // Process queued messages
+  // Queued messages that are due, leaving out paused and cancelled campaigns. Completed
+  // campaigns stay in: a "failed" status webhook can schedule a retry after the last send.
+  private static readyToSend() {
+    return and(
+      eq(messageQueue.status, "queued"),
+      or(isNull(messageQueue.scheduledFor), lte(messageQueue.scheduledFor, new Date())),
+      or(
+        isNull(messageQueue.campaignId),
+        sql`exists (select 1 from ${campaigns} where ${campaigns.id} = ${messageQueue.campaignId} and ${campaigns.status} in ('active', 'completed'))`
+      )
+    );
+  }
+
+  // Start a batch for every channel with due messages; a slow channel doesn't hold up the others
   private static async processQueue() {
-    this.isProcessing = true;
+    this.isPolling = true;
 
     try {
-      // Get messages that are ready to be sent
-      const messages = await db
-        .select()
+      await this.requeueExpired();
+
+      const due = await db
+        .selectDistinct({ channelId: messageQueue.channelId })
         .from(messageQueue)
-        .where(
-          and(
-            eq(messageQueue.status, "queued"),
-            lte(messageQueue.attempts, 3),
-            and(
-              isNull(messageQueue.scheduledFor),
-              sql`${messageQueue.scheduledFor} <= NOW()`
-            )
-          )
-        )
-        .limit(10); // Process 10 messages at a time
+        .where(this.readyToSend());
 
-      for (const message of messages) {
-        await this.processMessage(message);
+      for (const { channelId } of due) {
+        if (!channelId || this.draining.has(channelId)) continue;
+
+        this.draining.add(channelId);
+        this.drainChannel(channelId)
+          .catch((error) => console.error(`Error draining message queue for channel ${channelId}:`, error))
+          .finally(() => this.draining.delete(channelId));
       }
     } catch (error) {
       console.error("Error processing message queue:", error);
     } finally {
-      this.isProcessing = false;
+      this.isPolling = false;
     }
   }
 
-  // Process a single message
-  private static async processMessage(message: any) {
-    try {
-      // Update status to processing
-      await db
-        .update(messageQueue)
-        .set({ 
-          status: "processing",
-          processedAt: new Date()
-        })
-        .where(eq(messageQueue.id, message.id));
+  // Send one interval's worth of messages, spaced evenly so the channel stays under its messages-per-second limit
+  private static async drainChannel(channelId: string) {
+    const [channel] = await db
+      .select()
+      .from(channels)
+      .where(eq(channels.id, channelId))
+      .limit(1);
 
-      // Get the channel
-      const [channel] = await db
-        .select()
-        .from(channels)
-        .where(eq(channels.id, message.channelId))
-        .limit(1);
+    // Messages for a disabled channel wait until it is switched back on
+    if (!channel?.isActive) {
+      return;
+    }
 
-      if (!channel) {
-        throw new Error(`Channel not found: ${message.channelId}`);
-      }
+    const perSecond = messagesPerSecond(channel);
+    const batch = await this.claimBatch(channelId, Math.max(1, Math.floor((perSecond * this.intervalMs) / 1000)));
+    const spacingMs = 1000 / perSecond;
+
+    await Promise.all(
+      batch.map((message, index) =>
+        new Promise((resolve) => setTimeout(resolve, index * spacingMs))
+          .then(() => this.processMessage(message, channel))
+      )
+    );
+  }
+
+  // Move a batch to "processing" in one statement; SKIP LOCKED keeps other instances off the same rows
+  private static async claimBatch(channelId: string, size: number): Promise<MessageQueue[]> {
+    const next = db
+      .select({ id: messageQueue.id })
+      .from(messageQueue)
+      .where(and(eq(messageQueue.channelId, channelId), this.readyToSend()))
+      .orderBy(messageQueue.createdAt)
+      .limit(size)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(messageQueue)
+      .set({ status: "processing", processedAt: new Date() })
+      .where(inArray(messageQueue.id, next))
+      .returning();
+  }
 
+  // Put messages whose processing lease ran out back in the queue
+  private static async requeueExpired() {
+    const requeued = await db
+      .update(messageQueue)
+      .set({ status: "queued", processedAt: null })
+      .where(and(
+        eq(messageQueue.status, "processing"),
+        lt(messageQueue.processedAt, new Date(Date.now() - PROCESSING_LEASE_MS))
+      ))
+      .returning({ id: messageQueue.id });
+
+    if (requeued.length > 0) {
+      console.log(`Requeued ${requeued.length} message(s) left processing by a stopped instance`);
+    }
+  }
+
+  // Process a single message
+  private static async processMessage(message: MessageQueue, channel: Channel) {
+    const attempts = (message.attempts || 0) + 1;
+    let whatsappMessageId: string | undefined;
+
+    try {
       // Check rate limit
       const canSend = await WhatsAppApiService.checkRateLimit(channel.id);
       if (!canSend) {
@@ -111,70 +189,165 @@ export class MessageQueueService {
           channel,
           message.recipientPhone,
           message.templateName,
-          message.templateParams || [],
-          "en_US",
+          (message.templateParams as string[] | null) || [],
+          message.templateLanguage || "en_US",
           isMarketing
         );
       } else {
         // For non-template messages (future implementation)
         throw new Error("Non-template messages not yet implemented");
       }
+      whatsappMessageId = response.messages?.[0]?.id;
 
       // Update message with success
       await db
         .update(messageQueue)
         .set({
           status: "sent",
-          whatsappMessageId: response.messages?.[0]?.id,
+          whatsappMessageId,
           sentVia: isMarketing ? "marketing_messages" : "cloud_api",
-          attempts: message.attempts + 1
+          attempts
         })
         .where(eq(messageQueue.id, message.id));
+    } catch (error) {
+      console.error(`Failed to send message ${message.id}:`, error);
+      await this.handleSendFailure(message, attempts, error);
+      return;
+    }
 
-// update last message
-        // await storage.updateConversation(conversationId, {
-        //   lastMessageAt: new Date(),
-        //   lastMessageText:content
-        // });
+    console.log(`Message sent successfully: ${message.id}`);
 
-      // Update campaign sent count if part of a campaign
-      if (message.campaignId) {
-        await db
-          .update(campaigns)
-          .set({
-            sentCount: sql`${campaigns.sentCount} + 1`
-          })
-          .where(eq(campaigns.id, message.campaignId));
+    // The message is out: a failure from here on is logged, never retried, or the customer gets it twice
+    if (message.campaignId) {
+      try {
+        await this.recordCampaignSend(message, channel, attempts, whatsappMessageId);
+      } catch (error) {
+        console.error(`Failed to record campaign send for message ${message.id}:`, error);
       }
+    }
+  }
 
-      console.log(`Message sent successfully: ${message.id}`);
-    } catch (error) {
-      console.error(`Failed to send message ${message.id}:`, error);
+  // Requeue or fail a message whose send threw; only a row still being processed is touched
+  private static async handleSendFailure(message: MessageQueue, attempts: number, error: unknown) {
+    const failure = failureDetails(error);
+
+    if (message.campaignId) {
+      const outcome = await handleCampaignSendFailure({ ...message, attempts }, failure);
+      if (outcome === "failed") {
+        await incrementCampaignCounters(message.campaignId, { failedCount: 1 });
+        await completeCampaignIfDrained(message.campaignId);
+      }
+      return;
+    }
+
+    const { retrying, errorCode, retryAt } = planFailedSend(failure, attempts, DEFAULT_MAX_RETRIES);
+    await db
+      .update(messageQueue)
+      .set({
+        status: retrying ? "queued" : "failed",
+        attempts,
+        errorCode,
+        errorMessage: failure.message,
+        scheduledFor: retryAt
+      })
+      .where(and(eq(messageQueue.id, message.id), eq(messageQueue.status, "processing")));
+  }
 
-      // Update message with failure
+  // Update the campaign recipient and counters after a successful send
+  private static async recordCampaignSend(
+    message: MessageQueue,
+    channel: Channel,
+    attempts: number,
+    whatsappMessageId?: string
+  ) {
+    if (message.recipientId) {
       await db
-        .update(messageQueue)
+        .update(campaignRecipients)
         .set({
-          status: message.attempts >= 2 ? "failed" : "queued",
-          attempts: message.attempts + 1,
-          errorCode: error instanceof Error ? error.name : "UNKNOWN_ERROR",
-          errorMessage: error instanceof Error ? error.message : String(error),
-          scheduledFor: message.attempts < 2 
-            ? new Date(Date.now() + Math.pow(2, message.attempts + 1) * 1000) // Exponential backoff
-            : null
+          status: "sent",
+          whatsappMessageId,
+          sentAt: new Date(),
+          retryCount: attempts - 1,
+          updatedAt: new Date()
         })
-        .where(eq(messageQueue.id, message.id));
+        .where(eq(campaignRecipients.id, message.recipientId));
+    }
+    await incrementCampaignCounters(message.campaignId!, { sentCount: 1 });
+    await this.logCampaignMessage(message, channel, whatsappMessageId);
+    await completeCampaignIfDrained(message.campaignId!);
+  }
 
-      // Update campaign failed count if it's a final failure
-      if (message.campaignId && message.attempts >= 2) {
-        await db
-          .update(campaigns)
-          .set({
-            failedCount: sql`${campaigns.failedCount} + 1`
-          })
-          .where(eq(campaigns.id, message.campaignId));
+  // The template this message went out with, which for an A/B test is the recipient's variant's
+  private static async sentTemplate(message: MessageQueue, channel: Channel): Promise<Template | undefined> {
+    if (message.templateName) {
+      const [template] = await db
+        .select()
+        .from(templates)
+        .where(and(
+          eq(templates.channelId, channel.id),
+          eq(templates.name, message.templateName),
+          message.templateLanguage ? eq(templates.language, message.templateLanguage) : undefined
+        ))
+        .limit(1);
+      if (template) return template;
+    }
+    const campaign = await storage.getCampaign(message.campaignId!);
+    return campaign?.templateId ? await storage.getTemplate(campaign.templateId) : undefined;
+  }
+
+  /**
+   * Show the sent template in the contact's conversation, linked to the
+   * campaign for delivery stats. A retry after a failed delivery updates the
+   * message the first send logged instead of showing the template twice.
+   */
+  private static async logCampaignMessage(message: MessageQueue, channel: Channel, whatsappMessageId?: string) {
+    const template = await this.sentTemplate(message, channel);
+
+    // The queue row still holds the id of the send that failed
+    if (message.whatsappMessageId) {
+      const [retried] = await db
+        .update(messages)
+        .set({ whatsappMessageId, status: "sent", errorDetails: null, updatedAt: new Date() })
+        .where(and(
+          eq(messages.whatsappMessageId, message.whatsappMessageId),
+          eq(messages.campaignId, message.campaignId!)
+        ))
+        .returning({ id: messages.id });
+      if (retried) return;
+    }
+
+    let conversation = await db.query.conversations.findFirst({
+      where: and(eq(conversations.channelId, channel.id), eq(conversations.contactPhone, message.recipientPhone)),
+    });
+    if (!conversation) {
+      let contact = await db.query.contacts.findFirst({
+        where: and(eq(contacts.channelId, channel.id), eq(contacts.phone, message.recipientPhone)),
+      });
+      if (!contact) {
+        contact = await storage.createContact({
+          name: message.recipientPhone,
+          phone: message.recipientPhone,
+          channelId: channel.id,
+        });
       }
+      conversation = await storage.createConversation({
+        contactId: contact.id,
+        contactPhone: message.recipientPhone,
+        contactName: contact.name || message.recipientPhone,
+        channelId: channel.id,
+        unreadCount: 0,
+      });
     }
+
+    await storage.createMessage({
+      conversationId: conversation.id,
+      content: template?.body || "",
+      status: "sent",
+      whatsappMessageId,
+      messageType: "text",
+      campaignId: message.campaignId,
+      metadata: {},
+    });
   }
 
   // Queue messages for a campaign
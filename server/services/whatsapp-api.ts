@@ -4,6 +4,7 @@ import path from "path";
 import axios from 'axios';
 import FormData from "form-data";
 import type { Response } from "express";
+import { WhatsAppApiError } from "../utils/whatsapp-errors";
 
 interface WhatsAppTemplate {
   id: string;
@@ -89,7 +90,11 @@ export class WhatsAppApiService {
 
     if (!response.ok) {
       console.error('WhatsApp API Error:', responseData);
-      throw new Error(responseData.error?.message || 'Failed to send template message');
+      throw new WhatsAppApiError(
+        responseData.error?.message || 'Failed to send template message',
+        responseData.error?.code,
+        response.status
+      );
     }
 
     console.log('WhatsApp message sent successfully:', responseData);
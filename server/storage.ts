@@ -207,6 +207,7 @@ export class MemStorage implements IStorage {
         healthStatus: "unknown",     // ✅ added
         lastHealthCheck: null,       // ✅ added
         healthDetails: null,         // ✅ added
+        throughputTier: "standard",
         createdAt: today,
         updatedAt: today,
       };
@@ -252,7 +253,7 @@ async getMessageQueue(): Promise<MessageQueue> {
   return {} as MessageQueue;
 }
 
- async getAutomationByChannel(channelId: string): Promise<{ id: string; name: string; createdAt: Date | null; updatedAt: Date | null; channelId: string | null; description: string | null; trigger: string; triggerConfig: unknown; status: string | null; executionCount: number | null; lastExecutedAt: Date | null; createdBy: string | null; }[]> {
+ async getAutomationByChannel(channelId: string): Promise<Automation[]> {
     return Array.from(this.automations.values()).filter(a => a.channelId === channelId);
 }
 
@@ -328,6 +329,7 @@ async searchContactsByChannel(channelId: string, query: string): Promise<Contact
       role: insertUser.role || "agent",
       status: insertUser.status || "active",
       lastLogin: null,
+      lastSeenAt: null,
       updatedAt: new Date(),
       createdAt: new Date(),
     };
@@ -356,6 +358,8 @@ async searchContactsByChannel(channelId: string, query: string): Promise<Contact
       groups: Array.isArray(insertContact.groups)? (insertContact.groups as string[]): [],
       tags: insertContact.tags || [],
       status: insertContact.status || "active",
+      timezone: insertContact.timezone || null,
+      customFields: insertContact.customFields || {},
       lastContact: null,
       updatedAt: new Date(),
       createdAt: new Date(),
@@ -414,6 +418,14 @@ async searchContactsByChannel(channelId: string, query: string): Promise<Contact
       contactGroups: Array.isArray(insertCampaign.contactGroups)? (insertCampaign.contactGroups as string[]): [],
       csvData: insertCampaign.csvData || [],
       scheduledAt: insertCampaign.scheduledAt || null,
+      timezone: insertCampaign.timezone || null,
+      sendAtLocalTime: insertCampaign.sendAtLocalTime ?? false,
+      maxRetries: insertCampaign.maxRetries ?? 3,
+      abTestSamplePercent: insertCampaign.abTestSamplePercent ?? null,
+      abTestWindowHours: insertCampaign.abTestWindowHours ?? 24,
+      abTestMetric: insertCampaign.abTestMetric || "read",
+      abTestEndsAt: insertCampaign.abTestEndsAt || null,
+      winningVariantId: insertCampaign.winningVariantId || null,
       recipientCount: insertCampaign.recipientCount || 0,
       sentCount: insertCampaign.sentCount || 0,
       readCount: insertCampaign.readCount || 0,
@@ -465,6 +477,7 @@ async searchContactsByChannel(channelId: string, query: string): Promise<Contact
       healthStatus: insertChannel.healthStatus || "unknown",
       lastHealthCheck: null,
       healthDetails: null,
+      throughputTier: insertChannel.throughputTier || "standard",
     };
     this.channels.set(id, channel);
     return channel;
@@ -668,9 +681,12 @@ async searchContactsByChannel(channelId: string, query: string): Promise<Contact
       channelId: insertAutomation.channelId || null,
       description: insertAutomation.description || null,
       triggerConfig: insertAutomation.triggerConfig || {},
+      webhookSecret: null,
+      lastScheduledRunAt: null,
       executionCount: 0,
       lastExecutedAt: null,
       status: insertAutomation.status || "inactive",
+      publishedVersionId: insertAutomation.publishedVersionId || null,
       createdBy: insertAutomation.createdBy || null,
       updatedAt: new Date(),
       createdAt: new Date(),
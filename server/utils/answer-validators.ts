@@ -0,0 +1,173 @@
+// Validation rules for free text answers to user_reply nodes.
+//
+// A valid answer also yields a normalized value (lowercased email, E.164
+// phone, number, ISO date) that is saved next to the raw text.
+export interface AnswerValidation {
+  type?: AnswerValidationType;
+  min?: number; // number range
+  max?: number;
+  pattern?: string; // regex
+  choices?: string[]; // choice
+  defaultCountryCode?: string; // phone numbers typed without one, digits only
+  dateOrder?: 'DMY' | 'MDY'; // how 03/04/2025 is read
+  retryMessage?: string;
+  maxAttempts?: number;
+}
+
+export type AnswerValidationType = 'email' | 'phone' | 'number' | 'date' | 'regex' | 'choice';
+
+export interface AnswerCheck {
+  valid: boolean;
+  normalized?: string | number;
+  error?: string;
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+function checkEmail(text: string): AnswerCheck {
+  const email = text.trim().toLowerCase();
+  return EMAIL.test(email)
+    ? { valid: true, normalized: email }
+    : { valid: false, error: 'Not a valid email address' };
+}
+
+function checkPhone(text: string, defaultCountryCode?: string): AnswerCheck {
+  const trimmed = text.trim();
+  if (!/^[+\d\s().-]+$/.test(trimmed)) {
+    return { valid: false, error: 'Not a valid phone number' };
+  }
+
+  let digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (defaultCountryCode) {
+    const code = defaultCountryCode.replace(/\D/g, '');
+    digits = code + digits.replace(/^0+/, '');
+  }
+
+  // E.164 allows at most 15 digits including the country code
+  if (digits.length < 8 || digits.length > 15) {
+    return { valid: false, error: 'Not a valid phone number' };
+  }
+  return { valid: true, normalized: `+${digits}` };
+}
+
+function checkNumber(text: string, min?: number, max?: number): AnswerCheck {
+  const cleaned = text.trim().replace(/[,\s](?=\d{3}\b)/g, '');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    return { valid: false, error: 'Not a number' };
+  }
+  const value = parseFloat(cleaned);
+  if (min !== undefined && min !== null && value < min) {
+    return { valid: false, error: `Must be at least ${min}` };
+  }
+  if (max !== undefined && max !== null && value > max) {
+    return { valid: false, error: `Must be at most ${max}` };
+  }
+  return { valid: true, normalized: value };
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 31/02 and friends, which Date.UTC silently rolls over
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function checkDate(text: string, order: 'DMY' | 'MDY' = 'DMY'): AnswerCheck {
+  const trimmed = text.trim();
+  let normalized: string | null = null;
+
+  const iso = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(trimmed);
+  const local = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(trimmed);
+
+  if (iso) {
+    normalized = isoDate(+iso[1], +iso[2], +iso[3]);
+  } else if (local) {
+    const year = local[3].length === 2 ? 2000 + +local[3] : +local[3];
+    const [day, month] = order === 'MDY' ? [+local[2], +local[1]] : [+local[1], +local[2]];
+    normalized = isoDate(year, month, day);
+  } else if (/[a-z]/i.test(trimmed)) {
+    // Written dates such as "5 March 2025" or "March 5, 2025"
+    const parsed = new Date(`${trimmed} UTC`);
+    if (!isNaN(parsed.getTime())) {
+      normalized = parsed.toISOString().slice(0, 10);
+    }
+  }
+
+  return normalized
+    ? { valid: true, normalized }
+    : { valid: false, error: 'Not a valid date' };
+}
+
+function checkRegex(text: string, pattern?: string): AnswerCheck {
+  if (!pattern) return { valid: true, normalized: text.trim() };
+  try {
+    return new RegExp(pattern, 'i').test(text.trim())
+      ? { valid: true, normalized: text.trim() }
+      : { valid: false, error: 'Answer is not in the expected format' };
+  } catch {
+    console.warn(`⚠️ Invalid answer regex ignored: ${pattern}`);
+    return { valid: true, normalized: text.trim() };
+  }
+}
+
+function checkChoice(text: string, choices: string[] = []): AnswerCheck {
+  const input = text.trim().toLowerCase();
+  const options = choices.map((c) => c.trim()).filter(Boolean);
+
+  // Accept the option itself or its position in the list
+  const index = /^\d+$/.test(input) ? parseInt(input, 10) - 1 : -1;
+  const match = options.find((c) => c.toLowerCase() === input) ?? options[index];
+
+  return match
+    ? { valid: true, normalized: match }
+    : { valid: false, error: `Answer must be one of: ${options.join(', ')}` };
+}
+
+export function validateAnswer(validation: AnswerValidation, text: string): AnswerCheck {
+  switch (validation.type) {
+    case 'email':
+      return checkEmail(text);
+    case 'phone':
+      return checkPhone(text, validation.defaultCountryCode);
+    case 'number':
+      return checkNumber(text, validation.min, validation.max);
+    case 'date':
+      return checkDate(text, validation.dateOrder);
+    case 'regex':
+      return checkRegex(text, validation.pattern);
+    case 'choice':
+      return checkChoice(text, validation.choices);
+    default:
+      return { valid: true, normalized: text };
+  }
+}
+
+// Returns null when the rule is usable, otherwise a message for the builder
+export function validateAnswerValidation(validation: AnswerValidation): string | null {
+  if (validation.type === 'regex') {
+    if (!validation.pattern) return 'Regex validation needs a pattern';
+    try {
+      new RegExp(validation.pattern);
+    } catch {
+      return `Invalid regex ${validation.pattern}`;
+    }
+  }
+  if (validation.type === 'choice' && !(validation.choices || []).some((c) => c.trim())) {
+    return 'Choice validation needs at least one option';
+  }
+  if (
+    validation.type === 'number' &&
+    validation.min !== undefined && validation.max !== undefined &&
+    validation.min !== null && validation.max !== null &&
+    validation.min > validation.max
+  ) {
+    return 'Minimum is greater than maximum';
+  }
+  return null;
+}
@@ -0,0 +1,142 @@
+// Delay settings for time_gap automation nodes.
+//
+// Older flows only store `delay` in seconds; newer ones store a value + unit,
+// or a "wait until" rule resolved in the contact's timezone.
+export interface TimeGapConfig {
+  delayMode?: 'duration' | 'until';
+  delay?: number; // legacy, seconds
+  delayValue?: number;
+  delayUnit?: DelayUnit;
+  untilDays?: number[]; // 0 = Sunday ... 6 = Saturday, empty = any day
+  untilTime?: string; // HH:MM, 24h
+  timezone?: string; // fallback when the contact has no timezone
+}
+
+export type DelayUnit = 'seconds' | 'minutes' | 'hours' | 'days';
+
+const UNIT_MS: Record<DelayUnit, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Check the zone name is known to the runtime
+export function isValidTimezone(timezone?: string | null): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant in the given timezone
+export function getZonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in ms
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Convert a wall-clock time in a timezone to a UTC instant
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const firstPass = guess - getTimezoneOffset(new Date(guess), timezone);
+  // Second pass settles instants that land across a DST change
+  return new Date(guess - getTimezoneOffset(new Date(firstPass), timezone));
+}
+
+// Next instant matching one of the weekdays at HH:MM in the timezone
+export function nextWeekdayTime(untilTime: string, untilDays: number[] | undefined, timezone: string, from: Date = new Date()): Date {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(untilTime || '');
+  if (!match) {
+    throw new Error(`Invalid time "${untilTime}", expected HH:MM`);
+  }
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  if (hour > 23 || minute > 59) {
+    throw new Error(`Invalid time "${untilTime}", expected HH:MM`);
+  }
+
+  const days = untilDays && untilDays.length > 0 ? untilDays : [0, 1, 2, 3, 4, 5, 6];
+  const today = getZonedParts(from, timezone);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    // Date.UTC normalises day overflow into the next month/year
+    const local = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    if (!days.includes(local.getUTCDay())) continue;
+
+    const candidate = zonedTimeToUtc(
+      local.getUTCFullYear(),
+      local.getUTCMonth() + 1,
+      local.getUTCDate(),
+      hour,
+      minute,
+      timezone
+    );
+    if (candidate.getTime() > from.getTime()) {
+      return candidate;
+    }
+  }
+
+  throw new Error('No matching weekday for delay');
+}
+
+// Work out when a time_gap node should resume
+export function computeResumeAt(config: TimeGapConfig, contactTimezone?: string | null, from: Date = new Date()): Date {
+  if (config.delayMode === 'until') {
+    const timezone = isValidTimezone(contactTimezone)
+      ? contactTimezone
+      : isValidTimezone(config.timezone) ? config.timezone : DEFAULT_TIMEZONE;
+    return nextWeekdayTime(config.untilTime || '', config.untilDays, timezone, from);
+  }
+
+  if (config.delayValue !== undefined && config.delayUnit) {
+    return new Date(from.getTime() + Math.max(0, config.delayValue) * UNIT_MS[config.delayUnit]);
+  }
+
+  const seconds = config.delay ?? 60;
+  return new Date(from.getTime() + Math.max(0, seconds) * 1000);
+}
+
+// Human readable description, used in execution results and logs
+export function describeDelay(config: TimeGapConfig): string {
+  if (config.delayMode === 'until') {
+    const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    const days = config.untilDays && config.untilDays.length > 0
+      ? config.untilDays.map((d) => names[d]).join(', ')
+      : 'any day';
+    return `until ${config.untilTime} (${days})`;
+  }
+  if (config.delayValue !== undefined && config.delayUnit) {
+    return `${config.delayValue} ${config.delayUnit}`;
+  }
+  return `${config.delay ?? 60} seconds`;
+}
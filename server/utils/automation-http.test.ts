@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  interpolate,
+  isBlockedAddress,
+  performHttpRequest,
+  readJsonPath,
+  validateHttpRequestConfig,
+} from "./automation-http";
+
+describe("isBlockedAddress", () => {
+  it("blocks private, loopback, link-local and metadata IPv4 addresses", () => {
+    for (const address of [
+      "0.0.0.0",
+      "10.1.2.3",
+      "100.64.1.1",
+      "127.0.0.1",
+      "169.254.169.254",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "224.0.0.1",
+      "255.255.255.255",
+    ]) {
+      assert.equal(isBlockedAddress(address), true, address);
+    }
+  });
+
+  it("allows public IPv4 addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "1.1.1.1", "100.128.0.1"]) {
+      assert.equal(isBlockedAddress(address), false, address);
+    }
+  });
+
+  it("blocks loopback, unique local, link-local and multicast IPv6 addresses", () => {
+    for (const address of ["::", "::1", "fd00:ec2::254", "fc00::1", "fe80::1", "ff02::1"]) {
+      assert.equal(isBlockedAddress(address), true, address);
+    }
+    assert.equal(isBlockedAddress("2606:4700::1111"), false);
+  });
+
+  it("checks the IPv4 host behind mapped, compatible and NAT64 addresses", () => {
+    assert.equal(isBlockedAddress("::ffff:127.0.0.1"), true);
+    assert.equal(isBlockedAddress("::ffff:7f00:1"), true);
+    assert.equal(isBlockedAddress("::127.0.0.1"), true);
+    assert.equal(isBlockedAddress("64:ff9b::a00:1"), true);
+    assert.equal(isBlockedAddress("64:ff9b::169.254.169.254"), true);
+    assert.equal(isBlockedAddress("64:ff9b:1::1"), true);
+    assert.equal(isBlockedAddress("::ffff:8.8.8.8"), false);
+    assert.equal(isBlockedAddress("64:ff9b::808:808"), false);
+  });
+
+  it("blocks anything that is not an address", () => {
+    assert.equal(isBlockedAddress("localhost"), true);
+    assert.equal(isBlockedAddress(""), true);
+  });
+});
+
+describe("performHttpRequest", () => {
+  it("refuses blocked hosts without sending", async () => {
+    for (const url of ["http://127.0.0.1/x", "http://[::1]/x", "http://[::ffff:127.0.0.1]/x", "http://localhost:1/x"]) {
+      const result = await performHttpRequest({ url }, {});
+      assert.equal(result.ok, false, url);
+      assert.match(result.error ?? "", /are not allowed/, url);
+    }
+  });
+
+  it("rejects URLs that are not http or https", async () => {
+    const result = await performHttpRequest({ url: "{{target}}" }, { target: "file:///etc/passwd" });
+    assert.equal(result.error, "Invalid URL: file:///etc/passwd");
+  });
+});
+
+describe("interpolate", () => {
+  it("encodes values for their place in the request", () => {
+    const scope = { name: 'Ana "A"', q: "a b&c" };
+    assert.equal(interpolate("{{name}}", scope), 'Ana "A"');
+    assert.equal(interpolate('{"n":"{{name}}"}', scope, "json"), '{"n":"Ana \\"A\\""}');
+    assert.equal(interpolate("?q={{q}}", scope, "url"), "?q=a%20b%26c");
+    assert.equal(interpolate("{{missing}}", scope), "");
+  });
+});
+
+describe("readJsonPath", () => {
+  it("reads nested values and never inherited ones", () => {
+    const data = { data: { items: [{ status: "ok" }] } };
+    assert.equal(readJsonPath(data, "$.data.items[0].status"), "ok");
+    assert.equal(readJsonPath(data, "$.data.missing"), undefined);
+    assert.equal(readJsonPath(data, "$.constructor"), undefined);
+  });
+});
+
+describe("validateHttpRequestConfig", () => {
+  it("requires an http URL, a known method and a sane timeout", () => {
+    assert.equal(validateHttpRequestConfig({ url: "https://example.com" }), null);
+    assert.equal(validateHttpRequestConfig({ url: "{{base}}/orders" }), null);
+    assert.equal(validateHttpRequestConfig({}), "URL is required");
+    assert.equal(validateHttpRequestConfig({ url: "ftp://x" }), "URL must start with http:// or https://");
+    assert.equal(validateHttpRequestConfig({ url: "https://x", timeout: 60 }), "Timeout must be between 1 and 30 seconds");
+  });
+});
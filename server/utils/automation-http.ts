@@ -0,0 +1,396 @@
+// Settings and helpers for http_request automation nodes.
+//
+// Values from the execution are interpolated with {{path}} placeholders, and
+// parts of the JSON response are copied back into variables with simple
+// JSON paths such as $.data.items[0].status.
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { isIP } from 'net';
+
+export interface HttpRequestConfig {
+  method?: HttpMethod;
+  url?: string;
+  headers?: Array<{ key: string; value: string }>;
+  body?: string;
+  timeout?: number; // seconds
+  responseMappings?: Array<{ variable: string; path: string }>;
+  saveResponseAs?: string; // whole parsed response body
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HttpRequestResult {
+  ok: boolean;
+  status: number | null;
+  data: unknown;
+  error?: string;
+}
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export const DEFAULT_HTTP_TIMEOUT = 10;
+export const MAX_HTTP_TIMEOUT = 30;
+
+// Keeps oversized responses out of execution variables and logs
+const MAX_RESPONSE_BYTES = 256 * 1024;
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Headers that carry credentials, dropped when a redirect leaves the original origin
+const CREDENTIAL_HEADER = /^(authorization|proxy-authorization|cookie)$|api[-_]?key|token|secret/i;
+
+const PATH_SEGMENT = /[^.[\]]+|\[(\d+|"[^"]*"|'[^']*')\]/g;
+const BLOCKED_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function splitPath(path: string): string[] {
+  const trimmed = path.trim().replace(/^\$\.?/, '');
+  const segments: string[] = [];
+  for (const match of Array.from(trimmed.matchAll(PATH_SEGMENT))) {
+    segments.push(match[1] !== undefined ? match[1].replace(/^["']|["']$/g, '') : match[0]);
+  }
+  return segments;
+}
+
+// Read a value by JSON path, undefined when any segment is missing
+export function readJsonPath(data: unknown, path: string): unknown {
+  let current: any = data;
+  for (const segment of splitPath(path)) {
+    if (current === null || current === undefined || BLOCKED_KEYS.has(segment)) {
+      return undefined;
+    }
+    if (!Object.prototype.hasOwnProperty.call(Object(current), segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+type Encoder = (value: string) => string;
+
+const encoders: Record<'text' | 'url' | 'json', Encoder> = {
+  text: (value) => value,
+  url: (value) => encodeURIComponent(value),
+  // Escapes quotes and newlines so the value fits inside a JSON string
+  json: (value) => JSON.stringify(value).slice(1, -1),
+};
+
+/**
+ * Replace {{path}} placeholders with values from the scope.
+ * Unknown placeholders become empty strings so a missing variable never
+ * leaks the template syntax into a request.
+ */
+export function interpolate(
+  text: string,
+  scope: Record<string, any>,
+  encoding: keyof typeof encoders = 'text'
+): string {
+  return text.replace(/\{\{\s*([\w.[\]"']+)\s*\}\}/g, (_match, path: string) => {
+    const value = readJsonPath(scope, path);
+    if (value === undefined || value === null) return '';
+    const raw = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return encoders[encoding](raw);
+  });
+}
+
+function ipv4ToInt(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+// [network, prefix length] pairs that requests may not reach
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata at 169.254.169.254
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToInt(address);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToInt(network) / size);
+  });
+}
+
+// The eight 16-bit groups of an IPv6 address, with "::" and a trailing dotted quad expanded
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split('%')[0];
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (dotted) {
+    const value = ipv4ToInt(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const before = head ? head.split(':') : [];
+  const after = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? before
+    : [...before, ...Array(8 - before.length - after.length).fill('0'), ...after];
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const embeddedIpv4 = `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+  const zeroUpTo = (end: number) => groups.slice(0, end).every((group) => group === 0);
+
+  // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64 (64:ff9b::/96)
+  // addresses reach the IPv4 host in their last 32 bits; :: and ::1 land in 0.0.0.0/8
+  if (zeroUpTo(5) && groups[5] === 0xffff) return isBlockedIpv4(embeddedIpv4);
+  if (zeroUpTo(6)) return isBlockedIpv4(embeddedIpv4);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isBlockedIpv4(embeddedIpv4);
+  }
+  return (groups[0] === 0x64 && groups[1] === 0xff9b && groups[2] === 1) // local-use NAT64
+    || (groups[0] & 0xfe00) === 0xfc00 // unique local, including AWS metadata at fd00:ec2::254
+    || (groups[0] & 0xffc0) === 0xfe80 // link-local
+    || (groups[0] & 0xff00) === 0xff00; // multicast
+}
+
+// Loopback, private, link-local and metadata addresses are off limits
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIpv4(address);
+  if (version === 6) return isBlockedIpv6(address);
+  return true;
+}
+
+class BlockedHostError extends Error {
+  constructor(hostname: string) {
+    super(`Requests to ${hostname} are not allowed`);
+    this.name = 'BlockedHostError';
+  }
+}
+
+/**
+ * DNS lookup for outgoing requests that fails when the host resolves to a
+ * blocked address. It runs as the socket connects, so the address that was
+ * checked is the one the request goes to.
+ */
+const publicLookup: typeof dns.lookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new BlockedHostError(hostname), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as typeof dns.lookup;
+
+interface RawResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string | null; // null past MAX_RESPONSE_BYTES
+}
+
+/**
+ * Send one request without following redirects. The body is read through the
+ * stream so an oversized response is cut off, not buffered.
+ */
+function sendOnce(
+  url: URL,
+  method: string,
+  headers: Record<string, string>,
+  body: string | undefined,
+  signal: AbortSignal,
+  readBody: (status: number) => boolean
+): Promise<RawResponse> {
+  // Literal addresses never go through the lookup
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isBlockedAddress(hostname)) {
+    return Promise.reject(new BlockedHostError(hostname));
+  }
+
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, { method, headers, signal, lookup: publicLookup }, (response) => {
+      const status = response.statusCode ?? 0;
+      if (!readBody(status)) {
+        response.destroy();
+        return resolve({ status, headers: response.headers, body: '' });
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_RESPONSE_BYTES) {
+          response.destroy();
+          return resolve({ status, headers: response.headers, body: null });
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve({ status, headers: response.headers, body: Buffer.concat(chunks).toString('utf8') }));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+function looksLikeJson(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') || trimmed.startsWith('[');
+}
+
+// Returns null when the config is usable, otherwise a message for the builder
+export function validateHttpRequestConfig(config: HttpRequestConfig): string | null {
+  if (!config.url || !config.url.trim()) {
+    return 'URL is required';
+  }
+  // A URL built from a variable is only known at run time
+  const url = config.url.trim();
+  if (!url.startsWith('{{') && !/^https?:\/\//i.test(url)) {
+    return 'URL must start with http:// or https://';
+  }
+  if (config.method && !METHODS.includes(config.method)) {
+    return `Unsupported method ${config.method}`;
+  }
+  if (config.timeout !== undefined && (config.timeout <= 0 || config.timeout > MAX_HTTP_TIMEOUT)) {
+    return `Timeout must be between 1 and ${MAX_HTTP_TIMEOUT} seconds`;
+  }
+  for (const mapping of config.responseMappings || []) {
+    if (!mapping.variable || !/^[A-Za-z_][\w]*$/.test(mapping.variable)) {
+      return 'Response mappings need a variable name made of letters, digits and underscores';
+    }
+    if (!mapping.path || !mapping.path.trim()) {
+      return `Response mapping for ${mapping.variable} has no path`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Send the configured request. Never throws: network failures, timeouts,
+ * blocked hosts and non-2xx responses come back with ok = false so the node
+ * can take its error branch. Redirects are followed by hand so every hop's
+ * host is checked.
+ */
+export async function performHttpRequest(
+  config: HttpRequestConfig,
+  scope: Record<string, any>
+): Promise<HttpRequestResult> {
+  const method = config.method && METHODS.includes(config.method) ? config.method : 'GET';
+  // A leading placeholder holds the base URL itself and must not be escaped
+  const rawUrl = (config.url || '').trim();
+  const base = /^\{\{[^}]*\}\}/.exec(rawUrl)?.[0] ?? '';
+  const url = (interpolate(base, scope) + interpolate(rawUrl.slice(base.length), scope, 'url')).trim();
+
+  if (!/^https?:\/\//i.test(url)) {
+    return { ok: false, status: null, data: null, error: `Invalid URL: ${url || '(empty)'}` };
+  }
+
+  const headers: Record<string, string> = {};
+  for (const header of config.headers || []) {
+    if (header.key?.trim()) {
+      headers[header.key.trim()] = interpolate(header.value || '', scope);
+    }
+  }
+
+  let body: string | undefined;
+  if (method !== 'GET' && config.body?.trim()) {
+    const isJson = looksLikeJson(config.body);
+    body = interpolate(config.body, scope, isJson ? 'json' : 'text');
+    const hasContentType = Object.keys(headers).some((k) => k.toLowerCase() === 'content-type');
+    if (isJson && !hasContentType) {
+      headers['Content-Type'] = 'application/json';
+    }
+  }
+
+  const seconds = Math.min(Math.max(config.timeout || DEFAULT_HTTP_TIMEOUT, 1), MAX_HTTP_TIMEOUT);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), seconds * 1000);
+
+  try {
+    let target = new URL(url);
+    let currentMethod: string = method;
+    let currentBody = body;
+    let currentHeaders = body !== undefined
+      ? { ...headers, 'Content-Length': String(Buffer.byteLength(body)) }
+      : headers;
+    let response: RawResponse;
+    for (let redirects = 0; ; redirects++) {
+      response = await sendOnce(
+        target,
+        currentMethod,
+        currentHeaders,
+        currentBody,
+        controller.signal,
+        (status) => !REDIRECT_STATUSES.has(status)
+      );
+      const location = response.headers.location;
+      if (!REDIRECT_STATUSES.has(response.status) || !location) break;
+
+      if (redirects >= MAX_REDIRECTS) {
+        return { ok: false, status: response.status, data: null, error: `More than ${MAX_REDIRECTS} redirects` };
+      }
+      const next = new URL(location, target);
+      if (next.protocol !== 'http:' && next.protocol !== 'https:') {
+        return { ok: false, status: response.status, data: null, error: `Invalid redirect to ${next.protocol}` };
+      }
+      if (next.origin !== target.origin) {
+        currentHeaders = Object.fromEntries(
+          Object.entries(currentHeaders).filter(([key]) => !CREDENTIAL_HEADER.test(key))
+        );
+      }
+      // Like browsers, 303 and a redirected POST continue as a GET without the body
+      if (response.status === 303 || ((response.status === 301 || response.status === 302) && currentMethod === 'POST')) {
+        currentMethod = 'GET';
+        currentBody = undefined;
+        currentHeaders = Object.fromEntries(
+          Object.entries(currentHeaders).filter(([key]) => !/^content-(type|length)$/i.test(key))
+        );
+      }
+      target = next;
+    }
+
+    const text = response.body;
+    if (text === null) {
+      return {
+        ok: false,
+        status: response.status,
+        data: null,
+        error: `Response larger than ${MAX_RESPONSE_BYTES / 1024} KB`,
+      };
+    }
+
+    let data: unknown = text;
+    if (text && (response.headers['content-type']?.includes('json') || looksLikeJson(text))) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // Keep the raw text, mappings against it simply resolve to undefined
+      }
+    }
+
+    const ok = response.status >= 200 && response.status < 300;
+    return {
+      ok,
+      status: response.status,
+      data,
+      error: ok ? undefined : `Request failed with status ${response.status}`,
+    };
+  } catch (error) {
+    const message = (error as Error).name === 'AbortError'
+      ? `Request timed out after ${seconds}s`
+      : (error as Error).message;
+    return { ok: false, status: null, data: null, error: message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
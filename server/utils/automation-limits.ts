@@ -0,0 +1,53 @@
+// Per-execution guards against runaway flows.
+//
+// A loop in the graph, or a flow that keeps messaging the same contact, is
+// stopped once it visits too many nodes, sends too many messages or runs
+// for too long. Automations can tighten or relax the defaults in
+// triggerConfig.limits.
+import type { AutomationExecutionLimits, AutomationTriggerConfig } from "@shared/schema";
+
+export const DEFAULT_EXECUTION_LIMITS: Required<AutomationExecutionLimits> = {
+  maxNodeVisits: 100,
+  maxMessages: 20,
+  maxDurationHours: 30 * 24, // long enough for multi-week drip flows
+};
+
+// Upper bounds so a typo can't switch the guards off
+const CEILINGS: Required<AutomationExecutionLimits> = {
+  maxNodeVisits: 1000,
+  maxMessages: 200,
+  maxDurationHours: 90 * 24,
+};
+
+export const MAX_COOLDOWN_MINUTES = 30 * 24 * 60;
+
+export class ExecutionLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExecutionLimitError";
+  }
+}
+
+function clamp(value: unknown, fallback: number, ceiling: number): number {
+  const number = typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(number) || number <= 0) return fallback;
+  return Math.min(Math.floor(number), ceiling);
+}
+
+export function resolveExecutionLimits(
+  config: AutomationTriggerConfig | null | undefined
+): Required<AutomationExecutionLimits> {
+  const limits = config?.limits || {};
+  return {
+    maxNodeVisits: clamp(limits.maxNodeVisits, DEFAULT_EXECUTION_LIMITS.maxNodeVisits, CEILINGS.maxNodeVisits),
+    maxMessages: clamp(limits.maxMessages, DEFAULT_EXECUTION_LIMITS.maxMessages, CEILINGS.maxMessages),
+    maxDurationHours: clamp(limits.maxDurationHours, DEFAULT_EXECUTION_LIMITS.maxDurationHours, CEILINGS.maxDurationHours),
+  };
+}
+
+// Minutes the same contact has to wait before the automation starts again, 0 = no cooldown
+export function resolveCooldownMinutes(config: AutomationTriggerConfig | null | undefined): number {
+  const minutes = Number(config?.cooldownMinutes);
+  if (!Number.isFinite(minutes) || minutes <= 0) return 0;
+  return Math.min(minutes, MAX_COOLDOWN_MINUTES);
+}
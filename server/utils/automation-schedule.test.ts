@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { cronMatches, isScheduleDue, parseCron, startOfMinute } from "./automation-schedule";
+
+const values = (field: { values: Set<number> }) => Array.from(field.values).sort((a, b) => a - b);
+
+describe("parseCron", () => {
+  it("expands lists, ranges and steps", () => {
+    const cron = parseCron("*/15 9-17/4 1,15 * 1-5")!;
+    assert.deepEqual(values(cron.minute), [0, 15, 30, 45]);
+    assert.deepEqual(values(cron.hour), [9, 13, 17]);
+    assert.deepEqual(values(cron.dayOfMonth), [1, 15]);
+    assert.equal(cron.month.any, true);
+    assert.deepEqual(values(cron.dayOfWeek), [1, 2, 3, 4, 5]);
+  });
+
+  it("reads 7 as Sunday and a bare start with a step as running to the end", () => {
+    assert.deepEqual(values(parseCron("0 0 * * 7")!.dayOfWeek), [0, 7]);
+    assert.deepEqual(values(parseCron("5/20 * * * *")!.minute), [5, 25, 45]);
+  });
+
+  it("rejects malformed expressions", () => {
+    for (const expression of [undefined, "", "* * * *", "60 * * * *", "* 24 * * *", "5-1 * * * *", "*/0 * * * *", "mon * * * *"]) {
+      assert.equal(parseCron(expression), null, String(expression));
+    }
+  });
+});
+
+describe("cronMatches", () => {
+  it("matches in the schedule's timezone", () => {
+    const cron = parseCron("0 9 * * *")!;
+    const nineInSaoPaulo = new Date("2026-03-02T12:00:00Z");
+    assert.equal(cronMatches(cron, nineInSaoPaulo, "America/Sao_Paulo"), true);
+    assert.equal(cronMatches(cron, nineInSaoPaulo, "UTC"), false);
+  });
+
+  it("takes either day field when both are restricted, as cron does", () => {
+    const cron = parseCron("0 0 13 * 5")!; // the 13th, or any Friday
+    assert.equal(cronMatches(cron, new Date("2026-01-13T00:00:00Z"), "UTC"), true); // Tuesday the 13th
+    assert.equal(cronMatches(cron, new Date("2026-01-16T00:00:00Z"), "UTC"), true); // Friday
+    assert.equal(cronMatches(cron, new Date("2026-01-14T00:00:00Z"), "UTC"), false);
+  });
+});
+
+describe("isScheduleDue", () => {
+  it("is false without a valid cron and falls back to UTC for unknown zones", () => {
+    const date = new Date("2026-01-01T10:30:00Z");
+    assert.equal(isScheduleDue(undefined, date), false);
+    assert.equal(isScheduleDue({ cron: "bad" }, date), false);
+    assert.equal(isScheduleDue({ cron: "30 10 * * *", timezone: "Nowhere/City" }, date), true);
+  });
+
+  it("claims runs by the start of the minute", () => {
+    assert.equal(startOfMinute(new Date("2026-01-01T10:30:59.999Z")).toISOString(), "2026-01-01T10:30:00.000Z");
+  });
+});
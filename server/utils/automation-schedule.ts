@@ -0,0 +1,101 @@
+// Cron expressions for automations with a "schedule" trigger.
+//
+// Five fields, evaluated in the schedule's timezone:
+//   minute (0-59) hour (0-23) day-of-month (1-31) month (1-12) day-of-week (0-7, 0 and 7 are Sunday)
+// Each field takes "*", numbers, ranges ("1-5"), lists ("1,15") and steps
+// ("*/15", "9-17/2"). Month and weekday names are not supported.
+import type { AutomationSchedule } from "@shared/schema";
+import { DEFAULT_TIMEZONE, getZonedParts, isValidTimezone } from "./automation-delay";
+
+interface CronField {
+  values: Set<number>;
+  any: boolean; // written as "*", matters for the day-of-month / day-of-week rule
+}
+
+export interface CronSchedule {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+function parseNumber(text: string, min: number, max: number): number | null {
+  if (!/^\d+$/.test(text)) return null;
+  const value = parseInt(text, 10);
+  return value >= min && value <= max ? value : null;
+}
+
+function parseField(text: string, min: number, max: number): CronField | null {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseNumber(stepText, 1, max);
+    if (step === null) return null;
+
+    let from: number | null = min;
+    let to: number | null = max;
+    if (range !== "*") {
+      const [start, end] = range.split("-");
+      from = parseNumber(start, min, max);
+      // "5/10" means from 5 to the end of the range in steps of 10
+      to = end !== undefined ? parseNumber(end, min, max) : stepText !== undefined ? max : from;
+    }
+    if (from === null || to === null || from > to) return null;
+
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+
+  return { values, any: text === "*" };
+}
+
+export function parseCron(expression: string | undefined): CronSchedule | null {
+  const fields = (expression || "").trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((field, index) => parseField(field, ...RANGES[index]));
+  if (parsed.some((field) => field === null)) return null;
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parsed as CronField[];
+  if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0);
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+/**
+ * Whether the schedule fires in the minute containing `date`. As in cron,
+ * when both day fields are restricted either one matching is enough.
+ */
+export function cronMatches(cron: CronSchedule, date: Date, timezone: string = DEFAULT_TIMEZONE): boolean {
+  const parts = getZonedParts(date, isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE);
+  const weekday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+
+  const dayOfMonth = cron.dayOfMonth.values.has(parts.day);
+  const dayOfWeek = cron.dayOfWeek.values.has(weekday);
+  const day = cron.dayOfMonth.any || cron.dayOfWeek.any
+    ? dayOfMonth && dayOfWeek
+    : dayOfMonth || dayOfWeek;
+
+  return day
+    && cron.minute.values.has(parts.minute)
+    && cron.hour.values.has(parts.hour)
+    && cron.month.values.has(parts.month);
+}
+
+export function isScheduleDue(schedule: AutomationSchedule | undefined, date: Date): boolean {
+  const cron = parseCron(schedule?.cron);
+  return !!cron && cronMatches(cron, date, schedule?.timezone || DEFAULT_TIMEZONE);
+}
+
+// Start of the minute a schedule fires in, used to claim the run
+export function startOfMinute(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / 60000) * 60000);
+}
@@ -0,0 +1,47 @@
+// When scheduled campaigns go out.
+//
+// The create form sends a wall-clock time ("2026-03-01T09:00") that is read in
+// the campaign's timezone. With sendAtLocalTime each recipient instead gets
+// the message at that wall-clock time in their own timezone, falling back to
+// the campaign's for contacts without one.
+import type { Campaign } from "@shared/schema";
+import { DEFAULT_TIMEZONE, getZonedParts, isValidTimezone, zonedTimeToUtc } from "./automation-delay";
+
+// UTC offsets run from -12 to +14, so a recipient's local time can fall up to
+// 26 hours either side of the same time in the campaign's timezone
+export const LOCAL_TIME_LEAD_MS = 26 * 60 * 60 * 1000;
+
+const WALL_CLOCK = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/;
+
+export function campaignTimezone(campaign: Pick<Campaign, "timezone">): string {
+  return isValidTimezone(campaign.timezone) ? campaign.timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Instant for a schedule from the API. Wall-clock values are read in the
+ * timezone; values with "Z" or an offset are already absolute.
+ */
+export function parseScheduledAt(value: string, timezone: string): Date | null {
+  const match = WALL_CLOCK.exec(value.trim());
+  if (match) {
+    const [, year, month, day, hour, minute] = match.map(Number);
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) return null;
+    return zonedTimeToUtc(year, month, day, hour, minute, timezone);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * When a recipient's message should go out: the campaign's scheduled
+ * wall-clock time in the recipient's timezone
+ */
+export function localSendTime(scheduledAt: Date, fromTimezone: string, recipientTimezone?: string | null): Date {
+  if (!isValidTimezone(recipientTimezone) || recipientTimezone === fromTimezone) {
+    return scheduledAt;
+  }
+  const wall = getZonedParts(scheduledAt, fromTimezone);
+  return zonedTimeToUtc(wall.year, wall.month, wall.day, wall.hour, wall.minute, recipientTimezone);
+}
+
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateCondition, evaluateExpression, validateExpression } from "./expression";
+
+describe("evaluateExpression", () => {
+  it("compares variable strings and numbers loosely", () => {
+    assert.equal(evaluateCondition("score >= 10", { score: "12" }), true);
+    assert.equal(evaluateCondition("answer == 'YES'", { answer: "yes" }), true);
+    assert.equal(evaluateCondition("answer != 'no'", { answer: "No" }), false);
+  });
+
+  it("reads nested paths and the old {{name}} placeholders", () => {
+    const scope = { contact: { name: "Ana", tags: ["vip"] } };
+    assert.equal(evaluateExpression("contact.name", scope), "Ana");
+    assert.equal(evaluateExpression("{{contact.name}}", scope), "Ana");
+    assert.equal(evaluateExpression("contact.missing.deeper", scope), undefined);
+  });
+
+  it("never resolves inherited properties", () => {
+    assert.equal(evaluateExpression("answer.constructor", { answer: "x" }), undefined);
+    assert.equal(evaluateExpression("contact.__proto__", { contact: {} }), undefined);
+    assert.equal(evaluateExpression("toString", {}), undefined);
+  });
+
+  it("supports in, not in and the keyword operators", () => {
+    const scope = { tags: ["lead"], plan: "pro" };
+    assert.equal(evaluateCondition("tags in ['vip', 'lead']", scope), true);
+    assert.equal(evaluateCondition("plan not in ['free', 'trial']", scope), true);
+    assert.equal(evaluateCondition("plan == 'pro' and not (tags contains 'vip')", scope), true);
+  });
+
+  it("reads contains as the operator between values and as the function before a bracket", () => {
+    assert.equal(evaluateCondition("contains(answer, 'y')", { answer: "Yes" }), true);
+    assert.equal(evaluateCondition("contains (answer, 'z')", { answer: "Yes" }), false);
+    assert.equal(evaluateCondition("answer contains 'y'", { answer: "Yes" }), true);
+    assert.equal(evaluateCondition("tags contains ('vip')", { tags: ["vip"] }), true);
+    assert.equal(evaluateCondition("!contains(tags, 'x') && tags contains 'vip'", { tags: ["vip"] }), true);
+  });
+
+  it("calls whitelisted functions and rejects others", () => {
+    assert.equal(evaluateExpression("lower(trim('  Hi '))", {}), "hi");
+    assert.equal(evaluateExpression("round(2.345, 2)", {}), 2.35);
+    assert.equal(evaluateExpression("daysBetween('2024-01-01', '2024-01-31')", {}), 30);
+    assert.match(validateExpression("eval('1')") ?? "", /Unknown function "eval"/);
+  });
+
+  it("evaluates ternaries and short-circuits boolean operators", () => {
+    assert.equal(evaluateExpression("days > 30 ? 'lapsed' : 'active'", { days: 45 }), "lapsed");
+    // The right side would throw if it ran
+    assert.equal(evaluateExpression("false && matches(a, pattern)", { a: "x", pattern: "(a+)+" }), false);
+    assert.equal(evaluateExpression("true || matches(a, pattern)", { a: "x", pattern: "(a+)+" }), true);
+  });
+
+  it("reports syntax errors with their position", () => {
+    assert.equal(validateExpression("a == 'x'"), null);
+    assert.equal(validateExpression("a =="), "Unexpected end of expression (at 5)");
+    assert.equal(validateExpression("'open"), "Unterminated string (at 1)");
+    assert.equal(validateExpression(""), "Expression is empty");
+  });
+});
+
+describe("matches()", () => {
+  it("tests patterns case-insensitively", () => {
+    assert.equal(evaluateCondition("matches(answer, '^y(es)?$')", { answer: "YES" }), true);
+    assert.equal(evaluateCondition("matches(answer, '^\\\\d+[-.]\\\\d+$')", { answer: "12-34" }), true);
+    assert.equal(evaluateCondition("matches(answer, '(?:yes|no)?')", { answer: "no" }), true);
+  });
+
+  it("refuses patterns that can backtrack for a long time", () => {
+    for (const pattern of ["(a+)+$", "(a|ab)*c", "(\\\\w+\\\\s?){1,20}$"]) {
+      assert.match(validateExpression(`matches(answer, '${pattern}')`) ?? "", /Nested or alternated repeats/, pattern);
+    }
+    assert.match(validateExpression("matches(answer, '\\\\d*\\\\d*\\\\d*x')") ?? "", /too many repeats/);
+    assert.match(validateExpression("matches(answer, '(a)\\\\1')") ?? "", /Backreferences/);
+    assert.match(validateExpression("matches(answer, '(?=a)')") ?? "", /Lookarounds/);
+  });
+
+  it("checks patterns that come from variables when they run", () => {
+    assert.throws(
+      () => evaluateExpression("matches(answer, pattern)", { answer: "aaaa!", pattern: "(a+)+$" }),
+      /Nested or alternated repeats/
+    );
+  });
+
+  it("only looks at the start of long text", () => {
+    const answer = "a".repeat(600) + "end";
+    assert.equal(evaluateCondition("matches(answer, 'end')", { answer }), false);
+    assert.equal(evaluateCondition("matches(answer, '^a+')", { answer }), true);
+  });
+});
@@ -0,0 +1,698 @@
+// Sandboxed expression language for automation conditions and computed
+// variables. Expressions are tokenised and parsed into a small AST that is
+// walked by the evaluator below; nothing is ever passed to eval/Function and
+// only the whitelisted functions in FUNCTIONS can be called.
+//
+//   score >= 10 && contact.tags in ['vip', 'lead']
+//   lower(trim(answer)) == 'yes' || matches(answer, '^y(es)?$')
+//   daysBetween(lastOrderDate, now()) > 30 ? 'lapsed' : 'active'
+//
+// `{{name}}` is accepted as an alias for `name` so conditions written for
+// the old string-splitting evaluator keep working.
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} (at ${position + 1})` : message);
+    Object.setPrototypeOf(this, ExpressionError.prototype);
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'eof'; pos: number };
+
+type Node =
+  | { type: 'literal'; value: any }
+  | { type: 'array'; items: Node[] }
+  | { type: 'path'; name: string; segments: Array<string | Node> }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'unary'; op: string; arg: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node }
+  | { type: 'ternary'; test: Node; then: Node; otherwise: Node };
+
+const MAX_LENGTH = 2000;
+const MAX_DEPTH = 64;
+
+// matches() runs author-written patterns against customer text, so patterns
+// that can backtrack for a long time are refused and the text is capped
+const MAX_PATTERN_LENGTH = 200;
+const MAX_PATTERN_QUANTIFIERS = 6;
+const MAX_UNBOUNDED_QUANTIFIERS = 2;
+const MAX_MATCH_TEXT = 500;
+
+// Longest operators first so `>=` is not read as `>` then `=`
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', ',', '.', '?', ':'];
+
+const KEYWORD_OPERATORS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: '!',
+  in: 'in',
+  contains: 'contains',
+};
+
+const LITERALS: Record<string, any> = { true: true, false: false, null: null };
+
+// Own keys only, so names like `constructor` or `__proto__` never resolve
+// to something inherited from Object.prototype
+const has = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key);
+
+// Tokens after which an operator is expected rather than a value
+function endsValue(token: Token | undefined): boolean {
+  if (!token) return false;
+  if (token.type === 'op') return token.value === ')' || token.value === ']';
+  return token.type !== 'eof';
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // {{variable}} placeholders from the old condition syntax
+    if (source.startsWith('{{', i)) {
+      const end = source.indexOf('}}', i);
+      if (end === -1) throw new ExpressionError('Unclosed {{', i);
+      const name = source.slice(i + 2, end).trim();
+      if (!/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(name)) {
+        throw new ExpressionError(`Invalid variable "${name}"`, i);
+      }
+      name.split('.').forEach((part, index) => {
+        if (index > 0) tokens.push({ type: 'op', value: '.', pos: i });
+        tokens.push({ type: 'ident', value: part, pos: i });
+      });
+      i = end + 2;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const next = source[j + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          j += 2;
+        } else {
+          value += source[j++];
+        }
+      }
+      if (j >= source.length) throw new ExpressionError('Unterminated string', i);
+      tokens.push({ type: 'string', value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))!;
+      const word = match[0];
+      // `contains(a, b)` where a value is expected is the function, `a contains b` the operator
+      const isCall = has(FUNCTIONS, word)
+        && /^\s*\(/.test(source.slice(i + word.length))
+        && !endsValue(tokens[tokens.length - 1]);
+      if (has(KEYWORD_OPERATORS, word) && !isCall) {
+        tokens.push({ type: 'op', value: KEYWORD_OPERATORS[word], pos: i });
+      } else {
+        tokens.push({ type: 'ident', value: word, pos: i });
+      }
+      i += word.length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw new ExpressionError(`Unexpected character "${ch}"`, i);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'eof', pos: source.length });
+  return tokens;
+}
+
+// Binding power of binary operators, higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4, 'in': 4, 'contains': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseTernary();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionError(`Unexpected "${'value' in token ? token.value : ''}"`, token.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'op' && token.value === value;
+  }
+
+  private expect(value: string) {
+    const token = this.next();
+    if (token.type !== 'op' || token.value !== value) {
+      throw new ExpressionError(`Expected "${value}"`, token.pos);
+    }
+  }
+
+  private enter() {
+    if (++this.depth > MAX_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply');
+    }
+  }
+
+  private parseTernary(): Node {
+    this.enter();
+    const test = this.parseBinary(0);
+    if (this.isOp('?')) {
+      this.next();
+      const then = this.parseTernary();
+      this.expect(':');
+      const otherwise = this.parseTernary();
+      this.depth--;
+      return { type: 'ternary', test, then, otherwise };
+    }
+    this.depth--;
+    return test;
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      if (token.type !== 'op') break;
+
+      // `a not in b`
+      let op = token.value;
+      const following = this.tokens[this.index + 1];
+      if (op === '!' && following.type === 'op' && following.value === 'in') {
+        op = 'not in';
+      }
+
+      const precedence = PRECEDENCE[op === 'not in' ? 'in' : op];
+      if (precedence === undefined || precedence <= minPrecedence) break;
+
+      this.next();
+      if (op === 'not in') this.next();
+      const right = this.parseBinary(precedence);
+      left = { type: 'binary', op, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.isOp('!') || this.isOp('-') || this.isOp('+')) {
+      const op = (this.next() as { value: string }).value;
+      this.enter();
+      const arg = this.parseUnary();
+      this.depth--;
+      return { type: 'unary', op, arg };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'ident': {
+        if (has(LITERALS, token.value)) {
+          return { type: 'literal', value: LITERALS[token.value] };
+        }
+
+        if (this.isOp('(')) {
+          this.next();
+          if (!has(FUNCTIONS, token.value)) {
+            throw new ExpressionError(`Unknown function "${token.value}"`, token.pos);
+          }
+          const args = this.parseList(')');
+          const pattern = args[1];
+          if (token.value === 'matches' && pattern?.type === 'literal' && typeof pattern.value === 'string') {
+            const problem = patternProblem(pattern.value);
+            if (problem) throw new ExpressionError(problem, token.pos);
+          }
+          return { type: 'call', name: token.value, args };
+        }
+
+        const segments: Array<string | Node> = [];
+        while (this.isOp('.') || this.isOp('[')) {
+          const accessor = this.next() as { value: string };
+          if (accessor.value === '.') {
+            const property = this.next();
+            if (property.type !== 'ident') {
+              throw new ExpressionError('Expected property name', property.pos);
+            }
+            segments.push(property.value);
+          } else {
+            segments.push(this.parseTernary());
+            this.expect(']');
+          }
+        }
+        return { type: 'path', name: token.value, segments };
+      }
+
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseTernary();
+          this.expect(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          return { type: 'array', items: this.parseList(']') };
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.pos);
+
+      default:
+        throw new ExpressionError('Unexpected end of expression', token.pos);
+    }
+  }
+
+  private parseList(close: string): Node[] {
+    const items: Node[] = [];
+    if (this.isOp(close)) {
+      this.next();
+      return items;
+    }
+    while (true) {
+      items.push(this.parseTernary());
+      if (this.isOp(',')) {
+        this.next();
+        continue;
+      }
+      this.expect(close);
+      return items;
+    }
+  }
+}
+
+// ─── Functions ───────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: any): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'number' || typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function toNumber(value: any): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  const parsed = parseFloat(String(value ?? '').replace(/,/g, ''));
+  return isNaN(parsed) ? NaN : parsed;
+}
+
+function toText(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Why a matches() pattern is refused, or null when it is safe to run.
+ * Backtracking blows up on nested or alternated repeats such as (a+)+ or
+ * (a|ab)*, on backreferences, and on several unbounded repeats in a row, so
+ * those are rejected instead of run. Lookarounds are refused with them.
+ */
+function patternProblem(source: string): string | null {
+  if (source.length > MAX_PATTERN_LENGTH) return 'Pattern is too long';
+
+  // Per open group: whether it holds a quantifier or an alternation
+  const groups: Array<{ repeats: boolean; alternates: boolean }> = [];
+  let last: { repeats: boolean; alternates: boolean } | null = null; // what a quantifier would apply to
+  let quantifiers = 0;
+  let unbounded = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+
+    if (ch === '\\') {
+      if (/[1-9k]/.test(source[i + 1] || '')) return 'Backreferences are not allowed in patterns';
+      i++;
+      last = { repeats: false, alternates: false };
+      continue;
+    }
+
+    if (ch === '[') {
+      let j = i + 1;
+      if (source[j] === '^') j++;
+      if (source[j] === ']') j++;
+      while (j < source.length && source[j] !== ']') {
+        if (source[j] === '\\') j++;
+        j++;
+      }
+      i = j;
+      last = { repeats: false, alternates: false };
+      continue;
+    }
+
+    if (ch === '(') {
+      if (source[i + 1] === '?') {
+        const named = source[i + 2] === '<' && source[i + 3] !== '=' && source[i + 3] !== '!';
+        if (source[i + 2] !== ':' && !named) return 'Lookarounds are not allowed in patterns';
+      }
+      groups.push({ repeats: false, alternates: false });
+      last = null;
+      continue;
+    }
+
+    if (ch === ')') {
+      last = groups.pop() ?? null;
+      if (last?.repeats && groups.length > 0) groups[groups.length - 1].repeats = true;
+      continue;
+    }
+
+    if (ch === '|') {
+      if (groups.length > 0) groups[groups.length - 1].alternates = true;
+      last = null;
+      continue;
+    }
+
+    const range = ch === '{' ? /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i)) : null;
+    if (ch === '*' || ch === '+' || ch === '?' || range) {
+      const exact = !!range && range[2] === undefined; // {n}
+      const many = ch === '*' || ch === '+' || (!!range && !exact); // anything but ? and {n}
+      if (!exact) {
+        if (many && last && (last.repeats || last.alternates)) {
+          return 'Nested or alternated repeats are not allowed in patterns';
+        }
+        quantifiers++;
+        if (many) unbounded++;
+        if (groups.length > 0) groups[groups.length - 1].repeats = true;
+      }
+      if (range) i += range[0].length - 1;
+      if (source[i + 1] === '?') i++; // lazy
+      last = null;
+      continue;
+    }
+
+    last = { repeats: false, alternates: false };
+  }
+
+  if (quantifiers > MAX_PATTERN_QUANTIFIERS || unbounded > MAX_UNBOUNDED_QUANTIFIERS) {
+    return 'Pattern has too many repeats';
+  }
+  return null;
+}
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  // strings
+  lower: (s) => toText(s).toLowerCase(),
+  upper: (s) => toText(s).toUpperCase(),
+  trim: (s) => toText(s).trim(),
+  len: (v) => (Array.isArray(v) ? v.length : toText(v).length),
+  startsWith: (s, prefix) => toText(s).toLowerCase().startsWith(toText(prefix).toLowerCase()),
+  endsWith: (s, suffix) => toText(s).toLowerCase().endsWith(toText(suffix).toLowerCase()),
+  contains: (haystack, needle) => containsValue(haystack, needle),
+  replace: (s, search, replacement) => toText(s).split(toText(search)).join(toText(replacement)),
+  substring: (s, start, end) => toText(s).substring(toNumber(start), end === undefined ? undefined : toNumber(end)),
+  split: (s, separator) => toText(s).split(toText(separator)),
+  join: (list, separator) => (Array.isArray(list) ? list.map(toText).join(separator === undefined ? ', ' : toText(separator)) : toText(list)),
+  // Only the first MAX_MATCH_TEXT characters are matched
+  matches: (s, pattern) => {
+    const source = toText(pattern);
+    const problem = patternProblem(source);
+    if (problem) throw new ExpressionError(problem);
+    let regex: RegExp;
+    try {
+      regex = new RegExp(source, 'i');
+    } catch {
+      throw new ExpressionError(`Invalid pattern "${source}"`);
+    }
+    return regex.test(toText(s).slice(0, MAX_MATCH_TEXT));
+  },
+  string: (v) => toText(v),
+  isEmpty: (v) => v === null || v === undefined || (Array.isArray(v) ? v.length === 0 : toText(v).trim() === ''),
+  coalesce: (...values) => values.find((v) => v !== null && v !== undefined && v !== '') ?? null,
+
+  // numbers
+  number: (v) => toNumber(v),
+  round: (n, digits) => {
+    const factor = Math.pow(10, digits === undefined ? 0 : toNumber(digits));
+    return Math.round(toNumber(n) * factor) / factor;
+  },
+  floor: (n) => Math.floor(toNumber(n)),
+  ceil: (n) => Math.ceil(toNumber(n)),
+  abs: (n) => Math.abs(toNumber(n)),
+  min: (...values) => Math.min(...values.flat().map(toNumber)),
+  max: (...values) => Math.max(...values.flat().map(toNumber)),
+
+  // dates
+  now: () => new Date(),
+  today: () => {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+    return date;
+  },
+  date: (v) => toDate(v),
+  addDays: (d, days) => {
+    const date = toDate(d);
+    return date ? new Date(date.getTime() + toNumber(days) * DAY_MS) : null;
+  },
+  daysBetween: (a, b) => {
+    const from = toDate(a);
+    const to = toDate(b);
+    return from && to ? Math.floor((to.getTime() - from.getTime()) / DAY_MS) : null;
+  },
+  dayOfWeek: (d) => toDate(d)?.getUTCDay() ?? null, // 0 = Sunday, UTC
+  hour: (d) => toDate(d)?.getUTCHours() ?? null, // UTC
+  formatDate: (d) => toDate(d)?.toISOString().slice(0, 10) ?? '',
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// ─── Evaluation ──────────────────────────────
+
+function containsValue(haystack: any, needle: any): boolean {
+  if (Array.isArray(haystack)) {
+    return haystack.some((item) => looseEquals(item, needle));
+  }
+  if (haystack === null || haystack === undefined) return false;
+  return toText(haystack).toLowerCase().includes(toText(needle).toLowerCase());
+}
+
+// Values from variables are usually strings, so "10" == 10 and
+// "Yes" == "yes" are treated as equal
+function looseEquals(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    const x = toNumber(a);
+    const y = toNumber(b);
+    if (!isNaN(x) && !isNaN(y)) return x === y;
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    return toText(a).toLowerCase() === toText(b).toLowerCase();
+  }
+  const dateA = a instanceof Date ? a : null;
+  const dateB = b instanceof Date ? b : null;
+  if (dateA || dateB) {
+    return toDate(a)?.getTime() === toDate(b)?.getTime();
+  }
+  return toText(a).toLowerCase() === toText(b).toLowerCase();
+}
+
+function compare(a: any, b: any): number {
+  if (a instanceof Date || b instanceof Date) {
+    const x = toDate(a)?.getTime() ?? NaN;
+    const y = toDate(b)?.getTime() ?? NaN;
+    return x - y;
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (!isNaN(x) && !isNaN(y)) return x - y;
+  return toText(a).localeCompare(toText(b));
+}
+
+function truthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    return normalized !== '' && normalized !== 'false' && normalized !== '0';
+  }
+  return Boolean(value);
+}
+
+// Property reads are limited to own, non-prototype keys
+function readProperty(target: any, key: any): any {
+  if (target === null || target === undefined) return undefined;
+  const name = typeof key === 'number' ? key : toText(key);
+  if (name === '__proto__' || name === 'constructor' || name === 'prototype') return undefined;
+  if (typeof target === 'string' && name === 'length') return target.length;
+  if (Array.isArray(target) && name === 'length') return target.length;
+  if (typeof target !== 'object') return undefined;
+  return has(target, String(name)) ? target[name] : undefined;
+}
+
+function evaluateNode(node: Node, scope: Record<string, any>): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'array':
+      return node.items.map((item) => evaluateNode(item, scope));
+
+    case 'path': {
+      let value = readProperty(scope, node.name);
+      for (const segment of node.segments) {
+        const key = typeof segment === 'string' ? segment : evaluateNode(segment, scope);
+        value = readProperty(value, key);
+      }
+      return value;
+    }
+
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map((arg) => evaluateNode(arg, scope)));
+
+    case 'unary': {
+      const value = evaluateNode(node.arg, scope);
+      if (node.op === '!') return !truthy(value);
+      if (node.op === '-') return -toNumber(value);
+      return toNumber(value);
+    }
+
+    case 'ternary':
+      return truthy(evaluateNode(node.test, scope))
+        ? evaluateNode(node.then, scope)
+        : evaluateNode(node.otherwise, scope);
+
+    case 'binary': {
+      // Short-circuit boolean operators
+      if (node.op === '&&') {
+        return truthy(evaluateNode(node.left, scope)) && truthy(evaluateNode(node.right, scope));
+      }
+      if (node.op === '||') {
+        return truthy(evaluateNode(node.left, scope)) || truthy(evaluateNode(node.right, scope));
+      }
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      switch (node.op) {
+        case '==':
+        case '===':
+          return looseEquals(left, right);
+        case '!=':
+        case '!==':
+          return !looseEquals(left, right);
+        case '<':
+          return compare(left, right) < 0;
+        case '<=':
+          return compare(left, right) <= 0;
+        case '>':
+          return compare(left, right) > 0;
+        case '>=':
+          return compare(left, right) >= 0;
+        case 'in':
+          // `tags in ['vip']` on a list is true when any element is in the right-hand list
+          return Array.isArray(left) && Array.isArray(right)
+            ? left.some((item) => containsValue(right, item))
+            : containsValue(right, left);
+        case 'not in':
+          return Array.isArray(left) && Array.isArray(right)
+            ? !left.some((item) => containsValue(right, item))
+            : !containsValue(right, left);
+        case 'contains':
+          return containsValue(left, right);
+        case '+':
+          if (typeof left === 'number' && typeof right === 'number') return left + right;
+          if (left instanceof Date) return new Date(left.getTime() + toNumber(right));
+          return typeof left === 'string' || typeof right === 'string'
+            ? toText(left) + toText(right)
+            : toNumber(left) + toNumber(right);
+        case '-':
+          if (left instanceof Date && right instanceof Date) return left.getTime() - right.getTime();
+          return toNumber(left) - toNumber(right);
+        case '*':
+          return toNumber(left) * toNumber(right);
+        case '/':
+          return toNumber(left) / toNumber(right);
+        case '%':
+          return toNumber(left) % toNumber(right);
+        default:
+          throw new ExpressionError(`Unknown operator "${node.op}"`);
+      }
+    }
+  }
+}
+
+export type CompiledExpression = (scope: Record<string, any>) => any;
+
+export function compileExpression(source: string): CompiledExpression {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ExpressionError('Expression is empty');
+  }
+  if (source.length > MAX_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_LENGTH} characters`);
+  }
+  const ast = new Parser(tokenize(source)).parse();
+  return (scope) => evaluateNode(ast, scope);
+}
+
+export function evaluateExpression(source: string, scope: Record<string, any>): any {
+  return compileExpression(source)(scope);
+}
+
+// Evaluate and coerce to a boolean the same way conditions do
+export function evaluateCondition(source: string, scope: Record<string, any>): boolean {
+  return truthy(evaluateExpression(source, scope));
+}
+
+// Returns an error message, or null when the expression parses
+export function validateExpression(source: string): string | null {
+  try {
+    compileExpression(source);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
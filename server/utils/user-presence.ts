@@ -0,0 +1,34 @@
+// Agent presence, from the time of each user's last authenticated request.
+//
+// There is no live socket per agent, so a user counts as online while they
+// keep using the app: any request within ONLINE_WINDOW_MINUTES.
+import { eq, gte } from "drizzle-orm";
+import { db } from "../db";
+import { users } from "@shared/schema";
+
+export const ONLINE_WINDOW_MINUTES = 5;
+
+// Writes are throttled so every request doesn't update the users table
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const lastTouched = new Map<string, number>();
+
+export function touchUserPresence(userId: string) {
+  const now = Date.now();
+  if (now - (lastTouched.get(userId) ?? 0) < TOUCH_INTERVAL_MS) return;
+  lastTouched.set(userId, now);
+
+  db.update(users)
+    .set({ lastSeenAt: new Date(now) })
+    .where(eq(users.id, userId))
+    .catch((error) => console.error("Failed to record user presence:", error));
+}
+
+// Logging out takes the user offline straight away
+export async function clearUserPresence(userId: string) {
+  lastTouched.delete(userId);
+  await db.update(users).set({ lastSeenAt: null }).where(eq(users.id, userId));
+}
+
+export function onlineSince() {
+  return gte(users.lastSeenAt, new Date(Date.now() - ONLINE_WINDOW_MINUTES * 60 * 1000));
+}
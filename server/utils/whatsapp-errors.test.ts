@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  WhatsAppApiError,
+  classifyFailure,
+  contactMarkFor,
+  failureDetails,
+  planFailedSend,
+  retryDelayMs,
+} from "./whatsapp-errors";
+
+const MINUTE = 60 * 1000;
+
+describe("classifyFailure", () => {
+  it("sorts known codes into their categories", () => {
+    assert.equal(classifyFailure(131000).category, "transient");
+    assert.equal(classifyFailure(130429).category, "throttled");
+    assert.equal(classifyFailure(131049).category, "ecosystem_limit");
+    assert.equal(classifyFailure(131026).category, "permanent");
+  });
+
+  it("treats errors without a code by their HTTP status", () => {
+    assert.equal(classifyFailure(undefined, 429).category, "throttled");
+    assert.equal(classifyFailure(undefined, 503).category, "transient");
+    assert.equal(classifyFailure(undefined, undefined).category, "transient");
+    assert.equal(classifyFailure(undefined, 400).category, "permanent");
+  });
+});
+
+describe("planFailedSend", () => {
+  const now = Date.UTC(2026, 0, 1);
+
+  it("requeues retryable failures within the retry limit", () => {
+    const plan = planFailedSend({ code: 131000 }, 1, 3, now);
+    assert.equal(plan.retrying, true);
+    assert.equal(plan.errorCode, "131000");
+    assert.ok(plan.retryAt && plan.retryAt.getTime() > now);
+  });
+
+  it("fails once the retry limit is used up", () => {
+    const plan = planFailedSend({ code: 131000 }, 4, 3, now);
+    assert.deepEqual(plan, { retrying: false, errorCode: "131000", retryAt: null });
+  });
+
+  it("never retries permanent failures or with no retries left", () => {
+    assert.equal(planFailedSend({ code: 131026 }, 1, 3, now).retrying, false);
+    assert.equal(planFailedSend({ code: 131000 }, 1, 0, now).retrying, false);
+  });
+
+  it("records the category when there is no code", () => {
+    assert.equal(planFailedSend({ httpStatus: 429 }, 1, 3, now).errorCode, "throttled");
+    assert.equal(planFailedSend({}, 1, 3, now).errorCode, "transient");
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("doubles up to the policy ceiling and keeps at least half", () => {
+    const policy = classifyFailure(130429); // 1 minute base, 1 hour ceiling
+    for (const [retry, full] of [[1, MINUTE], [3, 4 * MINUTE], [10, 60 * MINUTE]]) {
+      const delay = retryDelayMs(policy, retry);
+      assert.ok(delay >= full / 2 && delay <= full, `retry ${retry}: ${delay}`);
+    }
+  });
+});
+
+describe("contactMarkFor", () => {
+  it("marks contacts WhatsApp can't reach or that opted out", () => {
+    assert.equal(contactMarkFor(131026), "not_on_whatsapp");
+    assert.equal(contactMarkFor(131050), "opted_out");
+    assert.equal(contactMarkFor(131000), null);
+    assert.equal(contactMarkFor(undefined), null);
+  });
+});
+
+describe("failureDetails", () => {
+  it("keeps the API code and status of WhatsApp errors", () => {
+    assert.deepEqual(failureDetails(new WhatsAppApiError("Rate limited", 130429, 429)), {
+      code: 130429,
+      httpStatus: 429,
+      message: "Rate limited",
+    });
+    assert.deepEqual(failureDetails(new Error("socket hang up")), { message: "socket hang up" });
+  });
+});
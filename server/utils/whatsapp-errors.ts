@@ -0,0 +1,116 @@
+// Retry policies for failed WhatsApp sends, keyed by Cloud API error code.
+//
+// Codes come either from the send request or later from a "failed" status
+// webhook. Transient and throttling errors are retried with exponential
+// backoff and jitter; permanent errors fail straight away, and the ones that
+// say something about the recipient are recorded on the contact.
+
+export class WhatsAppApiError extends Error {
+  constructor(
+    message: string,
+    public code?: number,
+    public httpStatus?: number
+  ) {
+    super(message);
+    this.name = "WhatsAppApiError";
+  }
+}
+
+export type FailureCategory = "transient" | "throttled" | "ecosystem_limit" | "permanent";
+
+export interface RetryPolicy {
+  category: FailureCategory;
+  retryable: boolean;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// What a permanent error tells us about the contact
+export type ContactMark = "not_on_whatsapp" | "opted_out";
+
+// Tag put on contacts WhatsApp can't deliver to, so later campaigns skip them
+export const NOT_ON_WHATSAPP_TAG = "not_on_whatsapp";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+const POLICIES: Record<FailureCategory, RetryPolicy> = {
+  transient: { category: "transient", retryable: true, baseDelayMs: 30 * SECOND, maxDelayMs: 30 * MINUTE },
+  throttled: { category: "throttled", retryable: true, baseDelayMs: MINUTE, maxDelayMs: HOUR },
+  // Meta caps marketing messages per user; trying again within hours won't help
+  ecosystem_limit: { category: "ecosystem_limit", retryable: true, baseDelayMs: 6 * HOUR, maxDelayMs: 48 * HOUR },
+  permanent: { category: "permanent", retryable: false, baseDelayMs: 0, maxDelayMs: 0 },
+};
+
+const TRANSIENT_CODES = new Set([1, 2, 131000, 131016, 133004]);
+const THROTTLING_CODES = new Set([4, 80007, 130429, 131056]);
+const ECOSYSTEM_LIMIT_CODES = new Set([131049]);
+
+const CONTACT_MARKS: Record<number, ContactMark> = {
+  131026: "not_on_whatsapp", // message undeliverable: not on WhatsApp or can't receive it
+  131050: "opted_out", // the user stopped marketing messages from the business
+};
+
+// Codes after which retrying the recipient is pointless, as strings like campaign_recipients.error_code
+export const UNREACHABLE_ERROR_CODES = Object.keys(CONTACT_MARKS);
+
+export function classifyFailure(code?: number | null, httpStatus?: number | null): RetryPolicy {
+  if (code !== undefined && code !== null) {
+    if (TRANSIENT_CODES.has(code)) return POLICIES.transient;
+    if (THROTTLING_CODES.has(code)) return POLICIES.throttled;
+    if (ECOSYSTEM_LIMIT_CODES.has(code)) return POLICIES.ecosystem_limit;
+  }
+  if (httpStatus === 429) return POLICIES.throttled;
+  // Network errors and server-side failures without a known code
+  if ((code === undefined || code === null) && (!httpStatus || httpStatus >= 500)) return POLICIES.transient;
+  return POLICIES.permanent;
+}
+
+export function contactMarkFor(code?: number | null): ContactMark | null {
+  return code !== undefined && code !== null ? CONTACT_MARKS[code] ?? null : null;
+}
+
+/**
+ * Delay before retry number `retry` (1 for the first). Doubles each time up
+ * to the policy's ceiling, then keeps a random half so that recipients that
+ * failed together don't all come back at once.
+ */
+export function retryDelayMs(policy: RetryPolicy, retry: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, Math.max(0, retry - 1)));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+export interface FailedSendPlan {
+  retrying: boolean;
+  errorCode: string; // the API code, or the category when there is none
+  retryAt: Date | null;
+}
+
+/**
+ * What happens to a queued message after a failed send: back in the queue
+ * with a backoff while it is retryable and within `maxRetries`, failed for
+ * good otherwise. `attempts` counts the failed send.
+ */
+export function planFailedSend(
+  failure: { code?: number; httpStatus?: number },
+  attempts: number,
+  maxRetries: number,
+  now: number = Date.now()
+): FailedSendPlan {
+  const policy = classifyFailure(failure.code, failure.httpStatus);
+  const retrying = policy.retryable && attempts <= maxRetries;
+  return {
+    retrying,
+    errorCode: failure.code !== undefined && failure.code !== null ? String(failure.code) : policy.category,
+    retryAt: retrying ? new Date(now + retryDelayMs(policy, attempts)) : null,
+  };
+}
+
+// Error code and HTTP status of anything thrown while sending
+export function failureDetails(error: unknown): { code?: number; httpStatus?: number; message: string } {
+  if (error instanceof WhatsAppApiError) {
+    return { code: error.code, httpStatus: error.httpStatus, message: error.message };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
@@ -28,6 +28,7 @@ export const users = pgTable("users", {
   status: text("status").notNull().default("active"), // active, inactive
   permissions: text("permissions").array().notNull(),
   lastLogin: timestamp("last_login"),
+  lastSeenAt: timestamp("last_seen_at"), // last authenticated request, agents count as online for a few minutes after
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -87,6 +88,8 @@ export const contacts = pgTable(
     groups: jsonb("groups").$type<string[]>().default([]),
     tags: jsonb("tags").default([]),
     status: text("status").default("active"), // active, blocked, unsubscribed
+    timezone: text("timezone"), // IANA zone, e.g. Asia/Kolkata
+    customFields: jsonb("custom_fields").$type<Record<string, unknown>>().default({}), // written by update_contact nodes
     lastContact: timestamp("last_contact"),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
@@ -124,8 +127,18 @@ export const campaigns = pgTable(
     csvData: jsonb("csv_data").default([]), // For CSV campaign
     apiKey: varchar("api_key"), // For API campaign
     apiEndpoint: text("api_endpoint"), // For API campaign
-    status: text("status").default("draft"), // draft, scheduled, active, paused, completed
+    status: text("status").default("draft"), // draft, scheduled, active, paused, completed, cancelled
     scheduledAt: timestamp("scheduled_at"),
+    timezone: text("timezone"), // IANA zone the schedule was entered in, UTC when unset
+    sendAtLocalTime: boolean("send_at_local_time").default(false), // deliver at the scheduled wall-clock time in each recipient's timezone
+    maxRetries: integer("max_retries").default(3), // retries per recipient for transient, throttling and ecosystem-limit errors
+    // A/B test across campaign_variants: with a sample percentage only that share gets the test and
+    // the rest waits ("held") for the variant that wins on abTestMetric after abTestWindowHours
+    abTestSamplePercent: integer("ab_test_sample_percent"),
+    abTestWindowHours: integer("ab_test_window_hours").default(24),
+    abTestMetric: text("ab_test_metric").default("read"), // delivered, read, replied
+    abTestEndsAt: timestamp("ab_test_ends_at"),
+    winningVariantId: varchar("winning_variant_id"),
     recipientCount: integer("recipient_count").default(0),
     sentCount: integer("sent_count").default(0),
     deliveredCount: integer("delivered_count").default(0),
@@ -143,6 +156,56 @@ export const campaigns = pgTable(
   })
 );
 
+// Campaign Events table, the audit trail of a campaign's status changes
+export const campaignEvents = pgTable(
+  "campaign_events",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    campaignId: varchar("campaign_id")
+      .notNull()
+      .references(() => campaigns.id, { onDelete: "cascade" }),
+    event: text("event").notNull(), // created, scheduled, started, paused, resumed, cancelled, completed, retried, winner_selected, status_changed
+    fromStatus: text("from_status"),
+    toStatus: text("to_status"),
+    userId: varchar("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }), // null when the scheduler or queue made the change
+    details: jsonb("details").default({}),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    campaignEventCampaignIdx: index("campaign_events_campaign_idx").on(
+      table.campaignId,
+      table.createdAt
+    ),
+  })
+);
+
+// Campaign Variants table, the templates or parameter sets an A/B test splits its audience across
+export const campaignVariants = pgTable(
+  "campaign_variants",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    campaignId: varchar("campaign_id")
+      .notNull()
+      .references(() => campaigns.id, { onDelete: "cascade" }),
+    label: text("label").notNull(), // A, B, C, D
+    templateId: varchar("template_id").references(() => templates.id),
+    templateName: text("template_name"),
+    templateLanguage: text("template_language"),
+    variableMapping: jsonb("variable_mapping").$type<Record<string, string>>().default({}),
+    percentage: integer("percentage").notNull(), // share of the tested recipients
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    campaignVariantCampaignIdx: index("campaign_variants_campaign_idx").on(table.campaignId),
+  })
+);
+
 // Campaign Recipients table for tracking individual recipient status
 export const campaignRecipients = pgTable(
   "campaign_recipients",
@@ -158,7 +221,11 @@ export const campaignRecipients = pgTable(
     }),
     phone: text("phone").notNull(),
     name: text("name"),
-    status: text("status").default("pending"), // pending, sent, delivered, read, failed
+    status: text("status").default("pending"), // held, pending, sent, delivered, read, failed, cancelled
+    variantId: varchar("variant_id").references(() => campaignVariants.id, {
+      onDelete: "set null",
+    }),
+    released: boolean("released").default(false), // held back by a sample test and sent the winning variant
     whatsappMessageId: varchar("whatsapp_message_id"),
     templateParams: jsonb("template_params").default({}),
     sentAt: timestamp("sent_at"),
@@ -196,10 +263,20 @@ export const channels = pgTable("channels", {
   healthStatus: text("health_status").default("unknown"), // healthy, warning, error, unknown
   lastHealthCheck: timestamp("last_health_check"),
   healthDetails: jsonb("health_details").default({}), // Detailed health information
+  throughputTier: text("throughput_tier").default("standard"), // standard, high - see CHANNEL_THROUGHPUT_TIERS
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Messages per second the Cloud API accepts from a phone number. Numbers start
+// on "standard" and Meta upgrades eligible ones to "high".
+export const CHANNEL_THROUGHPUT_TIERS = {
+  standard: 80,
+  high: 1000,
+} as const;
+
+export type ChannelThroughputTier = keyof typeof CHANNEL_THROUGHPUT_TIERS;
+
 export const templates = pgTable("templates", {
   id: varchar("id")
     .primaryKey()
@@ -315,6 +392,43 @@ export const messages = pgTable(
 );
 
 // Automation workflows table
+// Trigger filters and settings, stored in automations.trigger_config
+export interface AutomationTriggerConfig {
+  keywords?: string[];
+  matchType?: "any" | "all" | "exact" | "regex";
+  caseSensitive?: boolean;
+  firstMessageOnly?: boolean;
+  businessHours?: {
+    enabled?: boolean;
+    timezone?: string; // IANA zone, defaults to UTC
+    days?: number[]; // 0 = Sunday ... 6 = Saturday
+    start?: string; // HH:MM
+    end?: string; // HH:MM
+  };
+  contactTags?: string[]; // contact needs at least one of these
+  excludeTags?: string[]; // contact must have none of these
+  schedule?: AutomationSchedule; // schedule trigger
+  eventTags?: string[]; // tag_added: only these tags, empty for any
+  campaignIds?: string[]; // campaign_message_read: only these campaigns, empty for any
+  priority?: number; // higher wins when several automations match
+  cooldownMinutes?: number; // don't start again for the same contact within this window
+  limits?: AutomationExecutionLimits;
+}
+
+// Cron schedule and the contacts it runs for, see server/utils/automation-schedule.ts
+export interface AutomationSchedule {
+  cron?: string; // minute hour day-of-month month day-of-week
+  timezone?: string; // IANA zone, defaults to UTC
+  groups?: string[]; // contacts in any of these groups
+}
+
+// Guards for a single execution, defaults in server/utils/automation-limits.ts
+export interface AutomationExecutionLimits {
+  maxNodeVisits?: number;
+  maxMessages?: number;
+  maxDurationHours?: number; // from start, including delays
+}
+
 export const automations = pgTable(
   "automations",
   {
@@ -326,9 +440,16 @@ export const automations = pgTable(
     }),
     name: text("name").notNull(),
     description: text("description"),
-    trigger: text("trigger").notNull(), // message_received, keyword, schedule, api_webhook
-    triggerConfig: jsonb("trigger_config").default({}),
+    // new_conversation, message_received, keyword, schedule, api_webhook, contact_created,
+    // tag_added, conversation_closed, campaign_message_read
+    trigger: text("trigger").notNull(),
+    triggerConfig: jsonb("trigger_config").$type<AutomationTriggerConfig>().default({}),
+    webhookSecret: varchar("webhook_secret").unique(), // path of the api_webhook trigger URL
+    lastScheduledRunAt: timestamp("last_scheduled_run_at"), // minute the schedule last fired
     status: text("status").default("inactive"), // active, inactive, paused
+    // Version new executions run on; nodes and edges tables hold the draft.
+    // No foreign key, automation_versions already references this table.
+    publishedVersionId: varchar("published_version_id"),
     executionCount: integer("execution_count").default(0),
     lastExecutedAt: timestamp("last_executed_at"),
     createdBy: varchar("created_by").references(() => users.id),
@@ -390,6 +511,10 @@ export const automationEdges = pgTable(
       .notNull()
       .references(() => automationNodes.nodeId, { onDelete: "cascade" }),
 
+    // Output the edge leaves from, e.g. true/false or a switch case id
+    sourceHandle: varchar("source_handle"),
+    label: text("label"), // branch label shown on the canvas
+
     animated: boolean("animated").default(false),
 
     createdAt: timestamp("created_at").defaultNow(),
@@ -402,11 +527,62 @@ export const automationEdges = pgTable(
     edgeUniqueIdx: unique("automation_edges_unique_idx").on(
       table.automationId,
       table.sourceNodeId,
+      table.sourceHandle,
       table.targetNodeId
     ),
   })
 );
 
+// ─── Automation Versions ──────────────────────
+// Immutable snapshots of a published flow
+export const automationVersions = pgTable(
+  "automation_versions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    automationId: varchar("automation_id")
+      .notNull()
+      .references(() => automations.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    trigger: text("trigger").notNull(),
+    triggerConfig: jsonb("trigger_config").$type<AutomationTriggerConfig>().default({}),
+    nodes: jsonb("nodes").$type<AutomationVersionNode[]>().notNull().default([]),
+    edges: jsonb("edges").$type<AutomationVersionEdge[]>().notNull().default([]),
+    note: text("note"), // e.g. "Rolled back to v3"
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    versionAutomationIdx: index("automation_versions_automation_idx").on(
+      table.automationId
+    ),
+    versionUniqueIdx: unique("automation_versions_unique_idx").on(
+      table.automationId,
+      table.version
+    ),
+  })
+);
+
+export interface AutomationVersionNode {
+  nodeId: string;
+  type: string;
+  subtype?: string | null;
+  position?: unknown;
+  measured?: unknown;
+  data?: any;
+  connections?: unknown;
+}
+
+export interface AutomationVersionEdge {
+  id: string;
+  sourceNodeId: string;
+  targetNodeId: string;
+  sourceHandle?: string | null;
+  label?: string | null;
+  animated?: boolean | null;
+}
+
 // ─── Automation Executions ────────────────────
 export const automationExecutions = pgTable(
   "automation_executions",
@@ -422,13 +598,21 @@ export const automationExecutions = pgTable(
       () => conversations.id
     ),
     triggerData: jsonb("trigger_data").default({}),
-    status: text("status").notNull(), // running, completed, failed
-    currentNodeId: varchar("current_node_id"),
+    status: text("status").notNull(), // running, paused, completed, failed
+    versionId: varchar("version_id").references(() => automationVersions.id), // null runs the draft
+    currentNodeId: varchar("current_node_id"), // node being executed, or the node to resume from while paused
+    nodeVisits: integer("node_visits").default(0), // checked against the automation's limits
+    messagesSent: integer("messages_sent").default(0),
     executionPath: jsonb("execution_path").default([]),
     variables: jsonb("variables").default({}),
+    waitingFor: text("waiting_for"), // user_reply, time_gap
+    resumeData: jsonb("resume_data").default({}), // saveAs, expectedButtons, lastUserMessage
+    resumeAt: timestamp("resume_at"), // when a time_gap wait is due
+    heartbeatAt: timestamp("heartbeat_at"), // refreshed while an instance is running the execution
     result: text("result"),
     error: text("error"),
     startedAt: timestamp("started_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
     completedAt: timestamp("completed_at"),
   },
   (table) => ({
@@ -438,6 +622,14 @@ export const automationExecutions = pgTable(
     executionStatusIdx: index("automation_executions_status_idx").on(
       table.status
     ),
+    executionConversationIdx: index(
+      "automation_executions_conversation_idx"
+    ).on(table.conversationId, table.status),
+    executionContactIdx: index("automation_executions_contact_idx").on(
+      table.automationId,
+      table.contactId,
+      table.startedAt
+    ),
   })
 );
 
@@ -457,6 +649,7 @@ export const automationExecutionLogs = pgTable(
     input: jsonb("input").default({}),
     output: jsonb("output").default({}),
     error: text("error"),
+    variables: jsonb("variables"), // variables after the step, for the run timeline
     executedAt: timestamp("executed_at").defaultNow(),
   },
   (table) => ({
@@ -466,6 +659,77 @@ export const automationExecutionLogs = pgTable(
   })
 );
 
+// ─── Automation Timers ────────────────────────
+// Durable wake-ups for time_gap nodes, polled by the automation timer worker
+export const automationTimers = pgTable(
+  "automation_timers",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    executionId: varchar("execution_id")
+      .notNull()
+      .references(() => automationExecutions.id, { onDelete: "cascade" }),
+    automationId: varchar("automation_id")
+      .notNull()
+      .references(() => automations.id, { onDelete: "cascade" }),
+    conversationId: varchar("conversation_id").references(
+      () => conversations.id,
+      { onDelete: "cascade" }
+    ),
+    nodeId: varchar("node_id").notNull(),
+    fireAt: timestamp("fire_at").notNull(),
+    status: text("status").notNull().default("pending"), // pending, fired, cancelled
+    firedAt: timestamp("fired_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    timerDueIdx: index("automation_timers_due_idx").on(
+      table.status,
+      table.fireAt
+    ),
+    timerExecutionIdx: index("automation_timers_execution_idx").on(
+      table.executionId
+    ),
+    timerConversationIdx: index("automation_timers_conversation_idx").on(
+      table.conversationId
+    ),
+  })
+);
+
+// ─── Contact Changes ──────────────────────────
+// Field-level history of contact updates, e.g. from update_contact nodes
+export const contactChanges = pgTable(
+  "contact_changes",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    contactId: varchar("contact_id")
+      .notNull()
+      .references(() => contacts.id, { onDelete: "cascade" }),
+    field: text("field").notNull(), // name, email, status, tags, groups or customFields.<key>
+    oldValue: jsonb("old_value"),
+    newValue: jsonb("new_value"),
+    source: text("source").notNull().default("automation"),
+    automationId: varchar("automation_id").references(() => automations.id, {
+      onDelete: "set null",
+    }),
+    executionId: varchar("execution_id").references(
+      () => automationExecutions.id,
+      { onDelete: "set null" }
+    ),
+    nodeId: varchar("node_id"),
+    changedAt: timestamp("changed_at").defaultNow(),
+  },
+  (table) => ({
+    contactChangeContactIdx: index("contact_changes_contact_idx").on(
+      table.contactId,
+      table.changedAt
+    ),
+  })
+);
+
 export const analytics = pgTable("analytics", {
   id: varchar("id")
     .primaryKey()
@@ -523,10 +787,12 @@ export const messageQueue = pgTable("message_queue", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
-  campaignId: varchar("campaign_id").references(() => campaigns.id),
-  channelId: varchar("channel_id").references(() => whatsappChannels.id),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }),
+  recipientId: varchar("recipient_id").references(() => campaignRecipients.id, { onDelete: "cascade" }),
+  channelId: varchar("channel_id").references(() => channels.id, { onDelete: "cascade" }),
   recipientPhone: varchar("recipient_phone", { length: 20 }).notNull(),
   templateName: varchar("template_name", { length: 100 }),
+  templateLanguage: varchar("template_language", { length: 20 }),
   templateParams: jsonb("template_params").default([]),
   messageType: varchar("message_type", { length: 20 }).notNull(), // marketing, utility, authentication
   status: varchar("status", { length: 20 }).default("queued"), // queued, processing, sent, delivered, failed
@@ -542,7 +808,10 @@ export const messageQueue = pgTable("message_queue", {
   deliveredAt: timestamp("delivered_at"),
   readAt: timestamp("read_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  queueDueIdx: index("message_queue_due_idx").on(table.channelId, table.status, table.scheduledFor),
+  queueCampaignIdx: index("message_queue_campaign_idx").on(table.campaignId, table.status),
+}));
 
 // API Request Logs for debugging
 export const apiLogs = pgTable("api_logs", {
@@ -720,18 +989,26 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
 });
 export const insertAutomationSchema = createInsertSchema(automations).omit({
   id: true,
+  webhookSecret: true,
+  lastScheduledRunAt: true,
   createdAt: true,
   updatedAt: true,
 });
 export const insertAutomationNodeSchema = createInsertSchema(
   automationNodes
 ).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertAutomationVersionSchema = createInsertSchema(
+  automationVersions
+).omit({ id: true, createdAt: true });
 export const insertAutomationExecutionSchema = createInsertSchema(
   automationExecutions
 ).omit({ id: true, startedAt: true });
 export const insertAutomationExecutionLogSchema = createInsertSchema(
   automationExecutionLogs
 ).omit({ id: true, executedAt: true });
+export const insertAutomationTimerSchema = createInsertSchema(
+  automationTimers
+).omit({ id: true, createdAt: true });
 export const insertAnalyticsSchema = createInsertSchema(analytics).omit({
   id: true,
   createdAt: true,
@@ -779,6 +1056,8 @@ export type Automation = typeof automations.$inferSelect;
 export type InsertAutomation = z.infer<typeof insertAutomationSchema>;
 export type AutomationNode = typeof automationNodes.$inferSelect;
 export type InsertAutomationNode = z.infer<typeof insertAutomationNodeSchema>;
+export type AutomationVersion = typeof automationVersions.$inferSelect;
+export type InsertAutomationVersion = z.infer<typeof insertAutomationVersionSchema>;
 export type AutomationExecution = typeof automationExecutions.$inferSelect;
 export type InsertAutomationExecution = z.infer<
   typeof insertAutomationExecutionSchema
@@ -788,6 +1067,9 @@ export type AutomationExecutionLog =
 export type InsertAutomationExecutionLog = z.infer<
   typeof insertAutomationExecutionLogSchema
 >;
+export type AutomationTimer = typeof automationTimers.$inferSelect;
+export type ContactChange = typeof contactChanges.$inferSelect;
+export type InsertAutomationTimer = z.infer<typeof insertAutomationTimerSchema>;
 export type Analytics = typeof analytics.$inferSelect;
 export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
 export type WhatsappChannel = typeof whatsappChannels.$inferSelect;
@@ -802,6 +1084,8 @@ export type CampaignRecipient = typeof campaignRecipients.$inferSelect;
 export type InsertCampaignRecipient = z.infer<
   typeof insertCampaignRecipientSchema
 >;
+export type CampaignEvent = typeof campaignEvents.$inferSelect;
+export type CampaignVariant = typeof campaignVariants.$inferSelect;
 export type ConversationAssignment =
   typeof conversationAssignments.$inferSelect;
 export type InsertConversationAssignment = z.infer<
@@ -839,8 +1123,24 @@ export const campaignsRelations = relations(campaigns, ({ one, many }) => ({
     references: [templates.id],
   }),
   recipients: many(campaignRecipients),
+  variants: many(campaignVariants),
 }));
 
+export const campaignVariantsRelations = relations(
+  campaignVariants,
+  ({ one, many }) => ({
+    campaign: one(campaigns, {
+      fields: [campaignVariants.campaignId],
+      references: [campaigns.id],
+    }),
+    template: one(templates, {
+      fields: [campaignVariants.templateId],
+      references: [templates.id],
+    }),
+    recipients: many(campaignRecipients),
+  })
+);
+
 export const campaignRecipientsRelations = relations(
   campaignRecipients,
   ({ one }) => ({
@@ -852,6 +1152,10 @@ export const campaignRecipientsRelations = relations(
       fields: [campaignRecipients.contactId],
       references: [contacts.id],
     }),
+    variant: one(campaignVariants, {
+      fields: [campaignRecipients.variantId],
+      references: [campaignVariants.id],
+    }),
   })
 );
 
@@ -937,9 +1241,20 @@ export const automationsRelations = relations(automations, ({ one, many }) => ({
   }),
   nodes: many(automationNodes),
   edges: many(automationEdges),
+  versions: many(automationVersions),
   executions: many(automationExecutions),
 }));
 
+export const automationVersionsRelations = relations(
+  automationVersions,
+  ({ one }) => ({
+    automation: one(automations, {
+      fields: [automationVersions.automationId],
+      references: [automations.id],
+    }),
+  })
+);
+
 export const automationNodesRelations = relations(
   automationNodes,
   ({ one }) => ({
@@ -979,6 +1294,16 @@ export const automationExecutionsRelations = relations(
   })
 );
 
+export const automationTimersRelations = relations(
+  automationTimers,
+  ({ one }) => ({
+    execution: one(automationExecutions, {
+      fields: [automationTimers.executionId],
+      references: [automationExecutions.id],
+    }),
+  })
+);
+
 export const automationExecutionLogsRelations = relations(
   automationExecutionLogs,
   ({ one }) => ({